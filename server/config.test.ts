@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { ConfigError, loadConfig } from './config.js';
+
+const BASE_ENV = {
+  SPOTIFY_CLIENT_ID: 'client-id',
+  SPOTIFY_CLIENT_SECRET: 'client-secret'
+};
+
+const SESSION_SECRET = 'x'.repeat(32);
+
+const problemsOf = (env: NodeJS.ProcessEnv): string[] => {
+  try {
+    loadConfig(env);
+  } catch (error) {
+    if (error instanceof ConfigError) return error.problems;
+    throw error;
+  }
+  throw new Error('Expected loadConfig to throw');
+};
+
+describe('loadConfig', () => {
+  it('fills in defaults for a minimal token-mode setup', () => {
+    const config = loadConfig(BASE_ENV);
+
+    expect(config).toMatchObject({
+      port: 3001,
+      authMode: 'token',
+      redirectUri: 'http://localhost:5173/callback',
+      clientAppUrl: 'http://localhost:5173',
+      allowedOrigins: ['http://localhost:5173'],
+      sessionSecret: '',
+      trustProxy: false,
+      rateLimit: { windowMs: 60000, max: 30 },
+      logLevel: 'info'
+    });
+  });
+
+  it('reports every problem at once', () => {
+    const problems = problemsOf({
+      AUTH_MODE: 'session',
+      SESSION_SECRET: 'short',
+      PORT: '70000',
+      RATE_LIMIT_MAX: '0',
+      LOG_LEVEL: 'loud',
+      SPOTIFY_REDIRECT_URI: 'ftp://example.com/callback'
+    });
+
+    expect(problems).toEqual([
+      'SPOTIFY_CLIENT_ID is required',
+      'SPOTIFY_CLIENT_SECRET is required',
+      'SPOTIFY_REDIRECT_URI must be an http(s) URL (got "ftp://example.com/callback")',
+      'AUTH_MODE=session requires SESSION_SECRET (at least 32 characters)',
+      'LOG_LEVEL must be one of debug, info, warn, error (got "loud")',
+      'PORT must be a whole number between 1 and 65535 (got "70000")',
+      `RATE_LIMIT_MAX must be a whole number between 1 and ${Number.MAX_SAFE_INTEGER} (got "0")`
+    ]);
+  });
+
+  it('lists the problems in the error message', () => {
+    expect(() => loadConfig({ AUTH_MODE: 'cookie' })).toThrow(
+      /Invalid auth server configuration:\n {2}- AUTH_MODE must be "token" or "session" \(got "cookie"\)/
+    );
+  });
+
+  it('only accepts a wildcard origin in token mode', () => {
+    expect(loadConfig({ ...BASE_ENV, ALLOWED_ORIGINS: '*' }).allowedOrigins).toEqual(['*']);
+    expect(problemsOf({ ...BASE_ENV, AUTH_MODE: 'session', SESSION_SECRET, ALLOWED_ORIGINS: '*' })).toEqual([
+      'ALLOWED_ORIGINS can\'t be "*" in session mode - list the client origins'
+    ]);
+  });
+
+  it('normalizes origins and rejects entries with a path', () => {
+    expect(loadConfig({ ...BASE_ENV, ALLOWED_ORIGINS: 'https://a.example.com/, https://b.example.com' }).allowedOrigins)
+      .toEqual(['https://a.example.com', 'https://b.example.com']);
+    expect(problemsOf({ ...BASE_ENV, ALLOWED_ORIGINS: 'https://a.example.com/app' })).toEqual([
+      'ALLOWED_ORIGINS entry "https://a.example.com/app" must be an origin like https://app.example.com'
+    ]);
+  });
+
+  it('only checks the session store in session mode', () => {
+    expect(loadConfig({ ...BASE_ENV, SESSION_STORE: 'redis' }).sessionStore.kind).toBe('memory');
+    expect(problemsOf({ ...BASE_ENV, AUTH_MODE: 'session', SESSION_SECRET, SESSION_STORE: 'redis' })).toEqual([
+      'SESSION_STORE must be "memory" or "file" (got "redis")'
+    ]);
+  });
+
+  it('reads TRUST_PROXY as a boolean, a hop count or a list of addresses', () => {
+    expect(loadConfig({ ...BASE_ENV, TRUST_PROXY: 'true' }).trustProxy).toBe(true);
+    expect(loadConfig({ ...BASE_ENV, TRUST_PROXY: '2' }).trustProxy).toBe(2);
+    expect(loadConfig({ ...BASE_ENV, TRUST_PROXY: 'loopback' }).trustProxy).toBe('loopback');
+  });
+});
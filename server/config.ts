@@ -0,0 +1,180 @@
+/**
+ * Server Config
+ * The auth server's settings, read from the environment and checked once at startup
+ *
+ * RULES:
+ * - loadConfig() reports every problem at once in a ConfigError; the server refuses to start
+ *   rather than failing on the first request that needs a missing value
+ * - Nothing else reads process.env for these settings - pass the ServerConfig around
+ * - ALLOWED_ORIGINS defaults to the client app's origin; '*' is only accepted in token mode
+ *   (session mode sends cookies, which browsers only allow with an explicit origin)
+ */
+
+import path from 'path';
+
+export type AuthMode = 'token' | 'session';
+
+export type SessionStoreKind = 'memory' | 'file';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface RateLimitConfig {
+  windowMs: number;
+  /** Requests allowed per IP and endpoint within one window */
+  max: number;
+}
+
+export interface SessionStoreConfig {
+  kind: SessionStoreKind;
+  /** JSON file of the "file" store */
+  filePath: string;
+}
+
+export interface ServerConfig {
+  port: number;
+  authMode: AuthMode;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  /** Where the browser is sent after login */
+  clientAppUrl: string;
+  /** Origins allowed to call the server from a browser; ['*'] allows any (token mode only) */
+  allowedOrigins: string[];
+  /** Empty unless authMode is 'session' */
+  sessionSecret: string;
+  /** Where session mode keeps its sessions */
+  sessionStore: SessionStoreConfig;
+  /** Express "trust proxy" setting, so per-IP limits see the client's address behind a proxy */
+  trustProxy: boolean | number | string;
+  rateLimit: RateLimitConfig;
+  logLevel: LogLevel;
+}
+
+export class ConfigError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid auth server configuration:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const SESSION_STORE_KINDS: SessionStoreKind[] = ['memory', 'file'];
+
+const DEFAULT_RATE_LIMIT: RateLimitConfig = { windowMs: 60 * 1000, max: 30 };
+
+/** The origin of an http(s) URL, or null if it isn't one */
+const originOf = (value: string): string | null => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseTrustProxy = (value: string | undefined): boolean | number | string => {
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
+
+/**
+ * Read and check the server's settings, throwing a ConfigError that lists every problem
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const problems: string[] = [];
+
+  const integer = (name: string, fallback: number, min: number, max = Number.MAX_SAFE_INTEGER): number => {
+    const raw = env[name];
+    if (raw === undefined || raw === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      problems.push(`${name} must be a whole number between ${min} and ${max} (got "${raw}")`);
+      return fallback;
+    }
+    return value;
+  };
+
+  const required = (name: string): string => {
+    const value = env[name]?.trim() || '';
+    if (!value) problems.push(`${name} is required`);
+    return value;
+  };
+
+  const url = (name: string, fallback: string): string => {
+    const value = env[name]?.trim() || fallback;
+    if (value && !originOf(value)) problems.push(`${name} must be an http(s) URL (got "${value}")`);
+    return value;
+  };
+
+  const rawMode = env.AUTH_MODE || 'token';
+  if (rawMode !== 'token' && rawMode !== 'session') {
+    problems.push(`AUTH_MODE must be "token" or "session" (got "${rawMode}")`);
+  }
+  const authMode: AuthMode = rawMode === 'session' ? 'session' : 'token';
+
+  const clientId = required('SPOTIFY_CLIENT_ID');
+  const clientSecret = required('SPOTIFY_CLIENT_SECRET');
+  const redirectUri = url('SPOTIFY_REDIRECT_URI', 'http://localhost:5173/callback');
+  const clientAppUrl = url('CLIENT_APP_REDIRECT', 'http://localhost:5173');
+
+  const sessionSecret = authMode === 'session' ? env.SESSION_SECRET || '' : '';
+  if (authMode === 'session' && sessionSecret.length < 32) {
+    problems.push('AUTH_MODE=session requires SESSION_SECRET (at least 32 characters)');
+  }
+
+  const storeKind = (env.SESSION_STORE || 'memory') as SessionStoreKind;
+  if (authMode === 'session' && !SESSION_STORE_KINDS.includes(storeKind)) {
+    problems.push(`SESSION_STORE must be "memory" or "file" (got "${env.SESSION_STORE}")`);
+  }
+
+  let allowedOrigins = (env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+  if (allowedOrigins.length === 0) {
+    const appOrigin = originOf(clientAppUrl);
+    allowedOrigins = appOrigin ? [appOrigin] : [];
+  } else if (allowedOrigins.includes('*')) {
+    if (authMode === 'session') problems.push('ALLOWED_ORIGINS can\'t be "*" in session mode - list the client origins');
+    allowedOrigins = ['*'];
+  } else {
+    allowedOrigins = allowedOrigins.map(origin => {
+      const parsed = originOf(origin);
+      if (!parsed || parsed !== origin.replace(/\/$/, '')) {
+        problems.push(`ALLOWED_ORIGINS entry "${origin}" must be an origin like https://app.example.com`);
+      }
+      return parsed || origin;
+    });
+  }
+
+  const logLevel = (env.LOG_LEVEL || 'info') as LogLevel;
+  if (!LOG_LEVELS.includes(logLevel)) {
+    problems.push(`LOG_LEVEL must be one of ${LOG_LEVELS.join(', ')} (got "${env.LOG_LEVEL}")`);
+  }
+
+  const config: ServerConfig = {
+    port: integer('PORT', 3001, 1, 65535),
+    authMode,
+    clientId,
+    clientSecret,
+    redirectUri,
+    clientAppUrl,
+    allowedOrigins,
+    sessionSecret,
+    sessionStore: {
+      kind: SESSION_STORE_KINDS.includes(storeKind) ? storeKind : 'memory',
+      filePath: env.SESSION_FILE || path.join(process.cwd(), '.sessions.json')
+    },
+    trustProxy: parseTrustProxy(env.TRUST_PROXY),
+    rateLimit: {
+      windowMs: integer('RATE_LIMIT_WINDOW_MS', DEFAULT_RATE_LIMIT.windowMs, 1000),
+      max: integer('RATE_LIMIT_MAX', DEFAULT_RATE_LIMIT.max, 1)
+    },
+    logLevel: LOG_LEVELS.includes(logLevel) ? logLevel : 'info'
+  };
+
+  if (problems.length > 0) throw new ConfigError(problems);
+  return config;
+}
@@ -2,48 +2,153 @@ import express from 'express';
 import fetch from 'node-fetch';
 import dotenv from 'dotenv';
 import querystring from 'querystring';
+import type { NextFunction, Request, Response } from 'express';
+import { createSessionStore, SESSION_TTL_MS, type SessionData } from './sessionStore.js';
+import { newSessionId, readSessionId, setSessionCookie, clearSessionCookie } from './sessionCookie.js';
+import { LOGIN_SCOPES, isScopeFeatureId, parseScopes, scopesFor } from '../src/utils/spotifyScopes.js';
+import { ConfigError, loadConfig, type ServerConfig } from './config.js';
+import { createLogger, requestLog, requestLogging, type Logger } from './logger.js';
+import { rateLimit } from './rateLimit.js';
 
 dotenv.config();
 
+// Fail fast: a missing client secret should stop the server, not the first login
+let config: ServerConfig;
+try {
+  config = loadConfig();
+} catch (err) {
+  createLogger().error('Refusing to start', err instanceof ConfigError ? { problems: err.problems } : { err });
+  process.exit(1);
+}
+
+const logger = createLogger(config.logLevel, { service: 'auth-server' });
+
+// Session mode keeps tokens on the server behind a signed httpOnly cookie;
+// token mode hands them to the client in the redirect URL
+const SESSION_MODE = config.authMode === 'session';
+const SESSION_SECRET = config.sessionSecret;
+const sessions = SESSION_MODE ? createSessionStore(config.sessionStore, logger.child({ component: 'session-store' })) : null;
+
+const CLIENT_APP_URL = config.clientAppUrl;
+// Cookies need Secure everywhere except a plain-http client in local development
+const SECURE_COOKIES = !CLIENT_APP_URL.startsWith('http://');
+
+const CLIENT_ID = config.clientId;
+const CLIENT_SECRET = config.clientSecret;
+const REDIRECT_URI = config.redirectUri;
+
+/** Set on SIGTERM/SIGINT so /ready takes the instance out of rotation while it drains */
+let shuttingDown = false;
+
 const app = express();
+app.set('trust proxy', config.trustProxy);
+app.use(requestLogging(logger));
 app.use(express.json());
 
-// Basic CORS for dev: allow client redirect origin or all
+// CORS with an origin allowlist (ALLOWED_ORIGINS, default the client app's origin).
+// Session mode sends cookies, which browsers only allow with an explicit origin.
 app.use((req, res, next) => {
-  const origin = process.env.CLIENT_APP_REDIRECT || '*';
-  res.setHeader('Access-Control-Allow-Origin', origin);
-  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-  if (req.method === 'OPTIONS') return res.sendStatus(200);
+  const origin = req.get('origin');
+  const allowAny = config.allowedOrigins.includes('*');
+  const allowed = !origin || allowAny || config.allowedOrigins.includes(origin);
+
+  if (origin && allowed) {
+    res.setHeader('Access-Control-Allow-Origin', allowAny ? '*' : origin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Request-Id');
+    res.setHeader('Access-Control-Expose-Headers', 'X-Request-Id, Retry-After');
+    if (SESSION_MODE) res.setHeader('Access-Control-Allow-Credentials', 'true');
+  }
+  res.vary('Origin');
+
+  // Top-level navigations (/login, /callback) carry no Origin; anything else from a page
+  // that isn't on the list is refused before it reaches a handler
+  if (!allowed && req.method !== 'GET' && req.method !== 'HEAD') {
+    requestLog(res).warn('Origin not allowed', { origin });
+    return res.status(403).json({ error: 'origin_not_allowed' });
+  }
+  if (req.method === 'OPTIONS') return res.sendStatus(allowed ? 204 : 403);
   next();
 });
-const PORT = process.env.PORT || 3001;
 
-const CLIENT_ID = process.env.SPOTIFY_CLIENT_ID!;
-const CLIENT_SECRET = process.env.SPOTIFY_CLIENT_SECRET!;
-const REDIRECT_URI = process.env.SPOTIFY_REDIRECT_URI || 'http://localhost:5173/callback';
+// Per-IP limits on the endpoints that exchange codes and tokens with Spotify
+const callbackLimit = rateLimit('callback', config.rateLimit);
+const refreshLimit = rateLimit('refresh', config.rateLimit);
+
+/** Refresh a session's access token this long before it expires */
+const SESSION_REFRESH_MARGIN_MS = 60 * 1000;
+
+/** Spotify's token endpoint response - also what /refresh hands the client in token mode */
+interface SpotifyTokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  token_type?: string;
+  scope?: string;
+}
+
+type SpotifyRefreshResult =
+  | { ok: true; data: SpotifyTokenResponse }
+  | { ok: false; status: number; errorText: string };
+
+/**
+ * Exchange a refresh token with Spotify
+ */
+async function requestSpotifyRefresh(refreshToken: string, log: Logger): Promise<SpotifyRefreshResult> {
+  const authHeader = Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64');
+  const tokenRes = await fetch('https://accounts.spotify.com/api/token', {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${authHeader}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: querystring.stringify({ grant_type: 'refresh_token', refresh_token: refreshToken }),
+  });
+
+  log.debug('Spotify refresh response', { status: tokenRes.status });
+  if (!tokenRes.ok) return { ok: false, status: tokenRes.status, errorText: await tokenRes.text() };
+  return { ok: true, data: await tokenRes.json() };
+}
+
+/**
+ * The request's session, with its idle expiry pushed back; null without a valid cookie
+ */
+async function loadSession(req: Request): Promise<{ id: string; session: SessionData } | null> {
+  if (!sessions) return null;
+  const id = readSessionId(req, SESSION_SECRET);
+  if (!id) return null;
+  const session = await sessions.get(id);
+  if (!session) return null;
+  session.idleExpiresAt = Date.now() + SESSION_TTL_MS;
+  return { id, session };
+}
+
+async function endSession(res: Response, id: string | null) {
+  if (sessions && id) await sessions.delete(id);
+  clearSessionCookie(res, SECURE_COOKIES);
+}
 
 // Step 1: Redirect user to Spotify authorize URL
-app.get('/login', (req, res) => {
-  const scope = [
-    'user-read-private',
-    'user-read-email',
-    'playlist-read-private',
-    'streaming',
-    'user-read-playback-state',
-    'user-modify-playback-state',
-  ].join(' ');
+// ?features=library,follow asks for those features' scopes on top of what the current
+// session already has (incremental consent - see src/utils/spotifyScopes.ts)
+app.get('/login', async (req, res) => {
+  const features = String(req.query.features || '').split(',').filter(isScopeFeatureId);
+  const current = features.length > 0 ? await loadSession(req) : null;
+  const granted = current?.session.scope ? parseScopes(current.session.scope) : LOGIN_SCOPES;
+  const scope = scopesFor(features, granted).join(' ');
   const params = querystring.stringify({
     response_type: 'code',
     client_id: CLIENT_ID,
     scope,
     redirect_uri: REDIRECT_URI,
+    ...(features.length > 0 ? { show_dialog: 'true' } : {}),
   });
   res.redirect(`https://accounts.spotify.com/authorize?${params}`);
 });
 
 // Step 2: Spotify redirects back with ?code=...
-app.get('/callback', async (req, res) => {
+app.get('/callback', callbackLimit, async (req, res) => {
+  const log = requestLog(res);
   const code = req.query.code as string;
   if (!code) return res.status(400).send('Missing code');
 
@@ -67,19 +172,56 @@ app.get('/callback', async (req, res) => {
     });
     const data = await tokenRes.json();
     // data contains access_token, refresh_token, expires_in
+
+    if (sessions) {
+      if (!tokenRes.ok || !data.access_token || !data.refresh_token) {
+        log.error('Token exchange failed', { status: tokenRes.status, spotifyError: data.error });
+        return res.status(502).send('Token exchange failed');
+      }
+      // Re-consent replaces the current session rather than leaving it behind
+      const previous = await loadSession(req);
+      if (previous) await sessions.delete(previous.id);
+
+      // Keep the tokens here; the client only gets the session cookie
+      const id = newSessionId();
+      const now = Date.now();
+      await sessions.set(id, {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+        expiresAt: now + (data.expires_in || 3600) * 1000,
+        scope: data.scope,
+        createdAt: now,
+        idleExpiresAt: now + SESSION_TTL_MS
+      });
+      setSessionCookie(res, id, SESSION_SECRET, SESSION_TTL_MS, SECURE_COOKIES);
+      log.info('Login completed', { mode: 'session' });
+      return res.redirect(CLIENT_APP_URL);
+    }
+
     // For a client app, redirect back to client with tokens in query or set a cookie
-    const redirectTo = (process.env.CLIENT_APP_REDIRECT || 'http://localhost:5173') +
+    const redirectTo = CLIENT_APP_URL +
       `?access_token=${encodeURIComponent(data.access_token)}&refresh_token=${encodeURIComponent(data.refresh_token)}&expires_in=${data.expires_in}`;
+    log.info('Login completed', { mode: 'token' });
     res.redirect(redirectTo);
   } catch (err) {
-    console.error(err);
+    log.error('Token exchange failed', { err });
     res.status(500).send('Token exchange failed');
   }
 });
 
-// Refresh endpoint: client sends refresh_token and server exchanges it for a new access token
-app.post('/refresh', async (req, res) => {
-  const refresh_token = req.body?.refresh_token;
+// Refresh endpoint: client sends refresh_token and server exchanges it for a new access token.
+// In session mode the refresh token comes from the session cookie instead and never leaves the server.
+app.post('/refresh', refreshLimit, async (req, res) => {
+  const log = requestLog(res);
+  const current = await loadSession(req);
+  if (sessions && !current) {
+    return res.status(401).json({
+      error: 'no_session',
+      details: 'No active session. Please log in again.'
+    });
+  }
+
+  const refresh_token = current ? current.session.refreshToken : req.body?.refresh_token;
   if (!refresh_token) {
     return res.status(400).json({ 
       error: 'refresh_token required',
@@ -87,95 +229,65 @@ app.post('/refresh', async (req, res) => {
     });
   }
 
-  console.log('Refresh token request received:', {
-    refresh_token_preview: `${refresh_token.substring(0, 10)}...`,
-    client_id: CLIENT_ID ? 'Set' : 'Missing',
-    client_secret: CLIENT_SECRET ? 'Set' : 'Missing'
-  });
-
-  // Validate that we have necessary environment variables
-  if (!CLIENT_ID || !CLIENT_SECRET) {
-    console.error('Missing CLIENT_ID or CLIENT_SECRET environment variables');
-    return res.status(500).json({ 
-      error: 'server_configuration_error',
-      details: 'Missing required server configuration'
-    });
-  }
-
-  const tokenUrl = 'https://accounts.spotify.com/api/token';
-  const body = querystring.stringify({
-    grant_type: 'refresh_token',
-    refresh_token,
-  });
-  const authHeader = Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64');
-
   try {
-    console.log('Attempting to refresh token with Spotify...');
-    const tokenRes = await fetch(tokenUrl, {
-      method: 'POST',
-      headers: {
-        Authorization: `Basic ${authHeader}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body,
-    });
+    const result = await requestSpotifyRefresh(refresh_token, log);
 
-    console.log('Spotify response status:', tokenRes.status);
-
-    if (!tokenRes.ok) {
-      const errorText = await tokenRes.text();
-      console.error(`Spotify token refresh failed: ${tokenRes.status} - ${errorText}`);
+    if (!result.ok) {
+      log.warn('Spotify token refresh failed', { status: result.status, spotifyError: result.errorText });
       
       // Handle specific Spotify errors
-      if (tokenRes.status === 400) {
+      if (result.status === 400) {
+        if (current) await endSession(res, current.id);
         return res.status(400).json({ 
           error: 'invalid_refresh_token',
           details: 'The refresh token is invalid or expired. Please log in again.',
-          spotify_error: errorText
+          spotify_error: result.errorText
         });
       }
       
-      throw new Error(`Spotify API error: ${tokenRes.status} - ${errorText}`);
+      throw new Error(`Spotify API error: ${result.status} - ${result.errorText}`);
     }
 
-    const data = await tokenRes.json();
-    console.log('Spotify refresh response:', {
-      has_access_token: !!data.access_token,
-      has_refresh_token: !!data.refresh_token,
-      expires_in: data.expires_in,
-      new_refresh_token_preview: data.refresh_token ? `${data.refresh_token.substring(0, 10)}...` : 'None'
-    });
+    const data = result.data;
     
     // Validate response data
     if (!data.access_token) {
-      console.error('Spotify response missing access_token:', data);
+      log.error('Spotify response missing access_token', { fields: Object.keys(data) });
       return res.status(500).json({ 
         error: 'invalid_response',
         details: 'Spotify response missing access_token'
       });
     }
 
-    console.log('Token refresh successful');
+    log.info('Token refreshed', { rotated: !!data.refresh_token, expiresIn: data.expires_in });
     
     // Send successful response with new tokens
-    const response: any = {
+    const expiresIn = data.expires_in || 3600; // Default to 1 hour if not provided
+    const response: SpotifyTokenResponse = {
       access_token: data.access_token,
-      expires_in: data.expires_in || 3600, // Default to 1 hour if not provided
-      token_type: data.token_type || 'Bearer'
+      expires_in: expiresIn,
+      token_type: data.token_type || 'Bearer',
+      ...(data.scope !== undefined ? { scope: data.scope } : {})
     };
 
-    // If Spotify provides a new refresh token, include it
-    if (data.refresh_token) {
+    if (current && sessions) {
+      // Spotify doesn't always rotate the refresh token - keep the old one then
+      await sessions.set(current.id, {
+        ...current.session,
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token || current.session.refreshToken,
+        expiresAt: Date.now() + expiresIn * 1000,
+        scope: data.scope ?? current.session.scope
+      });
+    } else if (data.refresh_token) {
+      // If Spotify provides a new refresh token, include it
       response.refresh_token = data.refresh_token;
-      console.log('Returning new refresh token to client');
-    } else {
-      console.log('Spotify did not provide new refresh token - client should keep existing one');
     }
 
     res.json(response);
     
   } catch (err) {
-    console.error('Error during token refresh:', err);
+    log.error('Error during token refresh', { err });
     res.status(500).json({ 
       error: 'refresh_failed',
       details: 'Failed to refresh access token. Please try logging in again.',
@@ -184,6 +296,53 @@ app.post('/refresh', async (req, res) => {
   }
 });
 
+// Session mode: the current session's access token (refreshed first if it's about to expire)
+app.get('/session', async (req, res) => {
+  if (!sessions) return res.status(404).json({ error: 'sessions_disabled' });
+
+  const current = await loadSession(req);
+  if (!current) return res.status(401).json({ authenticated: false });
+
+  const { id, session } = current;
+  try {
+    if (session.expiresAt - Date.now() < SESSION_REFRESH_MARGIN_MS) {
+      const result = await requestSpotifyRefresh(session.refreshToken, requestLog(res));
+      if (!result.ok || !result.data.access_token) {
+        requestLog(res).error('Session refresh failed', result.ok ? { reason: 'missing access_token' } : { status: result.status });
+        if (!result.ok && result.status === 400) {
+          await endSession(res, id);
+          return res.status(401).json({ authenticated: false });
+        }
+        return res.status(502).json({ error: 'refresh_failed' });
+      }
+      session.accessToken = result.data.access_token;
+      session.refreshToken = result.data.refresh_token || session.refreshToken;
+      session.expiresAt = Date.now() + (result.data.expires_in || 3600) * 1000;
+      session.scope = result.data.scope ?? session.scope;
+    }
+    await sessions.set(id, session);
+    // Sliding expiry: re-issue the cookie so it lives as long as the session
+    setSessionCookie(res, id, SESSION_SECRET, SESSION_TTL_MS, SECURE_COOKIES);
+    res.json({
+      authenticated: true,
+      access_token: session.accessToken,
+      expires_in: Math.floor((session.expiresAt - Date.now()) / 1000),
+      token_type: 'Bearer',
+      ...(session.scope !== undefined ? { scope: session.scope } : {})
+    });
+  } catch (err) {
+    requestLog(res).error('Error loading session', { err });
+    res.status(500).json({ error: 'session_failed' });
+  }
+});
+
+// Session mode: forget the session and its tokens
+app.post('/logout', async (req, res) => {
+  if (!sessions) return res.status(404).json({ error: 'sessions_disabled' });
+  await endSession(res, readSessionId(req, SESSION_SECRET));
+  res.sendStatus(204);
+});
+
 // Health check endpoint for Docker
 app.get('/health', (req, res) => {
   res.status(200).json({
@@ -195,4 +354,56 @@ app.get('/health', (req, res) => {
   });
 });
 
-app.listen(PORT, () => console.log(`Auth server running on ${PORT}`));
+// Readiness check: /health says the process is up, /ready that it can serve logins -
+// configuration loaded, session store answering, not shutting down
+app.get('/ready', async (req, res) => {
+  const checks: Record<string, 'ok' | 'failed'> = { config: 'ok' };
+  if (sessions) {
+    try {
+      await sessions.get('readiness-probe');
+      checks.sessionStore = 'ok';
+    } catch (err) {
+      requestLog(res).error('Session store not ready', { err });
+      checks.sessionStore = 'failed';
+    }
+  }
+  const ready = !shuttingDown && Object.values(checks).every(c => c === 'ok');
+  res.status(ready ? 200 : 503).json({
+    status: ready ? 'ready' : shuttingDown ? 'shutting_down' : 'not_ready',
+    checks
+  });
+});
+
+// Last in line: whatever a handler threw is logged with its request id (and secrets redacted)
+// instead of Express printing a plain stack trace, and the client gets JSON like everywhere else
+app.use((err: unknown, req: Request, res: Response, next: NextFunction) => {
+  const status = typeof err === 'object' && err !== null ? (err as { status?: unknown }).status : undefined;
+  // Errors Express raises for bad input (e.g. malformed JSON bodies) carry their 4xx status
+  const clientError = typeof status === 'number' && status >= 400 && status < 500;
+  const log = res.locals.log ? requestLog(res) : logger;
+  if (clientError) log.warn('Bad request', { err, method: req.method, path: req.path });
+  else log.error('Unhandled error', { err, method: req.method, path: req.path });
+
+  if (res.headersSent) return next(err);
+  res.status(clientError ? status : 500).json({ error: clientError ? 'bad_request' : 'internal_error' });
+});
+
+const server = app.listen(config.port, () => {
+  logger.info('Auth server running', {
+    port: config.port,
+    mode: config.authMode,
+    allowedOrigins: config.allowedOrigins,
+    rateLimit: config.rateLimit
+  });
+});
+
+const shutdown = (signal: string) => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  logger.info('Shutting down', { signal });
+  server.close(() => process.exit(0));
+  // Don't wait forever on keep-alive connections
+  setTimeout(() => process.exit(0), 10000).unref();
+};
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import { createLogger } from './logger.js';
+
+describe('createLogger', () => {
+  let stdout: MockInstance<typeof process.stdout.write>;
+  let stderr: MockInstance<typeof process.stdout.write>;
+
+  const lines = (spy: MockInstance<typeof process.stdout.write>) => spy.mock.calls.map(([line]) => JSON.parse(String(line)));
+
+  beforeEach(() => {
+    stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('redacts secret-looking fields at any depth', () => {
+    createLogger().info('token exchange', {
+      accessToken: 'at',
+      refresh_token: 'rt',
+      clientSecret: 'cs',
+      code: 'auth-code',
+      codeVerifier: 'cv',
+      headers: { Authorization: 'Bearer at', Cookie: 'sid=1', accept: 'application/json' },
+      attempts: [{ password: 'pw', status: 400 }],
+      country: 'SE'
+    });
+
+    expect(lines(stdout)[0]).toMatchObject({
+      level: 'info',
+      msg: 'token exchange',
+      accessToken: '[redacted]',
+      refresh_token: '[redacted]',
+      clientSecret: '[redacted]',
+      code: '[redacted]',
+      codeVerifier: '[redacted]',
+      headers: { Authorization: '[redacted]', Cookie: '[redacted]', accept: 'application/json' },
+      attempts: [{ password: '[redacted]', status: 400 }],
+      country: 'SE'
+    });
+  });
+
+  it('never writes the secret values anywhere in the line', () => {
+    createLogger().child({ sessionToken: 'child-secret' }).warn('failed', { nested: { deeper: { token: 'deep-secret' } } });
+
+    const written = String(stderr.mock.calls[0][0]);
+    expect(written).not.toContain('child-secret');
+    expect(written).not.toContain('deep-secret');
+  });
+
+  it('serializes errors and skips lines below the level', () => {
+    const logger = createLogger('warn');
+    logger.info('hidden');
+    logger.error('boom', { error: new TypeError('bad input') });
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(lines(stderr)[0]).toMatchObject({ level: 'error', msg: 'boom', error: { name: 'TypeError', message: 'bad input' } });
+  });
+});
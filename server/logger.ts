@@ -0,0 +1,104 @@
+/**
+ * Logger
+ * JSON lines on stdout/stderr with request ids and secrets redacted
+ *
+ * RULES:
+ * - One JSON object per line: time, level, msg, then the fields passed in
+ * - Fields whose name looks secret (tokens, codes, secrets, cookies, authorization) are
+ *   replaced with "[redacted]" at any depth - never log a secret, not even a prefix
+ * - Every request gets an id (a sane incoming X-Request-Id, else a new one), echoed in the
+ *   response header and attached to everything logged through requestLog(res)
+ */
+
+import crypto from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import type { LogLevel } from './config.js';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** A logger that adds `fields` to every line */
+  child(fields: LogFields): Logger;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const SECRET_FIELD = /token|secret|password|authorization|cookie|verifier|^code$/i;
+
+const REDACTED = '[redacted]';
+
+/** Only ids that are safe to echo and to write into logs */
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+const serialize = (value: unknown, depth = 0): unknown => {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, ...(value.stack ? { stack: value.stack } : {}) };
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (depth > 5) return '[truncated]';
+  if (Array.isArray(value)) return value.map(v => serialize(v, depth + 1));
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [key, SECRET_FIELD.test(key) ? REDACTED : serialize(v, depth + 1)])
+  );
+};
+
+/**
+ * A logger writing lines at `level` and above; errors and warnings go to stderr
+ */
+export function createLogger(level: LogLevel = 'info', base: LogFields = {}): Logger {
+  const write = (lineLevel: LogLevel, msg: string, fields?: LogFields) => {
+    if (LEVEL_ORDER[lineLevel] < LEVEL_ORDER[level]) return;
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level: lineLevel,
+      msg,
+      ...(serialize({ ...base, ...fields }) as LogFields)
+    });
+    if (LEVEL_ORDER[lineLevel] >= LEVEL_ORDER.warn) process.stderr.write(`${line}\n`);
+    else process.stdout.write(`${line}\n`);
+  };
+
+  return {
+    debug: (msg, fields) => write('debug', msg, fields),
+    info: (msg, fields) => write('info', msg, fields),
+    warn: (msg, fields) => write('warn', msg, fields),
+    error: (msg, fields) => write('error', msg, fields),
+    child: (fields) => createLogger(level, { ...base, ...fields })
+  };
+}
+
+/**
+ * Middleware: give the request an id and log it once the response is sent
+ */
+export function requestLogging(logger: Logger) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const incoming = req.get('x-request-id');
+    const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+    const log = logger.child({ requestId });
+    res.locals.log = log;
+    res.setHeader('X-Request-Id', requestId);
+
+    const startedAt = process.hrtime.bigint();
+    res.on('finish', () => {
+      const fields = {
+        method: req.method,
+        // Without the query string - /callback carries the authorization code there
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Number((process.hrtime.bigint() - startedAt) / 1000000n),
+        ip: req.ip
+      };
+      if (res.statusCode >= 500) log.error('request', fields);
+      else if (res.statusCode >= 400) log.warn('request', fields);
+      else log.info('request', fields);
+    });
+    next();
+  };
+}
+
+/** The request's logger (set up by requestLogging) */
+export const requestLog = (res: Response): Logger => res.locals.log as Logger;
@@ -0,0 +1,992 @@
+/**
+ * Mock Spotify Web API
+ * Local stand-in for api.spotify.com and accounts.spotify.com that serves the endpoints the
+ * app uses from seeded fixtures (server/fixtures/spotify.json), so it can be developed and
+ * tested without live credentials. Run with `npm run dev:mock` and point the client at it:
+ *
+ *   VITE_SPOTIFY_API_BASE=http://localhost:3002/v1
+ *   VITE_SPOTIFY_ACCOUNTS_URL=http://localhost:3002
+ *   VITE_AUTH_SERVER_URL=http://localhost:3002
+ *
+ * BEHAVIOUR:
+ * - /authorize approves straight away; /api/token and /refresh hand out mock tokens
+ * - Access tokens expire after MOCK_TOKEN_TTL seconds (default 3600), then requests get 401
+ * - MOCK_STATIC_TOKEN (default "mock-access-token") is always accepted, for scripts and tests
+ * - Paged endpoints honour limit/offset (an `after` cursor for followed artists) with next/previous URLs
+ * - GET /me/player answers 204 until something is played or transferred
+ * - Player commands update in-memory playback state; unknown device ids are registered as web players
+ * - Library and playlist changes live in memory until restart or POST /mock/reset
+ *
+ * TEST CONTROLS:
+ * - POST /mock/rate-limit?requests=N&retry_after=S: the next N API requests get 429 with Retry-After
+ * - POST /mock/expire-tokens: every issued access token (and the static one) now gets 401
+ * - POST /mock/reset: reload fixtures, clear playback and rate limiting, revive tokens
+ */
+
+import express from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+interface FixtureUser { id: string; display_name: string; followers: number }
+interface FixtureArtist { id: string; name: string; genres: string[]; popularity: number; followers: number }
+interface FixtureAlbum { id: string; name: string; artists: string[]; album_type: 'album' | 'single' | 'compilation'; release_date: string }
+interface FixtureTrack { id: string; name: string; album: string; artists: string[]; duration_ms: number; popularity: number; explicit: boolean }
+interface FixturePlaylist { id: string; name: string; description: string; owner: string; public: boolean; tracks: string[] }
+interface FixtureCategory { id: string; name: string; playlists: string[] }
+interface FixtureDevice { id: string; name: string; type: string; volume_percent: number }
+
+interface Fixtures {
+  me: FixtureUser & { email: string; country: string; product: string };
+  users: FixtureUser[];
+  artists: FixtureArtist[];
+  albums: FixtureAlbum[];
+  tracks: FixtureTrack[];
+  playlists: FixturePlaylist[];
+  categories: FixtureCategory[];
+  featured_playlists: string[];
+  library: {
+    saved_tracks: string[];
+    saved_albums: string[];
+    followed_artists: string[];
+    followed_playlists: string[];
+    top_tracks: string[];
+    top_artists: string[];
+    recently_played: string[];
+  };
+  devices: FixtureDevice[];
+}
+
+interface Playback {
+  deviceId: string;
+  /** Track ids of the current context, in play order */
+  tracks: string[];
+  index: number;
+  contextUri: string | null;
+  isPlaying: boolean;
+  /** Progress when it was last set, and when */
+  progressMs: number;
+  updatedAt: number;
+  shuffle: boolean;
+  repeat: 'off' | 'context' | 'track';
+  /** Tracks added with POST /me/player/queue, played before the rest of the context */
+  userQueue: string[];
+}
+
+const PORT = Number(process.env.MOCK_API_PORT) || 3002;
+const ORIGIN = (process.env.MOCK_API_ORIGIN || `http://localhost:${PORT}`).replace(/\/$/, '');
+const API = `${ORIGIN}/v1`;
+const TOKEN_TTL_S = Number(process.env.MOCK_TOKEN_TTL) || 3600;
+const STATIC_TOKEN = process.env.MOCK_STATIC_TOKEN || 'mock-access-token';
+const FIXTURES_PATH = process.env.MOCK_FIXTURES || path.resolve(process.cwd(), 'server/fixtures/spotify.json');
+
+const loadFixtures = (): Fixtures => JSON.parse(fs.readFileSync(FIXTURES_PATH, 'utf8'));
+
+let db = loadFixtures();
+let devices: FixtureDevice[] = [...db.devices];
+let playback: Playback | null = null;
+let rateLimit = { remaining: 0, retryAfterS: 1 };
+
+/** Authorization code -> the scope it was requested with */
+const authCodes = new Map<string, string>();
+/** Access token -> expiry timestamp */
+const accessTokens = new Map<string, number>();
+/** Refresh token -> granted scope */
+const refreshTokens = new Map<string, string>();
+let staticTokenExpired = false;
+
+const app = express();
+app.use(express.json());
+app.use(express.urlencoded({ extended: false }));
+
+// The client runs on another origin and needs to read Retry-After on 429s
+app.use((req, res, next) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,PUT,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  if (req.method === 'OPTIONS') return res.sendStatus(200);
+  next();
+});
+
+// ---- Helpers ----
+
+const apiError = (res: Response, status: number, message: string, reason?: string) =>
+  res.status(status).json({ error: { status, message, ...(reason ? { reason } : {}) } });
+
+const randomToken = (prefix: string) => `${prefix}-${crypto.randomBytes(16).toString('hex')}`;
+
+// Scopes are echoed back like Spotify does, but not enforced on API routes
+const issueTokens = (scope: string) => {
+  const access_token = randomToken('mock-access');
+  const refresh_token = randomToken('mock-refresh');
+  accessTokens.set(access_token, Date.now() + TOKEN_TTL_S * 1000);
+  refreshTokens.set(refresh_token, scope);
+  return { access_token, refresh_token, token_type: 'Bearer', expires_in: TOKEN_TTL_S, scope };
+};
+
+const renewAccessToken = (scope: string) => {
+  const access_token = randomToken('mock-access');
+  accessTokens.set(access_token, Date.now() + TOKEN_TTL_S * 1000);
+  return { access_token, token_type: 'Bearer', expires_in: TOKEN_TTL_S, scope };
+};
+
+const idsParam = (req: Request): string[] => {
+  const fromQuery = typeof req.query.ids === 'string' ? req.query.ids.split(',') : [];
+  const fromBody = Array.isArray(req.body?.ids) ? req.body.ids : [];
+  return [...fromQuery, ...fromBody].map((id: string) => id.trim()).filter(Boolean);
+};
+
+const idFromUri = (uri: string) => uri.split(':')[2] || '';
+
+const findArtist = (id: string) => db.artists.find(a => a.id === id);
+const findAlbum = (id: string) => db.albums.find(a => a.id === id);
+const findTrack = (id: string) => db.tracks.find(t => t.id === id);
+const findPlaylist = (id: string) => db.playlists.find(p => p.id === id);
+const findUser = (id: string): FixtureUser | undefined => (id === db.me.id ? db.me : db.users.find(u => u.id === id));
+const albumTracks = (albumId: string) => db.tracks.filter(t => t.album === albumId);
+
+/** Offset/limit page in Spotify's paging object shape, with next/previous built from the request URL */
+const paginate = <T>(req: Request, items: T[], defaultLimit = 20, maxLimit = 50) => {
+  const limit = Math.min(Math.max(1, Number(req.query.limit) || defaultLimit), maxLimit);
+  const offset = Math.max(0, Number(req.query.offset) || 0);
+  const pageUrl = (pageOffset: number) => {
+    const url = new URL(req.originalUrl, ORIGIN);
+    url.searchParams.set('offset', String(pageOffset));
+    url.searchParams.set('limit', String(limit));
+    return url.toString();
+  };
+  return {
+    href: pageUrl(offset),
+    items: items.slice(offset, offset + limit),
+    limit,
+    offset,
+    total: items.length,
+    next: offset + limit < items.length ? pageUrl(offset + limit) : null,
+    previous: offset > 0 ? pageUrl(Math.max(0, offset - limit)) : null
+  };
+};
+
+const images = (id: string) => [{ url: `${ORIGIN}/images/${id}.svg`, height: 640, width: 640 }];
+const externalUrls = (type: string, id: string) => ({ spotify: `https://open.spotify.com/${type}/${id}` });
+
+const toUser = (user: FixtureUser) => ({
+  id: user.id,
+  display_name: user.display_name,
+  type: 'user',
+  uri: `spotify:user:${user.id}`,
+  href: `${API}/users/${user.id}`,
+  external_urls: externalUrls('user', user.id),
+  followers: { href: null, total: user.followers },
+  images: images(user.id)
+});
+
+const toSimpleArtist = (artist: FixtureArtist) => ({
+  id: artist.id,
+  name: artist.name,
+  type: 'artist',
+  uri: `spotify:artist:${artist.id}`,
+  href: `${API}/artists/${artist.id}`,
+  external_urls: externalUrls('artist', artist.id)
+});
+
+const toArtist = (artist: FixtureArtist) => ({
+  ...toSimpleArtist(artist),
+  genres: artist.genres,
+  popularity: artist.popularity,
+  followers: { href: null, total: artist.followers },
+  images: images(artist.id)
+});
+
+const toSimpleAlbum = (album: FixtureAlbum) => ({
+  id: album.id,
+  name: album.name,
+  album_type: album.album_type,
+  type: 'album',
+  uri: `spotify:album:${album.id}`,
+  href: `${API}/albums/${album.id}`,
+  external_urls: externalUrls('album', album.id),
+  images: images(album.id),
+  release_date: album.release_date,
+  release_date_precision: 'day',
+  total_tracks: albumTracks(album.id).length,
+  available_markets: ['US'],
+  artists: album.artists.map(findArtist).filter((a): a is FixtureArtist => !!a).map(toSimpleArtist)
+});
+
+const toSimpleTrack = (track: FixtureTrack) => ({
+  id: track.id,
+  name: track.name,
+  type: 'track',
+  uri: `spotify:track:${track.id}`,
+  href: `${API}/tracks/${track.id}`,
+  external_urls: externalUrls('track', track.id),
+  duration_ms: track.duration_ms,
+  explicit: track.explicit,
+  preview_url: null,
+  is_local: false,
+  is_playable: true,
+  disc_number: 1,
+  track_number: albumTracks(track.album).findIndex(t => t.id === track.id) + 1,
+  available_markets: ['US'],
+  artists: track.artists.map(findArtist).filter((a): a is FixtureArtist => !!a).map(toSimpleArtist)
+});
+
+const toTrack = (track: FixtureTrack) => {
+  const album = findAlbum(track.album);
+  return {
+    ...toSimpleTrack(track),
+    popularity: track.popularity,
+    external_ids: { isrc: `MOCK${track.id.slice(-8).toUpperCase()}` },
+    album: album ? toSimpleAlbum(album) : null
+  };
+};
+
+const toAlbum = (req: Request, album: FixtureAlbum) => ({
+  ...toSimpleAlbum(album),
+  genres: [],
+  label: 'Mock Records',
+  popularity: 50,
+  copyrights: [{ text: `${album.release_date.slice(0, 4)} Mock Records`, type: 'C' }],
+  tracks: paginate(req, albumTracks(album.id).map(toSimpleTrack), 50)
+});
+
+const toSimplePlaylist = (playlist: FixturePlaylist) => {
+  const owner = findUser(playlist.owner);
+  return {
+    id: playlist.id,
+    name: playlist.name,
+    description: playlist.description,
+    type: 'playlist',
+    uri: `spotify:playlist:${playlist.id}`,
+    href: `${API}/playlists/${playlist.id}`,
+    external_urls: externalUrls('playlist', playlist.id),
+    images: images(playlist.id),
+    public: playlist.public,
+    collaborative: false,
+    snapshot_id: `mock-snapshot-${playlist.tracks.length}`,
+    owner: owner ? toUser(owner) : null,
+    tracks: { href: `${API}/playlists/${playlist.id}/tracks`, total: playlist.tracks.length }
+  };
+};
+
+const playlistItems = (playlist: FixturePlaylist) => {
+  const owner = findUser(playlist.owner);
+  return playlist.tracks
+    .map(findTrack)
+    .filter((t): t is FixtureTrack => !!t)
+    .map((track, i) => ({
+      added_at: new Date(Date.UTC(2024, 0, 1 + i)).toISOString(),
+      added_by: owner ? toUser(owner) : null,
+      is_local: false,
+      track: toTrack(track)
+    }));
+};
+
+const savedAt = (i: number) => new Date(Date.UTC(2024, 5, 30 - i)).toISOString();
+
+// ---- Images ----
+
+app.get('/images/:name', (req, res) => {
+  const seed = crypto.createHash('md5').update(String(req.params.name)).digest();
+  const hue = seed[0] * 360 / 255;
+  res.setHeader('Content-Type', 'image/svg+xml');
+  res.send(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="640" viewBox="0 0 640 640">` +
+    `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">` +
+    `<stop offset="0" stop-color="hsl(${hue},70%,45%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,20%)"/>` +
+    `</linearGradient></defs><rect width="640" height="640" fill="url(#g)"/></svg>`
+  );
+});
+
+// ---- Accounts ----
+
+// Stands in for the Spotify consent screen: approve and send the user straight back
+app.get('/authorize', (req, res) => {
+  const redirectUri = req.query.redirect_uri as string | undefined;
+  if (!redirectUri) return res.status(400).send('Missing redirect_uri');
+  const code = randomToken('mock-code');
+  authCodes.set(code, typeof req.query.scope === 'string' ? req.query.scope : '');
+  const target = new URL(redirectUri);
+  target.searchParams.set('code', code);
+  if (req.query.state) target.searchParams.set('state', String(req.query.state));
+  res.redirect(target.toString());
+});
+
+app.post('/api/token', (req, res) => {
+  const { grant_type, code, refresh_token } = req.body || {};
+  if (grant_type === 'authorization_code') {
+    const scope = authCodes.get(code);
+    if (scope === undefined) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'Invalid authorization code' });
+    }
+    authCodes.delete(code);
+    return res.json(issueTokens(scope));
+  }
+  if (grant_type === 'refresh_token') {
+    const scope = refreshTokens.get(refresh_token);
+    if (scope === undefined) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'Invalid refresh token' });
+    }
+    return res.json(renewAccessToken(scope));
+  }
+  res.status(400).json({ error: 'unsupported_grant_type' });
+});
+
+// Same contract as the auth server's /refresh (server/index.ts)
+app.post('/refresh', (req, res) => {
+  const refresh_token = req.body?.refresh_token;
+  if (!refresh_token) {
+    return res.status(400).json({ error: 'refresh_token required', details: 'Missing refresh_token in request body' });
+  }
+  const scope = refreshTokens.get(refresh_token);
+  if (scope === undefined) {
+    return res.status(400).json({ error: 'invalid_refresh_token', details: 'The refresh token is invalid or expired. Please log in again.' });
+  }
+  res.json(renewAccessToken(scope));
+});
+
+// ---- Test controls ----
+
+app.post('/mock/rate-limit', (req, res) => {
+  rateLimit = {
+    remaining: Math.max(0, Number(req.query.requests) || 1),
+    retryAfterS: Math.max(0, Number(req.query.retry_after) || 1)
+  };
+  res.json(rateLimit);
+});
+
+app.post('/mock/expire-tokens', (_req, res) => {
+  accessTokens.forEach((_expiry, token) => accessTokens.set(token, 0));
+  staticTokenExpired = true;
+  res.sendStatus(204);
+});
+
+app.post('/mock/reset', (_req, res) => {
+  db = loadFixtures();
+  devices = [...db.devices];
+  playback = null;
+  rateLimit = { remaining: 0, retryAfterS: 1 };
+  staticTokenExpired = false;
+  accessTokens.forEach((_expiry, token) => accessTokens.set(token, Date.now() + TOKEN_TTL_S * 1000));
+  res.sendStatus(204);
+});
+
+// ---- Web API ----
+
+const api = express.Router();
+
+api.use((req: Request, res: Response, next: NextFunction) => {
+  if (rateLimit.remaining > 0) {
+    rateLimit.remaining -= 1;
+    res.setHeader('Retry-After', String(rateLimit.retryAfterS));
+    return apiError(res, 429, 'API rate limit exceeded');
+  }
+  const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  if (!token) return apiError(res, 401, 'No token provided');
+  if (token === STATIC_TOKEN) {
+    return staticTokenExpired ? apiError(res, 401, 'The access token expired') : next();
+  }
+  const expiry = accessTokens.get(token);
+  if (expiry === undefined) return apiError(res, 401, 'Invalid access token');
+  if (Date.now() > expiry) return apiError(res, 401, 'The access token expired');
+  next();
+});
+
+// Users
+
+api.get('/me', (_req, res) => {
+  res.json({
+    ...toUser(db.me),
+    email: db.me.email,
+    country: db.me.country,
+    product: db.me.product,
+    explicit_content: { filter_enabled: false, filter_locked: false }
+  });
+});
+
+api.get('/users/:id', (req, res) => {
+  const user = findUser(req.params.id);
+  if (!user) return apiError(res, 404, 'User not found');
+  res.json(toUser(user));
+});
+
+api.get('/users/:id/playlists', (req, res) => {
+  const isMe = req.params.id === db.me.id;
+  const owned = db.playlists.filter(p => p.owner === req.params.id && (isMe || p.public));
+  res.json(paginate(req, owned.map(toSimplePlaylist)));
+});
+
+api.post('/users/:id/playlists', (req, res) => {
+  if (req.params.id !== db.me.id) return apiError(res, 403, "You cannot create a playlist for another user");
+  if (!req.body?.name) return apiError(res, 400, 'Missing required field: name');
+  const playlist: FixturePlaylist = {
+    id: `mockplaylist${crypto.randomBytes(6).toString('hex')}`,
+    name: req.body.name,
+    description: req.body.description || '',
+    owner: db.me.id,
+    public: req.body.public !== false,
+    tracks: []
+  };
+  db.playlists.push(playlist);
+  res.status(201).json(toSimplePlaylist(playlist));
+});
+
+api.get('/me/playlists', (req, res) => {
+  const mine = db.playlists.filter(p => p.owner === db.me.id || db.library.followed_playlists.includes(p.id));
+  res.json(paginate(req, mine.map(toSimplePlaylist)));
+});
+
+api.get('/me/top/:type', (req, res) => {
+  if (req.params.type === 'tracks') {
+    const tracks = db.library.top_tracks.map(findTrack).filter((t): t is FixtureTrack => !!t);
+    return res.json(paginate(req, tracks.map(toTrack)));
+  }
+  if (req.params.type === 'artists') {
+    const artists = db.library.top_artists.map(findArtist).filter((a): a is FixtureArtist => !!a);
+    return res.json(paginate(req, artists.map(toArtist)));
+  }
+  apiError(res, 400, 'Invalid type, must be artists or tracks');
+});
+
+// Playlists
+
+api.get('/playlists/:id', (req, res) => {
+  const playlist = findPlaylist(req.params.id);
+  if (!playlist) return apiError(res, 404, 'Resource not found');
+  res.json({ ...toSimplePlaylist(playlist), followers: { href: null, total: 0 }, tracks: paginate(req, playlistItems(playlist), 100, 100) });
+});
+
+api.get('/playlists/:id/tracks', (req, res) => {
+  const playlist = findPlaylist(req.params.id);
+  if (!playlist) return apiError(res, 404, 'Resource not found');
+  res.json(paginate(req, playlistItems(playlist), 100, 100));
+});
+
+api.post('/playlists/:id/tracks', (req, res) => {
+  const playlist = findPlaylist(req.params.id);
+  if (!playlist) return apiError(res, 404, 'Resource not found');
+  const uris: string[] = Array.isArray(req.body?.uris)
+    ? req.body.uris
+    : typeof req.query.uris === 'string' ? req.query.uris.split(',') : [];
+  const ids = uris.map(idFromUri).filter(id => !!findTrack(id));
+  if (ids.length === 0) return apiError(res, 400, 'Invalid track uri');
+  const position = typeof req.body?.position === 'number' ? req.body.position : playlist.tracks.length;
+  playlist.tracks.splice(position, 0, ...ids);
+  res.status(201).json({ snapshot_id: `mock-snapshot-${playlist.tracks.length}` });
+});
+
+api.delete('/playlists/:id/tracks', (req, res) => {
+  const playlist = findPlaylist(req.params.id);
+  if (!playlist) return apiError(res, 404, 'Resource not found');
+  const removed = new Set((req.body?.tracks || []).map((t: { uri: string }) => idFromUri(t.uri)));
+  playlist.tracks = playlist.tracks.filter(id => !removed.has(id));
+  res.json({ snapshot_id: `mock-snapshot-${playlist.tracks.length}` });
+});
+
+api.put('/playlists/:id/followers', (req, res) => {
+  if (!findPlaylist(req.params.id)) return apiError(res, 404, 'Resource not found');
+  if (!db.library.followed_playlists.includes(req.params.id)) db.library.followed_playlists.push(req.params.id);
+  res.sendStatus(200);
+});
+
+api.delete('/playlists/:id/followers', (req, res) => {
+  db.library.followed_playlists = db.library.followed_playlists.filter(id => id !== req.params.id);
+  res.sendStatus(200);
+});
+
+api.get('/playlists/:id/followers/contains', (req, res) => {
+  const playlist = findPlaylist(req.params.id);
+  if (!playlist) return apiError(res, 404, 'Resource not found');
+  const following = playlist.owner === db.me.id || db.library.followed_playlists.includes(playlist.id);
+  res.json(idsParam(req).map(id => id === db.me.id && following));
+});
+
+// Tracks, albums, artists
+
+api.get('/tracks/:id', (req, res) => {
+  const track = findTrack(req.params.id);
+  if (!track) return apiError(res, 404, 'Resource not found');
+  res.json(toTrack(track));
+});
+
+api.get('/tracks', (req, res) => {
+  res.json({ tracks: idsParam(req).map(id => { const t = findTrack(id); return t ? toTrack(t) : null; }) });
+});
+
+api.get('/albums/:id', (req, res) => {
+  const album = findAlbum(req.params.id);
+  if (!album) return apiError(res, 404, 'Resource not found');
+  res.json(toAlbum(req, album));
+});
+
+api.get('/albums/:id/tracks', (req, res) => {
+  if (!findAlbum(req.params.id)) return apiError(res, 404, 'Resource not found');
+  res.json(paginate(req, albumTracks(req.params.id).map(toSimpleTrack)));
+});
+
+api.get('/albums', (req, res) => {
+  res.json({ albums: idsParam(req).map(id => { const a = findAlbum(id); return a ? toAlbum(req, a) : null; }) });
+});
+
+api.get('/artists/:id', (req, res) => {
+  const artist = findArtist(req.params.id);
+  if (!artist) return apiError(res, 404, 'Resource not found');
+  res.json(toArtist(artist));
+});
+
+api.get('/artists/:id/top-tracks', (req, res) => {
+  if (!findArtist(req.params.id)) return apiError(res, 404, 'Resource not found');
+  const tracks = db.tracks
+    .filter(t => t.artists.includes(req.params.id))
+    .sort((a, b) => b.popularity - a.popularity)
+    .slice(0, 10);
+  res.json({ tracks: tracks.map(toTrack) });
+});
+
+api.get('/artists/:id/albums', (req, res) => {
+  if (!findArtist(req.params.id)) return apiError(res, 404, 'Resource not found');
+  res.json(paginate(req, db.albums.filter(a => a.artists.includes(req.params.id)).map(toSimpleAlbum)));
+});
+
+api.get('/artists', (req, res) => {
+  res.json({ artists: idsParam(req).map(id => { const a = findArtist(id); return a ? toArtist(a) : null; }) });
+});
+
+// Library
+
+/** GET/PUT/DELETE /me/{path} and /me/{path}/contains for a saved-items list */
+const savedCollection = (path: string, key: 'saved_tracks' | 'saved_albums', toItem: (req: Request, id: string, i: number) => object | null) => {
+  api.get(`/me/${path}`, (req, res) => {
+    const items = db.library[key].map((id, i) => toItem(req, id, i)).filter(Boolean);
+    res.json(paginate(req, items));
+  });
+  api.put(`/me/${path}`, (req, res) => {
+    const ids = idsParam(req).filter(id => !db.library[key].includes(id));
+    db.library[key] = [...ids, ...db.library[key]];
+    res.sendStatus(200);
+  });
+  api.delete(`/me/${path}`, (req, res) => {
+    const ids = new Set(idsParam(req));
+    db.library[key] = db.library[key].filter(id => !ids.has(id));
+    res.sendStatus(200);
+  });
+  api.get(`/me/${path}/contains`, (req, res) => {
+    res.json(idsParam(req).map(id => db.library[key].includes(id)));
+  });
+};
+
+savedCollection('tracks', 'saved_tracks', (_req, id, i) => {
+  const track = findTrack(id);
+  return track ? { added_at: savedAt(i), track: toTrack(track) } : null;
+});
+savedCollection('albums', 'saved_albums', (req, id, i) => {
+  const album = findAlbum(id);
+  return album ? { added_at: savedAt(i), album: toAlbum(req, album) } : null;
+});
+
+api.get('/me/following', (req, res) => {
+  if (req.query.type !== 'artist') return apiError(res, 400, "Only 'artist' type is supported");
+  const limit = Math.min(Math.max(1, Number(req.query.limit) || 20), 50);
+  const followed = db.library.followed_artists.map(findArtist).filter((a): a is FixtureArtist => !!a);
+  const start = req.query.after ? followed.findIndex(a => a.id === req.query.after) + 1 : 0;
+  const items = followed.slice(start, start + limit);
+  const hasMore = start + limit < followed.length;
+  const after = hasMore ? items[items.length - 1].id : null;
+  const next = new URL(req.originalUrl, ORIGIN);
+  if (after) next.searchParams.set('after', after);
+  res.json({
+    artists: {
+      href: new URL(req.originalUrl, ORIGIN).toString(),
+      items: items.map(toArtist),
+      limit,
+      total: followed.length,
+      cursors: { after },
+      next: after ? next.toString() : null
+    }
+  });
+});
+
+api.put('/me/following', (req, res) => {
+  const ids = idsParam(req).filter(id => !db.library.followed_artists.includes(id));
+  db.library.followed_artists = [...db.library.followed_artists, ...ids];
+  res.sendStatus(204);
+});
+
+api.delete('/me/following', (req, res) => {
+  const ids = new Set(idsParam(req));
+  db.library.followed_artists = db.library.followed_artists.filter(id => !ids.has(id));
+  res.sendStatus(204);
+});
+
+api.get('/me/following/contains', (req, res) => {
+  res.json(idsParam(req).map(id => db.library.followed_artists.includes(id)));
+});
+
+// Search
+
+/**
+ * Loose match like Spotify's: field filters (genre:"x", artist:x, year:2024) must match,
+ * free words rank results but any one of them is enough
+ */
+const searchItems = <T>(query: string, items: T[], text: (item: T) => string, fields: (item: T) => Record<string, string>) => {
+  const filters: Array<[string, string]> = [];
+  const free = query
+    .replace(/(\w+):"([^"]+)"|(\w+):(\S+)/g, (_m, f1, v1, f2, v2) => {
+      filters.push([(f1 || f2).toLowerCase(), (v1 || v2).toLowerCase()]);
+      return ' ';
+    })
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  return items
+    .map(item => {
+      const itemFields = fields(item);
+      if (!filters.every(([field, value]) => (itemFields[field] || '').toLowerCase().includes(value))) return null;
+      const haystack = text(item).toLowerCase();
+      const score = free.filter(word => haystack.includes(word)).length;
+      return free.length === 0 || score > 0 ? { item, score } : null;
+    })
+    .filter((match): match is { item: T; score: number } => !!match)
+    .sort((a, b) => b.score - a.score)
+    .map(match => match.item);
+};
+
+const artistNames = (ids: string[]) => ids.map(id => findArtist(id)?.name || '').join(' ');
+const artistGenres = (ids: string[]) => ids.flatMap(id => findArtist(id)?.genres || []).join(' ');
+
+api.get('/search', (req, res) => {
+  const q = String(req.query.q || '').trim();
+  const types = String(req.query.type || '').split(',').filter(Boolean);
+  if (!q) return apiError(res, 400, 'No search query');
+  if (types.length === 0) return apiError(res, 400, 'Missing parameter type');
+
+  const result: Record<string, unknown> = {};
+  types.forEach(type => {
+    switch (type) {
+      case 'track':
+        result.tracks = paginate(req, searchItems(q, db.tracks,
+          t => `${t.name} ${artistNames(t.artists)} ${findAlbum(t.album)?.name || ''}`,
+          t => ({ track: t.name, artist: artistNames(t.artists), album: findAlbum(t.album)?.name || '', genre: artistGenres(t.artists), year: findAlbum(t.album)?.release_date.slice(0, 4) || '' })
+        ).map(toTrack));
+        break;
+      case 'artist':
+        result.artists = paginate(req, searchItems(q, db.artists,
+          a => `${a.name} ${a.genres.join(' ')}`,
+          a => ({ artist: a.name, genre: a.genres.join(' ') })
+        ).map(toArtist));
+        break;
+      case 'album':
+        result.albums = paginate(req, searchItems(q, db.albums,
+          a => `${a.name} ${artistNames(a.artists)}`,
+          a => ({ album: a.name, artist: artistNames(a.artists), genre: artistGenres(a.artists), year: a.release_date.slice(0, 4) })
+        ).map(toSimpleAlbum));
+        break;
+      case 'playlist':
+        result.playlists = paginate(req, searchItems(q, db.playlists,
+          p => `${p.name} ${p.description} ${p.tracks.map(id => artistGenres(findTrack(id)?.artists || [])).join(' ')}`,
+          () => ({})
+        ).map(toSimplePlaylist));
+        break;
+    }
+  });
+  res.json(result);
+});
+
+// Browse
+
+api.get('/browse/featured-playlists', (req, res) => {
+  const featured = db.featured_playlists.map(findPlaylist).filter((p): p is FixturePlaylist => !!p);
+  res.json({ message: 'Picked for you', playlists: paginate(req, featured.map(toSimplePlaylist)) });
+});
+
+api.get('/browse/new-releases', (req, res) => {
+  const albums = [...db.albums].sort((a, b) => b.release_date.localeCompare(a.release_date));
+  res.json({ albums: paginate(req, albums.map(toSimpleAlbum)) });
+});
+
+const toCategory = (category: FixtureCategory) => ({
+  id: category.id,
+  name: category.name,
+  href: `${API}/browse/categories/${category.id}`,
+  icons: images(`category-${category.id}`)
+});
+
+api.get('/browse/categories', (req, res) => {
+  res.json({ categories: paginate(req, db.categories.map(toCategory)) });
+});
+
+api.get('/browse/categories/:id', (req, res) => {
+  const category = db.categories.find(c => c.id === req.params.id);
+  if (!category) return apiError(res, 404, 'Resource not found');
+  res.json(toCategory(category));
+});
+
+api.get('/browse/categories/:id/playlists', (req, res) => {
+  const category = db.categories.find(c => c.id === req.params.id);
+  if (!category) return apiError(res, 404, 'Resource not found');
+  const playlists = category.playlists.map(findPlaylist).filter((p): p is FixturePlaylist => !!p);
+  res.json({ message: category.name, playlists: paginate(req, playlists.map(toSimplePlaylist)) });
+});
+
+// Player
+
+const currentProgress = (state: Playback) => {
+  const track = findTrack(state.tracks[state.index]);
+  const elapsed = state.isPlaying ? Date.now() - state.updatedAt : 0;
+  return Math.min(state.progressMs + elapsed, track?.duration_ms || 0);
+};
+
+const setProgress = (state: Playback, progressMs: number) => {
+  state.progressMs = progressMs;
+  state.updatedAt = Date.now();
+};
+
+/** Move to the next track (queued ones first); stops at the end unless repeating the context */
+const advance = (state: Playback) => {
+  const queued = state.userQueue.shift();
+  if (queued) {
+    state.tracks.splice(state.index + 1, 0, queued);
+    state.index += 1;
+  } else if (state.index < state.tracks.length - 1) {
+    state.index += 1;
+  } else if (state.repeat === 'context') {
+    state.index = 0;
+  } else {
+    state.isPlaying = false;
+    setProgress(state, 0);
+    return;
+  }
+  setProgress(state, 0);
+};
+
+/** Catch playback up with the clock - tracks that finished while nobody was asking */
+const settle = () => {
+  if (!playback?.isPlaying) return;
+  for (let guard = 0; guard < 1000 && playback.isPlaying; guard++) {
+    const track = findTrack(playback.tracks[playback.index]);
+    if (!track) return;
+    const overrun = playback.progressMs + (Date.now() - playback.updatedAt) - track.duration_ms;
+    if (overrun < 0) return;
+    const finishedAt = Date.now() - overrun;
+    if (playback.repeat === 'track') {
+      playback.progressMs = 0;
+    } else {
+      advance(playback);
+    }
+    playback.updatedAt = finishedAt;
+  }
+};
+
+/** Device to run a command on: ?device_id (registered if new) or the active one */
+const targetDevice = (req: Request): string | null => {
+  const requested = typeof req.query.device_id === 'string' ? req.query.device_id : null;
+  if (requested) {
+    if (!devices.some(d => d.id === requested)) {
+      devices.push({ id: requested, name: 'Web Player', type: 'Computer', volume_percent: 50 });
+    }
+    return requested;
+  }
+  return playback?.deviceId ?? null;
+};
+
+const noActiveDevice = (res: Response) => apiError(res, 404, 'Player command failed: No active device found', 'NO_ACTIVE_DEVICE');
+
+const toDevice = (device: FixtureDevice) => ({
+  ...device,
+  is_active: playback?.deviceId === device.id,
+  is_private_session: false,
+  is_restricted: false,
+  supports_volume: true
+});
+
+const playbackState = (state: Playback) => {
+  const track = findTrack(state.tracks[state.index]);
+  const device = devices.find(d => d.id === state.deviceId);
+  return {
+    device: device ? toDevice(device) : null,
+    repeat_state: state.repeat,
+    shuffle_state: state.shuffle,
+    context: state.contextUri ? { type: state.contextUri.split(':')[1], uri: state.contextUri, href: null, external_urls: {} } : null,
+    timestamp: Date.now(),
+    progress_ms: currentProgress(state),
+    is_playing: state.isPlaying,
+    item: track ? toTrack(track) : null,
+    currently_playing_type: 'track',
+    actions: { disallows: {} }
+  };
+};
+
+const contextTracks = (uri: string): string[] | null => {
+  const [, type, id] = uri.split(':');
+  if (type === 'playlist') return findPlaylist(id)?.tracks ?? null;
+  if (type === 'album') return findAlbum(id) ? albumTracks(id).map(t => t.id) : null;
+  if (type === 'artist') return findArtist(id) ? db.tracks.filter(t => t.artists.includes(id)).map(t => t.id) : null;
+  return null;
+};
+
+api.get('/me/player', (_req, res) => {
+  settle();
+  if (!playback) return res.sendStatus(204);
+  res.json(playbackState(playback));
+});
+
+api.get('/me/player/currently-playing', (_req, res) => {
+  settle();
+  if (!playback) return res.sendStatus(204);
+  res.json(playbackState(playback));
+});
+
+api.get('/me/player/devices', (_req, res) => {
+  res.json({ devices: devices.map(toDevice) });
+});
+
+api.get('/me/player/recently-played', (req, res) => {
+  const limit = Math.min(Math.max(1, Number(req.query.limit) || 20), 50);
+  const items = db.library.recently_played
+    .map(findTrack)
+    .filter((t): t is FixtureTrack => !!t)
+    .slice(0, limit)
+    .map((track, i) => ({
+      track: toTrack(track),
+      played_at: new Date(Date.now() - (i + 1) * 4 * 60 * 1000).toISOString(),
+      context: null
+    }));
+  res.json({ href: new URL(req.originalUrl, ORIGIN).toString(), items, limit, next: null, cursors: { after: null, before: null } });
+});
+
+api.put('/me/player', (req, res) => {
+  const deviceId = Array.isArray(req.body?.device_ids) ? req.body.device_ids[0] : null;
+  if (!deviceId) return apiError(res, 400, 'Missing device_ids');
+  if (!devices.some(d => d.id === deviceId)) {
+    devices.push({ id: deviceId, name: 'Web Player', type: 'Computer', volume_percent: 50 });
+  }
+  settle();
+  if (playback) {
+    setProgress(playback, currentProgress(playback));
+    playback.deviceId = deviceId;
+    if (typeof req.body.play === 'boolean') playback.isPlaying = req.body.play;
+  } else {
+    // Nothing loaded yet: pick up where the listening history left off, like Spotify does
+    const last = db.library.recently_played[0];
+    playback = {
+      deviceId, tracks: last ? [last] : [], index: 0, contextUri: null,
+      isPlaying: req.body.play === true && !!last, progressMs: 0, updatedAt: Date.now(),
+      shuffle: false, repeat: 'off', userQueue: []
+    };
+  }
+  res.sendStatus(204);
+});
+
+api.put('/me/player/play', (req, res) => {
+  const deviceId = targetDevice(req);
+  if (!deviceId) return noActiveDevice(res);
+  settle();
+  const { context_uri, uris, offset, position_ms } = req.body || {};
+
+  if (context_uri || uris) {
+    const tracks = context_uri ? contextTracks(context_uri) : (uris as string[]).map(idFromUri).filter(id => !!findTrack(id));
+    if (!tracks) return apiError(res, 404, 'Context not found');
+    if (tracks.length === 0) return apiError(res, 400, 'Invalid track uri');
+    let index = 0;
+    if (typeof offset?.position === 'number') index = Math.min(offset.position, tracks.length - 1);
+    else if (offset?.uri) index = Math.max(0, tracks.indexOf(idFromUri(offset.uri)));
+    playback = {
+      deviceId, tracks: [...tracks], index, contextUri: context_uri || null,
+      isPlaying: true, progressMs: Number(position_ms) || 0, updatedAt: Date.now(),
+      shuffle: playback?.shuffle ?? false, repeat: playback?.repeat ?? 'off', userQueue: playback?.userQueue ?? []
+    };
+    return res.sendStatus(204);
+  }
+
+  if (!playback || playback.tracks.length === 0) return noActiveDevice(res);
+  setProgress(playback, typeof position_ms === 'number' ? position_ms : currentProgress(playback));
+  playback.deviceId = deviceId;
+  playback.isPlaying = true;
+  res.sendStatus(204);
+});
+
+api.put('/me/player/pause', (req, res) => {
+  targetDevice(req);
+  settle();
+  if (!playback) return noActiveDevice(res);
+  setProgress(playback, currentProgress(playback));
+  playback.isPlaying = false;
+  res.sendStatus(204);
+});
+
+api.post('/me/player/next', (_req, res) => {
+  settle();
+  if (!playback) return noActiveDevice(res);
+  advance(playback);
+  res.sendStatus(204);
+});
+
+api.post('/me/player/previous', (_req, res) => {
+  settle();
+  if (!playback) return noActiveDevice(res);
+  if (currentProgress(playback) <= 3000 && playback.index > 0) playback.index -= 1;
+  setProgress(playback, 0);
+  res.sendStatus(204);
+});
+
+api.put('/me/player/seek', (req, res) => {
+  settle();
+  if (!playback) return noActiveDevice(res);
+  const position = Number(req.query.position_ms);
+  if (!Number.isFinite(position) || position < 0) return apiError(res, 400, 'Invalid position_ms');
+  setProgress(playback, position);
+  res.sendStatus(204);
+});
+
+api.put('/me/player/volume', (req, res) => {
+  const deviceId = targetDevice(req);
+  const device = devices.find(d => d.id === deviceId);
+  if (!device) return noActiveDevice(res);
+  const volume = Number(req.query.volume_percent);
+  if (!Number.isFinite(volume) || volume < 0 || volume > 100) return apiError(res, 400, 'Invalid volume_percent');
+  device.volume_percent = Math.round(volume);
+  res.sendStatus(204);
+});
+
+api.put('/me/player/shuffle', (req, res) => {
+  if (!playback) return noActiveDevice(res);
+  playback.shuffle = req.query.state === 'true';
+  res.sendStatus(204);
+});
+
+api.put('/me/player/repeat', (req, res) => {
+  if (!playback) return noActiveDevice(res);
+  const state = req.query.state;
+  if (state !== 'off' && state !== 'context' && state !== 'track') return apiError(res, 400, 'Invalid state');
+  playback.repeat = state;
+  res.sendStatus(204);
+});
+
+api.get('/me/player/queue', (_req, res) => {
+  settle();
+  const current = playback ? findTrack(playback.tracks[playback.index]) : undefined;
+  const upcoming = playback ? [...playback.userQueue, ...playback.tracks.slice(playback.index + 1)] : [];
+  res.json({
+    currently_playing: current ? toTrack(current) : null,
+    queue: upcoming.map(findTrack).filter((t): t is FixtureTrack => !!t).map(toTrack)
+  });
+});
+
+api.post('/me/player/queue', (req, res) => {
+  if (!playback) return noActiveDevice(res);
+  const id = idFromUri(String(req.query.uri || ''));
+  if (!findTrack(id)) return apiError(res, 400, 'Invalid track uri');
+  playback.userQueue.push(id);
+  res.sendStatus(204);
+});
+
+app.use('/v1', api);
+
+app.use('/v1', (_req, res) => {
+  apiError(res, 404, 'Service not found');
+});
+
+app.listen(PORT, () => console.log(`Mock Spotify API running on ${ORIGIN} (fixtures: ${FIXTURES_PATH})`));
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NextFunction, Request, Response } from 'express';
+import { rateLimit } from './rateLimit.js';
+
+const WINDOW_MS = 10000;
+
+const request = (ip: string) => ({ ip, socket: {} }) as unknown as Request;
+
+const response = () => {
+  const res = {
+    headers: {} as Record<string, string>,
+    statusCode: 200,
+    body: undefined as unknown,
+    locals: { log: { warn: vi.fn() } },
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    }
+  };
+  return res;
+};
+
+describe('rateLimit', () => {
+  let limiter: ReturnType<typeof rateLimit>;
+
+  const hit = (ip: string) => {
+    const res = response();
+    const next = vi.fn();
+    limiter(request(ip), res as unknown as Response, next as NextFunction);
+    return { res, next };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    limiter = rateLimit('test', { windowMs: WINDOW_MS, max: 2 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets requests through up to the limit and reports what is left', () => {
+    const first = hit('1.1.1.1');
+    const second = hit('1.1.1.1');
+
+    expect(first.next).toHaveBeenCalled();
+    expect(first.res.headers).toMatchObject({ 'RateLimit-Limit': '2', 'RateLimit-Remaining': '1' });
+    expect(second.next).toHaveBeenCalled();
+    expect(second.res.headers['RateLimit-Remaining']).toBe('0');
+  });
+
+  it('answers 429 with Retry-After once the limit is reached', () => {
+    hit('1.1.1.1');
+    vi.advanceTimersByTime(2500);
+    hit('1.1.1.1');
+    const { res, next } = hit('1.1.1.1');
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe('8');
+    expect(res.body).toEqual({ error: 'rate_limited', details: 'Too many requests. Try again in 8 seconds.' });
+    expect(res.locals.log.warn).toHaveBeenCalledWith('Rate limit exceeded', { limiter: 'test', ip: '1.1.1.1', retryAfter: 8 });
+  });
+
+  it('counts each IP separately', () => {
+    hit('1.1.1.1');
+    hit('1.1.1.1');
+
+    expect(hit('1.1.1.1').next).not.toHaveBeenCalled();
+    expect(hit('2.2.2.2').next).toHaveBeenCalled();
+  });
+
+  it('starts a new window once the old one has passed', () => {
+    hit('1.1.1.1');
+    hit('1.1.1.1');
+    vi.advanceTimersByTime(WINDOW_MS - 1);
+    expect(hit('1.1.1.1').next).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    const { res, next } = hit('1.1.1.1');
+    expect(next).toHaveBeenCalled();
+    expect(res.headers['RateLimit-Remaining']).toBe('1');
+  });
+});
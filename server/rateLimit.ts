@@ -0,0 +1,58 @@
+/**
+ * Rate Limit
+ * Per-IP request limits for the auth server's sensitive endpoints
+ *
+ * RULES:
+ * - Fixed windows counted in memory, per limiter and per client IP (req.ip - set TRUST_PROXY
+ *   behind a reverse proxy, or every client shares the proxy's address)
+ * - Over the limit: 429 with Retry-After; every response carries RateLimit-Limit and
+ *   RateLimit-Remaining
+ * - Counts are per process and reset on restart - enough to slow down code/token guessing,
+ *   not a replacement for limits at the edge
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import type { RateLimitConfig } from './config.js';
+import { requestLog } from './logger.js';
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Middleware allowing `max` requests per IP every `windowMs`; `name` labels the limiter in logs
+ */
+export function rateLimit(name: string, { windowMs, max }: RateLimitConfig) {
+  const windows = new Map<string, Window>();
+
+  setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, ip) => {
+      if (window.resetAt <= now) windows.delete(ip);
+    });
+  }, windowMs).unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const ip = req.ip || req.socket.remoteAddress || 'unknown';
+    const now = Date.now();
+    let window = windows.get(ip);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(ip, window);
+    }
+    window.count++;
+
+    res.setHeader('RateLimit-Limit', String(max));
+    res.setHeader('RateLimit-Remaining', String(Math.max(0, max - window.count)));
+    if (window.count <= max) return next();
+
+    const retryAfter = Math.ceil((window.resetAt - now) / 1000);
+    requestLog(res).warn('Rate limit exceeded', { limiter: name, ip, retryAfter });
+    res.setHeader('Retry-After', String(retryAfter));
+    res.status(429).json({
+      error: 'rate_limited',
+      details: `Too many requests. Try again in ${retryAfter} seconds.`
+    });
+  };
+}
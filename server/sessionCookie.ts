@@ -0,0 +1,67 @@
+/**
+ * Session Cookie
+ * Signed, httpOnly cookie that carries the session id in session mode
+ *
+ * RULES:
+ * - The cookie value is `<id>.<signature>`, signed with HMAC-SHA256 over SESSION_SECRET
+ * - Signatures are compared in constant time; a bad or missing signature, or a value that
+ *   can't be decoded, reads as no session
+ * - Always HttpOnly and SameSite=Lax; Secure unless the client runs on plain http (local dev)
+ */
+
+import crypto from 'crypto';
+import type { Request, Response } from 'express';
+
+export const SESSION_COOKIE = 'flowbeats_session';
+
+const sign = (value: string, secret: string) =>
+  crypto.createHmac('sha256', secret).update(value).digest('base64url');
+
+/** A new random, unguessable session id */
+export function newSessionId(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * The session id from the request's signed cookie, or null if absent or tampered with
+ */
+export function readSessionId(req: Request, secret: string): string | null {
+  const header = req.headers.cookie;
+  if (!header) return null;
+
+  const raw = header
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${SESSION_COOKIE}=`));
+  if (!raw) return null;
+
+  let value: string;
+  try {
+    value = decodeURIComponent(raw.slice(SESSION_COOKIE.length + 1));
+  } catch {
+    // Malformed percent-encoding - not a cookie this server set
+    return null;
+  }
+  const dot = value.lastIndexOf('.');
+  if (dot <= 0) return null;
+
+  const id = value.slice(0, dot);
+  const expected = Buffer.from(sign(id, secret));
+  const actual = Buffer.from(value.slice(dot + 1));
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+  return id;
+}
+
+export function setSessionCookie(res: Response, id: string, secret: string, maxAgeMs: number, secure: boolean) {
+  res.cookie(SESSION_COOKIE, `${id}.${sign(id, secret)}`, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure,
+    path: '/',
+    maxAge: maxAgeMs
+  });
+}
+
+export function clearSessionCookie(res: Response, secure: boolean) {
+  res.clearCookie(SESSION_COOKIE, { httpOnly: true, sameSite: 'lax', secure, path: '/' });
+}
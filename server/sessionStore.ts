@@ -0,0 +1,129 @@
+/**
+ * Session Store
+ * Server-side storage for Spotify tokens in session mode, keyed by session id
+ *
+ * RULES:
+ * - Stores are pluggable: anything implementing SessionStore works (Redis, a database, ...)
+ * - The bundled stores run without external services: "memory" (lost on restart) and
+ *   "file" (a JSON file, survives restarts)
+ * - Sessions expire SESSION_TTL_MS after their last use; get() never returns an expired one
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { SessionStoreConfig } from './config.js';
+import type { Logger } from './logger.js';
+
+export interface SessionData {
+  accessToken: string;
+  refreshToken: string;
+  /** Epoch ms when the access token expires */
+  expiresAt: number;
+  /** Space-separated scopes Spotify granted; missing for sessions created before it was stored */
+  scope?: string;
+  createdAt: number;
+  /** Epoch ms when the session stops being valid, pushed back on every use */
+  idleExpiresAt: number;
+}
+
+export interface SessionStore {
+  get(id: string): Promise<SessionData | null>;
+  set(id: string, data: SessionData): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/** How long an unused session lives */
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export class MemorySessionStore implements SessionStore {
+  protected sessions = new Map<string, SessionData>();
+
+  constructor() {
+    setInterval(() => this.prune(), PRUNE_INTERVAL_MS).unref();
+  }
+
+  async get(id: string): Promise<SessionData | null> {
+    const session = this.sessions.get(id);
+    if (!session) return null;
+    if (session.idleExpiresAt <= Date.now()) {
+      this.sessions.delete(id);
+      return null;
+    }
+    return session;
+  }
+
+  async set(id: string, data: SessionData): Promise<void> {
+    this.sessions.set(id, data);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  private prune() {
+    const now = Date.now();
+    this.sessions.forEach((session, id) => {
+      if (session.idleExpiresAt <= now) this.sessions.delete(id);
+    });
+  }
+}
+
+/**
+ * Keeps sessions in memory and writes them to a JSON file (mode 0600) after every change
+ */
+export class FileSessionStore extends MemorySessionStore {
+  private filePath: string;
+  private logger: Logger;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, logger: Logger) {
+    super();
+    this.filePath = filePath;
+    this.logger = logger;
+    try {
+      const saved = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, SessionData>;
+      Object.entries(saved).forEach(([id, data]) => {
+        if (data.idleExpiresAt > Date.now()) this.sessions.set(id, data);
+      });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Failed to load sessions', { filePath, err });
+      }
+    }
+  }
+
+  async set(id: string, data: SessionData): Promise<void> {
+    await super.set(id, data);
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<void> {
+    await super.delete(id);
+    await this.persist();
+  }
+
+  /** Writes are chained so an older snapshot never overwrites a newer one */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(Object.fromEntries(this.sessions));
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tmp, snapshot, { mode: 0o600 });
+        await fs.promises.rename(tmp, this.filePath);
+      } catch (err) {
+        this.logger.error('Failed to save sessions', { filePath: this.filePath, err });
+      }
+    });
+    return this.writing;
+  }
+}
+
+/**
+ * Build the configured store (SESSION_STORE / SESSION_FILE, checked by loadConfig)
+ */
+export function createSessionStore({ kind, filePath }: SessionStoreConfig, logger: Logger): SessionStore {
+  return kind === 'file' ? new FileSessionStore(filePath, logger) : new MemorySessionStore();
+}
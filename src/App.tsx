@@ -14,16 +14,23 @@ import About from './pages/About';
 import Artist from './pages/Artist';
 import Profile from './pages/Profile';
 import Recommendations from './pages/Recommendations';
+import History from './pages/History';
+import Track from './pages/Track';
+import Devices from './pages/Devices';
 import MediaView from './components/MediaView';
 import Sidebar from './components/Sidebar';
 import Header from './components/Header';
 import Player from './components/Player';
+import ScopeConsentDialog from './components/ScopeConsentDialog';
+import SessionExpiredDialog from './components/SessionExpiredDialog';
 import { AuthProvider, useAuth } from './context/auth';
 import { PlayerProvider } from './context/player';
 import { ToastProvider } from './context/toast';
 import { PlaylistsProvider } from './context/playlists';
 import { LibraryProvider } from './context/library';
 import { SearchProvider } from './context/search';
+import { ShortcutsProvider } from './context/shortcuts';
+import { RadioProvider } from './context/radio';
 
 // Create a dark theme for the music player
 const darkTheme = createTheme({
@@ -121,7 +128,7 @@ const MediaPage: React.FC = () => {
 };
 
 const AppContent: React.FC = () => {
-  const { token } = useAuth();
+  const { token, isGuest } = useAuth();
   
   return (
     <div className="App" style={{ minHeight: '100dvh' }}>
@@ -137,13 +144,18 @@ const AppContent: React.FC = () => {
         <Route path="/settings" element={<Settings />} />
         <Route path="/dashboard" element={<Dashboard />} />
         <Route path="/recommendations" element={<Recommendations />} />
+        <Route path="/history" element={<History />} />
+        <Route path="/devices" element={<Devices />} />
         <Route path="/album/:id" element={<MediaPage />} />
         <Route path="/playlist/:id" element={<MediaPage />} />
         <Route path="/artist/:id" element={<Artist />} />
+        <Route path="/track/:id" element={<Track />} />
         <Route path="/user/:id" element={<Profile />} />
       </Routes>
-      {/* Show player only when user is authenticated */}
-      {token && <Player />}
+      {/* Show player only when user is authenticated - guest mode's demo library can't play */}
+      {token && !isGuest && <Player />}
+      <ScopeConsentDialog />
+      <SessionExpiredDialog />
     </div>
   );
 };
@@ -152,21 +164,25 @@ function App() {
   return (
     <ThemeProvider theme={darkTheme}>
       <CssBaseline />
-      <AuthProvider>
-        <PlayerProvider>
-          <PlaylistsProvider>
-            <LibraryProvider>
-              <SearchProvider>
-                <ToastProvider>
-                  <Router>
-                    <AppContent />
-                  </Router>
-                </ToastProvider>
-              </SearchProvider>
-            </LibraryProvider>
-          </PlaylistsProvider>
-        </PlayerProvider>
-      </AuthProvider>
+      <ToastProvider>
+        <AuthProvider>
+          <PlayerProvider>
+            <PlaylistsProvider>
+              <LibraryProvider>
+                <SearchProvider>
+                  <RadioProvider>
+                    <Router>
+                      <ShortcutsProvider>
+                        <AppContent />
+                      </ShortcutsProvider>
+                    </Router>
+                  </RadioProvider>
+                </SearchProvider>
+              </LibraryProvider>
+            </PlaylistsProvider>
+          </PlayerProvider>
+        </AuthProvider>
+      </ToastProvider>
     </ThemeProvider>
   );
 }
@@ -19,16 +19,19 @@ import {
   PersonRemove,
   OpenInNew,
   PlayArrow,
-  Share
+  Share,
+  Radio
 } from '@mui/icons-material';
 import { useAuth } from '../context/auth';
 import { useToast } from '../context/toast';
 import { useLibrary } from '../context/library';
+import { useRadio } from '../hooks/useRadio';
 import type { Artist } from '../types/spotify';
 import {
   checkFollowingArtists,
   followArtist,
-  unfollowArtist
+  unfollowArtist,
+  getArtistTopTracks
 } from '../services/libraryService';
 
 interface ArtistMenuProps {
@@ -51,6 +54,7 @@ const ArtistMenu: React.FC<ArtistMenuProps> = ({
   const { token } = useAuth();
   const toast = useToast();
   const { addArtistOptimistic, removeArtistOptimistic, refreshArtists } = useLibrary();
+  const { startRadio } = useRadio();
   
   const [isFollowing, setIsFollowing] = React.useState(false);
   const [isCheckingFollow, setIsCheckingFollow] = React.useState(false);
@@ -121,6 +125,17 @@ const ArtistMenu: React.FC<ArtistMenuProps> = ({
     onClose();
   };
 
+  const handleStartRadio = async () => {
+    if (!artist || !token) return;
+    onClose();
+    const topTracks = await getArtistTopTracks(token, artist.id);
+    if (topTracks.length === 0) {
+      toast.showToast('No tracks found to start a radio from', 'error');
+      return;
+    }
+    startRadio(topTracks, artist.name);
+  };
+
   const handleOpenInSpotify = () => {
     if (artist?.external_urls?.spotify) {
       window.open(artist.external_urls.spotify, '_blank', 'noopener,noreferrer');
@@ -205,6 +220,17 @@ const ArtistMenu: React.FC<ArtistMenuProps> = ({
         </MenuItem>
       )}
 
+      {/* Start radio */}
+      <MenuItem 
+        onClick={handleStartRadio}
+        sx={{ color: 'white', py: 0.75, px: 1.5, minHeight: 32, '&:hover': { bgcolor: 'rgba(255,255,255,0.08)' } }}
+      >
+        <ListItemIcon sx={{ minWidth: 28 }}>
+          <Radio sx={{ color: 'white', fontSize: 18 }} />
+        </ListItemIcon>
+        <ListItemText primary="Start Radio" primaryTypographyProps={{ fontSize: '0.8rem' }} />
+      </MenuItem>
+
       {/* Follow/Unfollow */}
       <MenuItem 
         onClick={handleToggleFollow}
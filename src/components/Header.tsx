@@ -4,6 +4,7 @@ import { useAuth } from '../context/auth';
 import { usePlayer } from '../context/player';
 import { useSearch } from '../context/search';
 import type { Track } from '../types/spotify';
+import { FOCUS_SEARCH_EVENT } from '../utils/keyboardShortcuts';
 import {
   AppBar,
   Toolbar,
@@ -24,7 +25,8 @@ import {
   CircularProgress,
   Snackbar,
   Alert,
-  Stack
+  Stack,
+  Divider
 } from '@mui/material';
 import {
   Menu as MenuIcon,
@@ -34,11 +36,13 @@ import {
   Close,
   Settings,
   InfoOutlined,
-  ArrowBack
+  ArrowBack,
+  PersonAdd
 } from '@mui/icons-material';
 import { OpenInNew } from '@mui/icons-material';
 import SpotifyIcon from './SpotifyIcon';
 import { PlayArrow, Pause } from '@mui/icons-material';
+import { SPOTIFY_API_BASE, AUTH_SESSIONS_ENABLED } from '../utils/apiConfig';
 
 interface HeaderProps {
   onSearch?: (query: string) => void;
@@ -55,7 +59,8 @@ const Header: React.FC<HeaderProps> = ({
 }) => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { user, token, logout } = useAuth();
+  const { user, token, logout, accounts, addAccount, switchAccount } = useAuth();
+  const otherAccounts = accounts.filter(a => a.id !== user?.id);
   const { play, pause, currentTrack, isPlaying } = usePlayer();
   const { query: globalQuery, setQuery: setGlobalQuery } = useSearch();
 
@@ -84,6 +89,17 @@ const Header: React.FC<HeaderProps> = ({
   // which can add padding-right to <body> and shift the header horizontally.
 
   const containerRef = React.useRef<HTMLDivElement | null>(null);
+  const searchInputRef = React.useRef<HTMLInputElement | null>(null);
+
+  // "/" shortcut (see context/shortcuts) asks the search box to take focus
+  React.useEffect(() => {
+    const onFocusSearch = () => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
+    };
+    window.addEventListener(FOCUS_SEARCH_EVENT, onFocusSearch);
+    return () => window.removeEventListener(FOCUS_SEARCH_EVENT, onFocusSearch);
+  }, []);
 
   const searchTracks = React.useCallback(
     async (query: string) => {
@@ -103,7 +119,7 @@ const Header: React.FC<HeaderProps> = ({
       setIsSearching(true);
       try {
         const res = await fetch(
-          `https://api.spotify.com/v1/search?q=${encodeURIComponent(query)}&type=track&limit=5`,
+          `${SPOTIFY_API_BASE}/search?q=${encodeURIComponent(query)}&type=track&limit=5`,
           {
             headers: { Authorization: `Bearer ${token}` }
           }
@@ -158,6 +174,9 @@ const Header: React.FC<HeaderProps> = ({
     if (!showSearchDropdown || searchResults.length === 0) {
       if (e.key === 'Enter' && searchQuery.trim()) {
         navigate(`/search?q=${encodeURIComponent(searchQuery)}`);
+      } else if (e.key === 'Escape') {
+        // Leave the field so global keyboard shortcuts work again
+        e.currentTarget.blur();
       }
       return;
     }
@@ -317,6 +336,7 @@ const Header: React.FC<HeaderProps> = ({
                 value={searchQuery}
                 onChange={handleChange}
                 onKeyDown={handleKeyDown}
+                inputRef={searchInputRef}
                 placeholder={location.pathname === '/search' ? 'Search...' : searchPlaceholder}
                 variant="outlined"
                 size="small"
@@ -541,6 +561,48 @@ const Header: React.FC<HeaderProps> = ({
                       <InfoOutlined sx={{ mr: 1, fontSize: 18, color: '#9ca3af', transition: 'color 160ms ease' }} />
                       <Typography variant="inherit" component="span">About</Typography>
                     </MenuItem>
+                    <Divider sx={{ borderColor: 'rgba(255,255,255,0.06)', my: 0.5 }} />
+                    {otherAccounts.map(account => (
+                      <MenuItem
+                        key={account.id}
+                        onClick={() => { handleProfileClose(); switchAccount(account.id); }}
+                        title={`Switch to ${account.user.display_name || account.id}`}
+                        sx={{
+                          fontWeight: 600,
+                          color: '#e6e6e6',
+                          px: 2.5,
+                          py: 1.25,
+                          borderRadius: 1,
+                          transition: 'all 160ms ease',
+                          '&:hover': { color: '#ffffff', bgcolor: 'rgba(34,197,94,0.09)', transform: 'translateX(6px)' }
+                        }}
+                      >
+                        <Avatar src={account.user.images?.[0]?.url} sx={{ width: 22, height: 22, mr: 1, fontSize: 12 }}>
+                          {account.user.display_name?.[0] || account.id[0]}
+                        </Avatar>
+                        <Typography variant="inherit" component="span" noWrap sx={{ maxWidth: 140 }}>
+                          {account.user.display_name || account.id}
+                        </Typography>
+                      </MenuItem>
+                    ))}
+                    {!AUTH_SESSIONS_ENABLED && (
+                      <MenuItem
+                        onClick={() => { handleProfileClose(); addAccount(); }}
+                        sx={{
+                          fontWeight: 600,
+                          color: '#e6e6e6',
+                          px: 2.5,
+                          py: 1.5,
+                          borderRadius: 1,
+                          transition: 'all 160ms ease',
+                          '&:hover': { color: '#ffffff', bgcolor: 'rgba(34,197,94,0.09)', transform: 'translateX(6px)' },
+                          '&:hover svg': { color: 'primary.main' }
+                        }}
+                      >
+                        <PersonAdd sx={{ mr: 1, fontSize: 18, color: '#9ca3af', transition: 'color 160ms ease' }} />
+                        <Typography variant="inherit" component="span">Add account</Typography>
+                      </MenuItem>
+                    )}
                   <MenuItem
                     onClick={handleLogout}
                     sx={{
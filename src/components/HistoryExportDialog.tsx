@@ -0,0 +1,120 @@
+/**
+ * HistoryExportDialog Component
+ * Pick an export format and optional date range, then download the listening history
+ */
+
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  RadioGroup,
+  FormControlLabel,
+  Radio,
+  Typography
+} from '@mui/material';
+import { useToast } from '../context/toast';
+import { listeningHistoryService } from '../services/listeningHistoryService';
+import {
+  EXPORT_FORMATS,
+  filterByDateRange,
+  downloadFile,
+  type HistoryExportFormat
+} from '../utils/historyExport';
+
+interface HistoryExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const FORMAT_HINTS: Record<HistoryExportFormat, string> = {
+  listenbrainz: 'Ready to submit to ListenBrainz. Only plays that count as scrobbles are included.',
+  lastfm: 'For Last.fm bulk scrobblers. Only plays that count as scrobbles are included.',
+  csv: 'Every recorded play, including skips, for spreadsheets and scripts.',
+};
+
+const HistoryExportDialog: React.FC<HistoryExportDialogProps> = ({ open, onClose }) => {
+  const toast = useToast();
+  const [format, setFormat] = React.useState<HistoryExportFormat>('listenbrainz');
+  const [from, setFrom] = React.useState('');
+  const [to, setTo] = React.useState('');
+  const [isExporting, setIsExporting] = React.useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const all = await listeningHistoryService.getAllEntries();
+      // Date inputs are local calendar days; "to" covers the whole selected day
+      const entries = filterByDateRange(all, {
+        from: from ? new Date(`${from}T00:00:00`).getTime() : undefined,
+        to: to ? new Date(`${to}T23:59:59.999`).getTime() : undefined
+      });
+      if (entries.length === 0) {
+        toast.showToast('No plays in that date range', 'info');
+        return;
+      }
+
+      const { build, extension, mimeType } = EXPORT_FORMATS[format];
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadFile(build(entries), `listening-history-${format}-${stamp}.${extension}`, mimeType);
+      onClose();
+    } catch (err) {
+      console.error('History export error', err);
+      toast.showToast('Failed to export history', 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Export listening history</DialogTitle>
+      <DialogContent>
+        <RadioGroup value={format} onChange={(e) => setFormat(e.target.value as HistoryExportFormat)}>
+          {(Object.keys(EXPORT_FORMATS) as HistoryExportFormat[]).map(key => (
+            <FormControlLabel
+              key={key}
+              value={key}
+              control={<Radio size="small" />}
+              label={EXPORT_FORMATS[key].label}
+            />
+          ))}
+        </RadioGroup>
+        <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mb: 2 }}>
+          {FORMAT_HINTS[format]}
+        </Typography>
+        <div className="flex gap-2">
+          <TextField
+            label="From"
+            type="date"
+            size="small"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            fullWidth
+          />
+          <TextField
+            label="To"
+            type="date"
+            size="small"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            fullWidth
+          />
+        </div>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} sx={{ color: 'text.secondary' }}>Cancel</Button>
+        <Button onClick={handleExport} disabled={isExporting} variant="contained" sx={{ color: 'black' }}>
+          {isExporting ? 'Exporting…' : 'Export'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default HistoryExportDialog;
@@ -0,0 +1,197 @@
+/**
+ * LoopBookmarkButton Component
+ * Player bar button + menu for A-B looping and bookmarks within the current track
+ *
+ * The loop lives in useABLoop (called once in Player) and is passed in, like the sleep
+ * timer, so the markers drawn on the progress bar and the menu agree.
+ */
+
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  IconButton,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+  Divider,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button
+} from '@mui/material';
+import { Loop, LooksOne, LooksTwo, Close, BookmarkAdd, Bookmark, Bookmarks } from '@mui/icons-material';
+import { usePlayer } from '../context/player';
+import { useToast } from '../context/toast';
+import { bookmarkService } from '../services/bookmarkService';
+import { useTrackBookmarks } from '../hooks/useTrackBookmarks';
+import type { UseABLoopReturn } from '../hooks/useABLoop';
+
+interface LoopBookmarkButtonProps {
+  loop: UseABLoopReturn;
+  /** Smaller button for the mobile control row */
+  compact?: boolean;
+}
+
+/** Bookmarks listed directly in the menu; the rest are on the track page */
+const MENU_BOOKMARK_LIMIT = 5;
+
+const formatTimestamp = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const LoopBookmarkButton: React.FC<LoopBookmarkButtonProps> = ({ loop, compact }) => {
+  const navigate = useNavigate();
+  const toast = useToast();
+  const { currentTrack, position, seek } = usePlayer();
+  const bookmarks = useTrackBookmarks(currentTrack?.id);
+  const [anchor, setAnchor] = React.useState<null | HTMLElement>(null);
+  const [bookmarkDialog, setBookmarkDialog] = React.useState<{ positionMs: number } | null>(null);
+  const [bookmarkLabel, setBookmarkLabel] = React.useState('');
+
+  const { a, b, isActive, setA, setB, clear } = loop;
+  const loopLabel = isActive ? `Looping ${formatTimestamp(a ?? 0)} – ${formatTimestamp(b ?? 0)}` : 'A-B loop & bookmarks';
+
+  const closeAnd = (fn: () => void) => () => {
+    fn();
+    setAnchor(null);
+  };
+
+  const openBookmarkDialog = () => {
+    setBookmarkDialog({ positionMs: position });
+    setBookmarkLabel('');
+    setAnchor(null);
+  };
+
+  const saveBookmark = () => {
+    if (!currentTrack || !bookmarkDialog) return;
+    const label = bookmarkLabel.trim() || formatTimestamp(bookmarkDialog.positionMs);
+    bookmarkService.add(currentTrack, label, bookmarkDialog.positionMs);
+    toast.showToast(`Bookmarked "${label}" at ${formatTimestamp(bookmarkDialog.positionMs)}`, 'success');
+    setBookmarkDialog(null);
+  };
+
+  const itemSx = { py: 0.75, px: 1.25, gap: 1 };
+
+  return (
+    <>
+      <IconButton
+        onClick={(e) => setAnchor(e.currentTarget)}
+        disabled={!currentTrack}
+        size="small"
+        aria-label="A-B loop and bookmarks"
+        aria-pressed={isActive}
+        title={loopLabel}
+        sx={{
+          color: isActive ? 'primary.main' : 'text.secondary',
+          background: isActive ? 'rgba(34, 197, 94, 0.15)' : 'transparent',
+          p: compact ? 0.5 : undefined,
+          width: compact ? undefined : 30,
+          height: compact ? undefined : 30,
+          '&:hover': {
+            color: isActive ? 'primary.light' : 'text.primary',
+            background: isActive ? 'rgba(34, 197, 94, 0.25)' : 'rgba(255, 255, 255, 0.05)'
+          }
+        }}
+      >
+        <Loop sx={{ fontSize: 16 }} />
+      </IconButton>
+
+      <Menu
+        anchorEl={anchor}
+        open={Boolean(anchor)}
+        onClose={() => setAnchor(null)}
+        anchorOrigin={{ vertical: 'top', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        disableScrollLock={true}
+        PaperProps={{
+          sx: {
+            zIndex: (theme) => theme.zIndex.modal + 50,
+            bgcolor: 'rgba(0, 0, 0, 0.9)',
+            backdropFilter: 'blur(20px)',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            borderRadius: 2,
+            minWidth: 240,
+            p: 0.5
+          }
+        }}
+      >
+        <Typography variant="caption" sx={{ px: 1.5, py: 0.5, display: 'block', color: 'text.secondary', fontWeight: 600 }}>
+          {isActive ? loopLabel : 'A-B loop'}
+        </Typography>
+        <MenuItem onClick={closeAnd(setA)} sx={itemSx}>
+          <ListItemIcon sx={{ minWidth: 0 }}><LooksOne fontSize="small" /></ListItemIcon>
+          <ListItemText
+            primary={`Set A at ${formatTimestamp(position)}`}
+            secondary={a !== null ? `Currently ${formatTimestamp(a)}` : undefined}
+          />
+        </MenuItem>
+        <MenuItem onClick={closeAnd(setB)} sx={itemSx}>
+          <ListItemIcon sx={{ minWidth: 0 }}><LooksTwo fontSize="small" /></ListItemIcon>
+          <ListItemText
+            primary={`Set B at ${formatTimestamp(position)}`}
+            secondary={b !== null ? `Currently ${formatTimestamp(b)}` : undefined}
+          />
+        </MenuItem>
+        {(a !== null || b !== null) && (
+          <MenuItem onClick={closeAnd(clear)} sx={itemSx}>
+            <ListItemIcon sx={{ minWidth: 0 }}><Close fontSize="small" /></ListItemIcon>
+            <ListItemText primary="Clear loop" />
+          </MenuItem>
+        )}
+
+        <Divider sx={{ borderColor: 'rgba(255,255,255,0.08)', my: 0.5 }} />
+
+        <MenuItem onClick={openBookmarkDialog} sx={itemSx}>
+          <ListItemIcon sx={{ minWidth: 0 }}><BookmarkAdd fontSize="small" /></ListItemIcon>
+          <ListItemText primary={`Bookmark ${formatTimestamp(position)}…`} />
+        </MenuItem>
+        {bookmarks.slice(0, MENU_BOOKMARK_LIMIT).map(bookmark => (
+          <MenuItem key={bookmark.id} onClick={closeAnd(() => seek(bookmark.positionMs))} sx={itemSx}>
+            <ListItemIcon sx={{ minWidth: 0 }}><Bookmark fontSize="small" /></ListItemIcon>
+            <ListItemText primary={bookmark.label} primaryTypographyProps={{ noWrap: true }} />
+            <Typography variant="caption" sx={{ color: 'text.secondary', fontVariantNumeric: 'tabular-nums' }}>
+              {formatTimestamp(bookmark.positionMs)}
+            </Typography>
+          </MenuItem>
+        ))}
+        {currentTrack && (
+          <MenuItem onClick={closeAnd(() => navigate(`/track/${currentTrack.id}`))} sx={itemSx}>
+            <ListItemIcon sx={{ minWidth: 0 }}><Bookmarks fontSize="small" /></ListItemIcon>
+            <ListItemText primary={bookmarks.length > MENU_BOOKMARK_LIMIT ? `All ${bookmarks.length} bookmarks` : 'Track details & bookmarks'} />
+          </MenuItem>
+        )}
+      </Menu>
+
+      <Dialog open={!!bookmarkDialog} onClose={() => setBookmarkDialog(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Bookmark {bookmarkDialog ? formatTimestamp(bookmarkDialog.positionMs) : ''}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            size="small"
+            margin="dense"
+            label="Name"
+            placeholder="e.g. solo"
+            value={bookmarkLabel}
+            onChange={(e) => setBookmarkLabel(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveBookmark();
+            }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setBookmarkDialog(null)} sx={{ color: 'text.secondary' }}>Cancel</Button>
+          <Button onClick={saveBookmark}>Save</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default LoopBookmarkButton;
@@ -25,6 +25,8 @@ import {
   ArrowDownward
 } from '@mui/icons-material';
 import type { Album as AlbumType, Playlist as PlaylistType, Track } from '../types/spotify';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
+import { requireFeature } from '../services/scopeConsent';
 
 interface MediaViewProps {
   id: string;
@@ -84,11 +86,12 @@ const MediaView: React.FC<MediaViewProps> = ({ id, type, onBack, onTrackPlay })
   const handleDeletePlaylist = async () => {
     if (!mediaData || !token || type !== 'playlist') return;
     
+    if (!requireFeature('playlists')) return;
     const confirmed = window.confirm(`Are you sure you want to delete "${mediaData.name}"? This cannot be undone.`);
     if (!confirmed) return;
     
     try {
-      const response = await fetch(`https://api.spotify.com/v1/playlists/${id}/followers`, {
+      const response = await fetch(`${SPOTIFY_API_BASE}/playlists/${id}/followers`, {
         method: 'DELETE',
         headers: { Authorization: `Bearer ${token}` }
       });
@@ -120,7 +123,7 @@ const MediaView: React.FC<MediaViewProps> = ({ id, type, onBack, onTrackPlay })
     if (!token) return;
 
     let allTracks: any[] = [];
-    let nextUrl = `https://api.spotify.com/v1/albums/${albumId}/tracks?limit=50`;
+    let nextUrl = `${SPOTIFY_API_BASE}/albums/${albumId}/tracks?limit=50`;
 
     while (nextUrl) {
       try {
@@ -151,7 +154,7 @@ const MediaView: React.FC<MediaViewProps> = ({ id, type, onBack, onTrackPlay })
         if (type === 'album') {
           // Fetch album data with fields parameter to get all tracks in one request
           const mediaResponse = await fetch(
-            `https://api.spotify.com/v1/albums/${id}?market=US`,
+            `${SPOTIFY_API_BASE}/albums/${id}?market=US`,
             {
               headers: { Authorization: `Bearer ${token}` },
             }
@@ -172,10 +175,10 @@ const MediaView: React.FC<MediaViewProps> = ({ id, type, onBack, onTrackPlay })
         } else {
           // For playlists, fetch metadata and tracks in PARALLEL for speed
           const [playlistResponse, tracksResponse] = await Promise.all([
-            fetch(`https://api.spotify.com/v1/playlists/${id}?fields=id,name,description,images,owner,tracks(total),uri,type`, {
+            fetch(`${SPOTIFY_API_BASE}/playlists/${id}?fields=id,name,description,images,owner,tracks(total),uri,type`, {
               headers: { Authorization: `Bearer ${token}` },
             }),
-            fetch(`https://api.spotify.com/v1/playlists/${id}/tracks?limit=100&market=US`, {
+            fetch(`${SPOTIFY_API_BASE}/playlists/${id}/tracks?limit=100&market=US`, {
               headers: { Authorization: `Bearer ${token}` },
             })
           ]);
@@ -13,7 +13,8 @@ import {
   MenuItem,
   ListItemIcon,
   ListItemText,
-  Tooltip
+  Tooltip,
+  Divider
 } from '@mui/material';
 import {
   PlayArrow,
@@ -34,8 +35,17 @@ import {
   Tv,
   Watch,
   MoreVert,
+  QueueMusic,
+  Radio,
+  Tune,
 } from '@mui/icons-material';
 import TrackMenu from './TrackMenu';
+import QueuePanel from './QueuePanel';
+import SleepTimerButton from './SleepTimerButton';
+import LoopBookmarkButton from './LoopBookmarkButton';
+import { useSleepTimer } from '../hooks/useSleepTimer';
+import { useABLoop } from '../hooks/useABLoop';
+import { useRadio } from '../hooks/useRadio';
 
 const Player: React.FC = () => {
   const navigate = useNavigate();
@@ -68,6 +78,22 @@ const Player: React.FC = () => {
   const [trackMenuAnchor, setTrackMenuAnchor] = React.useState<null | HTMLElement>(null);
   const trackMenuOpen = Boolean(trackMenuAnchor);
 
+  // Queue panel state
+  const [queueOpen, setQueueOpen] = React.useState(false);
+
+  // One sleep timer shared by the mobile and desktop layouts
+  const sleepTimer = useSleepTimer();
+
+  // A-B loop markers, drawn on both progress bars
+  const loop = useABLoop();
+  const loopMarks = [loop.a, loop.b]
+    .filter((value): value is number => value !== null)
+    .map(value => ({ value }));
+  const loopColor = isRemotePlaying ? '#fdba74' : '#86efac';
+
+  const { isRadioOn, radioLabel, toggleRadio } = useRadio();
+  const radioTitle = isRadioOn ? `Radio on${radioLabel ? ` · ${radioLabel}` : ''}` : 'Radio: keep playing similar songs';
+
   const handleTrackMenuOpen = (event: React.MouseEvent<HTMLButtonElement>) => {
     setTrackMenuAnchor(event.currentTarget);
   };
@@ -224,6 +250,19 @@ const Player: React.FC = () => {
                 : 'linear-gradient(90deg, #1db954 0%, #1ed760 100%)',
               transition: 'width 0.1s linear',
             }} />
+            {/* A-B loop region */}
+            {loop.isActive && duration > 0 && (
+              <Box sx={{
+                position: 'absolute',
+                top: 0,
+                height: '100%',
+                left: `${((loop.a ?? 0) / duration) * 100}%`,
+                width: `${(((loop.b ?? 0) - (loop.a ?? 0)) / duration) * 100}%`,
+                bgcolor: loopColor,
+                opacity: 0.35,
+                pointerEvents: 'none',
+              }} />
+            )}
             {/* Clickable overlay for seeking */}
             <Slider
               value={duration > 0 ? position : 0}
@@ -373,6 +412,39 @@ const Player: React.FC = () => {
                 {getRepeatIcon(16)}
               </IconButton>
 
+              {/* Queue button for mobile */}
+              <IconButton 
+                onClick={() => setQueueOpen(true)}
+                size="small"
+                aria-label="Open queue"
+                sx={{ 
+                  color: queueOpen ? 'primary.main' : 'text.secondary',
+                  p: 0.5,
+                }}
+              >
+                <QueueMusic sx={{ fontSize: 16 }} />
+              </IconButton>
+
+              {/* Radio toggle for mobile */}
+              <IconButton 
+                onClick={toggleRadio}
+                size="small"
+                aria-label="Toggle radio"
+                aria-pressed={isRadioOn}
+                sx={{ 
+                  color: isRadioOn ? 'primary.main' : 'text.secondary',
+                  p: 0.5,
+                }}
+              >
+                <Radio sx={{ fontSize: 16 }} />
+              </IconButton>
+
+              {/* Sleep timer for mobile */}
+              <SleepTimerButton timer={sleepTimer} hasTrack={isTrackLoaded} compact />
+
+              {/* A-B loop & bookmarks for mobile */}
+              <LoopBookmarkButton loop={loop} compact />
+
               {/* Device picker button for mobile */}
               <IconButton 
                 onClick={handleDeviceMenuClick}
@@ -779,11 +851,19 @@ const Player: React.FC = () => {
               <Slider
                 value={duration > 0 ? position : 0}
                 max={duration}
+                marks={loopMarks}
                 onChange={handleProgressChange}
                 disabled={!isTrackLoaded}
                 sx={{
                   flex: 1,
                   height: 5,
+                  '& .MuiSlider-mark': {
+                    width: 3,
+                    height: 11,
+                    borderRadius: '1px',
+                    backgroundColor: loopColor,
+                    opacity: 1,
+                  },
                   '& .MuiSlider-thumb': {
                     width: 12,
                     height: 12,
@@ -853,6 +933,54 @@ const Player: React.FC = () => {
               boxShadow: 'inset 0 1px 2px rgba(255, 255, 255, 0.1), 0 4px 16px rgba(0, 0, 0, 0.2)'
             }}
           >
+            {/* Queue */}
+            <IconButton 
+              onClick={() => setQueueOpen(true)}
+              sx={{ 
+                color: queueOpen ? 'primary.main' : 'text.secondary',
+                '&:hover': { 
+                  color: 'text.primary',
+                  background: 'rgba(255, 255, 255, 0.05)',
+                  transform: 'scale(1.03)'
+                },
+                transition: 'all 0.2s ease',
+                width: 30,
+                height: 30
+              }} 
+              aria-label="Open queue"
+              title="Queue"
+            >
+              <QueueMusic sx={{ fontSize: 16 }} />
+            </IconButton>
+
+            {/* Radio */}
+            <IconButton 
+              onClick={toggleRadio}
+              aria-pressed={isRadioOn}
+              sx={{ 
+                color: isRadioOn ? 'primary.main' : 'text.secondary',
+                background: isRadioOn ? 'rgba(34, 197, 94, 0.15)' : 'transparent',
+                '&:hover': { 
+                  color: isRadioOn ? 'primary.light' : 'text.primary',
+                  background: isRadioOn ? 'rgba(34, 197, 94, 0.25)' : 'rgba(255, 255, 255, 0.05)',
+                  transform: 'scale(1.03)'
+                },
+                transition: 'all 0.2s ease',
+                width: 30,
+                height: 30
+              }} 
+              aria-label="Toggle radio"
+              title={radioTitle}
+            >
+              <Radio sx={{ fontSize: 16 }} />
+            </IconButton>
+
+            {/* Sleep Timer */}
+            <SleepTimerButton timer={sleepTimer} hasTrack={isTrackLoaded} />
+
+            {/* A-B Loop & Bookmarks */}
+            <LoopBookmarkButton loop={loop} />
+
             {/* Device Selection */}
             <IconButton 
               onClick={handleDeviceMenuClick}
@@ -897,6 +1025,11 @@ const Player: React.FC = () => {
                 }
               }}
             >
+              {isRemotePlaying && activeDeviceName && (
+                <Typography variant="caption" sx={{ px: 1.5, py: 0.5, display: 'block', color: '#fb923c', fontWeight: 600 }}>
+                  Controlling {activeDeviceName}
+                </Typography>
+              )}
               {availableDevices.length === 0 ? (
                 <MenuItem disabled sx={{ py: 1.25, px: 1.5 }}>
                   <ListItemText
@@ -924,6 +1057,19 @@ const Player: React.FC = () => {
                   </MenuItem>
                 ))
               )}
+              <Divider sx={{ borderColor: 'rgba(255,255,255,0.08)', my: 0.5 }} />
+              <MenuItem
+                onClick={() => {
+                  handleDeviceMenuClose();
+                  navigate('/devices');
+                }}
+                sx={{ py: 1, px: 1.25, gap: 1 }}
+              >
+                <ListItemIcon sx={{ minWidth: 36, color: 'inherit' }}>
+                  <Tune sx={{ fontSize: 18 }} />
+                </ListItemIcon>
+                <ListItemText primary="Manage devices" secondary="Volumes, default device & rules" secondaryTypographyProps={{ fontSize: '0.75rem', color: 'text.secondary' }} />
+              </MenuItem>
             </Menu>
 
             <IconButton 
@@ -1002,6 +1148,9 @@ const Player: React.FC = () => {
         onClose={handleTrackMenuClose}
         track={currentTrack}
       />
+
+      {/* Slide-out queue */}
+      <QueuePanel open={queueOpen} onClose={() => setQueueOpen(false)} />
     </Box>
   );
 };
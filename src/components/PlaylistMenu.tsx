@@ -28,19 +28,23 @@ import {
   Share,
   Edit,
   Delete,
-  ContentCopy
+  ContentCopy,
+  Radio
 } from '@mui/icons-material';
 import { useAuth } from '../context/auth';
 import { useToast } from '../context/toast';
 import { useLibrary } from '../context/library';
+import { useRadio } from '../hooks/useRadio';
 import type { Playlist } from '../types/spotify';
 import {
   checkFollowingPlaylists,
   followPlaylist,
   unfollowPlaylist,
   createPlaylist,
-  addTracksToPlaylist
+  addTracksToPlaylist,
+  getPlaylistTracks
 } from '../services/libraryService';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
 
 interface PlaylistMenuProps {
   anchorEl: HTMLElement | null;
@@ -66,6 +70,7 @@ const PlaylistMenu: React.FC<PlaylistMenuProps> = ({
   const { token, user } = useAuth();
   const toast = useToast();
   const { addPlaylistOptimistic, removePlaylistOptimistic, refreshPlaylists } = useLibrary();
+  const { startRadio } = useRadio();
   
   const [isFollowing, setIsFollowing] = React.useState(false);
   const [isCheckingFollow, setIsCheckingFollow] = React.useState(false);
@@ -154,6 +159,17 @@ const PlaylistMenu: React.FC<PlaylistMenuProps> = ({
     onClose();
   };
 
+  const handleStartRadio = async () => {
+    if (!playlist || !token) return;
+    onClose();
+    const tracks = await getPlaylistTracks(token, playlist.id);
+    if (tracks.length === 0) {
+      toast.showToast('No tracks found to start a radio from', 'error');
+      return;
+    }
+    startRadio(tracks, playlist.name);
+  };
+
   const handleOpenInSpotify = () => {
     if (playlist?.external_urls?.spotify) {
       window.open(playlist.external_urls.spotify, '_blank', 'noopener,noreferrer');
@@ -218,7 +234,7 @@ const PlaylistMenu: React.FC<PlaylistMenuProps> = ({
         
         // Fetch all tracks from the original playlist
         const tracksResponse = await fetch(
-          `https://api.spotify.com/v1/playlists/${playlist.id}/tracks?limit=100`,
+          `${SPOTIFY_API_BASE}/playlists/${playlist.id}/tracks?limit=100`,
           { headers: { Authorization: `Bearer ${token}` } }
         );
         
@@ -325,6 +341,17 @@ const PlaylistMenu: React.FC<PlaylistMenuProps> = ({
         </MenuItem>
       )}
 
+      {/* Start radio */}
+      <MenuItem 
+        onClick={handleStartRadio}
+        sx={{ color: 'white', py: 0.75, px: 1.5, minHeight: 32, '&:hover': { bgcolor: 'rgba(255,255,255,0.08)' } }}
+      >
+        <ListItemIcon sx={{ minWidth: 28 }}>
+          <Radio sx={{ color: 'white', fontSize: 18 }} />
+        </ListItemIcon>
+        <ListItemText primary="Start Radio" primaryTypographyProps={{ fontSize: '0.8rem' }} />
+      </MenuItem>
+
       {/* Add/Remove from Library */}
       <MenuItem 
         onClick={handleToggleFollow}
@@ -0,0 +1,322 @@
+/**
+ * QueuePanel Component
+ * Slide-out "Up next" panel showing the current track and the playback queue
+ *
+ * Shows Spotify's read-only queue by default. Once the user takes control (or starts
+ * playback through playQueue) the client-managed queue is shown instead, which supports
+ * drag-to-reorder, remove, play next and clear. Smart shuffle reorders the current
+ * context client-side and can be undone with "Restore original order".
+ */
+
+import React from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  IconButton,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Avatar,
+  Tooltip,
+  Button,
+  Menu,
+  MenuItem,
+  ListItemIcon
+} from '@mui/material';
+import {
+  Close,
+  MusicNote,
+  Refresh,
+  DragIndicator,
+  RemoveCircleOutline,
+  QueuePlayNext,
+  ClearAll,
+  Edit,
+  Shuffle,
+  ShuffleOn,
+  Timeline,
+  FormatListNumbered
+} from '@mui/icons-material';
+import { usePlayer } from '../context/player';
+import type { Track } from '../types/spotify';
+
+interface QueuePanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface QueueRowProps {
+  track: Track;
+  highlight?: boolean;
+  draggable?: boolean;
+  isDragOver?: boolean;
+  onDragStart?: () => void;
+  onDragOver?: (e: React.DragEvent) => void;
+  onDrop?: () => void;
+  onDragEnd?: () => void;
+  actions?: React.ReactNode;
+}
+
+const QueueRow: React.FC<QueueRowProps> = ({
+  track,
+  highlight,
+  draggable,
+  isDragOver,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+  actions
+}) => (
+  <ListItem
+    draggable={draggable}
+    onDragStart={onDragStart}
+    onDragOver={onDragOver}
+    onDrop={onDrop}
+    onDragEnd={onDragEnd}
+    secondaryAction={actions}
+    sx={{
+      px: 2,
+      py: 0.75,
+      pl: draggable ? 0.5 : 2,
+      cursor: draggable ? 'grab' : 'default',
+      borderTop: isDragOver ? '2px solid #1db954' : '2px solid transparent',
+      '&:hover .queue-row-actions': { opacity: 1 }
+    }}
+  >
+    {draggable && (
+      <DragIndicator sx={{ color: 'rgba(255,255,255,0.3)', fontSize: 18, mr: 0.5 }} />
+    )}
+    <ListItemAvatar sx={{ minWidth: 52 }}>
+      <Avatar
+        variant="rounded"
+        src={track.album?.images?.[track.album.images.length - 1]?.url || track.album?.images?.[0]?.url}
+        sx={{ width: 40, height: 40, bgcolor: 'rgba(255,255,255,0.05)' }}
+      >
+        <MusicNote />
+      </Avatar>
+    </ListItemAvatar>
+    <ListItemText
+      primary={track.name}
+      secondary={track.artists?.map(a => a.name).join(', ')}
+      primaryTypographyProps={{
+        noWrap: true,
+        fontSize: '0.85rem',
+        fontWeight: 600,
+        color: highlight ? '#1db954' : 'white'
+      }}
+      secondaryTypographyProps={{ noWrap: true, fontSize: '0.75rem', color: 'text.secondary' }}
+      sx={{ pr: actions ? 7 : 0 }}
+    />
+  </ListItem>
+);
+
+const QueuePanel: React.FC<QueuePanelProps> = ({ open, onClose }) => {
+  const {
+    currentTrack,
+    queue,
+    getQueue,
+    localQueue,
+    queueIndex,
+    isQueueActive,
+    removeFromQueue,
+    moveQueueItem,
+    clearQueue,
+    takeOverQueue,
+    isSmartShuffled,
+    smartShuffle,
+    unshuffle
+  } = usePlayer();
+
+  const [shuffleMenuAnchor, setShuffleMenuAnchor] = React.useState<HTMLElement | null>(null);
+
+  const handleShuffleAction = (action: () => Promise<void>) => {
+    setShuffleMenuAnchor(null);
+    action();
+  };
+
+  // Index (into localQueue) of the row being dragged and the row it hovers over
+  const [dragIndex, setDragIndex] = React.useState<number | null>(null);
+  const [dragOverIndex, setDragOverIndex] = React.useState<number | null>(null);
+
+  // getQueue is a new function on every player render - only opening the panel should fetch
+  const getQueueRef = React.useRef(getQueue);
+  getQueueRef.current = getQueue;
+
+  // Pull a fresh copy of Spotify's queue every time the panel opens
+  React.useEffect(() => {
+    if (open && !isQueueActive) getQueueRef.current();
+  }, [open, isQueueActive]);
+
+  const upNext = isQueueActive
+    ? localQueue.slice(queueIndex + 1).map((track, i) => ({ track, index: queueIndex + 1 + i }))
+    : queue.map((track, i) => ({ track, index: i }));
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex !== null && dragIndex !== targetIndex) {
+      moveQueueItem(dragIndex, targetIndex);
+    }
+    setDragIndex(null);
+    setDragOverIndex(null);
+  };
+
+  const sectionLabelSx = { color: 'text.secondary', fontWeight: 600, textTransform: 'uppercase', letterSpacing: 0.5 } as const;
+
+  return (
+    <Drawer
+      anchor="right"
+      open={open}
+      onClose={onClose}
+      sx={{
+        zIndex: (theme) => theme.zIndex.drawer + 20,
+        '& .MuiDrawer-paper': {
+          width: { xs: '85vw', sm: 360 },
+          maxWidth: 360,
+          bgcolor: '#0a0a0a',
+          background: 'linear-gradient(180deg, #0a0a0a 0%, #000000 100%)',
+          borderLeft: '1px solid rgba(255,255,255,0.08)',
+          pb: 12
+        }
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', px: 2, py: 1.5, borderBottom: '1px solid rgba(255,255,255,0.06)' }}>
+        <Typography variant="subtitle1" sx={{ color: 'white', fontWeight: 700 }}>
+          Queue
+        </Typography>
+        <Box>
+          <Tooltip title="Smart shuffle">
+            <span>
+              <IconButton
+                size="small"
+                onClick={(e) => setShuffleMenuAnchor(e.currentTarget)}
+                disabled={!currentTrack}
+                aria-label="Smart shuffle"
+                sx={{ color: isSmartShuffled ? 'primary.main' : 'text.secondary' }}
+              >
+                {isSmartShuffled ? <ShuffleOn fontSize="small" /> : <Shuffle fontSize="small" />}
+              </IconButton>
+            </span>
+          </Tooltip>
+          {isQueueActive ? (
+            <Tooltip title="Clear queue">
+              <span>
+                <IconButton size="small" onClick={clearQueue} disabled={upNext.length === 0} sx={{ color: 'text.secondary' }}>
+                  <ClearAll fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          ) : (
+            <Tooltip title="Refresh">
+              <IconButton size="small" onClick={getQueue} sx={{ color: 'text.secondary' }}>
+                <Refresh fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+          <IconButton size="small" onClick={onClose} sx={{ color: 'text.secondary' }} aria-label="Close queue">
+            <Close fontSize="small" />
+          </IconButton>
+        </Box>
+      </Box>
+
+      <Menu
+        anchorEl={shuffleMenuAnchor}
+        open={Boolean(shuffleMenuAnchor)}
+        onClose={() => setShuffleMenuAnchor(null)}
+        sx={{ zIndex: (theme) => theme.zIndex.drawer + 21 }}
+        PaperProps={{ sx: { bgcolor: '#1a1a1a', border: '1px solid rgba(255,255,255,0.1)' } }}
+      >
+        <MenuItem onClick={() => handleShuffleAction(() => smartShuffle())} sx={{ fontSize: '0.8rem' }}>
+          <ListItemIcon><Shuffle fontSize="small" /></ListItemIcon>
+          Smart shuffle
+        </MenuItem>
+        <MenuItem onClick={() => handleShuffleAction(() => smartShuffle({ smoothTransitions: true }))} sx={{ fontSize: '0.8rem' }}>
+          <ListItemIcon><Timeline fontSize="small" /></ListItemIcon>
+          Smart shuffle with smooth transitions
+        </MenuItem>
+        {isSmartShuffled && (
+          <MenuItem onClick={() => handleShuffleAction(unshuffle)} sx={{ fontSize: '0.8rem' }}>
+            <ListItemIcon><FormatListNumbered fontSize="small" /></ListItemIcon>
+            Restore original order
+          </MenuItem>
+        )}
+      </Menu>
+
+      <Box sx={{ px: 2, pt: 2 }}>
+        <Typography variant="caption" sx={sectionLabelSx}>
+          Now playing
+        </Typography>
+      </Box>
+      {currentTrack ? (
+        <List dense disablePadding>
+          <QueueRow track={currentTrack} highlight />
+        </List>
+      ) : (
+        <Typography variant="body2" sx={{ color: 'text.secondary', px: 2, py: 1 }}>
+          Nothing is playing
+        </Typography>
+      )}
+
+      <Box sx={{ px: 2, pt: 2, display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="caption" sx={sectionLabelSx}>
+          Up next
+        </Typography>
+        {!isQueueActive && currentTrack && (
+          <Button
+            size="small"
+            startIcon={<Edit sx={{ fontSize: 14 }} />}
+            onClick={takeOverQueue}
+            sx={{ color: 'primary.main', textTransform: 'none', fontSize: '0.75rem', py: 0 }}
+          >
+            Edit queue
+          </Button>
+        )}
+      </Box>
+      {upNext.length === 0 ? (
+        <Typography variant="body2" sx={{ color: 'text.secondary', px: 2, py: 1 }}>
+          Your queue is empty
+        </Typography>
+      ) : (
+        <List dense disablePadding>
+          {upNext.map(({ track, index }, position) => (
+            <QueueRow
+              key={`${track.id}-${index}`}
+              track={track}
+              draggable={isQueueActive}
+              isDragOver={isQueueActive && dragOverIndex === index && dragIndex !== index}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragOverIndex(index);
+              }}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDragOverIndex(null);
+              }}
+              actions={isQueueActive ? (
+                <Box className="queue-row-actions" sx={{ opacity: { xs: 1, md: 0 }, transition: 'opacity 0.2s ease', display: 'flex' }}>
+                  {position > 0 && (
+                    <Tooltip title="Play next">
+                      <IconButton size="small" onClick={() => moveQueueItem(index, queueIndex + 1)} sx={{ color: 'text.secondary' }}>
+                        <QueuePlayNext sx={{ fontSize: 16 }} />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  <Tooltip title="Remove">
+                    <IconButton size="small" onClick={() => removeFromQueue(index)} sx={{ color: 'text.secondary' }}>
+                      <RemoveCircleOutline sx={{ fontSize: 16 }} />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              ) : undefined}
+            />
+          ))}
+        </List>
+      )}
+    </Drawer>
+  );
+};
+
+export default QueuePanel;
@@ -0,0 +1,102 @@
+/**
+ * ScopeConsentDialog Component
+ * Offers to re-run the Spotify login with the scopes a feature is missing (see scopeConsent)
+ */
+
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Typography,
+  Button
+} from '@mui/material';
+import { LockOpen } from '@mui/icons-material';
+import { useAuth } from '../context/auth';
+import { SCOPE_CONSENT_EVENT, type ScopeConsentRequest } from '../services/scopeConsent';
+import { tokenManager } from '../services/tokenManager';
+import { SCOPE_FEATURES, missingScopes, type ScopeFeatureId } from '../utils/spotifyScopes';
+
+/** After "Not now", ignore further prompts for the same feature this long */
+const SNOOZE_MS = 60 * 1000;
+
+const ScopeConsentDialog: React.FC = () => {
+  const { token, isGuest, requestScopes } = useAuth();
+  const [feature, setFeature] = React.useState<ScopeFeatureId | null>(null);
+  const snoozedUntil = React.useRef<Partial<Record<ScopeFeatureId, number>>>({});
+
+  React.useEffect(() => {
+    const onConsentRequired = (e: Event) => {
+      const { feature: requested } = (e as CustomEvent<ScopeConsentRequest>).detail;
+      if ((snoozedUntil.current[requested] || 0) > Date.now()) return;
+      setFeature(current => current ?? requested);
+    };
+    window.addEventListener(SCOPE_CONSENT_EVENT, onConsentRequired);
+    return () => window.removeEventListener(SCOPE_CONSENT_EVENT, onConsentRequired);
+  }, []);
+
+  if (!feature || !token || isGuest) return null;
+
+  const info = SCOPE_FEATURES[feature];
+  const missing = missingScopes(feature, tokenManager.getGrantedScopes());
+
+  const dismiss = () => {
+    snoozedUntil.current[feature] = Date.now() + SNOOZE_MS;
+    setFeature(null);
+  };
+
+  return (
+    <Dialog
+      open
+      onClose={dismiss}
+      maxWidth="xs"
+      fullWidth
+      PaperProps={{
+        sx: {
+          bgcolor: '#0a0a0a',
+          border: '1px solid rgba(255,255,255,0.08)',
+          borderRadius: 3
+        }
+      }}
+    >
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'white', fontWeight: 700 }}>
+        <LockOpen sx={{ color: '#1db954' }} />
+        Allow access to {info.label.toLowerCase()}?
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" sx={{ color: 'text.secondary', mb: 2 }}>
+          {info.description} needs a Spotify permission you haven't granted yet. You'll be sent to
+          Spotify to approve it and brought straight back.
+        </Typography>
+        {/* Unknown grant (older sessions) lists the feature's full scope set */}
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.75 }}>
+          {(missing.length > 0 ? missing : info.scopes).map(scope => (
+            <Box
+              key={scope}
+              component="code"
+              sx={{ px: 1, py: 0.25, borderRadius: 1, bgcolor: 'rgba(255,255,255,0.06)', color: '#e6e6e6', fontSize: '0.75rem' }}
+            >
+              {scope}
+            </Box>
+          ))}
+        </Box>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={dismiss} sx={{ color: 'text.secondary', textTransform: 'none' }}>
+          Not now
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => requestScopes([feature])}
+          sx={{ textTransform: 'none', fontWeight: 700, borderRadius: 2 }}
+        >
+          Grant access
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ScopeConsentDialog;
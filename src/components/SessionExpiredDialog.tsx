@@ -0,0 +1,129 @@
+/**
+ * SessionExpiredDialog Component
+ * Asks the user to sign in again when the session can't be refreshed, then brings them back
+ * to where they were and sends the changes that failed meanwhile (see sessionRecoveryService)
+ */
+
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Typography,
+  Button
+} from '@mui/material';
+import { LockClock } from '@mui/icons-material';
+import { useAuth } from '../context/auth';
+import { useLibrary } from '../context/library';
+import { useToast } from '../context/toast';
+import { SESSION_EXPIRED_EVENT } from '../services/tokenManager';
+import { sessionRecoveryService, PENDING_MUTATIONS_UPDATED_EVENT } from '../services/sessionRecoveryService';
+
+const SessionExpiredDialog: React.FC = () => {
+  const { user, login } = useAuth();
+  const { refreshAll } = useLibrary();
+  const { showToast } = useToast();
+  const navigate = useNavigate();
+  const [open, setOpen] = React.useState(false);
+  const [pendingCount, setPendingCount] = React.useState(0);
+  const userId = user?.id;
+  // navigate changes with every location; the sign-in effect mustn't replay the queue again for that
+  const actionsRef = React.useRef({ navigate, refreshAll, showToast });
+  actionsRef.current = { navigate, refreshAll, showToast };
+
+  React.useEffect(() => {
+    // Fired before the tokens are cleared - save the place while the page still shows it
+    const onSessionExpired = () => {
+      sessionRecoveryService.saveReturnPoint();
+      setOpen(true);
+    };
+    window.addEventListener(SESSION_EXPIRED_EVENT, onSessionExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, onSessionExpired);
+  }, []);
+
+  // Changes that failed as the session ended are queued just after the event
+  React.useEffect(() => {
+    const onPendingUpdated = () => setPendingCount(sessionRecoveryService.getPendingMutationCount());
+    onPendingUpdated();
+    window.addEventListener(PENDING_MUTATIONS_UPDATED_EVENT, onPendingUpdated);
+    return () => window.removeEventListener(PENDING_MUTATIONS_UPDATED_EVENT, onPendingUpdated);
+  }, []);
+
+  // Signed in (again): return to the saved place, then retry queued changes
+  React.useEffect(() => {
+    if (!userId) return;
+    const { navigate, refreshAll, showToast } = actionsRef.current;
+    setOpen(false);
+
+    const point = sessionRecoveryService.takeReturnPoint();
+    if (point) {
+      navigate(point.path, { replace: true });
+      sessionRecoveryService.restoreReturnPoint(point);
+    }
+
+    if (sessionRecoveryService.getPendingMutationCount(userId) === 0) return;
+    sessionRecoveryService.replayMutations(userId).then(({ succeeded, failed }) => {
+      if (succeeded.length > 0) {
+        refreshAll();
+        showToast(
+          succeeded.length === 1
+            ? `Saved your change from before the session expired (${succeeded[0].label.toLowerCase()})`
+            : `Saved ${succeeded.length} changes from before the session expired`,
+          'success'
+        );
+      }
+      if (failed.length > 0) {
+        showToast(`Couldn't save ${failed.length === 1 ? `"${failed[0].label}"` : `${failed.length} changes`} - please try again`, 'error');
+      }
+    });
+  }, [userId]);
+
+  if (!open) return null;
+
+  return (
+    <Dialog
+      open
+      maxWidth="xs"
+      fullWidth
+      PaperProps={{
+        sx: {
+          bgcolor: '#0a0a0a',
+          border: '1px solid rgba(255,255,255,0.08)',
+          borderRadius: 3
+        }
+      }}
+    >
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'white', fontWeight: 700 }}>
+        <LockClock sx={{ color: '#1db954' }} />
+        Your session has expired
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+          Sign in to Spotify again to keep going. You'll come back to this page.
+        </Typography>
+        {pendingCount > 0 && (
+          <Typography variant="body2" sx={{ color: 'text.secondary', mt: 1.5 }}>
+            {pendingCount === 1 ? '1 change' : `${pendingCount} changes`} couldn't be saved and will be
+            retried once you're signed in.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={() => setOpen(false)} sx={{ color: 'text.secondary', textTransform: 'none' }}>
+          Not now
+        </Button>
+        <Button
+          variant="contained"
+          onClick={login}
+          sx={{ textTransform: 'none', fontWeight: 700, borderRadius: 2 }}
+        >
+          Sign in again
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SessionExpiredDialog;
@@ -0,0 +1,89 @@
+/**
+ * ShortcutSettings Component
+ * Settings card for viewing and remapping keyboard shortcuts
+ *
+ * Click a binding, then press the new key (or two keys in a row for a sequence).
+ * Escape cancels; assigning a combination already in use unassigns it elsewhere.
+ */
+
+import React from 'react';
+import { Card, CardContent, Typography, Button, Tooltip, IconButton } from '@mui/material';
+import { Keyboard, RestartAlt, Close } from '@mui/icons-material';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { SHORTCUT_DEFINITIONS, formatBinding } from '../utils/keyboardShortcuts';
+
+const ShortcutSettings: React.FC = () => {
+  const { bindings, recordingAction, startRecording, cancelRecording, setBinding, resetBindings, setHelpOpen } = useShortcuts();
+
+  return (
+    <Card className="bg-white/5 border border-white/10 backdrop-blur-md mt-4">
+      <CardContent className="p-0">
+        <div className="px-3 sm:px-5 py-2 sm:py-3 border-b border-white/10 flex items-center gap-2 bg-black/20">
+          <Keyboard className="text-green-500" fontSize="small" />
+          <Typography variant="subtitle2" className="text-white font-bold text-xs sm:text-sm">
+            Keyboard Shortcuts
+          </Typography>
+          <div className="ml-auto flex gap-1">
+            <Button
+              size="small"
+              onClick={() => setHelpOpen(true)}
+              className="text-gray-400 hover:text-white normal-case text-xs"
+            >
+              View all
+            </Button>
+            <Button
+              size="small"
+              startIcon={<RestartAlt fontSize="small" />}
+              onClick={resetBindings}
+              className="text-gray-400 hover:text-white normal-case text-xs"
+            >
+              Reset
+            </Button>
+          </div>
+        </div>
+
+        <div className="p-3 sm:p-5 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1">
+          {SHORTCUT_DEFINITIONS.map(def => {
+            const isRecording = recordingAction === def.action;
+            const binding = bindings[def.action];
+            return (
+              <div key={def.action} className="flex items-center justify-between py-1">
+                <Typography className="text-gray-300 text-xs">{def.label}</Typography>
+                <div className="flex items-center gap-1">
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    onClick={() => (isRecording ? cancelRecording() : startRecording(def.action))}
+                    className={`min-w-[72px] normal-case font-mono text-[11px] rounded-md ${
+                      isRecording
+                        ? 'border-green-500 text-green-400 animate-pulse'
+                        : binding
+                          ? 'border-white/15 text-white'
+                          : 'border-white/10 text-gray-500'
+                    }`}
+                  >
+                    {isRecording ? 'Press keys…' : formatBinding(binding)}
+                  </Button>
+                  <Tooltip title="Unassign">
+                    <span>
+                      <IconButton
+                        size="small"
+                        disabled={!binding || isRecording}
+                        onClick={() => setBinding(def.action, '')}
+                        className="text-gray-500 hover:text-white"
+                      >
+                        <Close style={{ fontSize: 14 }} />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ShortcutSettings;
@@ -0,0 +1,92 @@
+/**
+ * ShortcutsHelp Component
+ * "?" overlay listing every keyboard shortcut grouped by area
+ */
+
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  Box,
+  Typography,
+  IconButton
+} from '@mui/material';
+import { Close, Keyboard } from '@mui/icons-material';
+import {
+  SHORTCUT_DEFINITIONS,
+  formatBinding,
+  type ShortcutBindings,
+  type ShortcutDefinition
+} from '../utils/keyboardShortcuts';
+
+interface ShortcutsHelpProps {
+  open: boolean;
+  onClose: () => void;
+  bindings: ShortcutBindings;
+}
+
+const GROUPS: ShortcutDefinition['group'][] = ['Playback', 'Navigation', 'General'];
+
+const ShortcutsHelp: React.FC<ShortcutsHelpProps> = ({ open, onClose, bindings }) => (
+  <Dialog
+    open={open}
+    onClose={onClose}
+    maxWidth="xs"
+    fullWidth
+    PaperProps={{
+      sx: {
+        bgcolor: '#0a0a0a',
+        border: '1px solid rgba(255,255,255,0.08)',
+        borderRadius: 3
+      }
+    }}
+  >
+    <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'white', fontWeight: 700 }}>
+      <Keyboard sx={{ color: '#1db954' }} />
+      Keyboard shortcuts
+      <IconButton size="small" onClick={onClose} sx={{ ml: 'auto', color: 'text.secondary' }} aria-label="Close shortcuts">
+        <Close fontSize="small" />
+      </IconButton>
+    </DialogTitle>
+    <DialogContent>
+      {GROUPS.map(group => (
+        <Box key={group} sx={{ mb: 2 }}>
+          <Typography variant="caption" sx={{ color: 'text.secondary', fontWeight: 600, textTransform: 'uppercase', letterSpacing: 0.5 }}>
+            {group}
+          </Typography>
+          {SHORTCUT_DEFINITIONS.filter(d => d.group === group).map(def => (
+            <Box
+              key={def.action}
+              sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', py: 0.75 }}
+            >
+              <Typography variant="body2" sx={{ color: 'white' }}>
+                {def.label}
+              </Typography>
+              <Box
+                component="kbd"
+                sx={{
+                  px: 1,
+                  py: 0.25,
+                  borderRadius: 1,
+                  fontFamily: 'inherit',
+                  fontSize: '0.75rem',
+                  color: bindings[def.action] ? 'white' : 'text.secondary',
+                  bgcolor: 'rgba(255,255,255,0.08)',
+                  border: '1px solid rgba(255,255,255,0.12)'
+                }}
+              >
+                {formatBinding(bindings[def.action])}
+              </Box>
+            </Box>
+          ))}
+        </Box>
+      ))}
+      <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+        Shortcuts can be changed in Settings.
+      </Typography>
+    </DialogContent>
+  </Dialog>
+);
+
+export default ShortcutsHelp;
@@ -31,7 +31,8 @@ import {
   FilterList,
   ArrowBack,
   ArrowForward,
-  Album
+  Album,
+  History
 } from '@mui/icons-material';
 
 interface SidebarProps {
@@ -46,7 +47,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen = true, onClose, onHomeClick }
   const theme = useTheme();
   // Use lg breakpoint (1024px) for permanent sidebar - below that it's temporary/overlay
   const isMobile = useMediaQuery(theme.breakpoints.down('lg'));
-  const { isGuest } = useAuth();
+  const { token } = useAuth();
   
   // Use global library context for all data (synced across app)
   const { 
@@ -99,6 +100,13 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen = true, onClose, onHomeClick }
       icon: <LibraryMusic />,
       path: '/library',
       isActive: location.pathname === '/library'
+    },
+    {
+      id: 'history',
+      label: 'History',
+      icon: <History />,
+      path: '/history',
+      isActive: location.pathname === '/history'
     }
   ];
 
@@ -344,7 +352,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen = true, onClose, onHomeClick }
           scrollbarWidth: 'none'
         }}>
           <List sx={{ p: 0 }}>
-            {isGuest ? (
+            {!token ? (
               <Box sx={{ 
                 textAlign: 'center', 
                 py: 4,
@@ -479,7 +487,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen = true, onClose, onHomeClick }
             )}
             
             {/* View All Link */}
-            {!isGuest && !isLoadingPlaylists && filteredItems.length > 20 && (
+            {token && !isLoadingPlaylists && filteredItems.length > 20 && (
               <ListItem disablePadding sx={{ mt: 2 }}>
                 <ListItemButton
                   onClick={() => {
@@ -0,0 +1,146 @@
+/**
+ * SleepTimerButton Component
+ * Player bar button + menu for the sleep timer, with the time left shown next to it
+ *
+ * The timer itself lives in useSleepTimer (called once in Player) and is passed in,
+ * so the mobile and desktop layouts share the same countdown.
+ */
+
+import React from 'react';
+import { IconButton, Menu, MenuItem, ListItemIcon, ListItemText, Typography, Box, Divider } from '@mui/material';
+import { Bedtime, Timer, MusicNote, Album, TimerOff, Check } from '@mui/icons-material';
+import type { UseSleepTimerReturn, SleepTimerPreset } from '../hooks/useSleepTimer';
+
+interface SleepTimerButtonProps {
+  timer: UseSleepTimerReturn;
+  hasTrack: boolean;
+  /** Smaller button for the mobile control row */
+  compact?: boolean;
+}
+
+const PRESETS: { preset: SleepTimerPreset; label: string; icon: React.ReactNode }[] = [
+  { preset: 15, label: '15 minutes', icon: <Timer fontSize="small" /> },
+  { preset: 30, label: '30 minutes', icon: <Timer fontSize="small" /> },
+  { preset: 60, label: '1 hour', icon: <Timer fontSize="small" /> },
+  { preset: 'track', label: 'End of track', icon: <MusicNote fontSize="small" /> },
+  { preset: 'context', label: 'End of album / playlist', icon: <Album fontSize="small" /> },
+];
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const SleepTimerButton: React.FC<SleepTimerButtonProps> = ({ timer, hasTrack, compact }) => {
+  const [anchor, setAnchor] = React.useState<null | HTMLElement>(null);
+  const { isActive, mode, remainingMs, isFading, start, cancel } = timer;
+
+  const remainingLabel = remainingMs !== null
+    ? formatRemaining(remainingMs)
+    : mode === 'context' ? 'End of list' : '';
+
+  const handleSelect = (preset: SleepTimerPreset) => {
+    start(preset);
+    setAnchor(null);
+  };
+
+  return (
+    <>
+      <Box sx={{ display: 'flex', alignItems: 'center' }}>
+        <IconButton
+          onClick={(e) => setAnchor(e.currentTarget)}
+          size="small"
+          aria-label="Sleep timer"
+          title={isActive ? `Sleep timer: ${remainingLabel}` : 'Sleep timer'}
+          sx={{
+            color: isActive ? 'primary.main' : 'text.secondary',
+            p: compact ? 0.5 : undefined,
+            width: compact ? undefined : 30,
+            height: compact ? undefined : 30,
+            '&:hover': {
+              color: isActive ? 'primary.light' : 'text.primary',
+              background: 'rgba(255, 255, 255, 0.05)'
+            },
+            animation: isFading ? 'pulse 2s ease-in-out infinite' : 'none'
+          }}
+        >
+          <Bedtime sx={{ fontSize: 16 }} />
+        </IconButton>
+        {isActive && remainingLabel && (
+          <Typography
+            variant="caption"
+            sx={{
+              color: 'primary.main',
+              fontSize: compact ? '0.6rem' : '0.65rem',
+              fontVariantNumeric: 'tabular-nums',
+              fontWeight: 600,
+              ml: compact ? 0 : 0.25,
+              whiteSpace: 'nowrap'
+            }}
+          >
+            {remainingLabel}
+          </Typography>
+        )}
+      </Box>
+
+      <Menu
+        anchorEl={anchor}
+        open={Boolean(anchor)}
+        onClose={() => setAnchor(null)}
+        anchorOrigin={{ vertical: 'top', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        disableScrollLock={true}
+        PaperProps={{
+          sx: {
+            zIndex: (theme) => theme.zIndex.modal + 50,
+            bgcolor: 'rgba(0, 0, 0, 0.9)',
+            backdropFilter: 'blur(20px)',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            borderRadius: 2,
+            minWidth: 220,
+            p: 0.5
+          }
+        }}
+      >
+        <Typography variant="caption" sx={{ px: 1.5, py: 0.5, display: 'block', color: 'text.secondary', fontWeight: 600 }}>
+          Stop playback after…
+        </Typography>
+        {PRESETS.map(({ preset, label, icon }) => {
+          // Fixed-length presets all share the 'minutes' mode, so only tick the track/context ones
+          const selected = isActive && typeof preset !== 'number' && preset === mode;
+          return (
+            <MenuItem
+              key={String(preset)}
+              onClick={() => handleSelect(preset)}
+              disabled={(preset === 'track' || preset === 'context') && !hasTrack}
+              sx={{ py: 1, px: 1.25, gap: 1 }}
+            >
+              <ListItemIcon sx={{ minWidth: 32, color: 'inherit' }}>{icon}</ListItemIcon>
+              <ListItemText primary={label} primaryTypographyProps={{ fontSize: '0.85rem' }} />
+              {selected && <Check sx={{ fontSize: 16, color: 'primary.main' }} />}
+            </MenuItem>
+          );
+        })}
+        {isActive && <Divider sx={{ borderColor: 'rgba(255,255,255,0.08)' }} />}
+        {isActive && (
+          <MenuItem
+            onClick={() => {
+              cancel();
+              setAnchor(null);
+            }}
+            sx={{ py: 1, px: 1.25, gap: 1 }}
+          >
+            <ListItemIcon sx={{ minWidth: 32, color: 'inherit' }}><TimerOff fontSize="small" /></ListItemIcon>
+            <ListItemText primary="Turn off timer" primaryTypographyProps={{ fontSize: '0.85rem' }} />
+          </MenuItem>
+        )}
+      </Menu>
+    </>
+  );
+};
+
+export default SleepTimerButton;
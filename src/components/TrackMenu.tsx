@@ -1,9 +1,10 @@
 /**
  * TrackMenu Component
- * Context menu for track actions: like/unlike, add to playlist, remove from playlist
+ * Context menu for track actions: like/unlike, play next, add to queue, add to playlist, remove from playlist
  */
 
 import React from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Menu,
   MenuItem,
@@ -27,11 +28,17 @@ import {
   PlaylistRemove,
   QueueMusic,
   OpenInNew,
-  Add
+  Add,
+  AddToQueue,
+  QueuePlayNext,
+  Radio,
+  Bookmarks
 } from '@mui/icons-material';
 import { useAuth } from '../context/auth';
+import { usePlayer } from '../context/player';
 import { useToast } from '../context/toast';
 import { useLibrary } from '../context/library';
+import { useRadio } from '../hooks/useRadio';
 import type { Track, Playlist } from '../types/spotify';
 import {
   checkSavedTracks,
@@ -60,9 +67,12 @@ const TrackMenu: React.FC<TrackMenuProps> = ({
   currentPlaylistId,
   onTrackRemoved
 }) => {
+  const navigate = useNavigate();
   const { token, user } = useAuth();
   const toast = useToast();
   const { addTrackOptimistic, removeTrackOptimistic, refreshTracks, refreshPlaylists, addPlaylistOptimistic } = useLibrary();
+  const { addToQueue, playNext } = usePlayer();
+  const { startRadio } = useRadio();
   
   const [isLiked, setIsLiked] = React.useState(false);
   const [isCheckingLiked, setIsCheckingLiked] = React.useState(false);
@@ -156,6 +166,52 @@ const TrackMenu: React.FC<TrackMenuProps> = ({
     onClose();
   };
 
+  const handleAddToQueue = async () => {
+    if (!track || isProcessing) return;
+
+    setIsProcessing(true);
+    try {
+      const success = await addToQueue(track);
+      if (success) {
+        toast.showToast(`Added "${track.name}" to queue`, 'success');
+      } else {
+        toast.showToast('Failed to add to queue - is a device active?', 'error');
+      }
+    } finally {
+      setIsProcessing(false);
+      onClose();
+    }
+  };
+
+  const handlePlayNext = async () => {
+    if (!track || isProcessing) return;
+
+    setIsProcessing(true);
+    try {
+      const success = await playNext(track);
+      if (success) {
+        toast.showToast(`"${track.name}" will play next`, 'success');
+      } else {
+        toast.showToast('Failed to add to queue - is a device active?', 'error');
+      }
+    } finally {
+      setIsProcessing(false);
+      onClose();
+    }
+  };
+
+  const handleStartRadio = () => {
+    if (!track) return;
+    onClose();
+    startRadio([track], track.name);
+  };
+
+  const handleOpenDetails = () => {
+    if (!track) return;
+    onClose();
+    navigate(`/track/${track.id}`);
+  };
+
   const handleAddToPlaylist = async (playlistId: string, playlistName: string) => {
     if (!track || !token || isProcessing) return;
     
@@ -348,6 +404,41 @@ const TrackMenu: React.FC<TrackMenuProps> = ({
           />
         </MenuItem>
 
+        {/* Play next */}
+        <MenuItem 
+          onClick={handlePlayNext}
+          disabled={isProcessing}
+          sx={{ color: 'white', py: 0.75, px: 1.5, minHeight: 32, '&:hover': { bgcolor: 'rgba(255,255,255,0.08)' } }}
+        >
+          <ListItemIcon sx={{ minWidth: 28 }}>
+            <QueuePlayNext sx={{ color: 'white', fontSize: 18 }} />
+          </ListItemIcon>
+          <ListItemText primary="Play Next" primaryTypographyProps={{ fontSize: '0.8rem' }} />
+        </MenuItem>
+
+        {/* Add to queue */}
+        <MenuItem 
+          onClick={handleAddToQueue}
+          disabled={isProcessing}
+          sx={{ color: 'white', py: 0.75, px: 1.5, minHeight: 32, '&:hover': { bgcolor: 'rgba(255,255,255,0.08)' } }}
+        >
+          <ListItemIcon sx={{ minWidth: 28 }}>
+            <AddToQueue sx={{ color: 'white', fontSize: 18 }} />
+          </ListItemIcon>
+          <ListItemText primary="Add to Queue" primaryTypographyProps={{ fontSize: '0.8rem' }} />
+        </MenuItem>
+
+        {/* Start radio */}
+        <MenuItem 
+          onClick={handleStartRadio}
+          sx={{ color: 'white', py: 0.75, px: 1.5, minHeight: 32, '&:hover': { bgcolor: 'rgba(255,255,255,0.08)' } }}
+        >
+          <ListItemIcon sx={{ minWidth: 28 }}>
+            <Radio sx={{ color: 'white', fontSize: 18 }} />
+          </ListItemIcon>
+          <ListItemText primary="Start Radio" primaryTypographyProps={{ fontSize: '0.8rem' }} />
+        </MenuItem>
+
         {/* Add to playlist */}
         <MenuItem 
           onClick={handleShowPlaylists}
@@ -376,6 +467,17 @@ const TrackMenu: React.FC<TrackMenuProps> = ({
 
         <Divider sx={{ borderColor: 'rgba(255,255,255,0.06)', my: 0.25 }} />
 
+        {/* Track details & bookmarks */}
+        <MenuItem 
+          onClick={handleOpenDetails}
+          sx={{ color: 'white', py: 0.75, px: 1.5, minHeight: 32, '&:hover': { bgcolor: 'rgba(255,255,255,0.08)' } }}
+        >
+          <ListItemIcon sx={{ minWidth: 28 }}>
+            <Bookmarks sx={{ color: 'white', fontSize: 18 }} />
+          </ListItemIcon>
+          <ListItemText primary="Track Details & Bookmarks" primaryTypographyProps={{ fontSize: '0.8rem' }} />
+        </MenuItem>
+
         {/* Open in Spotify */}
         <MenuItem 
           onClick={handleOpenInSpotify}
@@ -1,5 +1,12 @@
-import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import React, { createContext, useContext, useState, useEffect } from 'react';
 import type { User } from '../types/spotify';
+import { tokenManager } from '../services/tokenManager';
+import { accountService, ACCOUNTS_UPDATED_EVENT, type StoredAccount } from '../services/accountService';
+import { installDemoApi, DEMO_ACCESS_TOKEN } from '../services/demoApi';
+import { secureStorage } from '../services/secureStorage';
+import { ACTIVE_ACCOUNT_KEY, GUEST_MARKER_KEY } from '../utils/userScope';
+import { LOGIN_SCOPES, scopesFor, type ScopeFeatureId } from '../utils/spotifyScopes';
+import { SPOTIFY_API_BASE, SPOTIFY_ACCOUNTS_URL, AUTH_SERVER_URL, AUTH_SESSIONS_ENABLED } from '../utils/apiConfig';
 
 interface AuthContextType {
   token: string | null;
@@ -17,6 +24,15 @@ interface AuthContextType {
     newToken?: string;
   }>;
   isLoading: boolean;
+  /** Every account signed in on this device, including the active one */
+  accounts: StoredAccount[];
+  /** Sign in another account, keeping the current one available to switch back to */
+  addAccount: () => void;
+  switchAccount: (id: string) => void;
+  /** Sign an account out of this device and delete its cached data */
+  removeAccount: (id: string) => Promise<void>;
+  /** Re-run the login asking for the scopes these features need, on top of those granted */
+  requestScopes: (features: ScopeFeatureId[]) => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -36,27 +52,40 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [isGuest, setIsGuest] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState(true);
-  // ref to hold refresh timer id so we can clear it on unmount / logout
-  const refreshTimeoutRef = useRef<number | null>(null);
-  // ref to prevent concurrent refresh attempts
-  const refreshPromiseRef = useRef<Promise<boolean> | null>(null);
+  const [accounts, setAccounts] = useState<StoredAccount[]>(() => accountService.getAccounts());
+
+  // Mirror the token manager - it changes on login, refresh, logout and in other tabs
+  useEffect(() => tokenManager.subscribe(setToken), []);
+
+  // Keep the account list current; reload when another tab switches accounts, since
+  // caches already loaded in memory belong to the previous user
+  useEffect(() => {
+    const onAccountsUpdated = () => setAccounts(accountService.getAccounts());
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === ACTIVE_ACCOUNT_KEY && e.newValue) {
+        window.location.reload();
+        return;
+      }
+      onAccountsUpdated();
+    };
+    window.addEventListener(ACCOUNTS_UPDATED_EVENT, onAccountsUpdated);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      window.removeEventListener(ACCOUNTS_UPDATED_EVENT, onAccountsUpdated);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
 
   // Fetch user data when token is available
   useEffect(() => {
-    // If guest mode, skip validation and keep user null.
-    if (token === 'GUEST') {
-      console.log('Guest session active - skipping Spotify API validation');
-      setIsGuest(true);
-      setUser(null);
-      setIsLoading(false);
-      return;
-    }
+    // Guest mode's demo token is answered by the demo library - its profile isn't an account
+    const isDemo = token === DEMO_ACCESS_TOKEN;
 
-    // Normal authenticated flow: validate token and fetch user data
+    // Validate token and fetch user data
     if (token) {
-      setIsGuest(false);
+      setIsGuest(isDemo);
       console.log('Validating token and fetching user data...');
-      fetch('https://api.spotify.com/v1/me', {
+      fetch(`${SPOTIFY_API_BASE}/me`, {
         headers: {
           'Authorization': `Bearer ${token}`
         }
@@ -65,24 +94,23 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         if (!response.ok) {
           // Token is invalid, clear it
           console.log('Token is invalid, clearing auth data...');
-          setToken(null);
           setUser(null);
-          localStorage.removeItem('spotify_token');
+          tokenManager.discardAccessToken();
           throw new Error('Invalid token');
         }
         return response.json();
       })
       .then(userData => {
         console.log('User data fetched successfully:', userData);
+        if (!isDemo) accountService.register(userData).catch(err => console.error('Failed to register account', err));
         setUser(userData);
         setIsLoading(false); // Set loading to false on success
       })
       .catch(error => {
         console.error('Error fetching user data:', error);
         // Clear invalid token
-        setToken(null);
         setUser(null);
-        localStorage.removeItem('spotify_token');
+        tokenManager.discardAccessToken();
         setIsLoading(false); // Set loading to false on error
       });
     } else {
@@ -92,15 +120,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, [token]);
 
-  // Clear refresh timer on unmount
-  useEffect(() => {
-    return () => {
-      if (refreshTimeoutRef.current) {
-        window.clearTimeout(refreshTimeoutRef.current);
-        refreshTimeoutRef.current = null;
-      }
-    };
-  }, []);
 
   useEffect(() => {
     // Check for authorization code in URL (from Spotify OAuth redirect)
@@ -109,7 +128,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const state = urlParams.get('state');
     const error = urlParams.get('error');
     const storedState = localStorage.getItem('spotify_auth_state');
-    const codeVerifier = localStorage.getItem('spotify_code_verifier');
+    const codeVerifier = secureStorage.getItem('spotify_code_verifier');
 
     console.log('Auth initialization:', { 
       hasCode: !!code, 
@@ -122,6 +141,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     if (error) {
       console.error('Spotify authorization error:', error);
+      window.history.replaceState({}, document.title, window.location.pathname);
+      // An abandoned "add account" login goes back to the account that was active before
+      if (accountService.resumeLastAccount()) {
+        tokenManager.start();
+        setToken(tokenManager.peekAccessToken());
+        return;
+      }
       setIsLoading(false);
       return;
     }
@@ -134,7 +160,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       // Clean up URL and localStorage
       window.history.replaceState({}, document.title, window.location.pathname);
       localStorage.removeItem('spotify_auth_state');
-      localStorage.removeItem('spotify_code_verifier');
+      secureStorage.removeItem('spotify_code_verifier');
     } else if (code) {
       console.warn('Authorization code found but validation failed:', {
         hasState: !!state,
@@ -144,44 +170,32 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setIsLoading(false);
     } else {
       // Check for stored token or guest marker
-      const storedGuest = localStorage.getItem('spotify_is_guest');
+      const storedGuest = localStorage.getItem(GUEST_MARKER_KEY);
       if (storedGuest === '1') {
         console.log('Found stored guest marker - entering guest mode');
-        setIsGuest(true);
-        setToken(null);
-        setIsLoading(false);
+        enterDemo();
+        return;
+      }
+
+      tokenManager.start();
+      if (AUTH_SESSIONS_ENABLED) {
+        // The auth server holds the tokens - ask it whether this browser has a session
+        tokenManager.loadSession().then(sessionToken => {
+          setToken(sessionToken);
+          if (!sessionToken) setIsLoading(false);
+        });
         return;
       }
 
-      const storedToken = localStorage.getItem('spotify_token');
-      const storedRefresh = localStorage.getItem('spotify_refresh_token');
-      const storedExpiry = localStorage.getItem('spotify_token_expiry');
-      console.log('No authorization code, checking stored token:', { hasStoredToken: !!storedToken, hasStoredRefresh: !!storedRefresh, hasStoredExpiry: !!storedExpiry });
+      const storedToken = tokenManager.peekAccessToken();
+      console.log('No authorization code, checking stored token:', { hasStoredToken: !!storedToken, hasStoredRefresh: tokenManager.hasRefreshToken() });
       if (storedToken) {
-        // If we have an expiry, check if it's expired and attempt refresh if needed
-        if (storedExpiry) {
-          const expiryNum = parseInt(storedExpiry, 10);
-          if (Date.now() > expiryNum) {
-            // Token expired, try to refresh if we have a refresh token
-            if (storedRefresh) {
-              console.log('Stored token expired, attempting refresh...');
-              refreshAccessTokenInternal(storedRefresh);
-            } else {
-              console.log('Stored token expired and no refresh token available, clearing token');
-              setToken(null);
-              setIsLoading(false);
-            }
-          } else {
-            // Token still valid, use it and schedule refresh
-            setToken(storedToken);
-            scheduleTokenRefresh(Math.max(0, expiryNum - Date.now()));
-            // token validation effect will fetch user and set loading false
-          }
-        } else {
-          // no expiry information — just use stored token and schedule a refresh in ~1h
-          setToken(storedToken);
-          scheduleTokenRefresh(3600 * 1000);
-        }
+        // Hands back the stored token, refreshing it first if it is about to expire;
+        // the token validation effect then fetches the user and clears loading
+        tokenManager.getAccessToken().then(validToken => {
+          setToken(validToken);
+          if (!validToken) setIsLoading(false);
+        });
       } else {
         setIsLoading(false);
       }
@@ -220,7 +234,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
 
     try {
-      const response = await fetch('https://accounts.spotify.com/api/token', {
+      const response = await fetch(`${SPOTIFY_ACCOUNTS_URL}/api/token`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
@@ -239,56 +253,45 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const data = await response.json();
       console.log('Token exchange successful:', { access_token: data.access_token ? 'Received' : 'Missing' });
 
+      tokenManager.setTokens(data);
+      tokenManager.start();
       setToken(data.access_token);
-      localStorage.setItem('spotify_token', data.access_token);
-
-      // Store refresh token if provided
-      if (data.refresh_token) {
-        localStorage.setItem('spotify_refresh_token', data.refresh_token);
-      }
-
-      // Store expiry and schedule refresh
-      const expiresIn = data.expires_in || 3600; // seconds
-      const expiryTs = Date.now() + expiresIn * 1000;
-      localStorage.setItem('spotify_token_expiry', String(expiryTs));
-      // Schedule refresh a minute before expiry
-      scheduleTokenRefresh(Math.max(0, expiresIn * 1000 - 60 * 1000));
 
       console.log('Token stored successfully');
     } catch (error) {
       console.error('Error exchanging code for token:', error);
       // Clear any stored auth data on error
       localStorage.removeItem('spotify_auth_state');
-      localStorage.removeItem('spotify_code_verifier');
+      secureStorage.removeItem('spotify_code_verifier');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const login = async () => {
+  // Guest mode browses the bundled demo library through the normal Web API calls
+  const enterDemo = () => {
+    installDemoApi();
+    tokenManager.setDemoToken(DEMO_ACCESS_TOKEN);
+  };
+
+  const startLogin = async (showDialog: boolean, features: ScopeFeatureId[] = []) => {
+    // Signing in from guest mode leaves it; the demo library's caches go with it
+    if (localStorage.getItem(GUEST_MARKER_KEY)) {
+      tokenManager.setDemoToken(null);
+      await accountService.leaveGuestMode();
+    }
+
+    if (AUTH_SESSIONS_ENABLED) {
+      // The auth server runs the OAuth flow and sets the session cookie
+      const query = features.length > 0 ? `?features=${encodeURIComponent(features.join(','))}` : '';
+      window.location.href = `${AUTH_SERVER_URL}/login${query}`;
+      return;
+    }
+
     const CLIENT_ID = import.meta.env.VITE_SPOTIFY_CLIENT_ID;
     const REDIRECT_URI = import.meta.env.VITE_SPOTIFY_REDIRECT_URI || window.location.origin;
-    const SCOPES = [
-      'user-read-private',
-      'user-read-email',
-      'user-read-playback-state',
-      'user-modify-playback-state',
-      'user-read-currently-playing',
-      'user-read-recently-played',
-      'user-top-read',
-      // needed to read/modify user's saved tracks and albums
-      'user-library-read',
-      'user-library-modify',
-      // needed to read/modify followed artists
-      'user-follow-read',
-      'user-follow-modify',
-      // needed to read/modify playlists
-      'playlist-read-private',
-      'playlist-read-collaborative',
-      'playlist-modify-public',
-      'playlist-modify-private',
-      'streaming'
-    ].join(' ');
+    // Re-consent keeps what was granted and adds the new features' scopes
+    const SCOPES = scopesFor(features, tokenManager.getGrantedScopes() ?? LOGIN_SCOPES).join(' ');
 
     // Generate PKCE parameters
     const codeVerifier = generateRandomString(64);
@@ -297,297 +300,130 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     // Store state and code verifier for later verification
     localStorage.setItem('spotify_auth_state', state);
-    localStorage.setItem('spotify_code_verifier', codeVerifier);
+    secureStorage.setItem('spotify_code_verifier', codeVerifier);
 
-    const authUrl = `https://accounts.spotify.com/authorize?` +
+    const authUrl = `${SPOTIFY_ACCOUNTS_URL}/authorize?` +
       `client_id=${CLIENT_ID}&` +
       `response_type=code&` +
       `redirect_uri=${encodeURIComponent(REDIRECT_URI)}&` +
       `scope=${encodeURIComponent(SCOPES)}&` +
       `code_challenge_method=S256&` +
       `code_challenge=${codeChallenge}&` +
-      `state=${state}`;
+      `state=${state}` +
+      // Lets the user pick a different Spotify account than the one signed in on spotify.com
+      (showDialog ? '&show_dialog=true' : '');
 
     window.location.href = authUrl;
   };
 
+  const login = () => {
+    startLogin(false);
+  };
+
+  const requestScopes = (features: ScopeFeatureId[]) => {
+    if (isGuest) return;
+    startLogin(false, features);
+  };
+
+  const addAccount = () => {
+    if (AUTH_SESSIONS_ENABLED) {
+      console.warn('Multiple accounts are not available with server-side sessions');
+      return;
+    }
+    accountService.deactivate();
+    startLogin(true);
+  };
+
+  const switchAccount = (id: string) => {
+    if (isGuest) tokenManager.setDemoToken(null);
+    if (accountService.switchTo(id)) {
+      // Reload so every cache is rebuilt from the new user's namespace
+      (isGuest ? accountService.leaveGuestMode() : Promise.resolve()).finally(() => window.location.reload());
+    } else {
+      console.warn(`Account ${id} has no stored tokens - sign in to it again`);
+    }
+  };
+
   const loginAsGuest = () => {
     console.log('Entering guest mode');
-    // Don't set a fake token. Keep token null so other code does not attempt
-    // to call Spotify Web API or initialize playback. Use isGuest flag instead.
-    setToken(null);
-    setIsGuest(true);
     setUser(null);
     // Persist guest marker so other tabs/providers can detect it
-    localStorage.removeItem('spotify_token');
-    localStorage.setItem('spotify_is_guest', '1');
-    setIsLoading(false);
+    accountService.deactivate();
+    tokenManager.clear();
+    localStorage.setItem(GUEST_MARKER_KEY, '1');
+    // The token effect loads the demo profile and clears loading
+    setIsLoading(true);
+    enterDemo();
   };
 
   const logout = () => {
     setToken(null);
     setUser(null);
   setIsGuest(false);
-    localStorage.removeItem('spotify_token');
-    localStorage.removeItem('spotify_refresh_token');
-    localStorage.removeItem('spotify_token_expiry');
     localStorage.removeItem('spotify_auth_state');
-    localStorage.removeItem('spotify_code_verifier');
-  localStorage.removeItem('spotify_is_guest');
-    if (refreshTimeoutRef.current) {
-      window.clearTimeout(refreshTimeoutRef.current);
-      refreshTimeoutRef.current = null;
-    }
+    secureStorage.removeItem('spotify_code_verifier');
+    const activeId = accountService.getActiveAccountId();
+    const nextAccount = activeId ? accountService.remove(activeId) : Promise.resolve(null);
+    const guestCleared = isGuest ? accountService.leaveGuestMode() : Promise.resolve();
     // Refresh the page shortly after logout so the UI fully resets.
     // Use a small delay to allow any logout notifications to briefly display.
-    setTimeout(() => {
-      try {
-        window.location.reload();
-      } catch (err) {
-        // Fallback: navigate to root
-        window.location.href = '/';
-      }
-    }, 300);
+    tokenManager.signOut()
+      .then(() => guestCleared)
+      .then(() => nextAccount)
+      // Another account is still signed in on this device - continue as that one
+      .then(next => { if (next) accountService.switchTo(next.id); })
+      .finally(() => {
+        setTimeout(() => {
+          try {
+            window.location.reload();
+          } catch (err) {
+            // Fallback: navigate to root
+            window.location.href = '/';
+          }
+        }, 300);
+      });
+  };
+
+  const removeAccount = async (id: string) => {
+    if (id === accountService.getActiveAccountId()) {
+      logout();
+      return;
+    }
+    await accountService.remove(id);
   };
 
   const clearAll = () => {
     console.log('Clearing all auth data...');
     setToken(null);
     setUser(null);
-    localStorage.removeItem('spotify_token');
-    localStorage.removeItem('spotify_refresh_token');
-    localStorage.removeItem('spotify_token_expiry');
+    tokenManager.clear();
     localStorage.removeItem('spotify_auth_state');
-    localStorage.removeItem('spotify_code_verifier');
-    if (refreshTimeoutRef.current) {
-      window.clearTimeout(refreshTimeoutRef.current);
-      refreshTimeoutRef.current = null;
-    }
+    secureStorage.removeItem('spotify_code_verifier');
     // Also clear any other possible stored data
-    localStorage.clear();
-  };
-
-  // Schedule a token refresh in ms; will call server /refresh with stored refresh token
-  const scheduleTokenRefresh = (ms: number) => {
-    if (!ms || ms <= 0) return;
-    
-    // Clear any existing refresh timer
-    if (refreshTimeoutRef.current) {
-      window.clearTimeout(refreshTimeoutRef.current);
-      refreshTimeoutRef.current = null;
-    }
-    
-    // Ensure we don't schedule extremely long timers; cap to 24h
-    const toSchedule = Math.min(ms, 24 * 60 * 60 * 1000);
-    console.log(`Scheduling token refresh in ${Math.round(toSchedule / 1000 / 60)} minutes`);
-    
-    refreshTimeoutRef.current = window.setTimeout(async () => {
-      const refreshToken = localStorage.getItem('spotify_refresh_token');
-      if (refreshToken && !isGuest) {
-        console.log('Attempting scheduled token refresh...');
-        const success = await refreshAccessTokenInternal(refreshToken);
-        
-        if (!success) {
-          console.log('Scheduled token refresh failed, will retry in 5 minutes');
-          // If refresh fails, try again in 5 minutes
-          scheduleTokenRefresh(5 * 60 * 1000);
-        }
-      } else {
-        console.log('No refresh token available or user is in guest mode, skipping refresh');
-      }
-    }, toSchedule) as unknown as number;
-  };
-
-  // Use server-side refresh endpoint to exchange refresh_token for new access_token
-  const refreshAccessTokenInternal = async (refreshToken: string, retryCount = 0): Promise<boolean> => {
-    // If there's already a refresh in progress, wait for it to complete
-    if (refreshPromiseRef.current) {
-      console.log('Refresh already in progress, waiting for completion...');
-      return await refreshPromiseRef.current;
-    }
-    
-    // Create and store the refresh promise
-    const refreshPromise = performTokenRefresh(refreshToken, retryCount);
-    refreshPromiseRef.current = refreshPromise;
-    
-    try {
-      const result = await refreshPromise;
-      return result;
-    } finally {
-      // Clear the promise reference when done
-      refreshPromiseRef.current = null;
-    }
-  };
-
-  const performTokenRefresh = async (refreshToken: string, retryCount = 0): Promise<boolean> => {
-    const maxRetries = 2;
-    
-    try {
-      const server = import.meta.env.VITE_AUTH_SERVER_URL || 'http://localhost:3001';
-      
-      // Always use the most recent refresh token from localStorage
-      const currentRefreshToken = localStorage.getItem('spotify_refresh_token') || refreshToken;
-      console.log(`Attempting to refresh token (attempt ${retryCount + 1}/${maxRetries + 1})...`);
-      console.log('Using refresh token:', currentRefreshToken ? `${currentRefreshToken.substring(0, 10)}...` : 'None');
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
-      
-      const res = await fetch(`${server.replace(/\/$/, '')}/refresh`, {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        },
-        body: JSON.stringify({ refresh_token: currentRefreshToken }),
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      
-      if (!res.ok) {
-        const errorData = await res.json().catch(() => ({ error: 'unknown_error' }));
-        console.error('Token refresh failed:', res.status, errorData);
-        
-        // Handle specific error cases
-        if (res.status === 400 && errorData.error === 'invalid_refresh_token') {
-          console.log('Refresh token is invalid or expired, clearing auth data');
-          // Clear invalid refresh token
-          localStorage.removeItem('spotify_refresh_token');
-          throw new Error('INVALID_REFRESH_TOKEN');
-        }
-        
-        // For server errors (5xx), retry if we haven't exceeded max retries
-        if (res.status >= 500 && retryCount < maxRetries) {
-          console.log(`Server error (${res.status}), retrying in ${(retryCount + 1) * 2} seconds...`);
-          await new Promise(resolve => setTimeout(resolve, (retryCount + 1) * 2000));
-          // Use the most current refresh token for retry
-          const retryRefreshToken = localStorage.getItem('spotify_refresh_token') || refreshToken;
-          return await performTokenRefresh(retryRefreshToken, retryCount + 1);
-        }
-        
-        throw new Error(`TOKEN_REFRESH_FAILED: ${errorData.error || 'Unknown error'}`);
-      }
-      
-      const data = await res.json();
-      
-      if (!data.access_token) {
-        throw new Error('INVALID_RESPONSE: Missing access_token');
-      }
-      
-      console.log('Token refresh successful');
-      
-      // Update token in state and storage
-      setToken(data.access_token);
-      localStorage.setItem('spotify_token', data.access_token);
-      
-      // Handle new refresh token if provided
-      if (data.refresh_token) {
-        console.log('Received new refresh token, updating storage');
-        console.log('Old refresh token:', currentRefreshToken ? `${currentRefreshToken.substring(0, 10)}...` : 'None');
-        console.log('New refresh token:', `${data.refresh_token.substring(0, 10)}...`);
-        localStorage.setItem('spotify_refresh_token', data.refresh_token);
-      } else {
-        console.log('No new refresh token provided, keeping existing one');
-        // Keep the existing refresh token - don't update it
-        // This is important because Spotify doesn't always return a new refresh token
-      }
-      
-      // Update expiry and schedule next refresh
-      if (data.expires_in) {
-        const expiryTs = Date.now() + data.expires_in * 1000;
-        localStorage.setItem('spotify_token_expiry', String(expiryTs));
-        // Schedule next refresh 5 minutes before expiry for safety margin
-        const refreshDelay = Math.max(0, data.expires_in * 1000 - 5 * 60 * 1000);
-        console.log(`Scheduling next token refresh in ${Math.round(refreshDelay / 1000 / 60)} minutes`);
-        scheduleTokenRefresh(refreshDelay);
-      } else {
-        // Default to refresh in 55 minutes if expires_in not provided
-        console.log('No expires_in provided, scheduling refresh in 55 minutes');
-        scheduleTokenRefresh(55 * 60 * 1000);
-      }
-      
-      return true;
-      
-    } catch (err) {
-      console.error('Error refreshing access token:', err);
-      
-      const error = err as Error;
-      
-      // Handle network errors with retry logic
-      if ((error.name === 'AbortError' || error.message?.includes('Failed to fetch')) && retryCount < maxRetries) {
-        console.log(`Network error, retrying in ${(retryCount + 1) * 3} seconds...`);
-        await new Promise(resolve => setTimeout(resolve, (retryCount + 1) * 3000));
-        // Use the most current refresh token for retry
-        const retryRefreshToken = localStorage.getItem('spotify_refresh_token') || refreshToken;
-        return await performTokenRefresh(retryRefreshToken, retryCount + 1);
-      }
-      
-      // For critical errors, clear auth state and require re-login
-      if (error.message === 'INVALID_REFRESH_TOKEN') {
-        console.log('Invalid refresh token, requiring re-login');
-        setToken(null);
-        setUser(null);
-        localStorage.removeItem('spotify_token');
-        localStorage.removeItem('spotify_refresh_token');
-        localStorage.removeItem('spotify_token_expiry');
-        // Could show a toast notification here about needing to log in again
-      } else {
-        // For other errors, keep refresh token but clear access token
-        console.log('Token refresh failed, keeping refresh token for retry');
-        setToken(null);
-        localStorage.removeItem('spotify_token');
-        localStorage.removeItem('spotify_token_expiry');
-      }
-      
-      return false;
-    }
+    secureStorage.clear();
   };
 
-  // Listen for manual token updates (e.g. settings page) so AuthProvider can pick them up
-  useEffect(() => {
-    const handler = () => {
-      try {
-        const storedToken = localStorage.getItem('spotify_token');
-        const storedExpiry = localStorage.getItem('spotify_token_expiry');
-        if (storedToken) {
-          setToken(storedToken);
-        }
-        if (storedExpiry) {
-          const expiryNum = parseInt(storedExpiry, 10);
-          // schedule refresh one minute before expiry
-          scheduleTokenRefresh(Math.max(0, expiryNum - Date.now() - 60 * 1000));
-        }
-      } catch (err) {
-        // ignore
-      }
-    };
-    window.addEventListener('spotify_token_updated', handler);
-    return () => window.removeEventListener('spotify_token_updated', handler);
-  }, []);
 
   // Manual token refresh function that can be called by components
   const manualRefreshToken = async (): Promise<boolean> => {
-    const refreshToken = localStorage.getItem('spotify_refresh_token');
-    if (!refreshToken || isGuest) {
+    if (isGuest || !tokenManager.hasRefreshToken()) {
       console.log('No refresh token available or user is in guest mode');
       return false;
     }
     
     console.log('Manual token refresh requested');
-    return await refreshAccessTokenInternal(refreshToken);
+    return (await tokenManager.refresh()).success;
   };
 
   // Simple refresh function with better error handling and return info
   const refreshAccessToken = async (): Promise<boolean> => {
-    const refreshToken = localStorage.getItem('spotify_refresh_token');
-    if (!refreshToken || isGuest) {
+    if (isGuest || !tokenManager.hasRefreshToken()) {
       console.log('No refresh token available or user is in guest mode');
       return false;
     }
     
     console.log('Refreshing access token...');
-    return await refreshAccessTokenInternal(refreshToken);
+    return (await tokenManager.refresh()).success;
   };
 
   // Enhanced refresh function with detailed response
@@ -596,45 +432,20 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     error?: string;
     newToken?: string;
   }> => {
-    try {
-      const refreshToken = localStorage.getItem('spotify_refresh_token');
-      
-      if (!refreshToken) {
-        return {
-          success: false,
-          error: 'No refresh token available. Please log in again.'
-        };
-      }
-
-      if (isGuest) {
-        return {
-          success: false,
-          error: 'Cannot refresh token in guest mode.'
-        };
-      }
-
-      console.log('Refreshing access token...');
-      const success = await refreshAccessTokenInternal(refreshToken);
-      
-      if (success) {
-        const newToken = localStorage.getItem('spotify_token');
-        return {
-          success: true,
-          newToken: newToken || undefined
-        };
-      } else {
-        return {
-          success: false,
-          error: 'Token refresh failed. Please try logging in again.'
-        };
-      }
-    } catch (error) {
-      console.error('Error in refreshAccessTokenNow:', error);
+    if (isGuest) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
+        error: 'Cannot refresh token in guest mode.'
       };
     }
+
+    console.log('Refreshing access token...');
+    const result = await tokenManager.refresh();
+    return {
+      success: result.success,
+      error: result.error,
+      newToken: result.token
+    };
   };
 
   const value = {
@@ -648,7 +459,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     refreshToken: manualRefreshToken,
     refreshAccessToken,
     refreshAccessTokenNow,
-    isLoading
+    isLoading,
+    accounts,
+    addAccount,
+    switchAccount,
+    removeAccount,
+    requestScopes
   };
 
   return (
@@ -6,6 +6,10 @@
 
 import React, { createContext, useContext, useRef, useState, useEffect, useCallback } from 'react';
 import { useAuth } from './auth';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
+import { userKey } from '../utils/userScope';
+import { hasFeature } from '../services/scopeConsent';
+import { secureStorage } from '../services/secureStorage';
 
 // Types for library items
 export interface LibraryCache {
@@ -84,7 +88,7 @@ const BACKGROUND_SYNC_INTERVAL_MS = 2 * 60 * 1000;
 const VISIBILITY_REFRESH_THRESHOLD_MS = 30 * 1000;
 
 export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { token, isGuest } = useAuth();
+  const { token } = useAuth();
   
   // State for library items
   const [playlists, setPlaylists] = useState<any[]>([]);
@@ -117,11 +121,11 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ child
   // Load cached data from localStorage on mount
   useEffect(() => {
     try {
-      const cachedPlaylists = localStorage.getItem(STORAGE_KEYS.playlists);
-      const cachedTracks = localStorage.getItem(STORAGE_KEYS.tracks);
-      const cachedAlbums = localStorage.getItem(STORAGE_KEYS.albums);
-      const cachedArtists = localStorage.getItem(STORAGE_KEYS.artists);
-      const cachedTimestamps = localStorage.getItem(STORAGE_KEYS.timestamps);
+      const cachedPlaylists = secureStorage.getItem(userKey(STORAGE_KEYS.playlists));
+      const cachedTracks = secureStorage.getItem(userKey(STORAGE_KEYS.tracks));
+      const cachedAlbums = secureStorage.getItem(userKey(STORAGE_KEYS.albums));
+      const cachedArtists = secureStorage.getItem(userKey(STORAGE_KEYS.artists));
+      const cachedTimestamps = secureStorage.getItem(userKey(STORAGE_KEYS.timestamps));
       
       if (cachedPlaylists) setPlaylists(JSON.parse(cachedPlaylists));
       if (cachedTracks) setTracks(JSON.parse(cachedTracks));
@@ -138,7 +142,7 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ child
   // Save to localStorage whenever data changes
   const saveToLocalStorage = useCallback((key: string, data: any) => {
     try {
-      localStorage.setItem(key, JSON.stringify(data));
+      secureStorage.setItem(userKey(key), JSON.stringify(data));
     } catch (error) {
       console.error(`Error saving ${key} to localStorage:`, error);
     }
@@ -193,7 +197,7 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ child
 
   // Refresh playlists
   const refreshPlaylists = useCallback(async () => {
-    if (isGuest || !token || token === 'GUEST') {
+    if (!token) {
       setPlaylists([]);
       saveToLocalStorage(STORAGE_KEYS.playlists, []);
       return;
@@ -202,7 +206,7 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     setIsLoadingPlaylists(true);
     try {
       console.log('Checking playlists from Spotify API...');
-      const playlistItems = await fetchAllPages('https://api.spotify.com/v1/me/playlists?limit=50');
+      const playlistItems = await fetchAllPages(`${SPOTIFY_API_BASE}/me/playlists?limit=50`);
       
       // Only update if changes detected
       setPlaylists(prev => {
@@ -226,20 +230,22 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     } finally {
       setIsLoadingPlaylists(false);
     }
-  }, [token, isGuest, fetchAllPages, saveToLocalStorage, hasChanges]);
+  }, [token, fetchAllPages, saveToLocalStorage, hasChanges]);
 
   // Refresh tracks (liked songs)
   const refreshTracks = useCallback(async () => {
-    if (isGuest || !token || token === 'GUEST') {
+    if (!token) {
       setTracks([]);
       saveToLocalStorage(STORAGE_KEYS.tracks, []);
       return;
     }
+    // Without the scope the request would only 403 - Settings offers the consent
+    if (!hasFeature('library')) return;
     
     setIsLoadingTracks(true);
     try {
       console.log('Checking liked tracks from Spotify API...');
-      const trackItems = await fetchAllPages('https://api.spotify.com/v1/me/tracks?limit=50');
+      const trackItems = await fetchAllPages(`${SPOTIFY_API_BASE}/me/tracks?limit=50`);
       const extractedTracks = trackItems.map((i: any) => i.track);
       
       // Only update if changes detected
@@ -264,20 +270,22 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     } finally {
       setIsLoadingTracks(false);
     }
-  }, [token, isGuest, fetchAllPages, saveToLocalStorage, hasChanges]);
+  }, [token, fetchAllPages, saveToLocalStorage, hasChanges]);
 
   // Refresh albums
   const refreshAlbums = useCallback(async () => {
-    if (isGuest || !token || token === 'GUEST') {
+    if (!token) {
       setAlbums([]);
       saveToLocalStorage(STORAGE_KEYS.albums, []);
       return;
     }
+    // Without the scope the request would only 403 - Settings offers the consent
+    if (!hasFeature('library')) return;
     
     setIsLoadingAlbums(true);
     try {
       console.log('Checking albums from Spotify API...');
-      const albumItems = await fetchAllPages('https://api.spotify.com/v1/me/albums?limit=50');
+      const albumItems = await fetchAllPages(`${SPOTIFY_API_BASE}/me/albums?limit=50`);
       const extractedAlbums = albumItems.map((i: any) => i.album);
       
       // Only update if changes detected
@@ -302,21 +310,23 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     } finally {
       setIsLoadingAlbums(false);
     }
-  }, [token, isGuest, fetchAllPages, saveToLocalStorage, hasChanges]);
+  }, [token, fetchAllPages, saveToLocalStorage, hasChanges]);
 
   // Refresh artists
   const refreshArtists = useCallback(async () => {
-    if (isGuest || !token || token === 'GUEST') {
+    if (!token) {
       setArtists([]);
       saveToLocalStorage(STORAGE_KEYS.artists, []);
       return;
     }
+    // Without the scope the request would only 403 - Settings offers the consent
+    if (!hasFeature('follow')) return;
     
     setIsLoadingArtists(true);
     try {
       console.log('Checking followed artists from Spotify API...');
       const artistItems = await fetchAllPages(
-        'https://api.spotify.com/v1/me/following?type=artist&limit=50',
+        `${SPOTIFY_API_BASE}/me/following?type=artist&limit=50`,
         'artists'
       );
       
@@ -342,7 +352,7 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     } finally {
       setIsLoadingArtists(false);
     }
-  }, [token, isGuest, fetchAllPages, saveToLocalStorage, hasChanges]);
+  }, [token, fetchAllPages, saveToLocalStorage, hasChanges]);
 
   // Refresh all library data
   const refreshAll = useCallback(async () => {
@@ -431,8 +441,8 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ child
 
   // Initial fetch and token change handling
   useEffect(() => {
-    if (isGuest || !token || token === 'GUEST') {
-      console.log('Guest mode or no token - clearing library cache');
+    if (!token) {
+      console.log('No token - clearing library cache');
       setPlaylists([]);
       setTracks([]);
       setAlbums([]);
@@ -469,23 +479,23 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     if (shouldRefresh(lastUpdated.artists) || artists.length === 0) {
       refreshArtists();
     }
-  }, [token, isGuest]);
+  }, [token]);
 
   // Clear cache on logout
   useEffect(() => {
-    if (isGuest || !token) {
+    if (!token) {
       // Clear localStorage cache on logout
-      localStorage.removeItem(STORAGE_KEYS.playlists);
-      localStorage.removeItem(STORAGE_KEYS.tracks);
-      localStorage.removeItem(STORAGE_KEYS.albums);
-      localStorage.removeItem(STORAGE_KEYS.artists);
-      localStorage.removeItem(STORAGE_KEYS.timestamps);
+      secureStorage.removeItem(userKey(STORAGE_KEYS.playlists));
+      secureStorage.removeItem(userKey(STORAGE_KEYS.tracks));
+      secureStorage.removeItem(userKey(STORAGE_KEYS.albums));
+      secureStorage.removeItem(userKey(STORAGE_KEYS.artists));
+      secureStorage.removeItem(userKey(STORAGE_KEYS.timestamps));
     }
-  }, [isGuest, token]);
+  }, [token]);
 
   // Background periodic sync - catches updates from other clients (Spotify app, web, etc.)
   useEffect(() => {
-    if (isGuest || !token || token === 'GUEST') return;
+    if (!token) return;
 
     const intervalId = setInterval(() => {
       console.log('Background sync: refreshing library data...');
@@ -493,11 +503,11 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }, BACKGROUND_SYNC_INTERVAL_MS);
 
     return () => clearInterval(intervalId);
-  }, [token, isGuest, refreshAll]);
+  }, [token, refreshAll]);
 
   // Visibility change handler - refresh when user returns to the tab
   useEffect(() => {
-    if (isGuest || !token || token === 'GUEST') return;
+    if (!token) return;
 
     const handleVisibilityChange = () => {
       if (document.visibilityState === 'visible') {
@@ -519,11 +529,11 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ child
 
     document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [token, isGuest, refreshAll, lastUpdated]);
+  }, [token, refreshAll, lastUpdated]);
 
   // Window focus handler - refresh when window regains focus (for multi-window scenarios)
   useEffect(() => {
-    if (isGuest || !token || token === 'GUEST') return;
+    if (!token) return;
 
     const handleFocus = () => {
       const now = Date.now();
@@ -542,7 +552,7 @@ export const LibraryProvider: React.FC<{ children: React.ReactNode }> = ({ child
 
     window.addEventListener('focus', handleFocus);
     return () => window.removeEventListener('focus', handleFocus);
-  }, [token, isGuest, refreshAll, lastUpdated]);
+  }, [token, refreshAll, lastUpdated]);
 
   const isLoading = isLoadingPlaylists || isLoadingTracks || isLoadingAlbums || isLoadingArtists;
 
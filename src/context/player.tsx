@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useEffect, useRef } from 'react';
 import { useAuth } from './auth';
+import { useToast, type ToastAction, type ToastVariant } from './toast';
 import { useAppDispatch, useAppSelector } from '../store/hooks'
 import {
   setPlaying,
@@ -13,8 +14,55 @@ import {
   setShuffled,
   setRepeat as setRepeatAction,
   setContextUri,
+  syncPlayerState,
+  type PlayerState,
 } from '../store/playerSlice'
+import {
+  setQueue as setLocalQueue,
+  enqueue,
+  insertNext,
+  removeFromQueue as removeFromQueueAction,
+  moveQueueItem as moveQueueItemAction,
+  setQueueIndex,
+  setQueueActive,
+  clearQueue as clearQueueAction,
+  QUEUE_STORAGE_KEY,
+  syncQueueState,
+  setOriginalOrder,
+  type QueueState,
+} from '../store/queueSlice'
 import type { Track } from '../types/spotify';
+import { useMediaSession } from '../hooks/useMediaSession';
+import { useListeningHistoryRecorder } from '../hooks/useListeningHistoryRecorder';
+import { tabCoordinator, TabCommandError } from '../services/tabCoordinator';
+import { tokenManager } from '../services/tokenManager';
+import { listeningHistoryService } from '../services/listeningHistoryService';
+import { recommendationEngine } from '../services/recommendationEngine';
+import { getPlaylistTracks, getAlbumTracks, getArtistTopTracks } from '../services/libraryService';
+import { smartShuffle as smartShuffleTracks } from '../utils/smartShuffle';
+import { continueAfterStop, isSameTrack, isSameTrackList, syncQueueToTrack, type QueueSyncStep } from '../utils/queueSync';
+import {
+  getSyncActivity,
+  getSyncDelay,
+  parseRetryAfter,
+  interpolatePosition,
+  type PositionAnchor,
+  type SyncActivity,
+} from '../utils/playbackSync';
+import { devicePreferencesService } from '../services/devicePreferencesService';
+import { getDeviceKey, pickPlaybackDevice, shouldTakeOver } from '../utils/deviceRules';
+import {
+  PLAYBACK_RECOVERY,
+  parsePlaybackError,
+  playbackErrorFromSdk,
+  type PlaybackError,
+  type PlaybackErrorCode,
+  type PlaybackRecovery
+} from '../utils/playbackErrors';
+import { installMockPlaybackSdk, isMockPlaybackSdkEnabled } from '../services/mockPlaybackSdk';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
+import { userKey } from '../utils/userScope';
+import { secureStorage } from '../services/secureStorage';
 
 // Helper function to safely parse JSON from Spotify API responses
 const safeParseJSON = async (response: Response) => {
@@ -31,7 +79,7 @@ const safeParseJSON = async (response: Response) => {
   }
 };
 
-interface Device {
+export interface Device {
   id: string;
   is_active: boolean;
   is_private_session: boolean;
@@ -41,6 +89,58 @@ interface Device {
   volume_percent: number;
 }
 
+/** Options accepted by play() - mirrors the body of PUT /me/player/play */
+type PlayOptions = {
+  context_uri?: string;
+  uris?: string[];
+  offset?: { position?: number; uri?: string };
+  position_ms?: number;
+};
+
+/** A playback action that can be undone, with where playback was just before it */
+export interface PlaybackAction {
+  type: 'skip' | 'seek' | 'context' | 'transfer';
+  at: number;
+  track: Track | null;
+  position: number;
+  contextUri: string | null;
+  /** Device that was playing (restored by undoing a transfer) */
+  deviceId: string | null;
+  /** Local queue, if it was driving playback */
+  queue: { items: Track[]; currentIndex: number } | null;
+}
+
+/** A playback error from a command the leader ran for a follower tab, shown in that tab */
+interface ForwardedPlaybackError {
+  code: PlaybackErrorCode;
+  /** The toast the leader would have shown */
+  message: string;
+  variant: ToastVariant;
+}
+
+const MAX_ACTION_HISTORY = 20;
+
+/** A seek this soon after another action on the same track belongs to that action (e.g. a held arrow key) */
+const ACTION_COALESCE_MS = 2000;
+
+/** Give a freshly activated device this long before re-sending the failed command */
+const DEVICE_ACTIVATION_DELAY_MS = 500;
+
+/** Only offer an undo toast when skipping lost at least this much progress */
+const UNDO_TOAST_MIN_POSITION_MS = 30000;
+
+/** Use the scripted mock SDK instead of loading Spotify's (see services/mockPlaybackSdk) */
+const USE_MOCK_SDK = isMockPlaybackSdkEnabled();
+
+/** Snapshot the leader tab broadcasts to follower tabs */
+interface TabPlayerState {
+  player: PlayerState;
+  queue: QueueState;
+  availableDevices: Device[];
+  spotifyQueue: Track[];
+  actionHistory: PlaybackAction[];
+}
+
 interface PlayerContextType {
   player: SpotifyPlayer | null;
   currentTrack: Track | null;
@@ -55,18 +155,39 @@ interface PlayerContextType {
   isShuffled: boolean;
   repeatMode: 'off' | 'context' | 'track';
   availableDevices: Device[];
+  queue: Track[];
+  localQueue: Track[];
+  queueIndex: number;
+  isQueueActive: boolean;
+  /** The local queue is in smart-shuffled order and can be restored */
+  isSmartShuffled: boolean;
+  /** Recent skips, seeks, context changes and transfers, oldest first */
+  actionHistory: PlaybackAction[];
   togglePlay: () => Promise<void>;
   nextTrack: () => Promise<void>;
   previousTrack: () => Promise<void>;
-  seek: (position: number) => Promise<void>;
+  /** Pass undoable: false for automatic seeks (e.g. A-B looping) that shouldn't fill the undo history */
+  seek: (position: number, options?: { undoable?: boolean }) => Promise<void>;
   setVolume: (volume: number) => Promise<void>;
-  play: (track?: Track | { context_uri?: string; uris?: string[]; offset?: { position?: number } }) => Promise<void>;
+  play: (track?: Track | PlayOptions) => Promise<void>;
   pause: () => Promise<void>;
   resume: () => Promise<void>;
   toggleShuffle: () => Promise<void>;
   setRepeat: (mode: 'off' | 'context' | 'track') => Promise<void>;
   getAvailableDevices: () => Promise<void>;
   transferPlayback: (deviceId: string) => Promise<void>;
+  getQueue: () => Promise<void>;
+  addToQueue: (track: Track) => Promise<boolean>;
+  playQueue: (tracks: Track[], startIndex?: number) => Promise<void>;
+  playNext: (track: Track) => Promise<boolean>;
+  removeFromQueue: (index: number) => void;
+  moveQueueItem: (from: number, to: number) => void;
+  clearQueue: () => void;
+  takeOverQueue: () => Promise<void>;
+  smartShuffle: (options?: { smoothTransitions?: boolean }) => Promise<void>;
+  unshuffle: () => Promise<void>;
+  /** Go back to where playback was before the last action */
+  undoLastAction: () => Promise<boolean>;
 }
 
 const PlayerContext = createContext<PlayerContextType | undefined>(undefined);
@@ -82,10 +203,26 @@ export const usePlayer = () => {
 };
 
 export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { token, isGuest } = useAuth();
+  const { token, isGuest, login, refreshAccessToken } = useAuth();
+    const toast = useToast();
     const dispatch = useAppDispatch();
     const storePlayer = useAppSelector(s => s.player);
+    const storeQueue = useAppSelector(s => s.queue);
     const [availableDevices, setAvailableDevices] = React.useState<Device[]>([]);
+    const [queue, setQueue] = React.useState<Track[]>([]);
+    const [actionHistory, setActionHistory] = React.useState<PlaybackAction[]>([]);
+    const actionHistoryRef = useRef(actionHistory);
+    actionHistoryRef.current = actionHistory;
+    // Set while undo is restoring playback so the restore isn't recorded as a new action
+    const restoringRef = useRef(false);
+    // Only the leader tab runs the SDK player and polls Spotify; the others mirror it
+    const [isLeader, setIsLeader] = React.useState(() => tabCoordinator.isLeader());
+
+    useEffect(() => {
+      tabCoordinator.start();
+      setIsLeader(tabCoordinator.isLeader());
+      return tabCoordinator.onLeaderChange(setIsLeader);
+    }, []);
 
     // Persist only settings to localStorage (not track state - that syncs from Spotify server)
     useEffect(() => {
@@ -94,24 +231,62 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         isShuffled: storePlayer.isShuffled,
         repeatMode: storePlayer.repeatMode
       };
-      localStorage.setItem('spotify_player_state', JSON.stringify(stateToSave));
+      secureStorage.setItem(userKey('spotify_player_state'), JSON.stringify(stateToSave));
     }, [storePlayer.volume, storePlayer.isShuffled, storePlayer.repeatMode]);
 
+    // Persist the client-managed queue next to the player settings
+    useEffect(() => {
+      try {
+        secureStorage.setItem(userKey(QUEUE_STORAGE_KEY), JSON.stringify(storeQueue));
+      } catch (e) {
+        console.warn('Failed to persist queue', e);
+      }
+    }, [storeQueue]);
+
     const playerRef = useRef<SpotifyPlayer | null>(null);
     const positionInterval = useRef<number | null>(null as unknown as number | null);
 
     // Track if initial load has been done
     const initialLoadDone = useRef(false);
 
+    // Adaptive sync bookkeeping - see utils/playbackSync
+    const positionAnchorRef = useRef<PositionAnchor>({ position: storePlayer.position, at: Date.now() });
+    const syncActivityRef = useRef<SyncActivity>('inactive');
+    const idleSinceRef = useRef<number | null>(Date.now());
+    const rateLimitedUntilRef = useRef(0);
+
+    // Every position that comes from Spotify (or a seek) becomes the new interpolation anchor
+    const updatePosition = (position: number) => {
+      positionAnchorRef.current = { position, at: Date.now() };
+      dispatch(setPosition(position));
+    };
+
+    const setSyncActivity = (activity: SyncActivity) => {
+      syncActivityRef.current = activity;
+      if (activity === 'local' || activity === 'remote') {
+        idleSinceRef.current = null;
+      } else if (idleSinceRef.current === null) {
+        idleSinceRef.current = Date.now();
+      }
+    };
+
     const fetchPlaybackState = async () => {
     if (!token || isGuest) return;
+      if (Date.now() < rateLimitedUntilRef.current) return;
       try {
-        const res = await fetch('https://api.spotify.com/v1/me/player', { headers: { Authorization: `Bearer ${token}` } });
+        const res = await fetch(`${SPOTIFY_API_BASE}/me/player`, { headers: { Authorization: `Bearer ${token}` } });
+
+        if (res.status === 429) {
+          // Back off for as long as Spotify asks (or a few seconds if it doesn't say)
+          rateLimitedUntilRef.current = Date.now() + (parseRetryAfter(res.headers.get('Retry-After')) || 5000);
+          return;
+        }
         
         // Handle case when no active playback (204 No Content or empty response)
         if (res.status === 204 || !res.ok) {
           // No active playback - keep player empty
           initialLoadDone.current = true;
+          setSyncActivity('inactive');
           return;
         }
         
@@ -119,9 +294,16 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         if (!state) {
           // No active playback - keep player empty
           initialLoadDone.current = true;
+          setSyncActivity('inactive');
           return;
         }
 
+        setSyncActivity(getSyncActivity({
+          hasPlayback: !!state.item,
+          isPlaying: !!state.is_playing,
+          isLocalDevice: !!state.device?.id && state.device.id === storePlayer.deviceId
+        }));
+
         // Mark initial load as done once we get a valid state
         initialLoadDone.current = true;
 
@@ -165,7 +347,7 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
           dispatch(setCurrentTrack(mapped as Track));
           dispatch(setPlaying(!!state.is_playing));
-          dispatch(setPosition(state.progress_ms || 0));
+          updatePosition(state.progress_ms || 0);
           dispatch(setDuration(track.duration_ms || 0));
         }
         // If no current item in playback state, keep player empty
@@ -174,31 +356,68 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       }
     };
 
+    // Poll /me/player on a delay that adapts to what is playing, tab visibility and rate limits
     useEffect(() => {
-      if (!token || isGuest) return;
-      const id = setInterval(fetchPlaybackState, 5000);
-      fetchPlaybackState();
-      return () => clearInterval(id);
-    }, [token, storePlayer.deviceId]);
+      if (!token || isGuest || !isLeader) return;
+      let timer: number | undefined;
+      let inFlight = false;
+      let cancelled = false;
+
+      const sync = async () => {
+        if (inFlight) return;
+        inFlight = true;
+        window.clearTimeout(timer);
+        await fetchPlaybackState();
+        inFlight = false;
+        if (cancelled) return;
+        const now = Date.now();
+        timer = window.setTimeout(sync, getSyncDelay(syncActivityRef.current, {
+          hidden: document.hidden,
+          idleMs: idleSinceRef.current === null ? 0 : now - idleSinceRef.current,
+          retryAfterMs: Math.max(0, rateLimitedUntilRef.current - now)
+        }));
+      };
 
-    // Load Spotify SDK and wire events
+      // Catch up straight away when the tab comes back into view
+      const handleVisibilityChange = () => {
+        if (!document.hidden) sync();
+      };
+
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      sync();
+      return () => {
+        cancelled = true;
+        window.clearTimeout(timer);
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      };
+    }, [token, storePlayer.deviceId, isLeader]);
+
+    // Load Spotify SDK (or the in-process mock) and wire events
     useEffect(() => {
-  if (!token || isGuest) return;
-  const script = document.createElement('script');
-  script.src = 'https://sdk.scdn.co/spotify-player.js';
-  document.head.appendChild(script);
+  if (!token || (isGuest && !USE_MOCK_SDK) || !isLeader) return;
+  if (USE_MOCK_SDK) {
+    installMockPlaybackSdk();
+  } else {
+    const script = document.createElement('script');
+    script.src = 'https://sdk.scdn.co/spotify-player.js';
+    document.head.appendChild(script);
+  }
 
       // @ts-ignore
       window.onSpotifyWebPlaybackSDKReady = () => {
         // @ts-ignore
         const spotifyPlayer = new window.Spotify.Player({
           name: 'Music Player Client',
-          getOAuthToken: (cb: (t: string) => void) => cb(token),
+          // The SDK asks again on reconnect - hand it a fresh token rather than the one from setup
+          getOAuthToken: (cb: (t: string) => void) => {
+            tokenManager.getAccessToken().then(fresh => cb(fresh || token));
+          },
           volume: storePlayer.volume
         });
 
-        spotifyPlayer.addListener('ready', ({ device_id }: { device_id: string }) => {
+        spotifyPlayer.addListener('ready', async ({ device_id }: { device_id: string }) => {
           dispatch(setDeviceId(device_id));
+          await takeOverIfIdle(device_id);
           fetchPlaybackState();
         });
 
@@ -206,6 +425,15 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           dispatch(setDeviceId(null));
         });
 
+        // The listeners outlive this render, so they go through a ref to the latest handler
+        (['initialization_error', 'authentication_error', 'account_error', 'playback_error'] as const).forEach(event => {
+          spotifyPlayer.addListener(event, ({ message }: { message: string }) => {
+            handlePlaybackErrorRef.current(playbackErrorFromSdk(event, message), {
+              skip: () => controlsRef.current.nextTrack()
+            });
+          });
+        });
+
         spotifyPlayer.addListener('player_state_changed', (state: SpotifyPlayerState | null) => {
           if (!state) return;
           const track = state.track_window?.current_track;
@@ -227,8 +455,10 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
             dispatch(setCurrentTrack(mapped as Track));
           }
 
+          // SDK events only fire for this device, so they are the source of truth while it plays
+          setSyncActivity(state.paused ? 'paused' : 'local');
           dispatch(setPlaying(!state.paused));
-          dispatch(setPosition(state.position || 0));
+          updatePosition(state.position || 0);
           const dur = track ? track.duration_ms : 0;
           dispatch(setDuration(dur));
         });
@@ -246,13 +476,14 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           positionInterval.current = null;
         }
       };
-    }, [token]);
+    }, [token, isLeader]);
 
-  // Update position ticker
+  // Update position ticker - interpolated from the last synced position rather than accumulated
     useEffect(() => {
   if (storePlayer.playing) {
+        positionAnchorRef.current = { position: storePlayer.position, at: Date.now() };
         positionInterval.current = window.setInterval(() => {
-          dispatch(setPosition(Math.min(storePlayer.position + 1000, storePlayer.duration)));
+          dispatch(setPosition(interpolatePosition(positionAnchorRef.current, storePlayer.duration)));
         }, 1000);
       } else {
         if (positionInterval.current) {
@@ -267,10 +498,190 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           positionInterval.current = null;
         }
       };
-    }, [storePlayer.playing, storePlayer.duration, storePlayer.position]);
+    }, [storePlayer.playing, storePlayer.duration]);
+
+    // Remember where playback is right before a skip / seek / context change / transfer
+    const recordAction = (type: PlaybackAction['type']) => {
+      if (restoringRef.current) return;
+      if (type !== 'transfer' && !storePlayer.currentTrack) return;
+      const action: PlaybackAction = {
+        type,
+        at: Date.now(),
+        track: storePlayer.currentTrack,
+        position: storePlayer.position,
+        contextUri: storePlayer.contextUri,
+        deviceId: storePlayer.activeDeviceId,
+        queue: storeQueue.active ? { items: storeQueue.items, currentIndex: storeQueue.currentIndex } : null
+      };
+      setActionHistory(prev => {
+        const last = prev[prev.length - 1];
+        if (type === 'seek' && last && action.at - last.at < ACTION_COALESCE_MS && isSameTrack(last.track, action.track)) {
+          return [...prev.slice(0, -1), { ...last, at: action.at }];
+        }
+        return [...prev, action].slice(-MAX_ACTION_HISTORY);
+      });
+    };
+
+    // Where a new play request goes - see utils/deviceRules
+    const getPlaybackTarget = () => pickPlaybackDevice(devicePreferencesService.get(), {
+      webPlayerId: storePlayer.deviceId,
+      activeDeviceId: storePlayer.activeDeviceId,
+      onlineDeviceIds: availableDevices.map(d => d.id)
+    });
+
+    // Put a device back to the volume it had when this app last set it
+    const restoreDeviceVolume = async (targetId: string, webPlayerId: string | null) => {
+      const volume = devicePreferencesService.getVolume(getDeviceKey(targetId, webPlayerId));
+      if (volume === null) return;
+      try {
+        if (targetId === webPlayerId) {
+          await playerRef.current?.setVolume(volume);
+        } else {
+          await fetch(`${SPOTIFY_API_BASE}/me/player/volume?volume_percent=${Math.round(volume * 100)}&device_id=${targetId}`, {
+            method: 'PUT',
+            headers: { Authorization: `Bearer ${token}` }
+          });
+        }
+        dispatch(setVolumeAction(volume));
+      } catch (err) {
+        console.error('restoreDeviceVolume error', err);
+      }
+    };
+
+    // Startup rule: once the web player is ready, take over if nothing is playing elsewhere.
+    // Runs from the SDK's ready event, so it asks Spotify for the current state itself.
+    const takeOverIfIdle = async (webPlayerId: string) => {
+      const prefs = devicePreferencesService.get();
+      if (!prefs.takeOverWhenIdle || !token || isGuest) return;
+      try {
+        const res = await fetch(`${SPOTIFY_API_BASE}/me/player`, { headers: { Authorization: `Bearer ${token}` } });
+        const state = res.ok && res.status !== 204 ? await safeParseJSON(res) : null;
+        if (!shouldTakeOver(prefs, { webPlayerId, activeDeviceId: state?.device?.id ?? null, isPlaying: !!state?.is_playing })) return;
+        const transfer = await fetch(`${SPOTIFY_API_BASE}/me/player`, {
+          method: 'PUT',
+          headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ device_ids: [webPlayerId], play: false })
+        });
+        if (transfer.ok) await restoreDeviceVolume(webPlayerId, webPlayerId);
+      } catch (err) {
+        console.error('takeOverIfIdle error', err);
+      }
+    };
+
+    // Set while a recovery is re-sending a command, so a second failure can't recover again
+    const recoveringRef = useRef(false);
+
+    // Set while the leader runs a follower tab's command: its playback error is collected here
+    // and shown in that tab rather than this one, which may well be hidden
+    const forwardedCommandRef = useRef<{ error: ForwardedPlaybackError | null } | null>(null);
+
+    /**
+     * Show what went wrong and run the error's recovery strategy (see utils/playbackErrors).
+     * retry re-sends the failed command; skip moves past a track that can't be played.
+     */
+    const handlePlaybackError = async (error: PlaybackError, { retry, skip, trackName }: {
+      retry?: () => Promise<void>;
+      skip?: () => Promise<void>;
+      trackName?: string;
+    } = {}) => {
+      console.error('Playback error', error.code, error.message);
+      const webPlayerId = storePlayer.deviceId;
+      const canRecover = !recoveringRef.current;
+      const forwarding = forwardedCommandRef.current;
+      const notify = (message: string, variant: ToastVariant, action?: ToastAction) => {
+        if (forwarding) forwarding.error = { code: error.code, message, variant };
+        else toast.showToast(message, variant, action);
+      };
+
+      const recover = async (action: () => Promise<void>) => {
+        recoveringRef.current = true;
+        try {
+          await action();
+        } finally {
+          recoveringRef.current = false;
+        }
+      };
+
+      switch (error.recovery) {
+        case 'activate-device':
+          if (canRecover && webPlayerId && retry) {
+            const activated = await fetch(`${SPOTIFY_API_BASE}/me/player`, {
+              method: 'PUT',
+              headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+              body: JSON.stringify({ device_ids: [webPlayerId], play: false })
+            }).then(res => res.ok, () => false);
+            if (activated) {
+              await new Promise(resolve => setTimeout(resolve, DEVICE_ACTIVATION_DELAY_MS));
+              await recover(retry);
+              return;
+            }
+          }
+          notify(error.userMessage, 'warning');
+          return;
+        case 'skip-track': {
+          const name = trackName || storePlayer.currentTrack?.name;
+          if (canRecover && skip) {
+            notify(name ? `"${name}" can't be played here - skipping` : `${error.userMessage} - skipping`, 'warning');
+            await recover(skip);
+          } else {
+            notify(name ? `"${name}" can't be played here` : error.userMessage, 'warning');
+          }
+          return;
+        }
+        case 'retry-later':
+          rateLimitedUntilRef.current = Date.now() + error.retryAfterMs;
+          notify(error.userMessage, 'warning');
+          return;
+        case 'reauthenticate':
+          // The failed request carries the old token, so the user repeats the action once renewed
+          if (canRecover && await refreshAccessToken()) {
+            notify('Reconnected to Spotify - please try that again', 'info');
+          } else {
+            notify(error.userMessage, 'error', { label: 'Log in', onClick: login });
+          }
+          return;
+        case 'open-spotify':
+          notify(error.userMessage, 'error', {
+            label: 'Open Spotify',
+            onClick: () => window.open('https://open.spotify.com', '_blank', 'noopener')
+          });
+          return;
+        case 'transfer-here':
+          notify(
+            storePlayer.activeDeviceName ? `${storePlayer.activeDeviceName} doesn't accept commands from other apps` : error.userMessage,
+            'error',
+            webPlayerId ? { label: 'Play here', onClick: () => controlsRef.current.transferPlayback(webPlayerId) } : undefined
+          );
+          return;
+        default:
+          notify(error.userMessage, 'error');
+      }
+    };
+    const handlePlaybackErrorRef = useRef(handlePlaybackError);
+    handlePlaybackErrorRef.current = handlePlaybackError;
+
+    /**
+     * Send a player command; on failure hand the typed error to handlePlaybackError with
+     * the command itself as the retry. Resolves to whether the (possibly retried) command worked.
+     */
+    const sendPlayerCommand = async (
+      send: () => Promise<Response>,
+      context: { skip?: () => Promise<void>; trackName?: string } = {}
+    ): Promise<boolean> => {
+      const error = await parsePlaybackError(await send());
+      if (!error) return true;
+      let recovered = false;
+      await handlePlaybackError(error, {
+        ...context,
+        retry: async () => {
+          recovered = await sendPlayerCommand(send, context);
+        }
+      });
+      return recovered;
+    };
 
     // Player control helpers - enhanced for remote playback
-    const play = async (trackOrOptions?: Track | { context_uri?: string; uris?: string[]; offset?: { position?: number } }) => {
+    const play = async (trackOrOptions?: Track | PlayOptions) => {
       if (!token || isGuest) {
         console.log('Cannot play: missing token or guest mode', { hasToken: !!token, isGuest });
         return;
@@ -278,8 +689,12 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
       try {
         if (trackOrOptions) {
+          recordAction('context');
+          // Explicitly playing something else hands control back to Spotify's own queue
+          if (storeQueue.active) dispatch(setQueueActive(false));
+
           // For specific playback options or Track playback
-          const targetDeviceId = storePlayer.deviceId || storePlayer.activeDeviceId;
+          const targetDeviceId = getPlaybackTarget();
           const params = targetDeviceId ? `?device_id=${targetDeviceId}` : '';
 
           // If an options object with context_uri or uris is provided, use it directly
@@ -288,24 +703,26 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
             if ((trackOrOptions as any).context_uri) body.context_uri = (trackOrOptions as any).context_uri;
             if ((trackOrOptions as any).uris) body.uris = (trackOrOptions as any).uris;
             if ((trackOrOptions as any).offset) body.offset = (trackOrOptions as any).offset;
+            const { position_ms } = trackOrOptions as PlayOptions;
+            if (position_ms) body.position_ms = position_ms;
 
-            await fetch(`https://api.spotify.com/v1/me/player/play${params}`, {
+            await sendPlayerCommand(() => fetch(`${SPOTIFY_API_BASE}/me/player/play${params}`, {
               method: 'PUT',
               headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
               body: JSON.stringify(body)
-            });
+            }));
           } else if ((trackOrOptions as any).uri) {
             // Track object with uri
-            await fetch(`https://api.spotify.com/v1/me/player/play${params}`, {
+            await sendPlayerCommand(() => fetch(`${SPOTIFY_API_BASE}/me/player/play${params}`, {
               method: 'PUT',
               headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
               body: JSON.stringify({ uris: [(trackOrOptions as any).uri] })
-            });
+            }), { trackName: (trackOrOptions as Track).name });
           } else {
             // Fallback: attempt resume
             if (storePlayer.isRemotePlaying) {
-              await fetch('https://api.spotify.com/v1/me/player/play', { method: 'PUT', headers: { Authorization: `Bearer ${token}` } });
-              dispatch(setPlaying(true));
+              const resumed = await sendPlayerCommand(() => fetch(`${SPOTIFY_API_BASE}/me/player/play`, { method: 'PUT', headers: { Authorization: `Bearer ${token}` } }));
+              if (resumed) dispatch(setPlaying(true));
             } else {
               await playerRef.current?.resume();
             }
@@ -314,11 +731,11 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           // Resume current playback
           if (storePlayer.isRemotePlaying) {
             // Use Web API for remote devices
-            await fetch('https://api.spotify.com/v1/me/player/play', {
+            const resumed = await sendPlayerCommand(() => fetch(`${SPOTIFY_API_BASE}/me/player/play`, {
               method: 'PUT',
               headers: { Authorization: `Bearer ${token}` }
-            });
-            dispatch(setPlaying(true));
+            }));
+            if (resumed) dispatch(setPlaying(true));
           } else {
             // Use local player for this device
             await playerRef.current?.resume();
@@ -333,7 +750,7 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       try {
         if (storePlayer.isRemotePlaying) {
           // Use Web API for remote devices
-          await fetch('https://api.spotify.com/v1/me/player/pause', {
+          await fetch(`${SPOTIFY_API_BASE}/me/player/pause`, {
             method: 'PUT',
             headers: { Authorization: `Bearer ${token}` }
           });
@@ -350,18 +767,24 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
     const resume = async () => {
       try {
+        // The mock SDK has no Web API behind it - its timeline is already loaded
+        if (USE_MOCK_SDK && playerRef.current) {
+          await playerRef.current.resume();
+          return;
+        }
+
         // For remote playback, don't include device_id to avoid transferring playback
         if (storePlayer.isRemotePlaying && storePlayer.activeDeviceId) {
           // Use Web API for remote devices - no device_id to keep playback on remote
-          await fetch('https://api.spotify.com/v1/me/player/play', {
+          const resumed = await sendPlayerCommand(() => fetch(`${SPOTIFY_API_BASE}/me/player/play`, {
             method: 'PUT',
             headers: { Authorization: `Bearer ${token}` }
-          });
-          dispatch(setPlaying(true));
+          }));
+          if (resumed) dispatch(setPlaying(true));
           return;
         }
         
-        const targetDeviceId = storePlayer.deviceId || storePlayer.activeDeviceId;
+        const targetDeviceId = getPlaybackTarget();
         
         // If we have a current track but no active playback (e.g., loaded from recently played),
         // we need to start playing the track, not just resume
@@ -381,16 +804,14 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           }
           
           const params = `?device_id=${targetDeviceId}`;
-          const response = await fetch(`https://api.spotify.com/v1/me/player/play${params}`, {
+          const resumed = await sendPlayerCommand(() => fetch(`${SPOTIFY_API_BASE}/me/player/play${params}`, {
             method: 'PUT',
             headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
             body: JSON.stringify(body)
-          });
+          }), { trackName: storePlayer.currentTrack.name });
           
-          if (response.ok || response.status === 204) {
-            dispatch(setPlaying(true));
-            return;
-          }
+          if (resumed) dispatch(setPlaying(true));
+          return;
         }
         
         // Fallback to standard resume behavior using local player
@@ -402,7 +823,19 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     };
 
     const nextTrack = async () => {
+      recordAction('skip');
+      const skipped = storePlayer.currentTrack;
+      if (skipped && storePlayer.position >= UNDO_TOAST_MIN_POSITION_MS && !restoringRef.current) {
+        // controlsRef holds the latest closures by the time the button is clicked
+        toast.showToast(`Skipped "${skipped.name}"`, 'info', { label: 'Undo', onClick: () => controlsRef.current.undoLastAction() });
+      }
       try {
+        // The local queue decides what comes next while it is driving playback
+        if (storeQueue.active && storeQueue.items[storeQueue.currentIndex + 1]) {
+          await playQueueIndex(storeQueue.items, storeQueue.currentIndex + 1, 0, { keepOriginalOrder: true });
+          return;
+        }
+
         const currentTrackBeforeSkip = storePlayer.currentTrack;
         
         // Prefer SDK/local player when available
@@ -432,13 +865,13 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         }
 
         // Fallback to Web API for remote devices or if SDK method unavailable
-        const response = await fetch('https://api.spotify.com/v1/me/player/next', {
+        const advanced = await sendPlayerCommand(() => fetch(`${SPOTIFY_API_BASE}/me/player/next`, {
           method: 'POST',
           headers: { Authorization: `Bearer ${token}` }
-        });
+        }));
         
         // Check if the request was successful
-        if (response.ok) {
+        if (advanced) {
           // Refresh state after track change
           setTimeout(async () => {
             await fetchPlaybackState();
@@ -457,7 +890,19 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     };
 
     const previousTrack = async () => {
+      recordAction('skip');
       try {
+        if (storeQueue.active && storeQueue.currentIndex >= 0) {
+          // Same behaviour as Spotify: restart the track unless we are right at its start
+          if (storePlayer.position > 3000 || storeQueue.currentIndex === 0) {
+            // Already recorded as a skip above - one press, one undo entry
+            await seek(0, { undoable: false });
+          } else {
+            await playQueueIndex(storeQueue.items, storeQueue.currentIndex - 1, 0, { keepOriginalOrder: true });
+          }
+          return;
+        }
+
         // Prefer SDK/local player when available
         try {
           if (playerRef.current && !storePlayer.isRemotePlaying) {
@@ -472,10 +917,10 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         }
 
         // Fallback to Web API for remote devices or if SDK method unavailable
-        await fetch('https://api.spotify.com/v1/me/player/previous', {
+        await sendPlayerCommand(() => fetch(`${SPOTIFY_API_BASE}/me/player/previous`, {
           method: 'POST',
           headers: { Authorization: `Bearer ${token}` }
-        });
+        }));
         // Refresh state after track change
         setTimeout(fetchPlaybackState, 500);
       } catch (err) {
@@ -483,19 +928,20 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       }
     };
 
-    const seek = async (position: number) => {
+    const seek = async (position: number, options: { undoable?: boolean } = {}) => {
+      if (options.undoable !== false) recordAction('seek');
       try {
         if (storePlayer.isRemotePlaying) {
           // Use Web API for remote devices
-          await fetch(`https://api.spotify.com/v1/me/player/seek?position_ms=${position}`, {
+          await fetch(`${SPOTIFY_API_BASE}/me/player/seek?position_ms=${position}`, {
             method: 'PUT',
             headers: { Authorization: `Bearer ${token}` }
           });
-          dispatch(setPosition(position));
+          updatePosition(position);
         } else {
           // Use local player for this device
           await playerRef.current?.seek(position);
-          dispatch(setPosition(position));
+          updatePosition(position);
         }
       } catch (err) {
         console.error('seek error', err);
@@ -507,7 +953,7 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         if (storePlayer.isRemotePlaying) {
           // Use Web API for remote devices
           const volumePercent = Math.round(newVolume * 100);
-          await fetch(`https://api.spotify.com/v1/me/player/volume?volume_percent=${volumePercent}`, {
+          await fetch(`${SPOTIFY_API_BASE}/me/player/volume?volume_percent=${volumePercent}`, {
             method: 'PUT',
             headers: { Authorization: `Bearer ${token}` }
           });
@@ -517,6 +963,8 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           await playerRef.current?.setVolume(newVolume);
           dispatch(setVolumeAction(newVolume));
         }
+        const volumeDeviceId = storePlayer.isRemotePlaying ? storePlayer.activeDeviceId : storePlayer.deviceId;
+        if (volumeDeviceId) devicePreferencesService.setVolume(getDeviceKey(volumeDeviceId, storePlayer.deviceId), newVolume);
       } catch (err) {
         console.error('setVolume error', err);
       }
@@ -535,7 +983,7 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         if (!storePlayer.isRemotePlaying && storePlayer.deviceId) {
           params.set('device_id', storePlayer.deviceId);
         }
-        await fetch(`https://api.spotify.com/v1/me/player/shuffle?${params.toString()}`, { 
+        await fetch(`${SPOTIFY_API_BASE}/me/player/shuffle?${params.toString()}`, { 
           method: 'PUT', 
           headers: { Authorization: `Bearer ${token}` } 
         });
@@ -556,7 +1004,7 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
           params.set('device_id', storePlayer.deviceId);
         }
 
-        const url = `https://api.spotify.com/v1/me/player/repeat?${params.toString()}`;
+        const url = `${SPOTIFY_API_BASE}/me/player/repeat?${params.toString()}`;
         const res = await fetch(url, { 
           method: 'PUT', 
           headers: { Authorization: `Bearer ${token}` } 
@@ -582,12 +1030,18 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     const getAvailableDevices = async () => {
       if (!token || isGuest) return;
       try {
-        const response = await fetch('https://api.spotify.com/v1/me/player/devices', {
+        const response = await fetch(`${SPOTIFY_API_BASE}/me/player/devices`, {
           headers: { Authorization: `Bearer ${token}` }
         });
         if (response.ok) {
           const data = await response.json();
-          setAvailableDevices(data.devices || []);
+          const devices: Device[] = data.devices || [];
+          setAvailableDevices(devices);
+          devicePreferencesService.remember(devices.map(d => ({
+            key: getDeviceKey(d.id, storePlayer.deviceId),
+            name: d.name,
+            type: d.type
+          })));
         }
       } catch (err) {
         console.error('getAvailableDevices error', err);
@@ -596,8 +1050,9 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
     const transferPlayback = async (deviceId: string) => {
       if (!token || isGuest) return;
+      recordAction('transfer');
       try {
-        await fetch('https://api.spotify.com/v1/me/player', {
+        const transferred = await sendPlayerCommand(() => fetch(`${SPOTIFY_API_BASE}/me/player`, {
           method: 'PUT',
           headers: { 
             Authorization: `Bearer ${token}`,
@@ -607,9 +1062,10 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
             device_ids: [deviceId],
             play: storePlayer.playing
           })
-        });
-        // Refresh devices after transfer
-        setTimeout(() => {
+        }));
+        // Refresh devices after transfer, once the new device has picked up playback
+        setTimeout(async () => {
+          if (transferred) await restoreDeviceVolume(deviceId, storePlayer.deviceId);
           getAvailableDevices();
           fetchPlaybackState();
         }, 1000);
@@ -620,9 +1076,11 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
     // Periodically fetch available devices
     React.useEffect(() => {
-      if (!token || isGuest) return;
+      if (!token || isGuest || !isLeader) return;
       
       const fetchDevices = () => {
+        // Device lists only matter to someone looking at the page
+        if (document.hidden || Date.now() < rateLimitedUntilRef.current) return;
         getAvailableDevices();
       };
       
@@ -631,7 +1089,406 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       const interval = setInterval(fetchDevices, 30000);
       
       return () => clearInterval(interval);
-    }, [token, isGuest]);
+    }, [token, isGuest, isLeader]);
+
+    // Queue management - Spotify only exposes read + append, no reorder/remove
+    const getQueue = async () => {
+      if (!token || isGuest) return;
+      try {
+        const response = await fetch(`${SPOTIFY_API_BASE}/me/player/queue`, {
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        if (!response.ok) return;
+        const data = await safeParseJSON(response);
+        // Episodes can show up in the queue too; only keep tracks
+        const items = (data?.queue || []).filter((item: Track | null) => item && item.type === 'track');
+        setQueue(items);
+      } catch (err) {
+        console.error('getQueue error', err);
+      }
+    };
+
+    const addToQueue = async (track: Track): Promise<boolean> => {
+      if (!token || isGuest) return false;
+      // While the local queue is in charge, appending to Spotify's queue would jump ahead of it
+      if (storeQueue.active) {
+        dispatch(enqueue([track]));
+        return true;
+      }
+      try {
+        const params = new URLSearchParams({ uri: track.uri });
+        if (!storePlayer.isRemotePlaying && storePlayer.deviceId) {
+          params.set('device_id', storePlayer.deviceId);
+        }
+        const response = await fetch(`${SPOTIFY_API_BASE}/me/player/queue?${params.toString()}`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        if (!response.ok) {
+          console.error('addToQueue failed', response.status);
+          return false;
+        }
+        // Give Spotify a moment before reading the queue back
+        setTimeout(getQueue, 500);
+        return true;
+      } catch (err) {
+        console.error('addToQueue error', err);
+        return false;
+      }
+    };
+
+    // Refresh the queue whenever the playing track changes
+    useEffect(() => {
+      if (!token || isGuest || !isLeader) return;
+      getQueue();
+    }, [token, isGuest, isLeader, storePlayer.currentTrack?.id]);
+
+    // Last track of the list Spotify was handed - it stops there, whatever was queued since
+    const lastHandedOverRef = useRef<Track | null>(null);
+
+    // Client-managed queue: play the given list starting at index via play({ uris }).
+    // keepOriginalOrder when moving within the current list, so a smart shuffle stays undoable.
+    // Resolves to whether Spotify accepted the request.
+    const playQueueIndex = async (
+      items: Track[],
+      index: number,
+      positionMs = 0,
+      { keepOriginalOrder = false }: { keepOriginalOrder?: boolean } = {}
+    ): Promise<boolean> => {
+      if (!token || isGuest || !items[index]) return false;
+      dispatch(setLocalQueue({ items, currentIndex: index, keepOriginalOrder }));
+      try {
+        const targetDeviceId = getPlaybackTarget();
+        const params = targetDeviceId ? `?device_id=${targetDeviceId}` : '';
+        // Only hand Spotify what is left to play so its natural advance follows our order
+        const body: PlayOptions = { uris: items.slice(index).map(t => t.uri) };
+        lastHandedOverRef.current = items[items.length - 1];
+        if (positionMs > 0) body.position_ms = positionMs;
+        return await sendPlayerCommand(() => fetch(`${SPOTIFY_API_BASE}/me/player/play${params}`, {
+          method: 'PUT',
+          headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify(body)
+        }), {
+          trackName: items[index].name,
+          skip: items[index + 1]
+            ? async () => { await playQueueIndex(items, index + 1, 0, { keepOriginalOrder: true }); }
+            : undefined
+        });
+      } catch (err) {
+        console.error('playQueueIndex error', err);
+        return false;
+      }
+    };
+
+    const playQueue = async (tracks: Track[], startIndex = 0) => {
+      recordAction('context');
+      await playQueueIndex(tracks, startIndex);
+    };
+
+    const playNext = async (track: Track): Promise<boolean> => {
+      if (storeQueue.active) {
+        dispatch(insertNext([track]));
+        return true;
+      }
+      // Spotify's own queue already plays manually added tracks first
+      return addToQueue(track);
+    };
+
+    const removeFromQueue = (index: number) => {
+      dispatch(removeFromQueueAction(index));
+    };
+
+    const moveQueueItem = (from: number, to: number) => {
+      dispatch(moveQueueItemAction({ from, to }));
+    };
+
+    const clearQueue = () => {
+      dispatch(clearQueueAction());
+    };
+
+    // Copy Spotify's queue into the local one so it can be edited, keeping the current position
+    const takeOverQueue = async () => {
+      if (!storePlayer.currentTrack) return;
+      await playQueueIndex([storePlayer.currentTrack, ...queue], 0, storePlayer.position);
+    };
+
+    // Tracks of whatever is playing, in their original order
+    const getContextTracks = async (): Promise<Track[]> => {
+      if (storeQueue.active) return storeQueue.items;
+      const [, type, id] = storePlayer.contextUri?.split(':') || [];
+      if (token && type === 'playlist') return getPlaylistTracks(token, id);
+      if (token && type === 'album') return getAlbumTracks(token, id);
+      if (token && type === 'artist') return getArtistTopTracks(token, id);
+      return storePlayer.currentTrack ? [storePlayer.currentTrack, ...queue] : queue;
+    };
+
+    // Client-side shuffle of the current context (see utils/smartShuffle); the playing track stays put
+    const smartShuffle = async ({ smoothTransitions = false }: { smoothTransitions?: boolean } = {}) => {
+      if (!token || isGuest) return;
+      const current = storePlayer.currentTrack;
+      const original = await getContextTracks();
+      if (original.length < 2) return;
+
+      const recentPlays = new Map<string, number>();
+      try {
+        const history = await listeningHistoryService.getEntries({ limit: 200 });
+        history.forEach(entry => {
+          if (!recentPlays.has(entry.trackId)) recentPlays.set(entry.trackId, entry.startedAt);
+        });
+      } catch (err) {
+        console.warn('Smart shuffle could not read listening history', err);
+      }
+
+      const shuffled = smartShuffleTracks(original.filter(track => !isSameTrack(track, current)), {
+        recentPlays,
+        getFeatures: trackId => recommendationEngine.getCachedFeatures(trackId),
+        smoothTransitions
+      });
+
+      // Spotify's own shuffle would reorder our list again
+      if (storePlayer.isShuffled) await toggleShuffle();
+      const played = await playQueueIndex(current ? [current, ...shuffled] : shuffled, 0, current ? storePlayer.position : 0);
+      // Nothing to restore if Spotify never switched to the shuffled order
+      if (played) dispatch(setOriginalOrder(original));
+    };
+
+    // Go back to the pre-shuffle order, continuing from the current track
+    const unshuffle = async () => {
+      const original = storeQueue.originalItems;
+      if (!original) return;
+      const current = storePlayer.currentTrack;
+      const index = original.findIndex(track => isSameTrack(track, current));
+      if (index === -1) {
+        await playQueueIndex(current ? [current, ...original] : original, 0, current ? storePlayer.position : 0);
+      } else {
+        await playQueueIndex(original, index, storePlayer.position);
+      }
+    };
+
+    const undoLastAction = async (): Promise<boolean> => {
+      const history = actionHistoryRef.current;
+      const action = history[history.length - 1];
+      if (!action || !token || isGuest) return false;
+      setActionHistory(history.slice(0, -1));
+
+      restoringRef.current = true;
+      try {
+        if (action.type === 'transfer') {
+          if (!action.deviceId) return false;
+          await transferPlayback(action.deviceId);
+          return true;
+        }
+        if (!action.track) return false;
+
+        // Still on the same track - seeking back is enough
+        if (isSameTrack(action.track, storePlayer.currentTrack)) {
+          await seek(action.position);
+          return true;
+        }
+
+        if (action.queue) {
+          await playQueueIndex(action.queue.items, action.queue.currentIndex, action.position, {
+            keepOriginalOrder: isSameTrackList(action.queue.items, storeQueue.items)
+          });
+          return true;
+        }
+
+        // Restore on whichever device is playing now (this tab's SDK player or a Connect device)
+        // rather than play()'s default of pulling playback to this tab
+        const targetDeviceId = storePlayer.isRemotePlaying
+          ? storePlayer.activeDeviceId
+          : storePlayer.deviceId || storePlayer.activeDeviceId;
+        const params = targetDeviceId ? `?device_id=${targetDeviceId}` : '';
+        const body: PlayOptions = action.contextUri
+          ? { context_uri: action.contextUri, offset: { uri: action.track.uri }, position_ms: action.position }
+          : { uris: [action.track.uri], position_ms: action.position };
+        if (storeQueue.active) dispatch(setQueueActive(false));
+        const response = await fetch(`${SPOTIFY_API_BASE}/me/player/play${params}`, {
+          method: 'PUT',
+          headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify(body)
+        });
+        setTimeout(fetchPlaybackState, 500);
+        return response.ok;
+      } catch (err) {
+        console.error('undoLastAction error', err);
+        return false;
+      } finally {
+        restoringRef.current = false;
+      }
+    };
+
+    // Keep the local queue in step with what is actually playing. Track changes can come from
+    // next/previous, from natural advance, or from another device taking over.
+    const lastProgressRef = useRef({ position: 0, duration: 0 });
+    const applyQueueSyncStep = (step: QueueSyncStep) => {
+      if (step.type === 'follow') dispatch(setQueueIndex(step.index));
+      else if (step.type === 'play') playQueueIndex(storeQueue.items, step.index, 0, { keepOriginalOrder: true });
+      // Something outside the queue is playing now (another device or context)
+      else if (step.type === 'release') dispatch(setQueueActive(false));
+    };
+
+    useEffect(() => {
+      const current = storePlayer.currentTrack;
+      // Followers receive the leader's queue position instead of steering playback themselves
+      if (!current || !storeQueue.active || !isLeader) return;
+      applyQueueSyncStep(syncQueueToTrack(storeQueue.items, storeQueue.currentIndex, current, lastProgressRef.current));
+    }, [storePlayer.currentTrack?.uri]);
+
+    // Spotify stopped at the end of the uris it was handed while more was queued locally since
+    // (added to the queue, play next, radio) - carry on with the next item
+    useEffect(() => {
+      const current = storePlayer.currentTrack;
+      if (!current || !storeQueue.active || !isLeader) return;
+      applyQueueSyncStep(continueAfterStop(
+        storeQueue.items,
+        storeQueue.currentIndex,
+        current,
+        { playing: storePlayer.playing, position: storePlayer.position },
+        lastProgressRef.current,
+        lastHandedOverRef.current
+      ));
+    }, [storePlayer.playing, storePlayer.position]);
+
+    // Must run after the sync effects above so they still see the previous track's progress
+    useEffect(() => {
+      lastProgressRef.current = { position: storePlayer.position, duration: storePlayer.duration };
+    }, [storePlayer.position, storePlayer.duration]);
+
+    // Log every play to the local listening history
+    useListeningHistoryRecorder({
+      track: storePlayer.currentTrack,
+      isPlaying: storePlayer.playing,
+      position: storePlayer.position,
+      contextUri: storePlayer.contextUri,
+      enabled: !!token && !isGuest && isLeader
+    });
+
+    // Leader: share player state with the other tabs whenever it changes
+    const tabState: TabPlayerState = { player: storePlayer, queue: storeQueue, availableDevices, spotifyQueue: queue, actionHistory };
+    const tabStateRef = useRef(tabState);
+    tabStateRef.current = tabState;
+
+    useEffect(() => {
+      if (!isLeader) return;
+      tabCoordinator.broadcastState(tabStateRef.current);
+    }, [isLeader, storePlayer, storeQueue, availableDevices, queue, actionHistory]);
+
+    useEffect(() => {
+      if (!isLeader) return;
+      return tabCoordinator.onStateRequest(() => tabCoordinator.broadcastState(tabStateRef.current));
+    }, [isLeader]);
+
+    // Follower: mirror the leader's state
+    useEffect(() => {
+      if (isLeader) return;
+      return tabCoordinator.onState((raw) => {
+        const state = raw as TabPlayerState;
+        positionAnchorRef.current = { position: state.player.position, at: Date.now() };
+        dispatch(syncPlayerState(state.player));
+        dispatch(syncQueueState(state.queue));
+        setAvailableDevices(state.availableDevices);
+        setQueue(state.spotifyQueue);
+        setActionHistory(state.actionHistory || []);
+      });
+    }, [isLeader]);
+
+    const controls = {
+      togglePlay,
+      nextTrack,
+      previousTrack,
+      seek,
+      setVolume,
+      play,
+      pause,
+      resume,
+      toggleShuffle,
+      setRepeat,
+      getAvailableDevices,
+      transferPlayback,
+      getQueue,
+      addToQueue,
+      playQueue,
+      playNext,
+      removeFromQueue,
+      moveQueueItem,
+      clearQueue,
+      takeOverQueue,
+      smartShuffle,
+      unshuffle,
+      undoLastAction
+    };
+    type ControlName = keyof typeof controls;
+
+    // Leader: run commands sent by follower tabs with the latest closures
+    const controlsRef = useRef(controls);
+    controlsRef.current = controls;
+
+    useEffect(() => {
+      if (!isLeader) return;
+      tabCoordinator.setCommandHandler(async (method, args) => {
+        const control = controlsRef.current[method as ControlName] as ((...a: unknown[]) => unknown) | undefined;
+        if (!control) throw new Error(`Unknown player command: ${method}`);
+        const forwarding: { error: ForwardedPlaybackError | null } = { error: null };
+        forwardedCommandRef.current = forwarding;
+        try {
+          const result = await control(...args);
+          // The controls report playback errors instead of throwing - reject so the follower knows
+          if (forwarding.error) throw new TabCommandError(forwarding.error.message, forwarding.error);
+          return result;
+        } finally {
+          if (forwardedCommandRef.current === forwarding) forwardedCommandRef.current = null;
+        }
+      });
+      return () => tabCoordinator.setCommandHandler(null);
+    }, [isLeader]);
+
+    // Follower: show a playback error from a forwarded command with the actions the leader
+    // would have offered
+    const showForwardedPlaybackError = ({ code, message, variant }: ForwardedPlaybackError) => {
+      const webPlayerId = storePlayer.deviceId;
+      const actions: Partial<Record<PlaybackRecovery, ToastAction>> = {
+        reauthenticate: { label: 'Log in', onClick: login },
+        'open-spotify': { label: 'Open Spotify', onClick: () => window.open('https://open.spotify.com', '_blank', 'noopener') }
+      };
+      if (webPlayerId) {
+        // A failure is shown by the forwarded call itself
+        actions['transfer-here'] = { label: 'Play here', onClick: () => { forwarded.transferPlayback(webPlayerId).catch(() => {}); } };
+      }
+      toast.showToast(message, variant, variant === 'error' ? actions[PLAYBACK_RECOVERY[code]] : undefined);
+    };
+
+    // Follower: every control is forwarded to the leader tab. Failures reject like they
+    // would in the leader, and playback errors are shown here where the user is.
+    const forwarded = Object.fromEntries(
+      (Object.keys(controls) as ControlName[]).map(name => [
+        name,
+        async (...args: unknown[]) => {
+          try {
+            return await tabCoordinator.sendCommand(name, args);
+          } catch (err) {
+            console.error(`${name} forward error`, err);
+            if (err instanceof TabCommandError && err.data) showForwardedPlaybackError(err.data as ForwardedPlaybackError);
+            throw err;
+          }
+        }
+      ])
+    ) as unknown as typeof controls;
+
+    const activeControls = isLeader ? controls : forwarded;
+
+    // OS media keys, headset buttons and lock-screen controls
+    useMediaSession({
+      track: storePlayer.currentTrack,
+      isPlaying: storePlayer.playing,
+      position: storePlayer.position,
+      duration: storePlayer.duration,
+      play: activeControls.resume,
+      pause: activeControls.pause,
+      nextTrack: activeControls.nextTrack,
+      previousTrack: activeControls.previousTrack,
+      seek: activeControls.seek
+    });
 
     const value: PlayerContextType = {
       player: playerRef.current,
@@ -647,18 +1504,13 @@ export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       isShuffled: storePlayer.isShuffled,
       repeatMode: storePlayer.repeatMode,
       availableDevices,
-      togglePlay,
-      nextTrack,
-      previousTrack,
-      seek,
-      setVolume,
-      play,
-      pause,
-      resume,
-      toggleShuffle,
-      setRepeat,
-      getAvailableDevices,
-      transferPlayback
+      queue,
+      localQueue: storeQueue.items,
+      queueIndex: storeQueue.currentIndex,
+      isQueueActive: storeQueue.active,
+      isSmartShuffled: storeQueue.active && !!storeQueue.originalItems,
+      actionHistory,
+      ...activeControls
     };
 
     return <PlayerContext.Provider value={value}>{children}</PlayerContext.Provider>;
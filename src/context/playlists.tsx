@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useRef, useState, useEffect } from 'react';
 import { useAuth } from './auth';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
 
 interface PlaylistsContextType {
   playlists: any[];
@@ -18,7 +19,7 @@ export const usePlaylists = () => {
 };
 
 export const PlaylistsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { token, isGuest } = useAuth();
+  const { token } = useAuth();
   const [playlists, setPlaylists] = useState<any[]>([]);
   const [isLoadingPlaylists, setIsLoadingPlaylists] = useState(false);
   
@@ -28,9 +29,9 @@ export const PlaylistsProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const lastTokenRef = useRef<string | null>(null);
 
   const fetchPlaylists = async (forceRefresh: boolean = false) => {
-    // Don't fetch playlists if user is in guest mode or no token
-    if (isGuest || !token || token === 'GUEST') {
-      console.log('Guest mode or no token - clearing playlists');
+    // Don't fetch playlists without a token
+    if (!token) {
+      console.log('No token - clearing playlists');
       setPlaylists([]);
       playlistsCache.current = [];
       playlistsFetched.current = false;
@@ -59,7 +60,7 @@ export const PlaylistsProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     setIsLoadingPlaylists(true);
     try {
       console.log('Fetching fresh playlists with token:', token.substring(0, 20) + '...');
-      const response = await fetch('https://api.spotify.com/v1/me/playlists?limit=50', {
+      const response = await fetch(`${SPOTIFY_API_BASE}/me/playlists?limit=50`, {
         headers: {
           'Authorization': `Bearer ${token}`,
         },
@@ -104,7 +105,7 @@ export const PlaylistsProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   // Initial fetch on mount or when auth state changes
   useEffect(() => {
     fetchPlaylists();
-  }, [token, isGuest]);
+  }, [token]);
 
   // Manual refresh function
   const refreshPlaylists = () => {
@@ -0,0 +1,194 @@
+/**
+ * Radio Context
+ * Endless radio mode: keeps playback going with locally-computed similar tracks
+ *
+ * While radio is on, the queue is watched and topped up once RADIO_REFILL_THRESHOLD
+ * or fewer tracks are left. Seeds are the last few played tracks; recent history and
+ * anything already queued is never picked again. startRadio() replaces the queue with
+ * a fresh station seeded from a track, artist or playlist.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { useAuth } from './auth';
+import { usePlayer } from './player';
+import { useLibrary } from './library';
+import { useToast } from './toast';
+import { radioService } from '../services/radioService';
+import { listeningHistoryService, type ListeningHistoryEntry } from '../services/listeningHistoryService';
+import { tabCoordinator } from '../services/tabCoordinator';
+import {
+  RADIO_STORAGE_KEY,
+  RADIO_SEED_COUNT,
+  RADIO_REFILL_THRESHOLD,
+  sampleSeeds
+} from '../utils/radio';
+import type { Track } from '../types/spotify';
+import { userKey } from '../utils/userScope';
+import { secureStorage } from '../services/secureStorage';
+import { RadioContext, type RadioContextType } from '../hooks/useRadio';
+
+/** Recent plays that radio won't repeat */
+const HISTORY_EXCLUDE_LIMIT = 100;
+
+interface RadioState {
+  enabled: boolean;
+  /** What the station was started from, e.g. a track or artist name */
+  label: string | null;
+}
+
+const loadRadioState = (): RadioState => {
+  try {
+    const stored = secureStorage.getItem(userKey(RADIO_STORAGE_KEY));
+    if (stored) return { enabled: false, label: null, ...JSON.parse(stored) };
+  } catch (err) {
+    console.warn('Failed to load radio state', err);
+  }
+  return { enabled: false, label: null };
+};
+
+const getRecentHistory = async (): Promise<ListeningHistoryEntry[]> => {
+  try {
+    return await listeningHistoryService.getEntries({ limit: HISTORY_EXCLUDE_LIMIT });
+  } catch (err) {
+    // History is optional (e.g. no IndexedDB) - radio still works without it
+    console.warn('Radio could not read listening history', err);
+    return [];
+  }
+};
+
+export const RadioProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { token, isGuest } = useAuth();
+  const {
+    currentTrack,
+    queue,
+    localQueue,
+    queueIndex,
+    isQueueActive,
+    repeatMode,
+    addToQueue,
+    playQueue
+  } = usePlayer();
+  const { tracks: libraryTracks } = useLibrary();
+  const toast = useToast();
+
+  const [radio, setRadio] = useState<RadioState>(loadRadioState);
+  const [isFilling, setIsFilling] = useState(false);
+  // Seeds the station was started with - used until enough tracks have been played
+  const startSeedsRef = useRef<Track[]>([]);
+  // Queue position we last filled at, so one low-queue moment triggers one refill
+  const lastFillKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    secureStorage.setItem(userKey(RADIO_STORAGE_KEY), JSON.stringify(radio));
+  }, [radio]);
+
+  // Most recent first: the current track, then what the local queue already played
+  const playedTracks = (): Track[] => {
+    const played = isQueueActive ? localQueue.slice(0, Math.max(0, queueIndex)).reverse() : [];
+    return currentTrack ? [currentTrack, ...played] : played;
+  };
+
+  const pickSeeds = (): Track[] => {
+    const seen = new Set<string>();
+    return [...playedTracks(), ...startSeedsRef.current]
+      .filter(track => !seen.has(track.id) && !!seen.add(track.id))
+      .slice(0, RADIO_SEED_COUNT);
+  };
+
+  const fill = async () => {
+    const seeds = pickSeeds();
+    if (seeds.length === 0) return;
+
+    setIsFilling(true);
+    try {
+      const history = await getRecentHistory();
+      const excludeIds = new Set([
+        ...history.map(entry => entry.trackId),
+        ...localQueue.map(track => track.id),
+        ...queue.map(track => track.id)
+      ]);
+      const picks = await radioService.getNextTracks({
+        seeds,
+        excludeIds,
+        recentTracks: [...playedTracks(), ...history],
+        libraryTracks: libraryTracks as Track[]
+      });
+
+      if (picks.length === 0) {
+        toast.showToast('Radio ran out of similar tracks', 'info');
+        return;
+      }
+      for (const track of picks) {
+        await addToQueue(track);
+      }
+    } catch (err) {
+      console.error('Radio fill error', err);
+    } finally {
+      setIsFilling(false);
+    }
+  };
+
+  // fill is a new function on every render - only the values below should trigger a refill
+  const fillRef = useRef(fill);
+  fillRef.current = fill;
+
+  // Top up the queue when it is about to run out
+  const remaining = isQueueActive ? localQueue.length - queueIndex - 1 : queue.length;
+  const currentTrackId = currentTrack?.id;
+  useEffect(() => {
+    if (!radio.enabled || !token || isGuest || !currentTrackId || isFilling) return;
+    if (remaining > RADIO_REFILL_THRESHOLD) return;
+    // A repeating context never ends
+    if (!isQueueActive && repeatMode !== 'off') return;
+    // Only the tab that owns playback adds tracks, or every open tab would
+    if (!tabCoordinator.isLeader()) return;
+
+    const fillKey = `${currentTrackId}:${remaining}`;
+    if (lastFillKeyRef.current === fillKey) return;
+    lastFillKeyRef.current = fillKey;
+    fillRef.current();
+  }, [radio.enabled, token, isGuest, currentTrackId, remaining, isQueueActive, repeatMode, isFilling]);
+
+  const toggleRadio = () => {
+    setRadio(prev => prev.enabled
+      ? { enabled: false, label: null }
+      : { enabled: true, label: currentTrack?.name || null });
+    startSeedsRef.current = [];
+    lastFillKeyRef.current = null;
+  };
+
+  const startRadio = async (seeds: Track[], label: string) => {
+    if (!token || isGuest || seeds.length === 0) return;
+
+    startSeedsRef.current = sampleSeeds(seeds);
+    lastFillKeyRef.current = null;
+    setRadio({ enabled: true, label });
+    setIsFilling(true);
+    try {
+      const history = await getRecentHistory();
+      const picks = await radioService.getNextTracks({
+        seeds: startSeedsRef.current,
+        excludeIds: new Set(history.map(entry => entry.trackId)),
+        recentTracks: history,
+        libraryTracks: libraryTracks as Track[]
+      });
+      await playQueue([seeds[0], ...picks]);
+      toast.showToast(`Started ${label} radio`, 'success');
+    } catch (err) {
+      console.error('Start radio error', err);
+      toast.showToast('Failed to start radio', 'error');
+    } finally {
+      setIsFilling(false);
+    }
+  };
+
+  const value: RadioContextType = {
+    isRadioOn: radio.enabled,
+    radioLabel: radio.label,
+    isFilling,
+    toggleRadio,
+    startRadio
+  };
+
+  return <RadioContext.Provider value={value}>{children}</RadioContext.Provider>;
+};
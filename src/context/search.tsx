@@ -1,6 +1,10 @@
 import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
 import { useAuth } from './auth';
 import type { Track } from '../types/spotify';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
+import { userKey } from '../utils/userScope';
+import { sessionRecoveryService } from '../services/sessionRecoveryService';
+import { secureStorage } from '../services/secureStorage';
 
 interface SearchResults {
   tracks: Track[];
@@ -39,10 +43,20 @@ export const SearchProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const LIMIT = 40; // Fetch 40 items at a time
 
+  // Bring the query back after signing in again when the session expired
+  const queryRef = useRef(query);
+  useEffect(() => {
+    queryRef.current = query;
+  }, [query]);
+  useEffect(() => sessionRecoveryService.registerReturnState<string>('search', {
+    capture: () => queryRef.current,
+    restore: setQuery
+  }), []);
+
   // Load recent searches from localStorage on mount
   useEffect(() => {
     try {
-      const raw = localStorage.getItem('recentSearches');
+      const raw = secureStorage.getItem(userKey('recentSearches'));
       if (raw) {
         const parsed = JSON.parse(raw);
         if (Array.isArray(parsed)) {
@@ -63,7 +77,7 @@ export const SearchProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         const lower = normalized.toLowerCase();
         const deduped = [normalized, ...prev.filter(s => s.toLowerCase() !== lower)].slice(0, 10);
         
-        localStorage.setItem('recentSearches', JSON.stringify(deduped));
+        secureStorage.setItem(userKey('recentSearches'), JSON.stringify(deduped));
         return deduped;
       } catch (e) {
         console.warn('Failed to save recent search', e);
@@ -76,7 +90,7 @@ export const SearchProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     setRecentSearches(prev => {
       try {
         const filtered = prev.filter(s => s.toLowerCase() !== searchQuery.toLowerCase());
-        localStorage.setItem('recentSearches', JSON.stringify(filtered));
+        secureStorage.setItem(userKey('recentSearches'), JSON.stringify(filtered));
         return filtered;
       } catch (e) {
         console.warn('Failed to remove recent search', e);
@@ -87,7 +101,7 @@ export const SearchProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
   const clearRecentSearches = useCallback(() => {
     try {
-      localStorage.removeItem('recentSearches');
+      secureStorage.removeItem(userKey('recentSearches'));
       setRecentSearches([]);
     } catch (e) {
       console.warn('Failed to clear recent searches', e);
@@ -112,7 +126,7 @@ export const SearchProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
     try {
       const res = await fetch(
-        `https://api.spotify.com/v1/search?q=${encodeURIComponent(searchQuery)}&type=track,album,artist,playlist&limit=${LIMIT}`,
+        `${SPOTIFY_API_BASE}/search?q=${encodeURIComponent(searchQuery)}&type=track,album,artist,playlist&limit=${LIMIT}`,
         {
           headers: { Authorization: `Bearer ${token}` }
         }
@@ -165,7 +179,7 @@ export const SearchProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     try {
       const currentOffset = offsets[type];
       const res = await fetch(
-        `https://api.spotify.com/v1/search?q=${encodeURIComponent(query)}&type=${type.slice(0, -1)}&limit=${LIMIT}&offset=${currentOffset}`,
+        `${SPOTIFY_API_BASE}/search?q=${encodeURIComponent(query)}&type=${type.slice(0, -1)}&limit=${LIMIT}&offset=${currentOffset}`,
         {
           headers: { Authorization: `Bearer ${token}` }
         }
@@ -229,7 +243,7 @@ export const SearchProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         addRecentSearch(searchQuery);
 
         fetch(
-          `https://api.spotify.com/v1/search?q=${encodeURIComponent(searchQuery)}&type=track,album,artist,playlist&limit=${LIMIT}`,
+          `${SPOTIFY_API_BASE}/search?q=${encodeURIComponent(searchQuery)}&type=track,album,artist,playlist&limit=${LIMIT}`,
           { headers: { Authorization: `Bearer ${token}` } }
         )
           .then(res => {
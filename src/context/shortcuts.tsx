@@ -0,0 +1,230 @@
+/**
+ * Keyboard Shortcuts Context
+ * Central registry for global keyboard shortcuts (playback + navigation)
+ *
+ * One window-level keydown listener resolves key chords and two-step sequences
+ * ("g l") against the user's bindings. Shortcuts are ignored while a text field has
+ * focus so typing in search or dialogs is never hijacked. Bindings are persisted to
+ * localStorage and can be remapped from Settings via startRecording().
+ */
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePlayer } from './player';
+import ShortcutsHelp from '../components/ShortcutsHelp';
+import { ShortcutsContext } from '../hooks/useShortcuts';
+import {
+  SHORTCUT_DEFINITIONS,
+  SEQUENCE_TIMEOUT_MS,
+  FOCUS_SEARCH_EVENT,
+  eventToChord,
+  isEditableTarget,
+  getDefaultBindings,
+  loadBindings,
+  saveBindings,
+  type ShortcutAction,
+  type ShortcutBindings
+} from '../utils/keyboardShortcuts';
+
+const SEEK_STEP_MS = 5000;
+const VOLUME_STEP = 0.05;
+
+export const ShortcutsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const navigate = useNavigate();
+  const player = usePlayer();
+  const [bindings, setBindings] = useState<ShortcutBindings>(loadBindings);
+  const [recordingAction, setRecordingAction] = useState<ShortcutAction | null>(null);
+  const [helpOpen, setHelpOpen] = useState(false);
+
+  // First half of a sequence ("g" of "g l") and when it was pressed
+  const pendingRef = useRef<{ chord: string; at: number } | null>(null);
+  // Chords captured so far while remapping, finalised after SEQUENCE_TIMEOUT_MS
+  const recordedRef = useRef<string[]>([]);
+  const recordTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // The listener is registered once; it reads the latest player state through this ref
+  const playerRef = useRef(player);
+  playerRef.current = player;
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    saveBindings(bindings);
+  }, [bindings]);
+
+  const setBinding = useCallback((action: ShortcutAction, binding: string) => {
+    setBindings(prev => {
+      const next = { ...prev };
+      // A key combination can only trigger one action - unassign any previous owner
+      (Object.keys(next) as ShortcutAction[]).forEach(other => {
+        if (other !== action && binding && next[other] === binding) next[other] = '';
+      });
+      next[action] = binding;
+      return next;
+    });
+  }, []);
+
+  const resetBindings = useCallback(() => {
+    setBindings(getDefaultBindings());
+  }, []);
+
+  const cancelRecording = useCallback(() => {
+    if (recordTimerRef.current) clearTimeout(recordTimerRef.current);
+    recordTimerRef.current = null;
+    recordedRef.current = [];
+    setRecordingAction(null);
+  }, []);
+
+  const startRecording = useCallback((action: ShortcutAction) => {
+    cancelRecording();
+    setRecordingAction(action);
+  }, [cancelRecording]);
+
+  const runAction = useCallback((action: ShortcutAction) => {
+    const p = playerRef.current;
+    switch (action) {
+      case 'togglePlay':
+        p.togglePlay();
+        break;
+      case 'seekForward':
+        if (p.currentTrack) p.seek(Math.min(p.position + SEEK_STEP_MS, p.duration));
+        break;
+      case 'seekBackward':
+        if (p.currentTrack) p.seek(Math.max(p.position - SEEK_STEP_MS, 0));
+        break;
+      case 'volumeUp':
+        p.setVolume(Math.min(1, Math.round((p.volume + VOLUME_STEP) * 100) / 100));
+        break;
+      case 'volumeDown':
+        p.setVolume(Math.max(0, Math.round((p.volume - VOLUME_STEP) * 100) / 100));
+        break;
+      case 'nextTrack':
+        p.nextTrack();
+        break;
+      case 'previousTrack':
+        p.previousTrack();
+        break;
+      case 'toggleShuffle':
+        p.toggleShuffle();
+        break;
+      case 'cycleRepeat': {
+        const nextMode = p.repeatMode === 'off' ? 'context' : p.repeatMode === 'context' ? 'track' : 'off';
+        p.setRepeat(nextMode);
+        break;
+      }
+      case 'undo':
+        p.undoLastAction();
+        break;
+      case 'focusSearch':
+        window.dispatchEvent(new CustomEvent(FOCUS_SEARCH_EVENT));
+        break;
+      case 'goLibrary':
+        navigate('/library');
+        break;
+      case 'goHome':
+        navigate('/dashboard');
+        break;
+      case 'showHelp':
+        setHelpOpen(open => !open);
+        break;
+    }
+  }, [navigate]);
+
+  // Remapping: capture the next chord (plus an optional second one for sequences)
+  useEffect(() => {
+    if (!recordingAction) return;
+
+    const handleRecordKey = (e: KeyboardEvent) => {
+      const chord = eventToChord(e);
+      if (!chord) return;
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (chord === 'escape') {
+        cancelRecording();
+        return;
+      }
+
+      recordedRef.current.push(chord);
+      if (recordTimerRef.current) clearTimeout(recordTimerRef.current);
+
+      const finish = () => {
+        setBinding(recordingAction, recordedRef.current.join(' '));
+        cancelRecording();
+      };
+
+      if (recordedRef.current.length >= 2) {
+        finish();
+      } else {
+        recordTimerRef.current = setTimeout(finish, SEQUENCE_TIMEOUT_MS);
+      }
+    };
+
+    // Capture phase so the global handler below never sees keys meant for the recorder
+    window.addEventListener('keydown', handleRecordKey, true);
+    return () => window.removeEventListener('keydown', handleRecordKey, true);
+  }, [recordingAction, setBinding, cancelRecording]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isEditableTarget(e.target)) return;
+
+      const chord = eventToChord(e);
+      if (!chord) return;
+
+      // Let focused buttons keep their native space/enter activation
+      const target = e.target as HTMLElement | null;
+      if ((chord === 'space' || chord === 'enter') && target?.closest('button, [role="button"], [role="slider"]')) return;
+
+      const entries = Object.entries(bindingsRef.current) as [ShortcutAction, string][];
+      const pending = pendingRef.current;
+      pendingRef.current = null;
+
+      let candidate = chord;
+      if (pending && Date.now() - pending.at < SEQUENCE_TIMEOUT_MS) {
+        const sequence = `${pending.chord} ${chord}`;
+        if (entries.some(([, binding]) => binding === sequence)) candidate = sequence;
+      }
+
+      const match = entries.find(([, binding]) => binding === candidate);
+      if (match) {
+        const definition = SHORTCUT_DEFINITIONS.find(d => d.action === match[0]);
+        e.preventDefault();
+        if (e.repeat && !definition?.repeatable) return;
+        runAction(match[0]);
+        return;
+      }
+
+      // Start of a sequence - remember it and wait for the next key
+      if (entries.some(([, binding]) => binding.startsWith(`${chord} `))) {
+        pendingRef.current = { chord, at: Date.now() };
+        e.preventDefault();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [runAction]);
+
+  useEffect(() => () => {
+    if (recordTimerRef.current) clearTimeout(recordTimerRef.current);
+  }, []);
+
+  return (
+    <ShortcutsContext.Provider value={{
+      bindings,
+      recordingAction,
+      startRecording,
+      cancelRecording,
+      setBinding,
+      resetBindings,
+      helpOpen,
+      setHelpOpen
+    }}>
+      {children}
+      <ShortcutsHelp open={helpOpen} onClose={() => setHelpOpen(false)} bindings={bindings} />
+    </ShortcutsContext.Provider>
+  );
+};
+
+export default ShortcutsProvider;
@@ -1,16 +1,23 @@
 import React, { createContext, useContext, useState, useCallback } from 'react';
-import { Snackbar, Alert } from '@mui/material';
+import { Snackbar, Alert, Button } from '@mui/material';
 
-type ToastVariant = 'success' | 'info' | 'warning' | 'error';
+export type ToastVariant = 'success' | 'info' | 'warning' | 'error';
+
+/** Optional button shown in the toast, e.g. "Undo" */
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
 
 interface ToastItem {
   id: number;
   message: string;
   variant?: ToastVariant;
+  action?: ToastAction;
 }
 
 interface ToastContextType {
-  showToast: (message: string, variant?: ToastVariant) => void;
+  showToast: (message: string, variant?: ToastVariant, action?: ToastAction) => void;
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -24,9 +31,9 @@ export const useToast = () => {
 export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [toasts, setToasts] = useState<ToastItem[]>([]);
 
-  const showToast = useCallback((message: string, variant: ToastVariant = 'info') => {
+  const showToast = useCallback((message: string, variant: ToastVariant = 'info', action?: ToastAction) => {
     const id = Date.now();
-    setToasts((t) => [...t, { id, message, variant }]);
+    setToasts((t) => [...t, { id, message, variant, action }]);
   }, []);
 
   const handleClose = (id: number) => {
@@ -46,7 +53,23 @@ export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ childre
           onClose={() => handleClose(t.id)}
           anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
         >
-          <Alert onClose={() => handleClose(t.id)} severity={t.variant || 'info'} sx={{ width: '100%' }}>
+          <Alert
+            onClose={t.action ? undefined : () => handleClose(t.id)}
+            severity={t.variant || 'info'}
+            sx={{ width: '100%' }}
+            action={t.action && (
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => {
+                  t.action?.onClick();
+                  handleClose(t.id);
+                }}
+              >
+                {t.action.label}
+              </Button>
+            )}
+          >
             {t.message}
           </Alert>
         </Snackbar>
@@ -0,0 +1,256 @@
+/**
+ * Demo library
+ * The bundled dataset guest mode browses (served by services/demoApi). Same normalized shape
+ * as the mock server fixtures (server/fixtures/spotify.json): entities reference each other
+ * by id and are expanded into Web API objects on request.
+ *
+ * RULES:
+ * - Ids are 22 characters like Spotify's, prefixed "demo" so they never match real ones
+ * - Artist genres drive local analysis clusters and category pages - keep them real Spotify genres
+ * - recently_played lists minutes ago, so the history always looks current
+ */
+
+export interface DemoUser {
+  id: string;
+  display_name: string;
+  followers: number;
+}
+
+export interface DemoArtist {
+  id: string;
+  name: string;
+  genres: string[];
+  popularity: number;
+  followers: number;
+}
+
+export interface DemoAlbum {
+  id: string;
+  name: string;
+  artists: string[];
+  album_type: 'album' | 'single' | 'compilation';
+  release_date: string;
+  label: string;
+}
+
+export interface DemoTrack {
+  id: string;
+  name: string;
+  album: string;
+  artists: string[];
+  duration_ms: number;
+  popularity: number;
+  explicit: boolean;
+}
+
+export interface DemoPlaylist {
+  id: string;
+  name: string;
+  description: string;
+  owner: string;
+  public: boolean;
+  tracks: string[];
+}
+
+export interface DemoCategory {
+  id: string;
+  name: string;
+  playlists: string[];
+}
+
+export interface DemoLibrary {
+  me: DemoUser & { email: string; country: string; product: string };
+  users: DemoUser[];
+  artists: DemoArtist[];
+  albums: DemoAlbum[];
+  tracks: DemoTrack[];
+  playlists: DemoPlaylist[];
+  categories: DemoCategory[];
+  featured_playlists: string[];
+  library: {
+    saved_tracks: string[];
+    saved_albums: string[];
+    followed_artists: string[];
+    /** Playlists by other users that the demo listener follows */
+    followed_playlists: string[];
+    top_tracks: string[];
+    top_artists: string[];
+    recently_played: { track: string; minutes_ago: number }[];
+  };
+}
+
+export const DEMO_LIBRARY: DemoLibrary = {
+  me: {
+    id: 'demolistener',
+    display_name: 'Demo Listener',
+    email: 'demo@flowbeats.app',
+    country: 'US',
+    product: 'premium',
+    followers: 24
+  },
+  users: [
+    { id: 'flowbeats-editors', display_name: 'FlowBeats Editors', followers: 48210 },
+    { id: 'sam.okafor', display_name: 'Sam Okafor', followers: 312 }
+  ],
+  artists: [
+    { id: 'demoartist000000000001', name: 'Neon Harbor', genres: ['synthwave', 'electronic'], popularity: 72, followers: 184000 },
+    { id: 'demoartist000000000002', name: 'Marigold Static', genres: ['indie rock', 'alternative'], popularity: 65, followers: 92000 },
+    { id: 'demoartist000000000003', name: 'Lumen & Vale', genres: ['indie folk', 'folk'], popularity: 58, followers: 41000 },
+    { id: 'demoartist000000000004', name: 'DJ Kestrel', genres: ['house', 'edm'], popularity: 77, followers: 263000 },
+    { id: 'demoartist000000000005', name: 'Ana Ribeiro', genres: ['bossa nova', 'jazz'], popularity: 61, followers: 57000 },
+    { id: 'demoartist000000000006', name: 'Quiet Engines', genres: ['ambient', 'lo-fi'], popularity: 54, followers: 23000 },
+    { id: 'demoartist000000000007', name: 'Juno Park', genres: ['indie pop', 'electropop'], popularity: 81, followers: 512000 },
+    { id: 'demoartist000000000008', name: 'Verse Theory', genres: ['rap', 'hip hop'], popularity: 74, followers: 198000 },
+    { id: 'demoartist000000000009', name: 'The Copper Pines', genres: ['country', 'americana'], popularity: 63, followers: 76000 },
+    { id: 'demoartist000000000010', name: 'Solenne', genres: ['soul', 'r&b'], popularity: 69, followers: 134000 }
+  ],
+  albums: [
+    { id: 'demoalbum0000000000001', name: 'Night Transit', artists: ['demoartist000000000001'], album_type: 'album', release_date: '2023-04-14', label: 'Harbor Lights' },
+    { id: 'demoalbum0000000000002', name: 'Paper Satellites', artists: ['demoartist000000000002'], album_type: 'album', release_date: '2022-09-30', label: 'Static Tapes' },
+    { id: 'demoalbum0000000000003', name: 'Field Notes', artists: ['demoartist000000000003'], album_type: 'album', release_date: '2021-06-11', label: 'Woodgrain' },
+    { id: 'demoalbum0000000000004', name: 'Warehouse Hours', artists: ['demoartist000000000004'], album_type: 'album', release_date: '2024-02-02', label: 'Kestrel Audio' },
+    { id: 'demoalbum0000000000005', name: 'Maré Alta', artists: ['demoartist000000000005'], album_type: 'album', release_date: '2020-11-20', label: 'Selo Azul' },
+    { id: 'demoalbum0000000000006', name: 'Low Power Mode', artists: ['demoartist000000000006'], album_type: 'single', release_date: '2024-08-09', label: 'Idle Records' },
+    { id: 'demoalbum0000000000007', name: 'Glasshouse', artists: ['demoartist000000000007'], album_type: 'album', release_date: '2024-05-17', label: 'Prism Pop' },
+    { id: 'demoalbum0000000000008', name: 'Margins', artists: ['demoartist000000000008'], album_type: 'album', release_date: '2023-10-06', label: 'Footnote Music' },
+    { id: 'demoalbum0000000000009', name: 'Dirt Roads & Radio', artists: ['demoartist000000000009'], album_type: 'album', release_date: '2022-03-25', label: 'Pine Box' },
+    { id: 'demoalbum0000000000010', name: 'Velvet Hours', artists: ['demoartist000000000010'], album_type: 'album', release_date: '2023-02-10', label: 'Slow Burn' },
+    { id: 'demoalbum0000000000011', name: 'Afterglow (Remixes)', artists: ['demoartist000000000001', 'demoartist000000000004'], album_type: 'single', release_date: '2024-09-20', label: 'Kestrel Audio' },
+    { id: 'demoalbum0000000000012', name: 'Sunday Sessions', artists: ['demoartist000000000005', 'demoartist000000000010'], album_type: 'compilation', release_date: '2021-12-03', label: 'Selo Azul' }
+  ],
+  tracks: [
+    { id: 'demotrack0000000000001', name: 'Coastline at 2AM', album: 'demoalbum0000000000001', artists: ['demoartist000000000001'], duration_ms: 214000, popularity: 70, explicit: false },
+    { id: 'demotrack0000000000002', name: 'Headlights', album: 'demoalbum0000000000001', artists: ['demoartist000000000001'], duration_ms: 198500, popularity: 66, explicit: false },
+    { id: 'demotrack0000000000003', name: 'Last Train Home', album: 'demoalbum0000000000001', artists: ['demoartist000000000001'], duration_ms: 243000, popularity: 61, explicit: false },
+    { id: 'demotrack0000000000004', name: 'Neon Rain', album: 'demoalbum0000000000001', artists: ['demoartist000000000001'], duration_ms: 227000, popularity: 64, explicit: false },
+    { id: 'demotrack0000000000005', name: 'Orbiting', album: 'demoalbum0000000000002', artists: ['demoartist000000000002'], duration_ms: 187000, popularity: 63, explicit: true },
+    { id: 'demotrack0000000000006', name: 'Fold Here', album: 'demoalbum0000000000002', artists: ['demoartist000000000002'], duration_ms: 205000, popularity: 59, explicit: false },
+    { id: 'demotrack0000000000007', name: 'Static Bloom', album: 'demoalbum0000000000002', artists: ['demoartist000000000002'], duration_ms: 229000, popularity: 57, explicit: false },
+    { id: 'demotrack0000000000008', name: 'Kettle Song', album: 'demoalbum0000000000003', artists: ['demoartist000000000003'], duration_ms: 176000, popularity: 55, explicit: false },
+    { id: 'demotrack0000000000009', name: 'Hollow Oak', album: 'demoalbum0000000000003', artists: ['demoartist000000000003'], duration_ms: 251000, popularity: 52, explicit: false },
+    { id: 'demotrack0000000000010', name: 'River Letters', album: 'demoalbum0000000000003', artists: ['demoartist000000000003'], duration_ms: 232000, popularity: 58, explicit: false },
+    { id: 'demotrack0000000000011', name: 'Four on the Floor', album: 'demoalbum0000000000004', artists: ['demoartist000000000004'], duration_ms: 312000, popularity: 75, explicit: false },
+    { id: 'demotrack0000000000012', name: 'Strobe Theory', album: 'demoalbum0000000000004', artists: ['demoartist000000000004'], duration_ms: 288000, popularity: 71, explicit: false },
+    { id: 'demotrack0000000000013', name: 'Loading Dock', album: 'demoalbum0000000000004', artists: ['demoartist000000000004'], duration_ms: 301000, popularity: 68, explicit: false },
+    { id: 'demotrack0000000000014', name: 'Sunrise Set', album: 'demoalbum0000000000004', artists: ['demoartist000000000004'], duration_ms: 356000, popularity: 66, explicit: false },
+    { id: 'demotrack0000000000015', name: 'Maré Alta', album: 'demoalbum0000000000005', artists: ['demoartist000000000005'], duration_ms: 194000, popularity: 60, explicit: false },
+    { id: 'demotrack0000000000016', name: 'Café Lento', album: 'demoalbum0000000000005', artists: ['demoartist000000000005'], duration_ms: 208000, popularity: 57, explicit: false },
+    { id: 'demotrack0000000000017', name: 'Janela', album: 'demoalbum0000000000005', artists: ['demoartist000000000005'], duration_ms: 185000, popularity: 54, explicit: false },
+    { id: 'demotrack0000000000018', name: 'Idle Loop', album: 'demoalbum0000000000006', artists: ['demoartist000000000006'], duration_ms: 164000, popularity: 50, explicit: false },
+    { id: 'demotrack0000000000019', name: 'Battery Saver', album: 'demoalbum0000000000006', artists: ['demoartist000000000006'], duration_ms: 172000, popularity: 48, explicit: false },
+    { id: 'demotrack0000000000020', name: 'Glasshouse', album: 'demoalbum0000000000007', artists: ['demoartist000000000007'], duration_ms: 201000, popularity: 82, explicit: false },
+    { id: 'demotrack0000000000021', name: 'Cherry Soda', album: 'demoalbum0000000000007', artists: ['demoartist000000000007'], duration_ms: 183000, popularity: 79, explicit: false },
+    { id: 'demotrack0000000000022', name: 'Small Talk', album: 'demoalbum0000000000007', artists: ['demoartist000000000007'], duration_ms: 196000, popularity: 74, explicit: false },
+    { id: 'demotrack0000000000023', name: 'Polaroid Summer', album: 'demoalbum0000000000007', artists: ['demoartist000000000007', 'demoartist000000000008'], duration_ms: 209000, popularity: 77, explicit: true },
+    { id: 'demotrack0000000000024', name: 'Footnotes', album: 'demoalbum0000000000008', artists: ['demoartist000000000008'], duration_ms: 221000, popularity: 73, explicit: true },
+    { id: 'demotrack0000000000025', name: 'Blue Ink', album: 'demoalbum0000000000008', artists: ['demoartist000000000008'], duration_ms: 204000, popularity: 70, explicit: true },
+    { id: 'demotrack0000000000026', name: 'Margins', album: 'demoalbum0000000000008', artists: ['demoartist000000000008', 'demoartist000000000010'], duration_ms: 238000, popularity: 72, explicit: false },
+    { id: 'demotrack0000000000027', name: 'Gravel & Gold', album: 'demoalbum0000000000009', artists: ['demoartist000000000009'], duration_ms: 215000, popularity: 62, explicit: false },
+    { id: 'demotrack0000000000028', name: 'AM Radio', album: 'demoalbum0000000000009', artists: ['demoartist000000000009'], duration_ms: 199000, popularity: 60, explicit: false },
+    { id: 'demotrack0000000000029', name: 'County Line', album: 'demoalbum0000000000009', artists: ['demoartist000000000009'], duration_ms: 226000, popularity: 58, explicit: false },
+    { id: 'demotrack0000000000030', name: 'Velvet Hours', album: 'demoalbum0000000000010', artists: ['demoartist000000000010'], duration_ms: 244000, popularity: 68, explicit: false },
+    { id: 'demotrack0000000000031', name: 'Slow Burn', album: 'demoalbum0000000000010', artists: ['demoartist000000000010'], duration_ms: 231000, popularity: 65, explicit: false },
+    { id: 'demotrack0000000000032', name: 'Honey & Smoke', album: 'demoalbum0000000000010', artists: ['demoartist000000000010'], duration_ms: 218000, popularity: 63, explicit: false },
+    { id: 'demotrack0000000000033', name: 'Afterglow (Kestrel Remix)', album: 'demoalbum0000000000011', artists: ['demoartist000000000001', 'demoartist000000000004'], duration_ms: 334000, popularity: 69, explicit: false },
+    { id: 'demotrack0000000000034', name: 'Afterglow (Extended)', album: 'demoalbum0000000000011', artists: ['demoartist000000000001', 'demoartist000000000004'], duration_ms: 402000, popularity: 60, explicit: false },
+    { id: 'demotrack0000000000035', name: 'Domingo', album: 'demoalbum0000000000012', artists: ['demoartist000000000005', 'demoartist000000000010'], duration_ms: 226000, popularity: 59, explicit: false },
+    { id: 'demotrack0000000000036', name: 'Late Brunch', album: 'demoalbum0000000000012', artists: ['demoartist000000000010'], duration_ms: 197000, popularity: 56, explicit: false }
+  ],
+  playlists: [
+    {
+      id: 'demoplaylist0000000001',
+      name: 'Late Night Drive',
+      description: 'Synths and city lights',
+      owner: 'demolistener',
+      public: true,
+      tracks: ['demotrack0000000000001', 'demotrack0000000000002', 'demotrack0000000000004', 'demotrack0000000000033', 'demotrack0000000000012', 'demotrack0000000000020', 'demotrack0000000000007', 'demotrack0000000000018', 'demotrack0000000000003']
+    },
+    {
+      id: 'demoplaylist0000000002',
+      name: 'Focus Flow',
+      description: 'Low-key music for deep work',
+      owner: 'demolistener',
+      public: false,
+      tracks: ['demotrack0000000000018', 'demotrack0000000000019', 'demotrack0000000000009', 'demotrack0000000000016', 'demotrack0000000000010', 'demotrack0000000000017', 'demotrack0000000000008']
+    },
+    {
+      id: 'demoplaylist0000000003',
+      name: 'Kitchen Disco',
+      description: 'Cooking, but make it a party',
+      owner: 'demolistener',
+      public: true,
+      tracks: ['demotrack0000000000011', 'demotrack0000000000021', 'demotrack0000000000023', 'demotrack0000000000013', 'demotrack0000000000020', 'demotrack0000000000014', 'demotrack0000000000022', 'demotrack0000000000034']
+    },
+    {
+      id: 'demoplaylist0000000004',
+      name: 'Road Trip Singalongs',
+      description: '',
+      owner: 'demolistener',
+      public: false,
+      tracks: ['demotrack0000000000027', 'demotrack0000000000028', 'demotrack0000000000029', 'demotrack0000000000005', 'demotrack0000000000021', 'demotrack0000000000006']
+    },
+    {
+      id: 'demoplaylist0000000005',
+      name: 'Fresh Finds',
+      description: 'New music from artists on the rise',
+      owner: 'flowbeats-editors',
+      public: true,
+      tracks: ['demotrack0000000000020', 'demotrack0000000000024', 'demotrack0000000000011', 'demotrack0000000000018', 'demotrack0000000000033', 'demotrack0000000000030', 'demotrack0000000000027', 'demotrack0000000000015']
+    },
+    {
+      id: 'demoplaylist0000000006',
+      name: 'Sunday Slow Jams',
+      description: 'Soul, bossa and coffee',
+      owner: 'flowbeats-editors',
+      public: true,
+      tracks: ['demotrack0000000000030', 'demotrack0000000000031', 'demotrack0000000000035', 'demotrack0000000000015', 'demotrack0000000000032', 'demotrack0000000000036', 'demotrack0000000000016']
+    },
+    {
+      id: 'demoplaylist0000000007',
+      name: 'Verses & Vinyl',
+      description: 'Sam\'s hip hop crate',
+      owner: 'sam.okafor',
+      public: true,
+      tracks: ['demotrack0000000000024', 'demotrack0000000000025', 'demotrack0000000000026', 'demotrack0000000000023', 'demotrack0000000000031']
+    }
+  ],
+  categories: [
+    { id: 'focus', name: 'Focus', playlists: ['demoplaylist0000000002', 'demoplaylist0000000006'] },
+    { id: 'party', name: 'Party', playlists: ['demoplaylist0000000003', 'demoplaylist0000000005'] },
+    { id: 'chill', name: 'Chill', playlists: ['demoplaylist0000000006', 'demoplaylist0000000001'] },
+    { id: 'hiphop', name: 'Hip-Hop', playlists: ['demoplaylist0000000007'] }
+  ],
+  featured_playlists: ['demoplaylist0000000005', 'demoplaylist0000000006', 'demoplaylist0000000007'],
+  library: {
+    saved_tracks: [
+      'demotrack0000000000020', 'demotrack0000000000001', 'demotrack0000000000024', 'demotrack0000000000030',
+      'demotrack0000000000011', 'demotrack0000000000008', 'demotrack0000000000015', 'demotrack0000000000021',
+      'demotrack0000000000027', 'demotrack0000000000018', 'demotrack0000000000005', 'demotrack0000000000033',
+      'demotrack0000000000026', 'demotrack0000000000010', 'demotrack0000000000035', 'demotrack0000000000012'
+    ],
+    saved_albums: ['demoalbum0000000000007', 'demoalbum0000000000001', 'demoalbum0000000000005', 'demoalbum0000000000008', 'demoalbum0000000000010'],
+    followed_artists: ['demoartist000000000007', 'demoartist000000000001', 'demoartist000000000003', 'demoartist000000000008', 'demoartist000000000010', 'demoartist000000000006'],
+    followed_playlists: ['demoplaylist0000000005', 'demoplaylist0000000007'],
+    top_tracks: [
+      'demotrack0000000000020', 'demotrack0000000000001', 'demotrack0000000000011', 'demotrack0000000000024', 'demotrack0000000000021',
+      'demotrack0000000000030', 'demotrack0000000000002', 'demotrack0000000000033', 'demotrack0000000000008', 'demotrack0000000000023'
+    ],
+    top_artists: ['demoartist000000000007', 'demoartist000000000001', 'demoartist000000000004', 'demoartist000000000008', 'demoartist000000000010', 'demoartist000000000003'],
+    recently_played: [
+      { track: 'demotrack0000000000021', minutes_ago: 4 },
+      { track: 'demotrack0000000000020', minutes_ago: 8 },
+      { track: 'demotrack0000000000024', minutes_ago: 26 },
+      { track: 'demotrack0000000000025', minutes_ago: 30 },
+      { track: 'demotrack0000000000001', minutes_ago: 95 },
+      { track: 'demotrack0000000000002', minutes_ago: 99 },
+      { track: 'demotrack0000000000004', minutes_ago: 103 },
+      { track: 'demotrack0000000000030', minutes_ago: 240 },
+      { track: 'demotrack0000000000035', minutes_ago: 244 },
+      { track: 'demotrack0000000000011', minutes_ago: 1380 },
+      { track: 'demotrack0000000000012', minutes_ago: 1386 },
+      { track: 'demotrack0000000000008', minutes_ago: 1510 },
+      { track: 'demotrack0000000000018', minutes_ago: 2900 },
+      { track: 'demotrack0000000000027', minutes_ago: 4300 }
+    ]
+  }
+};
@@ -0,0 +1,95 @@
+/**
+ * React Hook for A-B looping within the current track
+ * Jumps back to A whenever playback reaches B, for practicing and transcribing
+ *
+ * The jump is scheduled for the exact moment B is due (from the interpolated position)
+ * rather than waiting for the 1s position tick to pass it. Loop seeks are left out of
+ * the undo history. Without an A marker the loop starts at 0:00. Markers belong to
+ * the track they were set on and are dropped when the track changes.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { usePlayer } from '../context/player';
+
+interface LoopMarkers {
+  trackId: string;
+  a: number | null;
+  b: number | null;
+}
+
+export interface UseABLoopReturn {
+  /** Loop start (ms), or null when unset */
+  a: number | null;
+  /** Loop end (ms), or null when unset */
+  b: number | null;
+  /** Whether playback is currently being looped (B is set) */
+  isActive: boolean;
+  setA: () => void;
+  setB: () => void;
+  clear: () => void;
+}
+
+/** Shortest loop allowed - anything tighter would seek continuously */
+export const MIN_LOOP_LENGTH_MS = 1000;
+
+/** Ignore B while a jump back to A is still settling */
+const JUMP_SETTLE_MS = 500;
+
+export function useABLoop(): UseABLoopReturn {
+  const { currentTrack, isPlaying, position, seek } = usePlayer();
+  const [markers, setMarkers] = useState<LoopMarkers | null>(null);
+  const lastJumpRef = useRef(0);
+  // seek is a new function on every player render; rescheduling the jump for that would push it back
+  const seekRef = useRef(seek);
+  seekRef.current = seek;
+
+  const trackId = currentTrack?.id || null;
+  const current = markers && markers.trackId === trackId ? markers : null;
+  const a = current?.a ?? null;
+  const b = current?.b ?? null;
+  const loopStart = a ?? 0;
+
+  // Drop the markers once another track starts
+  useEffect(() => {
+    setMarkers(prev => (prev && prev.trackId !== trackId ? null : prev));
+  }, [trackId]);
+
+  // Setting a marker on the wrong side of the other one replaces the other one
+  const setA = useCallback(() => {
+    if (!trackId) return;
+    setMarkers(prev => {
+      const end = prev?.trackId === trackId ? prev.b : null;
+      return { trackId, a: position, b: end !== null && end - position >= MIN_LOOP_LENGTH_MS ? end : null };
+    });
+  }, [trackId, position]);
+
+  const setB = useCallback(() => {
+    if (!trackId) return;
+    setMarkers(prev => {
+      const start = prev?.trackId === trackId ? prev.a : null;
+      if (position - (start ?? 0) < MIN_LOOP_LENGTH_MS) return { trackId, a: null, b: position >= MIN_LOOP_LENGTH_MS ? position : null };
+      return { trackId, a: start, b: position };
+    });
+  }, [trackId, position]);
+
+  const clear = useCallback(() => setMarkers(null), []);
+
+  useEffect(() => {
+    if (b === null || !isPlaying) return;
+
+    const jump = () => {
+      if (Date.now() - lastJumpRef.current < JUMP_SETTLE_MS) return;
+      lastJumpRef.current = Date.now();
+      seekRef.current(loopStart, { undoable: false });
+    };
+
+    if (position >= b) {
+      jump();
+      return;
+    }
+    const timeout = setTimeout(jump, b - position);
+    return () => clearTimeout(timeout);
+  }, [b, loopStart, isPlaying, position]);
+
+  return { a, b, isActive: b !== null, setA, setB, clear };
+}
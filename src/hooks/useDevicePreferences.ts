@@ -0,0 +1,27 @@
+/**
+ * React Hook for the stored device preferences
+ * Re-reads on DEVICE_PREFERENCES_UPDATED_EVENT and when another tab changes them
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  devicePreferencesService,
+  DEVICE_PREFERENCES_UPDATED_EVENT,
+  type DevicePreferences
+} from '../services/devicePreferencesService';
+
+export function useDevicePreferences(): DevicePreferences {
+  const [prefs, setPrefs] = useState<DevicePreferences>(() => devicePreferencesService.get());
+
+  useEffect(() => {
+    const reload = () => setPrefs(devicePreferencesService.get());
+    window.addEventListener(DEVICE_PREFERENCES_UPDATED_EVENT, reload);
+    window.addEventListener('storage', reload);
+    return () => {
+      window.removeEventListener(DEVICE_PREFERENCES_UPDATED_EVENT, reload);
+      window.removeEventListener('storage', reload);
+    };
+  }, []);
+
+  return prefs;
+}
@@ -0,0 +1,173 @@
+/**
+ * React Hook that records plays into the listening history
+ * Watches the player state (fed by both SDK events and fetchPlaybackState polling)
+ * and logs one entry per track change with start time, listened time, skip flag
+ * and the context it was played from
+ *
+ * Completed listens are also passed on to the recommendation engine for its
+ * time-of-day learning.
+ */
+
+import { useEffect, useRef } from 'react';
+import type { Track } from '../types/spotify';
+import { listeningHistoryService, createHistoryEntry, type ListeningHistoryEntry } from '../services/listeningHistoryService';
+import { recommendationEngine } from '../services/recommendationEngine';
+import { userKey } from '../utils/userScope';
+import { secureStorage } from '../services/secureStorage';
+
+interface UseListeningHistoryRecorderOptions {
+  track: Track | null;
+  isPlaying: boolean;
+  /** Playback position in ms */
+  position: number;
+  contextUri: string | null;
+  /** Recording is switched off for guests */
+  enabled: boolean;
+}
+
+interface ActivePlay {
+  track: Track;
+  startedAt: number;
+  contextUri: string | null;
+  /** Listened time banked from earlier play stretches */
+  listenedMs: number;
+  /** Start of the current uninterrupted play stretch, null while paused */
+  playingSince: number | null;
+  /** Furthest position seen, used to tell a skip from a natural end */
+  lastPosition: number;
+}
+
+/** Plays shorter than this are noise (rapid skipping through a list) and aren't logged */
+const MIN_LISTEN_MS = 1000;
+
+/** Leaving a track more than this far from its end counts as a skip */
+const SKIP_THRESHOLD_MS = 10000;
+
+/** Same threshold Spotify uses for counting a stream */
+const ENGINE_MIN_LISTEN_MS = 30000;
+
+/** In-progress play saved on page hide, flushed into IndexedDB on the next load */
+const PENDING_PLAY_KEY = 'spotify_history_pending';
+
+const finishPlay = (play: ActivePlay, now: number): ListeningHistoryEntry | null => {
+  const listenedMs = Math.min(
+    play.listenedMs + (play.playingSince !== null ? now - play.playingSince : 0),
+    play.track.duration_ms || Infinity
+  );
+  if (listenedMs < MIN_LISTEN_MS) return null;
+
+  const skipped = play.track.duration_ms > 0 && play.track.duration_ms - play.lastPosition > SKIP_THRESHOLD_MS;
+  return createHistoryEntry(play.track, {
+    startedAt: play.startedAt,
+    listenedMs: Math.round(listenedMs),
+    skipped,
+    contextUri: play.contextUri
+  });
+};
+
+const saveEntry = (entry: ListeningHistoryEntry) => {
+  listeningHistoryService.addEntry(entry).catch(err => console.error('Listening history save error', err));
+
+  if (!entry.skipped || entry.listenedMs >= ENGINE_MIN_LISTEN_MS) {
+    const features = recommendationEngine.getCachedFeatures(entry.trackId) || undefined;
+    recommendationEngine.recordListeningActivity(entry.trackId, features, entry.startedAt);
+  }
+};
+
+export function useListeningHistoryRecorder({
+  track,
+  isPlaying,
+  position,
+  contextUri,
+  enabled
+}: UseListeningHistoryRecorderOptions): void {
+  const activeRef = useRef<ActivePlay | null>(null);
+  // The track-change effect takes these as they are at the moment the track changes
+  const latestRef = useRef({ track, isPlaying, position, contextUri, enabled });
+  latestRef.current = { track, isPlaying, position, contextUri, enabled };
+
+  // Recover a play that was still running when the page was last closed. Only a tab that
+  // records (not a guest, not a follower tab) writes it - it stays put until one does.
+  useEffect(() => {
+    if (!enabled) return;
+    try {
+      const pending = secureStorage.getItem(userKey(PENDING_PLAY_KEY));
+      if (pending) {
+        secureStorage.removeItem(userKey(PENDING_PLAY_KEY));
+        saveEntry(JSON.parse(pending));
+      }
+    } catch (err) {
+      console.error('Listening history recovery error', err);
+    }
+  }, [enabled]);
+
+  // Track changes close the previous play and open a new one
+  useEffect(() => {
+    const { track, isPlaying, position, contextUri, enabled } = latestRef.current;
+    const now = Date.now();
+    const previous = activeRef.current;
+
+    if (previous && previous.track.uri !== track?.uri) {
+      const entry = finishPlay(previous, now);
+      if (entry && enabled) saveEntry(entry);
+      activeRef.current = null;
+    }
+
+    if (track && !activeRef.current) {
+      activeRef.current = {
+        track,
+        startedAt: now,
+        contextUri,
+        listenedMs: 0,
+        playingSince: isPlaying ? now : null,
+        lastPosition: position
+      };
+    }
+  }, [track?.uri]);
+
+  // Play/pause - bank the stretch that just ended
+  useEffect(() => {
+    const play = activeRef.current;
+    if (!play) return;
+    const now = Date.now();
+    if (isPlaying && play.playingSince === null) {
+      play.playingSince = now;
+    } else if (!isPlaying && play.playingSince !== null) {
+      play.listenedMs += now - play.playingSince;
+      play.playingSince = null;
+    }
+  }, [isPlaying]);
+
+  // Must run after the track-change effect so a new track doesn't inherit the old position
+  useEffect(() => {
+    const play = activeRef.current;
+    if (play && play.track.uri === track?.uri) {
+      play.lastPosition = Math.max(play.lastPosition, position);
+    }
+  }, [position, track?.uri]);
+
+  // Context can arrive a poll after the track itself
+  useEffect(() => {
+    if (activeRef.current && !activeRef.current.contextUri && contextUri) {
+      activeRef.current.contextUri = contextUri;
+    }
+  }, [contextUri]);
+
+  useEffect(() => {
+    const handlePageHide = () => {
+      const play = activeRef.current;
+      if (!play || !enabled) return;
+      const entry = finishPlay(play, Date.now());
+      if (!entry) return;
+      try {
+        secureStorage.setItem(userKey(PENDING_PLAY_KEY), JSON.stringify(entry));
+      } catch (err) {
+        console.error('Listening history pending save error', err);
+      }
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [enabled]);
+}
+
+export default useListeningHistoryRecorder;
@@ -12,6 +12,8 @@ import {
   type LocalDiscovery
 } from '../services/localAnalysisService';
 import type { Track } from '../types/spotify';
+import { userKey } from '../utils/userScope';
+import { secureStorage } from '../services/secureStorage';
 
 export interface UseLocalAnalysisReturn {
   // Data
@@ -47,38 +49,31 @@ export const useLocalAnalysis = (): UseLocalAnalysisReturn => {
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
 
-  // Initialize service with token
-  useEffect(() => {
-    if (token) {
-      localAnalysisService.setToken(token);
-    }
-  }, [token]);
-
   /**
    * Load cached analysis if available
    */
   const loadCachedAnalysis = useCallback((): LocalAnalysisResult | null => {
     try {
-      const cached = localStorage.getItem(ANALYSIS_CACHE_KEY);
+      const cached = secureStorage.getItem(userKey(ANALYSIS_CACHE_KEY));
       if (!cached) return null;
 
       const cachedData: CachedAnalysis = JSON.parse(cached);
       
       // Check user ID
       if (user?.id && cachedData.userId && cachedData.userId !== user.id) {
-        localStorage.removeItem(ANALYSIS_CACHE_KEY);
+        secureStorage.removeItem(userKey(ANALYSIS_CACHE_KEY));
         return null;
       }
       
       // Check TTL
       if (Date.now() - cachedData.timestamp > CACHE_DURATION) {
-        localStorage.removeItem(ANALYSIS_CACHE_KEY);
+        secureStorage.removeItem(userKey(ANALYSIS_CACHE_KEY));
         return null;
       }
 
       return cachedData.analysis;
     } catch {
-      localStorage.removeItem(ANALYSIS_CACHE_KEY);
+      secureStorage.removeItem(userKey(ANALYSIS_CACHE_KEY));
       return null;
     }
   }, [user]);
@@ -107,14 +102,14 @@ export const useLocalAnalysis = (): UseLocalAnalysisReturn => {
         timestamp: Date.now(),
         userId: user?.id
       };
-      localStorage.setItem(ANALYSIS_CACHE_KEY, JSON.stringify(cachedData));
+      secureStorage.setItem(userKey(ANALYSIS_CACHE_KEY), JSON.stringify(cachedData));
     } catch (err) {
       console.warn('Failed to cache analysis (storage quota):', err);
       // Clear old caches to free space
       try {
-        localStorage.removeItem(ANALYSIS_CACHE_KEY);
-        localStorage.removeItem('local-analysis-cache');
-        localStorage.removeItem('local-analysis-tracks');
+        secureStorage.removeItem(userKey(ANALYSIS_CACHE_KEY));
+        secureStorage.removeItem(userKey('local-analysis-cache'));
+        secureStorage.removeItem(userKey('local-analysis-tracks'));
       } catch (e) {
         // Ignore
       }
@@ -138,7 +133,7 @@ export const useLocalAnalysis = (): UseLocalAnalysisReturn => {
     } else {
       // Clear local storage cache when forcing refresh
       console.log('🔄 Clearing analysis cache for refresh...');
-      localStorage.removeItem(ANALYSIS_CACHE_KEY);
+      secureStorage.removeItem(userKey(ANALYSIS_CACHE_KEY));
     }
 
     setIsAnalyzing(true);
@@ -189,7 +184,7 @@ export const useLocalAnalysis = (): UseLocalAnalysisReturn => {
     setError(null);
     setProgress(0);
     localAnalysisService.clearCache();
-    localStorage.removeItem(ANALYSIS_CACHE_KEY);
+    secureStorage.removeItem(userKey(ANALYSIS_CACHE_KEY));
   }, []);
 
   /**
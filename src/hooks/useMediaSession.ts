@@ -0,0 +1,151 @@
+/**
+ * React Hook for the Media Session API
+ * Publishes now-playing metadata to the OS so hardware media keys, headset buttons
+ * and lock-screen / notification widgets can see and control the web player
+ */
+
+import { useEffect, useRef } from 'react';
+import type { Track, Image } from '../types/spotify';
+
+export interface MediaSessionControls {
+  play: () => void | Promise<void>;
+  pause: () => void | Promise<void>;
+  nextTrack: () => void | Promise<void>;
+  previousTrack: () => void | Promise<void>;
+  seek: (positionMs: number) => void | Promise<void>;
+}
+
+interface UseMediaSessionOptions extends MediaSessionControls {
+  track: Track | null;
+  isPlaying: boolean;
+  /** Playback position in ms */
+  position: number;
+  /** Track duration in ms */
+  duration: number;
+}
+
+/** Default jump for seekforward/seekbackward when the OS doesn't specify one */
+const DEFAULT_SEEK_OFFSET_MS = 10000;
+
+const isSupported = () => typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+
+/**
+ * Map Spotify album images to MediaImage entries.
+ * Spotify usually returns 640/300/64px variants; OS widgets pick the best fit.
+ */
+const toArtwork = (images: Image[] = []): MediaImage[] =>
+  images
+    .filter(img => !!img.url)
+    .map(img => ({
+      src: img.url,
+      ...(img.width && img.height ? { sizes: `${img.width}x${img.height}` } : {}),
+      type: 'image/jpeg'
+    }));
+
+export function useMediaSession({
+  track,
+  isPlaying,
+  position,
+  duration,
+  ...controls
+}: UseMediaSessionOptions): void {
+  // Handlers are registered once and call through this ref so they never go stale
+  const controlsRef = useRef<MediaSessionControls>(controls);
+  controlsRef.current = controls;
+  const positionRef = useRef(position);
+  positionRef.current = position;
+  const durationRef = useRef(duration);
+  durationRef.current = duration;
+  // currentTrack is a new object on every player state update; metadata reads it through this ref
+  const trackRef = useRef(track);
+  trackRef.current = track;
+  const hasTrack = !!track;
+
+  // Metadata - only when the track itself changes
+  useEffect(() => {
+    if (!isSupported()) return;
+    const track = trackRef.current;
+    if (!track) {
+      navigator.mediaSession.metadata = null;
+      return;
+    }
+    try {
+      navigator.mediaSession.metadata = new MediaMetadata({
+        title: track.name,
+        artist: track.artists?.map(a => a.name).join(', ') || '',
+        album: track.album?.name || '',
+        artwork: toArtwork(track.album?.images)
+      });
+    } catch (err) {
+      console.error('Media session metadata error', err);
+    }
+  }, [track?.id, track?.uri]);
+
+  useEffect(() => {
+    if (!isSupported()) return;
+    navigator.mediaSession.playbackState = hasTrack ? (isPlaying ? 'playing' : 'paused') : 'none';
+  }, [isPlaying, hasTrack]);
+
+  // Position state lets the OS draw a progress bar and extrapolate between our updates
+  useEffect(() => {
+    if (!isSupported() || !navigator.mediaSession.setPositionState) return;
+    try {
+      if (!hasTrack || duration <= 0) {
+        navigator.mediaSession.setPositionState();
+        return;
+      }
+      navigator.mediaSession.setPositionState({
+        duration: duration / 1000,
+        position: Math.min(Math.max(position, 0), duration) / 1000,
+        playbackRate: 1
+      });
+    } catch (err) {
+      // Throws on out-of-range values; a stale tick isn't worth surfacing
+      console.warn('Media session position error', err);
+    }
+  }, [position, duration, hasTrack]);
+
+  // Action handlers
+  useEffect(() => {
+    if (!isSupported()) return;
+
+    const seekBy = (offsetMs: number) => {
+      const target = Math.min(Math.max(positionRef.current + offsetMs, 0), durationRef.current || Infinity);
+      controlsRef.current.seek(Math.round(target));
+    };
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => { controlsRef.current.play(); }],
+      ['pause', () => { controlsRef.current.pause(); }],
+      ['stop', () => { controlsRef.current.pause(); }],
+      ['nexttrack', () => { controlsRef.current.nextTrack(); }],
+      ['previoustrack', () => { controlsRef.current.previousTrack(); }],
+      ['seekto', (details) => {
+        if (details.seekTime == null) return;
+        controlsRef.current.seek(Math.round(details.seekTime * 1000));
+      }],
+      ['seekforward', (details) => seekBy(details.seekOffset ? details.seekOffset * 1000 : DEFAULT_SEEK_OFFSET_MS)],
+      ['seekbackward', (details) => seekBy(-(details.seekOffset ? details.seekOffset * 1000 : DEFAULT_SEEK_OFFSET_MS))]
+    ];
+
+    for (const [action, handler] of handlers) {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Browser doesn't support this action
+      }
+    }
+
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          // ignore
+        }
+      }
+    };
+  }, []);
+}
+
+export default useMediaSession;
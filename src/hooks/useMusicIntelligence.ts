@@ -12,6 +12,8 @@ import {
   type ArtistRecommendation, 
   type MusicInsights 
 } from '../services/musicIntelligenceService';
+import { userKey } from '../utils/userScope';
+import { secureStorage } from '../services/secureStorage';
 
 export interface UseMusicIntelligenceReturn {
   // Data
@@ -48,18 +50,20 @@ export const useMusicIntelligence = (): UseMusicIntelligenceReturn => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Initialize service when token is available
+  // Initialize service when signed in; it asks the token manager for a fresh token per request,
+  // so refreshes don't recreate it (and drop its cache)
+  const hasToken = !!token;
   const service = React.useMemo(() => {
-    if (!token) return null;
-    return new MusicIntelligenceService(token);
-  }, [token]);
+    if (!hasToken) return null;
+    return new MusicIntelligenceService();
+  }, [hasToken]);
 
   /**
    * Load cached profile if available and not expired with enhanced validation
    */
   const loadCachedProfile = useCallback((): UserMusicProfile | null => {
     try {
-      const cached = localStorage.getItem(CACHE_KEY);
+      const cached = secureStorage.getItem(userKey(CACHE_KEY));
       if (!cached) return null;
 
       const cachedData: CachedProfile = JSON.parse(cached);
@@ -67,14 +71,14 @@ export const useMusicIntelligence = (): UseMusicIntelligenceReturn => {
       // Check cache version
       if (cachedData.version !== CACHE_VERSION) {
         console.log('Cache version mismatch, invalidating');
-        localStorage.removeItem(CACHE_KEY);
+        secureStorage.removeItem(userKey(CACHE_KEY));
         return null;
       }
       
       // Check user ID if available
       if (user?.id && cachedData.userId && cachedData.userId !== user.id) {
         console.log('Cache user mismatch, invalidating');
-        localStorage.removeItem(CACHE_KEY);
+        secureStorage.removeItem(userKey(CACHE_KEY));
         return null;
       }
       
@@ -82,7 +86,7 @@ export const useMusicIntelligence = (): UseMusicIntelligenceReturn => {
       const isExpired = Date.now() - cachedData.timestamp > CACHE_DURATION;
       if (isExpired) {
         console.log('Cache expired, invalidating');
-        localStorage.removeItem(CACHE_KEY);
+        secureStorage.removeItem(userKey(CACHE_KEY));
         return null;
       }
 
@@ -90,7 +94,7 @@ export const useMusicIntelligence = (): UseMusicIntelligenceReturn => {
       return cachedData.profile;
     } catch (error) {
       console.warn('Failed to load cached profile:', error);
-      localStorage.removeItem(CACHE_KEY);
+      secureStorage.removeItem(userKey(CACHE_KEY));
       return null;
     }
   }, [user]);
@@ -106,7 +110,7 @@ export const useMusicIntelligence = (): UseMusicIntelligenceReturn => {
         version: CACHE_VERSION,
         userId: user?.id
       };
-      localStorage.setItem(CACHE_KEY, JSON.stringify(cachedData));
+      secureStorage.setItem(userKey(CACHE_KEY), JSON.stringify(cachedData));
       console.log('Cached music intelligence profile with metadata');
     } catch (error) {
       console.warn('Failed to cache music profile:', error);
@@ -198,7 +202,7 @@ export const useMusicIntelligence = (): UseMusicIntelligenceReturn => {
     if (!token) {
       setProfile(null);
       setError(null);
-      localStorage.removeItem(CACHE_KEY);
+      secureStorage.removeItem(userKey(CACHE_KEY));
     }
   }, [token]);
 
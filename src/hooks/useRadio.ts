@@ -0,0 +1,26 @@
+/**
+ * React Hook for radio mode
+ * Station state and controls provided by RadioProvider (context/radio)
+ */
+
+import { createContext, useContext } from 'react';
+import type { Track } from '../types/spotify';
+
+export interface RadioContextType {
+  isRadioOn: boolean;
+  radioLabel: string | null;
+  isFilling: boolean;
+  toggleRadio: () => void;
+  /** Start a new station: plays the first seed, then similar tracks */
+  startRadio: (seeds: Track[], label: string) => Promise<void>;
+}
+
+export const RadioContext = createContext<RadioContextType | undefined>(undefined);
+
+export const useRadio = () => {
+  const context = useContext(RadioContext);
+  if (context === undefined) {
+    throw new Error('useRadio must be used within a RadioProvider');
+  }
+  return context;
+};
@@ -0,0 +1,29 @@
+/**
+ * React Hook for the keyboard shortcuts registry
+ * Bindings, remapping and the help overlay provided by ShortcutsProvider (context/shortcuts)
+ */
+
+import { createContext, useContext } from 'react';
+import type { ShortcutAction, ShortcutBindings } from '../utils/keyboardShortcuts';
+
+export interface ShortcutsContextType {
+  bindings: ShortcutBindings;
+  /** Action currently waiting for a new key combination, if any */
+  recordingAction: ShortcutAction | null;
+  startRecording: (action: ShortcutAction) => void;
+  cancelRecording: () => void;
+  setBinding: (action: ShortcutAction, binding: string) => void;
+  resetBindings: () => void;
+  helpOpen: boolean;
+  setHelpOpen: (open: boolean) => void;
+}
+
+export const ShortcutsContext = createContext<ShortcutsContextType | undefined>(undefined);
+
+export const useShortcuts = () => {
+  const context = useContext(ShortcutsContext);
+  if (context === undefined) {
+    throw new Error('useShortcuts must be used within a ShortcutsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,252 @@
+/**
+ * React Hook for the sleep timer
+ * Stops playback after a fixed time, at the end of the current track, or at the end of
+ * the current album/playlist, fading the volume out over the last few seconds first
+ *
+ * The fade goes through the player context's setVolume so it works for both the web
+ * player and remote devices. Once paused, the volume from before the fade is restored
+ * so the next session doesn't start silent. The timer is persisted to localStorage
+ * and picks up again after a reload.
+ *
+ * With several tabs open only the leader counts down, fades and pauses; the timer is
+ * shared on SLEEP_TIMER_TOPIC so every tab shows it and can start or cancel it.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { usePlayer } from '../context/player';
+import { useAppSelector } from '../store/hooks';
+import { tabCoordinator } from '../services/tabCoordinator';
+
+export type SleepTimerPreset = 15 | 30 | 60 | 'track' | 'context';
+
+interface SleepTimerState {
+  mode: 'minutes' | 'track' | 'context';
+  /** Absolute end time (ms since epoch) for fixed-length timers */
+  deadline?: number;
+  /** Track that has to finish for 'track' mode */
+  trackUri?: string;
+  /** Album/playlist that has to finish for 'context' mode */
+  contextUri?: string | null;
+  /** Last track of the context once we know it */
+  lastTrackUri?: string | null;
+  /** Volume before the fade started, restored after pausing */
+  originalVolume?: number | null;
+}
+
+export interface UseSleepTimerReturn {
+  isActive: boolean;
+  mode: SleepTimerState['mode'] | null;
+  /** Milliseconds until playback stops, or null when it can't be known yet */
+  remainingMs: number | null;
+  isFading: boolean;
+  start: (preset: SleepTimerPreset) => void;
+  cancel: () => void;
+}
+
+export const SLEEP_TIMER_STORAGE_KEY = 'spotify_sleep_timer';
+
+/** tabCoordinator topic carrying the timer (SleepTimerState | null) between tabs */
+export const SLEEP_TIMER_TOPIC = 'sleep-timer';
+
+/** Length of the volume ramp before pausing */
+export const SLEEP_FADE_DURATION_MS = 30000;
+
+/** A fixed timer that expired this long ago (e.g. the tab was closed) is dropped without pausing */
+const STALE_AFTER_MS = 60000;
+
+/** Skip setVolume calls that would change the volume by less than this */
+const MIN_VOLUME_STEP = 0.02;
+
+const loadTimer = (): SleepTimerState | null => {
+  try {
+    const saved = localStorage.getItem(SLEEP_TIMER_STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.warn('Failed to load sleep timer', e);
+  }
+  return null;
+};
+
+const saveTimer = (timer: SleepTimerState | null) => {
+  try {
+    if (timer) {
+      localStorage.setItem(SLEEP_TIMER_STORAGE_KEY, JSON.stringify(timer));
+    } else {
+      localStorage.removeItem(SLEEP_TIMER_STORAGE_KEY);
+    }
+  } catch (e) {
+    console.warn('Failed to save sleep timer', e);
+  }
+};
+
+export function useSleepTimer(): UseSleepTimerReturn {
+  const {
+    player,
+    currentTrack,
+    isPlaying,
+    position,
+    duration,
+    volume,
+    isRemotePlaying,
+    localQueue,
+    queueIndex,
+    isQueueActive,
+    pause,
+    setVolume
+  } = usePlayer();
+  const contextUri = useAppSelector(s => s.player.contextUri);
+
+  const [timer, setTimer] = useState<SleepTimerState | null>(loadTimer);
+  const [now, setNow] = useState(() => Date.now());
+  const [isLeader, setIsLeader] = useState(() => tabCoordinator.isLeader());
+  const firingRef = useRef(false);
+  const hasTimer = !!timer;
+  const timerRef = useRef(timer);
+  timerRef.current = timer;
+  // New functions on every player render - through a ref so they don't re-run the fade on their own
+  const controlsRef = useRef({ pause, setVolume });
+  controlsRef.current = { pause, setVolume };
+
+  // Position only updates on player events / polling - interpolate between them
+  const positionRef = useRef({ position, at: Date.now() });
+  useEffect(() => {
+    positionRef.current = { position, at: Date.now() };
+  }, [position]);
+
+  const updateTimer = useCallback((next: SleepTimerState | null) => {
+    setTimer(next);
+    saveTimer(next);
+    tabCoordinator.publish(SLEEP_TIMER_TOPIC, next);
+  }, []);
+
+  useEffect(() => tabCoordinator.onLeaderChange(setIsLeader), []);
+
+  // Timers started, changed or cancelled in other tabs
+  useEffect(() => tabCoordinator.subscribe(SLEEP_TIMER_TOPIC, value => {
+    firingRef.current = false;
+    setTimer(value as SleepTimerState | null);
+  }), []);
+
+  // Leader: hand the running timer to tabs that just opened
+  useEffect(() => {
+    if (!isLeader) return;
+    return tabCoordinator.onStateRequest(() => tabCoordinator.publish(SLEEP_TIMER_TOPIC, timerRef.current));
+  }, [isLeader]);
+
+  useEffect(() => {
+    if (!hasTimer) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [hasTimer]);
+
+  // Work out the last track of the context for 'context' mode
+  useEffect(() => {
+    if (!isLeader || !timer || timer.mode !== 'context' || !currentTrack?.uri) return;
+
+    if (isQueueActive) {
+      const last = localQueue[localQueue.length - 1];
+      if (queueIndex === localQueue.length - 1 && last && last.uri !== timer.lastTrackUri) {
+        updateTimer({ ...timer, lastTrackUri: last.uri });
+      }
+      return;
+    }
+
+    // The web player knows what's coming up; remote devices fall back to context-change detection
+    if (player && !isRemotePlaying) {
+      player.getCurrentState().then(state => {
+        if (state && state.track_window.next_tracks.length === 0 && timer.lastTrackUri !== currentTrack.uri) {
+          updateTimer({ ...timer, lastTrackUri: currentTrack.uri });
+        }
+      }).catch(err => console.error('Sleep timer state error', err));
+    }
+  }, [isLeader, timer, currentTrack?.uri, queueIndex, isQueueActive, localQueue, player, isRemotePlaying, updateTimer]);
+
+  const trackRemaining = () => {
+    const { position: lastPosition, at } = positionRef.current;
+    const elapsed = isPlaying ? now - at : 0;
+    return Math.max(0, duration - (lastPosition + elapsed));
+  };
+
+  let remainingMs: number | null = null;
+  if (timer) {
+    if (timer.mode === 'minutes' && timer.deadline) {
+      remainingMs = Math.max(0, timer.deadline - now);
+    } else if (timer.mode === 'track') {
+      remainingMs = currentTrack?.uri === timer.trackUri ? trackRemaining() : 0;
+    } else if (timer.mode === 'context') {
+      if (timer.lastTrackUri) {
+        remainingMs = currentTrack?.uri === timer.lastTrackUri ? trackRemaining() : 0;
+      } else if (timer.contextUri && contextUri && contextUri !== timer.contextUri) {
+        // Moved on to something else (e.g. autoplay) before we saw the last track
+        remainingMs = 0;
+      }
+    }
+  }
+
+  const cancel = useCallback(() => {
+    if (timer?.originalVolume != null) setVolume(timer.originalVolume);
+    updateTimer(null);
+  }, [timer, setVolume, updateTimer]);
+
+  const start = useCallback((preset: SleepTimerPreset) => {
+    // Replacing a timer mid-fade shouldn't leave the volume turned down
+    if (timer?.originalVolume != null) setVolume(timer.originalVolume);
+    firingRef.current = false;
+    setNow(Date.now());
+
+    if (preset === 'track') {
+      if (!currentTrack?.uri) return;
+      updateTimer({ mode: 'track', trackUri: currentTrack?.uri });
+    } else if (preset === 'context') {
+      updateTimer({ mode: 'context', contextUri: isQueueActive ? null : contextUri });
+    } else {
+      updateTimer({ mode: 'minutes', deadline: Date.now() + preset * 60 * 1000 });
+    }
+  }, [timer, currentTrack?.uri, contextUri, isQueueActive, setVolume, updateTimer]);
+
+  // Fade and stop - the leader's job, followers only show the countdown
+  useEffect(() => {
+    if (!isLeader || !timer || remainingMs === null || firingRef.current) return;
+
+    const { pause, setVolume } = controlsRef.current;
+    if (remainingMs <= 0) {
+      firingRef.current = true;
+      const stale = timer.mode === 'minutes' && !!timer.deadline && now - timer.deadline > STALE_AFTER_MS;
+      const restoreVolume = timer.originalVolume;
+      (async () => {
+        try {
+          if (isPlaying && !stale) await pause();
+          if (restoreVolume != null) await setVolume(restoreVolume);
+        } catch (err) {
+          console.error('Sleep timer stop error', err);
+        } finally {
+          updateTimer(null);
+          firingRef.current = false;
+        }
+      })();
+      return;
+    }
+
+    if (remainingMs <= SLEEP_FADE_DURATION_MS && isPlaying) {
+      const originalVolume = timer.originalVolume ?? volume;
+      if (timer.originalVolume == null) {
+        updateTimer({ ...timer, originalVolume });
+      }
+      const target = Math.round(originalVolume * (remainingMs / SLEEP_FADE_DURATION_MS) * 100) / 100;
+      if (Math.abs(volume - target) >= MIN_VOLUME_STEP) {
+        setVolume(target);
+      }
+    }
+  }, [now, isLeader, timer, remainingMs, isPlaying, volume, updateTimer]);
+
+  return {
+    isActive: hasTimer,
+    mode: timer?.mode ?? null,
+    remainingMs,
+    isFading: hasTimer && remainingMs !== null && remainingMs <= SLEEP_FADE_DURATION_MS && isPlaying,
+    start,
+    cancel
+  };
+}
+
+export default useSleepTimer;
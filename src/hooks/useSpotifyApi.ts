@@ -1,5 +1,8 @@
 import { useCallback } from 'react';
 import { useAuth } from '../context/auth';
+import { tokenManager } from '../services/tokenManager';
+import { handleForbidden } from '../services/scopeConsent';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
 
 interface SpotifyApiOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
@@ -18,14 +21,14 @@ interface SpotifyApiResponse<T = any> {
  * Custom hook for making Spotify API requests with automatic token refresh
  */
 export const useSpotifyApi = () => {
-  const { token, refreshToken, isGuest } = useAuth();
+  const { token } = useAuth();
 
   const makeRequest = useCallback(async <T = any>(
     url: string, 
     options: SpotifyApiOptions = {}
   ): Promise<SpotifyApiResponse<T>> => {
-    // Return early if in guest mode or no token
-    if (isGuest || !token) {
+    // Return early if there is no token
+    if (!token) {
       return {
         data: null,
         error: 'No authentication token available',
@@ -41,6 +44,16 @@ export const useSpotifyApi = () => {
     } = options;
 
     let attempt = 0;
+
+    // Ask the token manager right before the request so an expiring token is refreshed first
+    const freshToken = await tokenManager.getAccessToken();
+    if (!freshToken) {
+      return {
+        data: null,
+        error: 'No authentication token available',
+        isLoading: false
+      };
+    }
     
     const executeRequest = async (authToken: string): Promise<SpotifyApiResponse<T>> => {
       try {
@@ -67,14 +80,10 @@ export const useSpotifyApi = () => {
           console.log('Token expired (401), attempting refresh...');
           attempt++;
           
-          const refreshSuccess = await refreshToken();
-          if (refreshSuccess) {
-            // Get the new token from localStorage since the context might not have updated yet
-            const newToken = localStorage.getItem('spotify_token');
-            if (newToken && newToken !== authToken) {
-              console.log('Token refreshed successfully, retrying request...');
-              return executeRequest(newToken);
-            }
+          const refresh = await tokenManager.refresh();
+          if (refresh.success && refresh.token && refresh.token !== authToken) {
+            console.log('Token refreshed successfully, retrying request...');
+            return executeRequest(refresh.token);
           }
           
           console.log('Token refresh failed or no new token received');
@@ -85,6 +94,15 @@ export const useSpotifyApi = () => {
           };
         }
 
+        // Missing scope: offer re-consent rather than just failing
+        if (response.status === 403 && handleForbidden(url)) {
+          return {
+            data: null,
+            error: 'Permission required - grant access to use this feature',
+            isLoading: false
+          };
+        }
+
         // Handle rate limiting (429)
         if (response.status === 429) {
           const retryAfter = response.headers.get('Retry-After');
@@ -153,8 +171,8 @@ export const useSpotifyApi = () => {
       }
     };
 
-    return executeRequest(token);
-  }, [token, refreshToken, isGuest]);
+    return executeRequest(freshToken);
+  }, [token]);
 
   return { makeRequest };
 };
@@ -163,14 +181,14 @@ export const useSpotifyApi = () => {
  * Utility function to check if a Spotify URL is valid
  */
 export const isValidSpotifyUrl = (url: string): boolean => {
-  return url.startsWith('https://api.spotify.com/v1/');
+  return url.startsWith(`${SPOTIFY_API_BASE}/`);
 };
 
 /**
  * Utility function to build Spotify API URLs with query parameters
  */
 export const buildSpotifyUrl = (endpoint: string, params?: Record<string, string | number>): string => {
-  const baseUrl = `https://api.spotify.com/v1/${endpoint.replace(/^\//, '')}`;
+  const baseUrl = `${SPOTIFY_API_BASE}/${endpoint.replace(/^\//, '')}`;
   
   if (!params || Object.keys(params).length === 0) {
     return baseUrl;
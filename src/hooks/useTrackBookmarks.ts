@@ -0,0 +1,24 @@
+/**
+ * React Hook for the bookmarks of one track
+ * Re-reads on BOOKMARKS_UPDATED_EVENT and when another tab changes them
+ */
+
+import { useState, useEffect } from 'react';
+import { bookmarkService, BOOKMARKS_UPDATED_EVENT, type TrackBookmark } from '../services/bookmarkService';
+
+export function useTrackBookmarks(trackId: string | null | undefined): TrackBookmark[] {
+  const [bookmarks, setBookmarks] = useState<TrackBookmark[]>(() => trackId ? bookmarkService.getForTrack(trackId) : []);
+
+  useEffect(() => {
+    const reload = () => setBookmarks(trackId ? bookmarkService.getForTrack(trackId) : []);
+    reload();
+    window.addEventListener(BOOKMARKS_UPDATED_EVENT, reload);
+    window.addEventListener('storage', reload);
+    return () => {
+      window.removeEventListener(BOOKMARKS_UPDATED_EVENT, reload);
+      window.removeEventListener('storage', reload);
+    };
+  }, [trackId]);
+
+  return bookmarks;
+}
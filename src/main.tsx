@@ -6,26 +6,32 @@
  * - Redux store provider (for global state)
  * - StrictMode for development warnings
  * - Global CSS styles
+ * - Encrypted storage, unlocked before anything reads it
  */
 
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import { Provider } from 'react-redux'
-import App from './App.tsx'
 import './index.css'
-import { store } from './store'
+import { secureStorage } from './services/secureStorage'
 
 /**
  * Main application render
  * Wraps the app with:
  * - React.StrictMode: Highlights potential issues in components
  * - Redux Provider: Makes store available to all components
+ *
+ * The store and app read encrypted storage as they load, so they are imported once
+ * secure storage has decrypted it
  */
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <Provider store={store}>
-      <App />
-    </Provider>
-  </React.StrictMode>,
-)
+secureStorage.init().then(async () => {
+  const [{ default: App }, { store }] = await Promise.all([import('./App.tsx'), import('./store')])
 
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <Provider store={store}>
+        <App />
+      </Provider>
+    </React.StrictMode>,
+  )
+})
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import Header from '../components/Header';
 import Sidebar from '../components/Sidebar';
 import { useAuth } from '../context/auth';
+import { AUTH_SESSIONS_ENABLED } from '../utils/apiConfig';
 import { 
   Container,  
   Card, 
@@ -22,11 +23,14 @@ import {
   ContentCopy, 
   OpenInNew, 
   Logout,
+  PersonAdd,
+  SwapHoriz,
+  DeleteOutline,
   Settings as SettingsIcon
 } from '@mui/icons-material';
 
 const Account: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, accounts, addAccount, switchAccount, removeAccount } = useAuth();
   const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = React.useState(false);
   const [snackbarOpen, setSnackbarOpen] = React.useState(false);
@@ -205,6 +209,84 @@ const Account: React.FC = () => {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Accounts on this device */}
+            <Card className="bg-white/5 border border-white/10 mt-6 sm:mt-8">
+              <CardContent className="p-0">
+                <div className="p-6 border-b border-white/10 flex items-center justify-between gap-4">
+                  <div>
+                    <Typography variant="h6" className="text-white font-bold">
+                      Accounts on this device
+                    </Typography>
+                    <Typography className="text-gray-500 text-xs sm:text-sm">
+                      Each account keeps its own library, history and recommendations
+                    </Typography>
+                  </div>
+                  {!AUTH_SESSIONS_ENABLED && (
+                    <Button
+                      variant="outlined"
+                      startIcon={<PersonAdd />}
+                      onClick={addAccount}
+                      className="border-white/30 text-white hover:border-white hover:bg-white/10 rounded-full px-4 text-xs sm:text-sm shrink-0"
+                      size="small"
+                    >
+                      Add account
+                    </Button>
+                  )}
+                </div>
+
+                <div className="divide-y divide-white/5">
+                  {accounts.map(account => {
+                    const isActive = account.id === user?.id;
+                    return (
+                      <div key={account.id} className="p-4 sm:p-6 flex items-center justify-between gap-3 sm:gap-4 hover:bg-white/5 transition-colors">
+                        <div className="flex items-center gap-3 sm:gap-4 min-w-0">
+                          <Avatar src={account.user.images?.[0]?.url} sx={{ width: 40, height: 40 }}>
+                            {account.user.display_name?.[0] || account.id[0]}
+                          </Avatar>
+                          <div className="min-w-0">
+                            <Typography className="text-white font-medium text-sm sm:text-base truncate">
+                              {account.user.display_name || account.id}
+                            </Typography>
+                            <Typography className="text-gray-500 text-xs sm:text-sm truncate">
+                              {isActive ? 'Active' : account.user.email || account.id}
+                            </Typography>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          {!isActive && (
+                            <Tooltip title={account.tokens ? 'Switch to this account' : 'Signed out - add it again to use it'}>
+                              <span>
+                                <IconButton
+                                  size="small"
+                                  disabled={!account.tokens}
+                                  onClick={() => switchAccount(account.id)}
+                                  className="text-gray-400 hover:text-white"
+                                >
+                                  <SwapHoriz fontSize="small" />
+                                </IconButton>
+                              </span>
+                            </Tooltip>
+                          )}
+                          <Tooltip title={isActive ? 'Sign out' : 'Remove from this device'}>
+                            <IconButton
+                              size="small"
+                              onClick={() => {
+                                removeAccount(account.id);
+                                if (isActive) navigate('/login');
+                              }}
+                              className="text-gray-400 hover:text-red-500"
+                            >
+                              <DeleteOutline fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
           </Container>
         </main>
       </div>
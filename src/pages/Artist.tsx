@@ -17,6 +17,7 @@ import VerifiedIcon from '@mui/icons-material/Verified';
 import MoreVertIcon from '@mui/icons-material/MoreVert';
 import type { Artist as ArtistType, Album, Track } from '../types/spotify';
 import { formatCount } from '../utils/numberFormat';
+import { hasFeature, requireFeature } from '../services/scopeConsent';
 
 const Artist: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -117,7 +118,11 @@ const Artist: React.FC = () => {
 
         // Parallel API calls
         const [followResult, tracksResult] = await Promise.all([
-          makeRequest(buildSpotifyUrl('me/following/contains', { type: 'artist', ids: id })),
+          // Without the scope this would 403 and prompt on every artist page - the
+          // follow button asks instead
+          hasFeature('follow')
+            ? makeRequest(buildSpotifyUrl('me/following/contains', { type: 'artist', ids: id }))
+            : Promise.resolve({ data: null, error: null }),
           makeRequest(buildSpotifyUrl(`artists/${id}/top-tracks`, { market: 'US' }))
         ]);
         
@@ -169,6 +174,7 @@ const Artist: React.FC = () => {
   // Handle follow/unfollow
   const handleFollowToggle = async () => {
     if (!id || loadingFollow || !artist) return;
+    if (!requireFeature('follow')) return;
     
     setLoadingFollow(true);
     try {
@@ -346,7 +352,7 @@ const Artist: React.FC = () => {
               </button>
             )}
             
-            {token && token !== 'GUEST' && (
+            {token && (
             <button
               onClick={handleFollowToggle}
               className={`
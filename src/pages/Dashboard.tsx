@@ -14,9 +14,10 @@ import MoreVertIcon from '@mui/icons-material/MoreVert';
 import { Box, CircularProgress, Fade, Grow, Skeleton, IconButton, useMediaQuery, useTheme } from '@mui/material';
 import { useToast } from '../context/toast';
 import '../index.css';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
 
 const Dashboard: React.FC = () => {
-  const { token, isLoading } = useAuth();
+  const { token, isLoading, loginAsGuest } = useAuth();
   const { play, pause, currentTrack, isPlaying, deviceId } = usePlayer();
   const navigate = useNavigate();
   const toast = useToast();
@@ -299,7 +300,7 @@ const Dashboard: React.FC = () => {
     setLoadingRecently(true);
     
     try {
-      const response = await fetch('https://api.spotify.com/v1/me/player/recently-played?limit=30', {
+      const response = await fetch(`${SPOTIFY_API_BASE}/me/player/recently-played?limit=30`, {
         headers: { Authorization: `Bearer ${token}` },
       });
       
@@ -393,7 +394,7 @@ const Dashboard: React.FC = () => {
     };
 
     // Fetch user profile
-    fetch('https://api.spotify.com/v1/me', { headers: { Authorization: `Bearer ${token}` } })
+    fetch(`${SPOTIFY_API_BASE}/me`, { headers: { Authorization: `Bearer ${token}` } })
       .then(res => {
         if (!res.ok) throw new Error(`HTTP ${res.status}`);
         return res.json();
@@ -412,10 +413,10 @@ const Dashboard: React.FC = () => {
 
       try {
         const [playlistsRes, topTracksRes] = await Promise.all([
-          fetch('https://api.spotify.com/v1/me/playlists?limit=12', {
+          fetch(`${SPOTIFY_API_BASE}/me/playlists?limit=12`, {
             headers: { Authorization: `Bearer ${token}` },
           }),
-          fetch('https://api.spotify.com/v1/me/top/tracks?limit=10&time_range=short_term', {
+          fetch(`${SPOTIFY_API_BASE}/me/top/tracks?limit=10&time_range=short_term`, {
             headers: { Authorization: `Bearer ${token}` },
           })
         ]);
@@ -428,7 +429,7 @@ const Dashboard: React.FC = () => {
         } else {
           // Fallback to featured playlists
           try {
-            const fallbackRes = await fetch('https://api.spotify.com/v1/browse/featured-playlists?limit=12', {
+            const fallbackRes = await fetch(`${SPOTIFY_API_BASE}/browse/featured-playlists?limit=12`, {
               headers: { Authorization: `Bearer ${token}` },
             });
             if (fallbackRes.ok) {
@@ -588,6 +589,12 @@ const Dashboard: React.FC = () => {
           <p className="text-sm sm:text-base text-gray-400 max-w-xl mx-auto lg:mx-0">
             Explore the catalog, preview playlists, and try the discovery tools. Sign in to enable playback controls and save playlists.
           </p>
+          <button
+            onClick={loginAsGuest}
+            className="mt-3 text-sm font-semibold text-green-400 hover:text-green-300 transition-colors"
+          >
+            Explore the demo library →
+          </button>
         </div>
       ) : user?.display_name && (
         <div className="mb-3 sm:mb-4">
@@ -732,7 +739,7 @@ const Dashboard: React.FC = () => {
                                   console.log('Playing playlist via context URI:', playlist.name);
                                 } else {
                                   // Fallback to fetching first track if no URI
-                                  const tracksResponse = await fetch(`https://api.spotify.com/v1/playlists/${playlist.id}/tracks?limit=1`, {
+                                  const tracksResponse = await fetch(`${SPOTIFY_API_BASE}/playlists/${playlist.id}/tracks?limit=1`, {
                                     headers: {
                                       'Authorization': `Bearer ${token}`,
                                     },
@@ -0,0 +1,269 @@
+/**
+ * Devices Page
+ * Remembered Spotify Connect devices with their last volume, the preferred default
+ * device and the auto-transfer rules
+ */
+
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePlayer } from '../context/player';
+import Sidebar from '../components/Sidebar';
+import Header from '../components/Header';
+import { useDevicePreferences } from '../hooks/useDevicePreferences';
+import { devicePreferencesService, WEB_PLAYER_KEY } from '../services/devicePreferencesService';
+import { getDeviceKey } from '../utils/deviceRules';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import DevicesIcon from '@mui/icons-material/Devices';
+import ComputerIcon from '@mui/icons-material/Computer';
+import SmartphoneIcon from '@mui/icons-material/Smartphone';
+import SpeakerIcon from '@mui/icons-material/Speaker';
+import TvIcon from '@mui/icons-material/Tv';
+import WatchIcon from '@mui/icons-material/Watch';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import StarIcon from '@mui/icons-material/Star';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
+import LockIcon from '@mui/icons-material/Lock';
+import LockOpenIcon from '@mui/icons-material/LockOpen';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import { IconButton, Tooltip, Fade, Switch, Button, Chip } from '@mui/material';
+
+interface DeviceRow {
+  key: string;
+  /** Current device id, when online */
+  id: string | null;
+  name: string;
+  type: string;
+  isActive: boolean;
+  volume: number | null;
+  lastSeenAt: number | null;
+}
+
+const getDeviceIcon = (deviceType: string) => {
+  const type = deviceType.toLowerCase();
+  if (type.includes('computer')) return <ComputerIcon sx={{ fontSize: 20 }} />;
+  if (type.includes('smartphone')) return <SmartphoneIcon sx={{ fontSize: 20 }} />;
+  if (type.includes('speaker')) return <SpeakerIcon sx={{ fontSize: 20 }} />;
+  if (type.includes('tv')) return <TvIcon sx={{ fontSize: 20 }} />;
+  if (type.includes('watch')) return <WatchIcon sx={{ fontSize: 20 }} />;
+  return <DevicesIcon sx={{ fontSize: 20 }} />;
+};
+
+const Devices: React.FC = () => {
+  const navigate = useNavigate();
+  const {
+    deviceId,
+    activeDeviceId,
+    activeDeviceName,
+    isRemotePlaying,
+    availableDevices,
+    getAvailableDevices,
+    transferPlayback
+  } = usePlayer();
+  const prefs = useDevicePreferences();
+  const [sidebarOpen, setSidebarOpen] = React.useState(false);
+
+  // Refresh the list once when the page opens; getAvailableDevices changes on every player render
+  React.useEffect(() => {
+    getAvailableDevices();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Online devices first, then remembered ones that aren't reachable right now
+  const online: DeviceRow[] = availableDevices.map(device => {
+    const key = getDeviceKey(device.id, deviceId);
+    return {
+      key,
+      id: device.id,
+      name: device.name,
+      type: device.type,
+      isActive: device.id === activeDeviceId,
+      volume: prefs.devices[key]?.volume ?? null,
+      lastSeenAt: null
+    };
+  });
+  const onlineKeys = new Set(online.map(row => row.key));
+  const offline: DeviceRow[] = Object.values(prefs.devices)
+    .filter(device => !onlineKeys.has(device.key))
+    .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+    .map(device => ({ ...device, id: null, isActive: false }));
+
+  const renderRow = (row: DeviceRow) => {
+    const isPreferred = prefs.preferredDeviceKey === row.key;
+    const isProtected = prefs.protectedDeviceKeys.includes(row.key);
+    return (
+      <div
+        key={row.key}
+        className={`flex items-center gap-3 p-3 rounded-xl border transition-colors ${
+          row.isActive
+            ? isRemotePlaying ? 'bg-orange-500/10 border-orange-500/30' : 'bg-green-500/10 border-green-500/30'
+            : 'bg-white/5 border-white/10'
+        }`}
+      >
+        <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${row.id ? 'bg-white/10 text-white' : 'bg-white/5 text-gray-600'}`}>
+          {getDeviceIcon(row.type)}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className={`text-sm truncate ${row.id ? 'text-white' : 'text-gray-400'}`}>
+            {row.name}
+            {row.key === WEB_PLAYER_KEY && <span className="text-gray-500"> · this web player</span>}
+          </p>
+          <p className="text-gray-500 text-xs truncate">
+            {row.isActive ? 'Active' : row.id ? 'Online' : row.lastSeenAt ? `Last seen ${new Date(row.lastSeenAt).toLocaleDateString()}` : 'Offline'}
+            {' · '}
+            {row.volume !== null ? `Volume ${Math.round(row.volume * 100)}%` : 'No saved volume'}
+          </p>
+        </div>
+        {row.id && !row.isActive && (
+          <Button
+            onClick={() => transferPlayback(row.id as string)}
+            size="small"
+            variant="outlined"
+            sx={{ textTransform: 'none', borderColor: 'rgba(255,255,255,0.15)', color: 'white', display: { xs: 'none', sm: 'inline-flex' } }}
+          >
+            Play here
+          </Button>
+        )}
+        <Tooltip title={isPreferred ? 'Preferred device' : 'Start playback here when nothing is active'}>
+          <IconButton
+            onClick={() => devicePreferencesService.setPreferredDevice(isPreferred ? null : row.key)}
+            size="small"
+            sx={{ color: isPreferred ? 'primary.main' : 'text.secondary' }}
+          >
+            {isPreferred ? <StarIcon sx={{ fontSize: 18 }} /> : <StarBorderIcon sx={{ fontSize: 18 }} />}
+          </IconButton>
+        </Tooltip>
+        <Tooltip title={isProtected ? 'Playback is never moved away from this device automatically' : 'Never auto-transfer away from this device'}>
+          <IconButton
+            onClick={() => devicePreferencesService.setProtected(row.key, !isProtected)}
+            size="small"
+            sx={{ color: isProtected ? 'warning.main' : 'text.secondary' }}
+          >
+            {isProtected ? <LockIcon sx={{ fontSize: 18 }} /> : <LockOpenIcon sx={{ fontSize: 18 }} />}
+          </IconButton>
+        </Tooltip>
+        {!row.id && (
+          <Tooltip title="Forget device">
+            <IconButton onClick={() => devicePreferencesService.forget(row.key)} size="small" sx={{ color: 'text.secondary' }}>
+              <DeleteOutlineIcon sx={{ fontSize: 18 }} />
+            </IconButton>
+          </Tooltip>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-[100dvh] bg-gradient-to-br from-black via-gray-900 to-black flex safe-area-bottom">
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={() => setSidebarOpen(false)}
+        onHomeClick={() => navigate('/dashboard')}
+      />
+      <Header onMobileMenuToggle={() => setSidebarOpen(true)} />
+
+      <div className="flex-1 xl:ml-80 pb-28 pt-16 sm:pt-20">
+        <div className="relative w-full max-w-3xl py-6 sm:py-10 px-3 sm:px-6 lg:px-12 space-y-6">
+          {/* Header */}
+          <Fade in timeout={600}>
+            <div className="flex items-center gap-3 sm:gap-4">
+              <button
+                onClick={() => navigate(-1)}
+                className="p-2 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 hover:border-green-500/30 transition-all touch-target"
+              >
+                <ArrowBackIcon className="text-white" sx={{ fontSize: { xs: 20, sm: 24 } }} />
+              </button>
+              <div className="flex-1 min-w-0">
+                <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold text-white flex items-center gap-2 sm:gap-3">
+                  <div className="w-8 h-8 sm:w-10 sm:h-10 bg-green-500/20 rounded-xl flex items-center justify-center flex-shrink-0">
+                    <DevicesIcon className="text-green-400" />
+                  </div>
+                  <span className="truncate">Devices</span>
+                </h1>
+                <p className="text-gray-400 text-xs sm:text-sm mt-0.5 sm:mt-1">
+                  {availableDevices.length} online · {Object.keys(prefs.devices).length} remembered
+                </p>
+              </div>
+              <Tooltip title="Refresh">
+                <IconButton
+                  onClick={() => getAvailableDevices()}
+                  sx={{
+                    color: 'rgba(255,255,255,0.6)',
+                    '&:hover': { color: 'white' },
+                    backgroundColor: 'rgba(255,255,255,0.05)',
+                    borderRadius: '0.75rem'
+                  }}
+                >
+                  <RefreshIcon />
+                </IconButton>
+              </Tooltip>
+            </div>
+          </Fade>
+
+          {/* Remote playback indicator */}
+          {isRemotePlaying && (
+            <div className="flex flex-wrap items-center gap-3 p-4 rounded-xl bg-orange-500/10 border border-orange-500/30">
+              <DevicesIcon className="text-orange-400" />
+              <div className="flex-1 min-w-0">
+                <p className="text-orange-300 text-sm font-semibold">Playing on {activeDeviceName || 'another device'}</p>
+                <p className="text-orange-200/60 text-xs">Play, skip, seek and volume in this app control that device</p>
+              </div>
+              {deviceId && (
+                <Button
+                  onClick={() => transferPlayback(deviceId)}
+                  size="small"
+                  variant="outlined"
+                  color="warning"
+                  sx={{ textTransform: 'none' }}
+                >
+                  Play in this browser
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* Devices */}
+          <section className="space-y-2">
+            <h2 className="text-gray-400 text-xs font-semibold uppercase tracking-wider">Online</h2>
+            {online.length === 0 ? (
+              <p className="text-gray-500 text-sm py-2">No devices found - open Spotify on a device to see it here</p>
+            ) : (
+              online.map(renderRow)
+            )}
+          </section>
+
+          {offline.length > 0 && (
+            <section className="space-y-2">
+              <h2 className="text-gray-400 text-xs font-semibold uppercase tracking-wider">Remembered</h2>
+              {offline.map(renderRow)}
+            </section>
+          )}
+
+          {/* Rules */}
+          <section className="space-y-2">
+            <h2 className="text-gray-400 text-xs font-semibold uppercase tracking-wider">Rules</h2>
+            <div className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/10">
+              <div className="flex-1 min-w-0">
+                <p className="text-white text-sm">Take over when this web player starts</p>
+                <p className="text-gray-500 text-xs">Only when nothing is playing and the active device isn't locked</p>
+              </div>
+              <Switch
+                checked={prefs.takeOverWhenIdle}
+                onChange={(e) => devicePreferencesService.setTakeOverWhenIdle(e.target.checked)}
+                color="primary"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2 text-xs text-gray-500">
+              <Chip size="small" icon={<StarIcon sx={{ fontSize: 14 }} />} label="Preferred: playback starts here when no device is active" variant="outlined" sx={{ color: 'text.secondary', borderColor: 'rgba(255,255,255,0.1)' }} />
+              <Chip size="small" icon={<LockIcon sx={{ fontSize: 14 }} />} label="Locked: new playback stays on it while it's active" variant="outlined" sx={{ color: 'text.secondary', borderColor: 'rgba(255,255,255,0.1)' }} />
+            </div>
+            <p className="text-gray-500 text-xs">
+              Each device's volume is remembered when you change it here and restored after transferring to it.
+            </p>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Devices;
@@ -0,0 +1,393 @@
+/**
+ * Listening History Page
+ * Browse every play recorded by the player, newest first, grouped by day
+ */
+
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePlayer } from '../context/player';
+import { useToast } from '../context/toast';
+import Sidebar from '../components/Sidebar';
+import Header from '../components/Header';
+import HistoryExportDialog from '../components/HistoryExportDialog';
+import { recommendationEngine } from '../services/recommendationEngine';
+import { parseSpotifyStreamingHistory } from '../utils/historyExport';
+import {
+  listeningHistoryService,
+  HISTORY_UPDATED_EVENT,
+  type ListeningHistoryEntry
+} from '../services/listeningHistoryService';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import HistoryIcon from '@mui/icons-material/History';
+import SearchIcon from '@mui/icons-material/Search';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import SkipNextIcon from '@mui/icons-material/SkipNext';
+import MusicNoteIcon from '@mui/icons-material/MusicNote';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import {
+  IconButton,
+  Tooltip,
+  Fade,
+  Skeleton,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button
+} from '@mui/material';
+
+const PAGE_SIZE = 100;
+
+const formatListened = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const formatDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const today = new Date();
+  const yesterday = new Date();
+  yesterday.setDate(today.getDate() - 1);
+  if (date.toDateString() === today.toDateString()) return 'Today';
+  if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+  return date.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+};
+
+const History: React.FC = () => {
+  const navigate = useNavigate();
+  const { play } = usePlayer();
+  const toast = useToast();
+  const [sidebarOpen, setSidebarOpen] = React.useState(false);
+
+  const [entries, setEntries] = React.useState<ListeningHistoryEntry[]>([]);
+  const [totalCount, setTotalCount] = React.useState(0);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [hasMore, setHasMore] = React.useState(false);
+  const [search, setSearch] = React.useState('');
+  const [hideSkips, setHideSkips] = React.useState(false);
+  const [confirmClearOpen, setConfirmClearOpen] = React.useState(false);
+  const [exportOpen, setExportOpen] = React.useState(false);
+  const [isImporting, setIsImporting] = React.useState(false);
+  const importInputRef = React.useRef<HTMLInputElement | null>(null);
+
+  const loadFirstPage = React.useCallback(async () => {
+    try {
+      const [page, count] = await Promise.all([
+        listeningHistoryService.getEntries({ limit: PAGE_SIZE, search }),
+        listeningHistoryService.count()
+      ]);
+      setEntries(page);
+      setTotalCount(count);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      console.error('Load listening history error', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search]);
+
+  // Debounce search typing; also reloads when new plays are recorded
+  React.useEffect(() => {
+    const id = setTimeout(loadFirstPage, 250);
+    window.addEventListener(HISTORY_UPDATED_EVENT, loadFirstPage);
+    return () => {
+      clearTimeout(id);
+      window.removeEventListener(HISTORY_UPDATED_EVENT, loadFirstPage);
+    };
+  }, [loadFirstPage]);
+
+  const loadMore = async () => {
+    const oldest = entries[entries.length - 1];
+    if (oldest?.id === undefined) return;
+    try {
+      const page = await listeningHistoryService.getEntries({ before: { startedAt: oldest.startedAt, id: oldest.id }, limit: PAGE_SIZE, search });
+      setEntries(prev => [...prev, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      console.error('Load more listening history error', err);
+    }
+  };
+
+  const handlePlay = async (entry: ListeningHistoryEntry) => {
+    try {
+      await play({ uris: [entry.trackUri] });
+    } catch (err) {
+      console.error('Play from history error', err);
+      toast.showToast('Unable to play track', 'error');
+    }
+  };
+
+  const handleDelete = async (entry: ListeningHistoryEntry) => {
+    if (entry.id === undefined) return;
+    try {
+      await listeningHistoryService.deleteEntry(entry.id);
+    } catch (err) {
+      console.error('Delete history entry error', err);
+    }
+  };
+
+  const handleClear = async () => {
+    setConfirmClearOpen(false);
+    try {
+      await listeningHistoryService.clear();
+      toast.showToast('Listening history cleared', 'success');
+    } catch (err) {
+      console.error('Clear listening history error', err);
+      toast.showToast('Failed to clear history', 'error');
+    }
+  };
+
+  // Spotify's extended streaming history comes as several Streaming_History_Audio_*.json files
+  const handleImport = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsImporting(true);
+    try {
+      let parsed: ListeningHistoryEntry[] = [];
+      for (const file of Array.from(files)) {
+        parsed = parsed.concat(parseSpotifyStreamingHistory(JSON.parse(await file.text())));
+      }
+      const { added, duplicates } = await listeningHistoryService.importEntries(parsed);
+      // Only plays new to the history - re-importing an export must not count them twice
+      recommendationEngine.importListeningActivity(
+        added.filter(entry => !entry.skipped).map(entry => ({ trackId: entry.trackId, timestamp: entry.startedAt }))
+      );
+      toast.showToast(
+        `Imported ${added.length.toLocaleString()} plays${duplicates ? ` (${duplicates.toLocaleString()} already recorded)` : ''}`,
+        'success'
+      );
+    } catch (err) {
+      console.error('History import error', err);
+      toast.showToast(err instanceof Error ? `Import failed: ${err.message}` : 'Import failed', 'error');
+    } finally {
+      setIsImporting(false);
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  const visible = hideSkips ? entries.filter(e => !e.skipped) : entries;
+
+  // Group consecutive entries by calendar day
+  const groups: { day: string; items: ListeningHistoryEntry[] }[] = [];
+  visible.forEach(entry => {
+    const day = formatDay(entry.startedAt);
+    const last = groups[groups.length - 1];
+    if (last && last.day === day) {
+      last.items.push(entry);
+    } else {
+      groups.push({ day, items: [entry] });
+    }
+  });
+
+  return (
+    <div className="min-h-[100dvh] bg-gradient-to-br from-black via-gray-900 to-black flex safe-area-bottom">
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={() => setSidebarOpen(false)}
+        onHomeClick={() => navigate('/dashboard')}
+      />
+      <Header onMobileMenuToggle={() => setSidebarOpen(true)} />
+
+      <div className="flex-1 xl:ml-80 pb-28 pt-16 sm:pt-20">
+        <div className="relative w-full py-6 sm:py-10 px-3 sm:px-6 lg:px-12 space-y-6">
+          {/* Header */}
+          <Fade in timeout={600}>
+            <div className="flex flex-wrap items-center gap-3 sm:gap-4">
+              <button
+                onClick={() => navigate(-1)}
+                className="p-2 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 hover:border-green-500/30 transition-all touch-target"
+              >
+                <ArrowBackIcon className="text-white" sx={{ fontSize: { xs: 20, sm: 24 } }} />
+              </button>
+              <div className="flex-1 min-w-0">
+                <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold text-white flex items-center gap-2 sm:gap-3">
+                  <div className="w-8 h-8 sm:w-10 sm:h-10 bg-green-500/20 rounded-xl flex items-center justify-center flex-shrink-0">
+                    <HistoryIcon className="text-green-400" />
+                  </div>
+                  <span className="truncate">Listening History</span>
+                </h1>
+                <p className="text-gray-400 text-xs sm:text-sm mt-0.5 sm:mt-1">
+                  {totalCount.toLocaleString()} plays recorded on this device
+                </p>
+              </div>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                multiple
+                hidden
+                onChange={(e) => handleImport(e.target.files)}
+              />
+              <Tooltip title="Import Spotify extended streaming history">
+                <span>
+                  <IconButton
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={isImporting}
+                    sx={{
+                      color: 'rgba(255,255,255,0.6)',
+                      '&:hover': { color: 'white' },
+                      backgroundColor: 'rgba(255,255,255,0.05)',
+                      borderRadius: '0.75rem'
+                    }}
+                  >
+                    <FileUploadIcon className={isImporting ? 'animate-pulse' : ''} />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title="Export history">
+                <span>
+                  <IconButton
+                    onClick={() => setExportOpen(true)}
+                    disabled={totalCount === 0}
+                    sx={{
+                      color: 'rgba(255,255,255,0.6)',
+                      '&:hover': { color: 'white' },
+                      backgroundColor: 'rgba(255,255,255,0.05)',
+                      borderRadius: '0.75rem'
+                    }}
+                  >
+                    <FileDownloadIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title="Clear history">
+                <span>
+                  <IconButton
+                    onClick={() => setConfirmClearOpen(true)}
+                    disabled={totalCount === 0}
+                    sx={{
+                      color: 'rgba(255,255,255,0.6)',
+                      '&:hover': { color: 'white' },
+                      backgroundColor: 'rgba(255,255,255,0.05)',
+                      borderRadius: '0.75rem'
+                    }}
+                  >
+                    <DeleteOutlineIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </div>
+          </Fade>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex items-center gap-2 bg-white/5 border border-white/10 rounded-xl px-3 py-1.5 flex-1 min-w-[200px] max-w-md">
+              <SearchIcon className="text-gray-500" sx={{ fontSize: 18 }} />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Filter by track, artist or album"
+                aria-label="Filter history"
+                className="bg-transparent outline-none text-white text-sm flex-1 placeholder:text-gray-500"
+              />
+            </div>
+            <Chip
+              label="Hide skips"
+              onClick={() => setHideSkips(v => !v)}
+              variant={hideSkips ? 'filled' : 'outlined'}
+              color={hideSkips ? 'primary' : 'default'}
+              size="small"
+              sx={{ color: hideSkips ? 'black' : 'text.secondary', borderColor: 'rgba(255,255,255,0.15)' }}
+            />
+          </div>
+
+          {/* Entries */}
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 8 }).map((_, i) => (
+                <Skeleton key={i} variant="rounded" height={56} sx={{ bgcolor: 'rgba(255,255,255,0.05)' }} />
+              ))}
+            </div>
+          ) : groups.length === 0 ? (
+            <div className="text-center py-16">
+              <MusicNoteIcon className="text-gray-600 mb-2" sx={{ fontSize: 48 }} />
+              <p className="text-gray-400 text-sm">
+                {search || hideSkips ? 'No plays match your filters' : 'Nothing here yet - plays show up as you listen'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {groups.map(group => (
+                <section key={group.day}>
+                  <h2 className="text-gray-400 text-xs font-semibold uppercase tracking-wider mb-2">{group.day}</h2>
+                  <div className="space-y-1">
+                    {group.items.map(entry => (
+                      <div
+                        key={entry.id}
+                        onClick={() => handlePlay(entry)}
+                        className="group flex items-center gap-3 p-2 rounded-lg hover:bg-white/5 cursor-pointer transition-colors"
+                      >
+                        {entry.albumImage ? (
+                          <img src={entry.albumImage} alt={entry.albumName || entry.trackName} className="w-10 h-10 rounded object-cover" />
+                        ) : (
+                          <div className="w-10 h-10 rounded bg-white/5 flex items-center justify-center">
+                            <MusicNoteIcon className="text-gray-600" sx={{ fontSize: 18 }} />
+                          </div>
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <p className="text-white text-sm truncate">{entry.trackName}</p>
+                          <p className="text-gray-500 text-xs truncate">
+                            {entry.artists.map(a => a.name).join(', ')}
+                            {entry.albumName ? ` • ${entry.albumName}` : ''}
+                          </p>
+                        </div>
+                        {entry.skipped && (
+                          <Tooltip title="Skipped">
+                            <SkipNextIcon className="text-gray-500" sx={{ fontSize: 16 }} />
+                          </Tooltip>
+                        )}
+                        <span className="text-gray-500 text-xs tabular-nums w-20 text-right hidden sm:block">
+                          {formatListened(entry.listenedMs)} / {formatListened(entry.trackDurationMs)}
+                        </span>
+                        <span className="text-gray-500 text-xs tabular-nums w-14 text-right">
+                          {new Date(entry.startedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                        <Tooltip title="Remove from history">
+                          <IconButton
+                            size="small"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDelete(entry);
+                            }}
+                            className="opacity-0 group-hover:opacity-100"
+                            sx={{ color: 'text.secondary' }}
+                          >
+                            <DeleteOutlineIcon sx={{ fontSize: 16 }} />
+                          </IconButton>
+                        </Tooltip>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              ))}
+              {hasMore && (
+                <div className="flex justify-center">
+                  <Button onClick={loadMore} variant="outlined" size="small" sx={{ textTransform: 'none', borderColor: 'rgba(255,255,255,0.15)', color: 'white' }}>
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <HistoryExportDialog open={exportOpen} onClose={() => setExportOpen(false)} />
+
+      <Dialog open={confirmClearOpen} onClose={() => setConfirmClearOpen(false)}>
+        <DialogTitle>Clear listening history?</DialogTitle>
+        <DialogContent className="text-gray-400 text-sm">
+          This removes all {totalCount.toLocaleString()} recorded plays from this device. It can't be undone.
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmClearOpen(false)} sx={{ color: 'text.secondary' }}>Cancel</Button>
+          <Button onClick={handleClear} color="error">Clear</Button>
+        </DialogActions>
+      </Dialog>
+    </div>
+  );
+};
+
+export default History;
@@ -17,6 +17,11 @@ import {
 import { PlayArrow, Pause, MoreVert, AccessTime } from '@mui/icons-material';
 import { useToast } from '../context/toast';
 import type { Track, Playlist, Album, Artist } from '../types/spotify';
+import { hasFeature, promptForConsent } from '../services/scopeConsent';
+import { SCOPE_FEATURES, type ScopeFeatureId } from '../utils/spotifyScopes';
+
+/** The feature each tab's data needs, by tab index - none of them is requested at sign-in */
+const TAB_FEATURES: ScopeFeatureId[] = ['playlists', 'library', 'library', 'follow'];
 
 const Library: React.FC = () => {
   const { play, pause, currentTrack, isPlaying } = usePlayer();
@@ -231,6 +236,22 @@ const Library: React.FC = () => {
             </div>
           </div>
 
+          {!hasFeature(TAB_FEATURES[tab]) && (
+            <div className="mb-4 px-3 sm:px-4 py-2.5 rounded-md bg-white/5 border border-white/10 flex items-center gap-3">
+              <Typography className="flex-1 min-w-0 text-gray-300 text-xs sm:text-sm">
+                {tab === 0
+                  ? 'Only your public playlists are shown - allow access to see private and collaborative ones too'
+                  : `${SCOPE_FEATURES[TAB_FEATURES[tab]].label} needs your permission first`}
+              </Typography>
+              <button
+                onClick={() => promptForConsent(TAB_FEATURES[tab])}
+                className="px-3 py-1 rounded-full bg-white text-black text-xs font-bold flex-shrink-0 active:scale-95"
+              >
+                Allow
+              </button>
+            </div>
+          )}
+
           {loading ? (
             <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3 sm:gap-6">
               {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((i) => (
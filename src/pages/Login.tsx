@@ -4,7 +4,7 @@ import { useNavigate } from 'react-router-dom';
 import SpotifyIcon from '../components/SpotifyIcon';
 
 const SpotifyLite: React.FC = () => {
-  const { token, login, isLoading } = useAuth();
+  const { token, login, loginAsGuest, isLoading } = useAuth();
   const navigate = useNavigate();
   const [isButtonLoading, setIsButtonLoading] = useState(false);
 
@@ -77,7 +77,13 @@ const SpotifyLite: React.FC = () => {
                 )}
               </button>
 
-              {/* Explore as guest removed from Login page - guests should use the Dashboard welcome card to enter guest mode */}
+              {/* Guest mode browses a bundled demo library, no Spotify account needed */}
+              <button
+                onClick={loginAsGuest}
+                className="w-full sm:w-auto sm:ml-3 inline-flex items-center justify-center bg-white/5 hover:bg-white/10 border border-gray-600 text-gray-200 font-semibold py-2.5 sm:py-3 px-4 sm:px-5 rounded-lg transition-colors text-sm sm:text-base"
+              >
+                Explore the demo library
+              </button>
             </div>
 
             <div className="mt-4 sm:mt-6 text-xs text-gray-400">
@@ -25,6 +25,8 @@ import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
 import AnalyticsIcon from '@mui/icons-material/Analytics';
 import { IconButton, Tooltip, Fade, Grow, Skeleton, LinearProgress, Chip } from '@mui/material';
 import type { Playlist, Track } from '../types/spotify';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
+import { hasFeature } from '../services/scopeConsent';
 
 const Recommendations: React.FC = () => {
   const navigate = useNavigate();
@@ -103,8 +105,9 @@ const Recommendations: React.FC = () => {
 
       // 1. Fetch ALL liked songs (paginated)
       console.log('📚 Fetching liked songs...');
-      let likedUrl = 'https://api.spotify.com/v1/me/tracks?limit=50';
-      let hasMoreLiked = true;
+      let likedUrl = `${SPOTIFY_API_BASE}/me/tracks?limit=50`;
+      // Liked songs and saved albums need a scope that isn't requested at sign-in
+      let hasMoreLiked = hasFeature('library');
       while (hasMoreLiked) {
         const likedResponse = await fetch(likedUrl, {
           headers: { 'Authorization': `Bearer ${token}` }
@@ -123,7 +126,7 @@ const Recommendations: React.FC = () => {
 
       // 2. Fetch saved playlists and their tracks
       console.log('📚 Fetching saved playlists...');
-      let playlistUrl = 'https://api.spotify.com/v1/me/playlists?limit=50';
+      let playlistUrl = `${SPOTIFY_API_BASE}/me/playlists?limit=50`;
       let hasMorePlaylists = true;
       const playlistIds: string[] = [];
       while (hasMorePlaylists) {
@@ -146,7 +149,7 @@ const Recommendations: React.FC = () => {
       // Fetch ALL tracks from ALL playlists (with pagination)
       for (const playlistId of playlistIds) { // Removed limit - fetch from ALL playlists
         try {
-          let playlistTracksUrl = `https://api.spotify.com/v1/playlists/${playlistId}/tracks?limit=100&fields=items(track(id,name,artists,album,duration_ms,popularity,explicit,uri)),next`;
+          let playlistTracksUrl = `${SPOTIFY_API_BASE}/playlists/${playlistId}/tracks?limit=100&fields=items(track(id,name,artists,album,duration_ms,popularity,explicit,uri)),next`;
           let hasMorePlaylistTracks = true;
           
           while (hasMorePlaylistTracks && playlistTracksUrl) {
@@ -174,8 +177,8 @@ const Recommendations: React.FC = () => {
 
       // 3. Fetch saved albums and their tracks
       console.log('📚 Fetching saved albums...');
-      let albumUrl = 'https://api.spotify.com/v1/me/albums?limit=50';
-      let hasMoreAlbums = true;
+      let albumUrl = `${SPOTIFY_API_BASE}/me/albums?limit=50`;
+      let hasMoreAlbums = hasFeature('library');
       const albumIds: string[] = [];
       while (hasMoreAlbums) {
         const albumResponse = await fetch(albumUrl, {
@@ -199,7 +202,7 @@ const Recommendations: React.FC = () => {
         const batch = albumIds.slice(i, i + 20);
         try {
           const albumBatchResponse = await fetch(
-            `https://api.spotify.com/v1/albums?ids=${batch.join(',')}`,
+            `${SPOTIFY_API_BASE}/albums?ids=${batch.join(',')}`,
             { headers: { 'Authorization': `Bearer ${token}` } }
           );
           if (albumBatchResponse.ok) {
@@ -29,6 +29,7 @@ import {
   MoreVert
 } from '@mui/icons-material';
 import type { Track, Playlist, Album, Artist } from '../types/spotify';
+import { sessionRecoveryService } from '../services/sessionRecoveryService';
 
 const SearchPage: React.FC = () => {
   const { token } = useAuth();
@@ -53,6 +54,16 @@ const SearchPage: React.FC = () => {
   const [activeTab, setActiveTab] = React.useState(0); // 0: All, 1: Songs, 2: Artists, 3: Albums, 4: Playlists
   const scrollContainerRef = React.useRef<HTMLDivElement>(null);
 
+  // Keep the tab across a re-login after the session expired
+  const activeTabRef = React.useRef(activeTab);
+  React.useEffect(() => {
+    activeTabRef.current = activeTab;
+  }, [activeTab]);
+  React.useEffect(() => sessionRecoveryService.registerReturnState<number>('search-tab', {
+    capture: () => activeTabRef.current,
+    restore: setActiveTab
+  }), []);
+
   // Track menu state
   const [trackMenuAnchor, setTrackMenuAnchor] = React.useState<HTMLElement | null>(null);
   const [selectedTrack, setSelectedTrack] = React.useState<Track | null>(null);
@@ -2,7 +2,12 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import Header from '../components/Header';
 import Sidebar from '../components/Sidebar';
+import ShortcutSettings from '../components/ShortcutSettings';
 import { useAuth } from '../context/auth';
+import { tokenManager } from '../services/tokenManager';
+import { accountService } from '../services/accountService';
+import { secureStorage } from '../services/secureStorage';
+import { SCOPE_FEATURES, missingScopes, type ScopeFeatureId } from '../utils/spotifyScopes';
 import {
   Container,
   Card,
@@ -12,7 +17,11 @@ import {
   Snackbar,
   Alert,
   IconButton,
-  Tooltip
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions
 } from '@mui/material';
 import { 
   Refresh, 
@@ -25,28 +34,24 @@ import {
   Timer,
   CloudSync,
   Key,
-  ContentCopy
+  ContentCopy,
+  LockOpen,
+  DeleteForever
 } from '@mui/icons-material';
 
 const Settings: React.FC = () => {
   const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = React.useState(false);
-  const { refreshAccessTokenNow, isGuest } = useAuth();
+  const { refreshAccessTokenNow, isGuest, requestScopes } = useAuth();
 
   const [snackbarOpen, setSnackbarOpen] = React.useState(false);
   const [snackbarMessage, setSnackbarMessage] = React.useState('');
   
   // Token status state
-  const [tokenExpiryTs, setTokenExpiryTs] = React.useState<number | null>(() => {
-    try { const v = localStorage.getItem('spotify_token_expiry'); return v ? parseInt(v, 10) : null; } catch { return null; }
-  });
-  const [tokenValue, setTokenValue] = React.useState<string | null>(() => {
-    try { return localStorage.getItem('spotify_token'); } catch { return null; }
-  });
+  const [tokenExpiryTs, setTokenExpiryTs] = React.useState<number | null>(() => tokenManager.getExpiry());
+  const [tokenValue, setTokenValue] = React.useState<string | null>(() => tokenManager.peekAccessToken());
   const [showToken, setShowToken] = React.useState(false);
-  const [hasRefreshToken, setHasRefreshToken] = React.useState<boolean>(() => {
-    try { return !!localStorage.getItem('spotify_refresh_token'); } catch { return false; }
-  });
+  const [hasRefreshToken, setHasRefreshToken] = React.useState<boolean>(() => tokenManager.hasRefreshToken());
   const [timeRemaining, setTimeRemaining] = React.useState<string>(() => {
     if (!tokenExpiryTs) return '—';
     const diff = tokenExpiryTs - Date.now();
@@ -58,13 +63,10 @@ const Settings: React.FC = () => {
   React.useEffect(() => {
     const tick = () => {
       try {
-        const v = localStorage.getItem('spotify_token_expiry');
-        const rt = localStorage.getItem('spotify_refresh_token');
-        const tv = localStorage.getItem('spotify_token');
-        const ts = v ? parseInt(v, 10) : null;
+        const ts = tokenManager.getExpiry();
         setTokenExpiryTs(ts);
-        setTokenValue(tv);
-        setHasRefreshToken(!!rt);
+        setTokenValue(tokenManager.peekAccessToken());
+        setHasRefreshToken(tokenManager.hasRefreshToken());
         if (!ts) return setTimeRemaining('—');
         const diff = ts - Date.now();
         setTimeRemaining(diff > 0 ? msToTime(diff) : 'Expired');
@@ -101,16 +103,14 @@ const Settings: React.FC = () => {
       if (result.success) {
         if (result.newToken) setTokenValue(result.newToken);
         
-        const expiryStr = localStorage.getItem('spotify_token_expiry');
-        if (expiryStr) {
-          const expiryTs = parseInt(expiryStr, 10);
+        const expiryTs = tokenManager.getExpiry();
+        if (expiryTs) {
           setTokenExpiryTs(expiryTs);
           const diff = expiryTs - Date.now();
           setTimeRemaining(diff > 0 ? msToTime(diff) : 'Expired');
         }
 
-        setHasRefreshToken(!!localStorage.getItem('spotify_refresh_token'));
-        window.dispatchEvent(new Event('spotify_token_updated'));
+        setHasRefreshToken(tokenManager.hasRefreshToken());
 
         setRefreshStatus('success');
         setSnackbarMessage('Access token refreshed successfully!');
@@ -137,6 +137,23 @@ const Settings: React.FC = () => {
     }
   };
 
+  const [confirmWipeOpen, setConfirmWipeOpen] = React.useState(false);
+  const [wiping, setWiping] = React.useState(false);
+
+  const wipeLocalData = async () => {
+    setWiping(true);
+    try {
+      await accountService.wipeAllLocalData();
+    } catch (err) {
+      console.error('Failed to wipe local data', err);
+    }
+    // Start over from a clean slate - nothing in memory survives the reload
+    window.location.replace('/');
+  };
+
+  // Re-read each render - the token tick re-renders after every refresh
+  const grantedScopes = tokenManager.getGrantedScopes();
+
   return (
     <div className="min-h-[100dvh] app-background flex overflow-hidden safe-area-bottom">
       <Sidebar 
@@ -161,7 +178,7 @@ const Settings: React.FC = () => {
                   Settings
                 </Typography>
                 <Typography className="text-gray-400 text-[10px] sm:text-xs">
-                  Authentication & Security
+                  Authentication, Security & Shortcuts
                 </Typography>
               </div>
             </div>
@@ -296,6 +313,94 @@ const Settings: React.FC = () => {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Permissions - one row per feature, granted from the scopes of the current token */}
+            {!isGuest && (
+              <Card className="bg-white/5 border border-white/10 backdrop-blur-md mt-4">
+                <CardContent className="p-0">
+                  <div className="px-3 sm:px-5 py-2 sm:py-3 border-b border-white/10 flex items-center gap-2 bg-black/20">
+                    <LockOpen className="text-green-500" fontSize="small" />
+                    <Typography variant="subtitle2" className="text-white font-bold text-xs sm:text-sm">
+                      Permissions
+                    </Typography>
+                  </div>
+
+                  <div className="divide-y divide-white/5">
+                    {(Object.keys(SCOPE_FEATURES) as ScopeFeatureId[]).map(id => {
+                      const feature = SCOPE_FEATURES[id];
+                      const missing = missingScopes(id, grantedScopes);
+                      return (
+                        <div key={id} className="px-3 sm:px-5 py-2.5 flex items-center gap-3">
+                          <div className="flex-1 min-w-0">
+                            <Typography className="text-white text-xs sm:text-sm font-medium">
+                              {feature.label}
+                            </Typography>
+                            <Typography className="text-gray-500 text-[10px] sm:text-xs truncate">
+                              {feature.description}
+                            </Typography>
+                          </div>
+                          {missing.length === 0 ? (
+                            <div className="flex items-center gap-1 text-green-400 shrink-0">
+                              <CheckCircle style={{ fontSize: 14 }} />
+                              <span className="font-bold text-[10px] sm:text-xs">Granted</span>
+                            </div>
+                          ) : (
+                            <Tooltip title={`Missing: ${missing.join(', ')}`}>
+                              <Button
+                                size="small"
+                                variant="outlined"
+                                onClick={() => requestScopes([id])}
+                                className="shrink-0 normal-case text-xs border-white/20 text-white hover:border-green-500"
+                              >
+                                Grant
+                              </Button>
+                            </Tooltip>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Local data - everything the app keeps on this device */}
+            <Card className="bg-white/5 border border-white/10 backdrop-blur-md mt-4">
+              <CardContent className="p-0">
+                <div className="px-3 sm:px-5 py-2 sm:py-3 border-b border-white/10 flex items-center gap-2 bg-black/20">
+                  <Security className="text-green-500" fontSize="small" />
+                  <Typography variant="subtitle2" className="text-white font-bold text-xs sm:text-sm">
+                    Local Data
+                  </Typography>
+                </div>
+
+                <div className="px-3 sm:px-5 py-2.5 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <Typography className="text-white text-xs sm:text-sm font-medium">
+                      {secureStorage.isEncrypted() ? 'Encrypted on this device' : 'Not encrypted'}
+                    </Typography>
+                    <Typography className="text-gray-500 text-[10px] sm:text-xs">
+                      {secureStorage.isEncrypted()
+                        ? 'Tokens, caches, analysis results and listening history are encrypted with a key that never leaves this browser'
+                        : 'This browser can\'t encrypt stored data here (it needs a secure origin)'}
+                    </Typography>
+                  </div>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    color="error"
+                    startIcon={<DeleteForever fontSize="small" />}
+                    onClick={() => setConfirmWipeOpen(true)}
+                    disabled={wiping}
+                    className="shrink-0 normal-case text-xs"
+                  >
+                    Wipe all local data
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <ShortcutSettings />
           </Container>
         </main>
       </div>
@@ -315,6 +420,18 @@ const Settings: React.FC = () => {
           {snackbarMessage}
         </Alert>
       </Snackbar>
+
+      <Dialog open={confirmWipeOpen} onClose={() => !wiping && setConfirmWipeOpen(false)}>
+        <DialogTitle>Wipe all local data?</DialogTitle>
+        <DialogContent className="text-gray-400 text-sm">
+          This signs out every account on this device and deletes their tokens, library caches,
+          listening history, analysis results, bookmarks and settings. It can't be undone.
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmWipeOpen(false)} disabled={wiping} sx={{ color: 'text.secondary' }}>Cancel</Button>
+          <Button onClick={wipeLocalData} disabled={wiping} color="error">Wipe</Button>
+        </DialogActions>
+      </Dialog>
     </div>
   );
 };
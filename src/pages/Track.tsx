@@ -0,0 +1,282 @@
+/**
+ * Track Page
+ * Details of a single track with its saved bookmarks; clicking one plays the track from there
+ */
+
+import React from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/auth';
+import { usePlayer } from '../context/player';
+import { useToast } from '../context/toast';
+import Sidebar from '../components/Sidebar';
+import Header from '../components/Header';
+import { getTrack } from '../services/libraryService';
+import { bookmarkService, type TrackBookmark } from '../services/bookmarkService';
+import { useTrackBookmarks } from '../hooks/useTrackBookmarks';
+import type { Track as SpotifyTrack } from '../types/spotify';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import BookmarkIcon from '@mui/icons-material/Bookmark';
+import BookmarkAddIcon from '@mui/icons-material/BookmarkAdd';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import MusicNoteIcon from '@mui/icons-material/MusicNote';
+import {
+  IconButton,
+  Tooltip,
+  Fade,
+  Skeleton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button
+} from '@mui/material';
+
+const formatTimestamp = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const Track: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { token } = useAuth();
+  const { currentTrack, position, play, seek } = usePlayer();
+  const toast = useToast();
+  const [sidebarOpen, setSidebarOpen] = React.useState(false);
+
+  const [track, setTrack] = React.useState<SpotifyTrack | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [renaming, setRenaming] = React.useState<TrackBookmark | null>(null);
+  const [renameLabel, setRenameLabel] = React.useState('');
+  const bookmarks = useTrackBookmarks(id);
+
+  const isCurrent = !!track && currentTrack?.id === track.id;
+  // Only consulted when the page opens - later track changes mustn't refetch or replace the page
+  const currentTrackRef = React.useRef(currentTrack);
+  currentTrackRef.current = currentTrack;
+
+  React.useEffect(() => {
+    if (!id || !token) return;
+    // The player already has the full track object when it's the one playing
+    const playing = currentTrackRef.current;
+    if (playing?.id === id) {
+      setTrack(playing);
+      setIsLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    getTrack(token, id).then(result => {
+      if (cancelled) return;
+      setTrack(result);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, token]);
+
+  const playFrom = async (positionMs: number) => {
+    if (!track) return;
+    try {
+      if (isCurrent) {
+        await seek(positionMs);
+      } else {
+        await play({ uris: [track.uri], position_ms: positionMs });
+      }
+    } catch (err) {
+      console.error('Play from bookmark error', err);
+      toast.showToast('Unable to play track', 'error');
+    }
+  };
+
+  const handleAddBookmark = () => {
+    if (!track) return;
+    bookmarkService.add(track, formatTimestamp(position), position);
+  };
+
+  const handleRename = () => {
+    if (!renaming) return;
+    const label = renameLabel.trim();
+    if (label) bookmarkService.rename(renaming.trackId, renaming.id, label);
+    setRenaming(null);
+  };
+
+  const albumImage = track?.album?.images?.[0]?.url;
+
+  return (
+    <div className="min-h-[100dvh] bg-gradient-to-br from-black via-gray-900 to-black flex safe-area-bottom">
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={() => setSidebarOpen(false)}
+        onHomeClick={() => navigate('/dashboard')}
+      />
+      <Header onMobileMenuToggle={() => setSidebarOpen(true)} />
+
+      <div className="flex-1 xl:ml-80 pb-28 pt-16 sm:pt-20">
+        <div className="relative w-full py-6 sm:py-10 px-3 sm:px-6 lg:px-12 space-y-6">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 hover:border-green-500/30 transition-all touch-target"
+          >
+            <ArrowBackIcon className="text-white" sx={{ fontSize: { xs: 20, sm: 24 } }} />
+          </button>
+
+          {/* Track */}
+          {isLoading ? (
+            <div className="flex items-center gap-4">
+              <Skeleton variant="rounded" width={128} height={128} sx={{ bgcolor: 'rgba(255,255,255,0.05)' }} />
+              <div className="flex-1 space-y-2">
+                <Skeleton width="40%" height={32} sx={{ bgcolor: 'rgba(255,255,255,0.05)' }} />
+                <Skeleton width="25%" sx={{ bgcolor: 'rgba(255,255,255,0.05)' }} />
+              </div>
+            </div>
+          ) : !track ? (
+            <div className="text-center py-16">
+              <MusicNoteIcon className="text-gray-600 mb-2" sx={{ fontSize: 48 }} />
+              <p className="text-gray-400 text-sm">Track not found</p>
+            </div>
+          ) : (
+            <Fade in timeout={600}>
+              <div className="flex flex-col sm:flex-row sm:items-end gap-4 sm:gap-6">
+                {albumImage ? (
+                  <img src={albumImage} alt={track.album?.name || track.name} className="w-32 h-32 sm:w-44 sm:h-44 rounded-xl object-cover shadow-2xl" />
+                ) : (
+                  <div className="w-32 h-32 sm:w-44 sm:h-44 rounded-xl bg-white/5 flex items-center justify-center">
+                    <MusicNoteIcon className="text-gray-600" sx={{ fontSize: 48 }} />
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-400 text-xs font-semibold uppercase tracking-wider">Track</p>
+                  <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-white truncate">{track.name}</h1>
+                  <p className="text-gray-400 text-sm mt-1 truncate">
+                    {track.artists.map((artist, i) => (
+                      <React.Fragment key={artist.id}>
+                        {i > 0 && ', '}
+                        <span onClick={() => navigate(`/artist/${artist.id}`)} className="hover:text-white hover:underline cursor-pointer">
+                          {artist.name}
+                        </span>
+                      </React.Fragment>
+                    ))}
+                    {track.album?.id && (
+                      <>
+                        {' • '}
+                        <span onClick={() => navigate(`/album/${track.album?.id}`)} className="hover:text-white hover:underline cursor-pointer">
+                          {track.album?.name}
+                        </span>
+                      </>
+                    )}
+                    {' • '}{formatTimestamp(track.duration_ms)}
+                  </p>
+                  <div className="flex items-center gap-2 mt-4">
+                    <Button
+                      onClick={() => playFrom(0)}
+                      variant="contained"
+                      startIcon={<PlayArrowIcon />}
+                      sx={{ textTransform: 'none', borderRadius: '9999px', color: 'black', fontWeight: 600 }}
+                    >
+                      Play
+                    </Button>
+                    {isCurrent && (
+                      <Button
+                        onClick={handleAddBookmark}
+                        variant="outlined"
+                        startIcon={<BookmarkAddIcon />}
+                        sx={{ textTransform: 'none', borderRadius: '9999px', borderColor: 'rgba(255,255,255,0.15)', color: 'white' }}
+                      >
+                        Bookmark {formatTimestamp(position)}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </Fade>
+          )}
+
+          {/* Bookmarks */}
+          {track && (
+            <section>
+              <h2 className="text-gray-400 text-xs font-semibold uppercase tracking-wider mb-2">Bookmarks</h2>
+              {bookmarks.length === 0 ? (
+                <p className="text-gray-500 text-sm py-4">
+                  No bookmarks yet - add one from the loop button in the player while this track plays
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  {bookmarks.map(bookmark => (
+                    <div
+                      key={bookmark.id}
+                      onClick={() => playFrom(bookmark.positionMs)}
+                      className="group flex items-center gap-3 p-2 rounded-lg hover:bg-white/5 cursor-pointer transition-colors"
+                    >
+                      <div className="w-10 h-10 rounded bg-green-500/10 flex items-center justify-center">
+                        <BookmarkIcon className="text-green-400" sx={{ fontSize: 18 }} />
+                      </div>
+                      <p className="flex-1 min-w-0 text-white text-sm truncate">{bookmark.label}</p>
+                      <span className="text-gray-500 text-xs tabular-nums">{formatTimestamp(bookmark.positionMs)}</span>
+                      <Tooltip title="Rename">
+                        <IconButton
+                          size="small"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setRenaming(bookmark);
+                            setRenameLabel(bookmark.label);
+                          }}
+                          className="opacity-0 group-hover:opacity-100"
+                          sx={{ color: 'text.secondary' }}
+                        >
+                          <EditIcon sx={{ fontSize: 16 }} />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete bookmark">
+                        <IconButton
+                          size="small"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            bookmarkService.remove(bookmark.trackId, bookmark.id);
+                          }}
+                          className="opacity-0 group-hover:opacity-100"
+                          sx={{ color: 'text.secondary' }}
+                        >
+                          <DeleteOutlineIcon sx={{ fontSize: 16 }} />
+                        </IconButton>
+                      </Tooltip>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={!!renaming} onClose={() => setRenaming(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Rename bookmark</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            size="small"
+            margin="dense"
+            label="Name"
+            value={renameLabel}
+            onChange={(e) => setRenameLabel(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename();
+            }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRenaming(null)} sx={{ color: 'text.secondary' }}>Cancel</Button>
+          <Button onClick={handleRename}>Save</Button>
+        </DialogActions>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Track;
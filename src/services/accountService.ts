@@ -0,0 +1,217 @@
+/**
+ * Account Service
+ * Several Spotify accounts signed in side by side on one device, with one of them active
+ *
+ * RULES:
+ * - The active account's tokens live where tokenManager keeps them; every other account's
+ *   tokens are set aside in its registry entry and swapped in on switch
+ * - Per-user caches are namespaced by user id (utils/userScope), so switching only has to
+ *   change the active id and reload
+ * - The first account registered on a device claims data cached before accounts were
+ *   namespaced; later ones start clean
+ * - Removing an account deletes its tokens and everything cached for it
+ * - Guest mode caches under its own namespace (GUEST_NAMESPACE), wiped when guest mode ends
+ * - wipeAllLocalData() is the one place that clears every store at once
+ */
+
+import type { User } from '../types/spotify';
+import { tokenManager, type StoredTokens } from './tokenManager';
+import { listeningHistoryService } from './listeningHistoryService';
+import { secureStorage } from './secureStorage';
+import { ACTIVE_ACCOUNT_KEY, GUEST_MARKER_KEY, GUEST_NAMESPACE, USER_SCOPED_KEYS, getActiveAccountId, keyForUser } from '../utils/userScope';
+
+export interface StoredAccount {
+  id: string;
+  user: User;
+  /** Tokens set aside while another account is active; null for the active account */
+  tokens: StoredTokens | null;
+  lastUsedAt: number;
+}
+
+/** Window event fired after the account list or the active account changes */
+export const ACCOUNTS_UPDATED_EVENT = 'spotify_accounts_updated';
+
+const ACCOUNTS_KEY = 'spotify_accounts';
+
+const hasTokens = (account: StoredAccount) => !!(account.tokens?.refreshToken || account.tokens?.accessToken);
+
+const mostRecentWithTokens = (accounts: StoredAccount[]): StoredAccount | null =>
+  accounts.filter(hasTokens).sort((a, b) => b.lastUsedAt - a.lastUsedAt)[0] || null;
+
+class AccountService {
+  getAccounts(): StoredAccount[] {
+    try {
+      const stored = secureStorage.getItem(ACCOUNTS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  getActiveAccountId(): string | null {
+    return getActiveAccountId();
+  }
+
+  /**
+   * Record the signed-in user as the active account, refreshing its stored profile
+   */
+  async register(user: User): Promise<void> {
+    const accounts = this.getAccounts();
+    const isFirstAccount = accounts.length === 0;
+    const existing = accounts.find(a => a.id === user.id);
+    const wasActive = getActiveAccountId() === user.id;
+
+    const entry: StoredAccount = { id: user.id, user, tokens: null, lastUsedAt: Date.now() };
+    this.save(existing ? accounts.map(a => (a.id === user.id ? entry : a)) : [...accounts, entry]);
+    if (wasActive) return;
+
+    const previous = getActiveAccountId();
+    if (previous) {
+      // Only happens when the login skipped addAccount() - the previous tokens are gone
+      console.warn(`Account ${previous} was replaced by ${user.id} without being set aside`);
+    }
+    localStorage.setItem(ACTIVE_ACCOUNT_KEY, user.id);
+
+    if (isFirstAccount && !existing) {
+      await this.claimUnscopedData(user.id);
+    } else {
+      USER_SCOPED_KEYS.forEach(base => secureStorage.removeItem(base));
+    }
+    this.notify();
+  }
+
+  /**
+   * Set the active account's tokens aside and leave it, keeping it in the list
+   * (before adding another account or entering guest mode)
+   */
+  deactivate() {
+    const activeId = getActiveAccountId();
+    if (!activeId) return;
+    const tokens = tokenManager.exportTokens();
+    this.save(this.getAccounts().map(a => (a.id === activeId ? { ...a, tokens } : a)));
+    localStorage.removeItem(ACTIVE_ACCOUNT_KEY);
+    tokenManager.clear();
+    this.notify();
+  }
+
+  /**
+   * Make another account active. The caller should reload so in-memory state is rebuilt
+   * for the new user. Returns false if the account has no tokens to switch to.
+   */
+  switchTo(id: string): boolean {
+    const activeId = getActiveAccountId();
+    if (id === activeId) return true;
+
+    const accounts = this.getAccounts();
+    const target = accounts.find(a => a.id === id);
+    if (!target?.tokens || !hasTokens(target)) return false;
+    const incoming = target.tokens;
+
+    const outgoing = activeId ? tokenManager.exportTokens() : null;
+    this.save(accounts.map(a => {
+      if (a.id === id) return { ...a, tokens: null, lastUsedAt: Date.now() };
+      if (a.id === activeId) return { ...a, tokens: outgoing };
+      return a;
+    }));
+    tokenManager.importTokens(incoming);
+    localStorage.setItem(ACTIVE_ACCOUNT_KEY, id);
+    this.notify();
+    return true;
+  }
+
+  /**
+   * With no account active (e.g. an abandoned "add account" login), go back to the most
+   * recently used one. Returns whether an account was resumed.
+   */
+  resumeLastAccount(): boolean {
+    if (getActiveAccountId()) return false;
+    const last = mostRecentWithTokens(this.getAccounts());
+    return !!last && this.switchTo(last.id);
+  }
+
+  /**
+   * Remove an account and everything cached for it. When it was the active account,
+   * returns the account to switch to next (the caller clears the current tokens first).
+   */
+  async remove(id: string): Promise<StoredAccount | null> {
+    const remaining = this.getAccounts().filter(a => a.id !== id);
+    this.save(remaining);
+    USER_SCOPED_KEYS.forEach(base => secureStorage.removeItem(keyForUser(base, id)));
+
+    let next: StoredAccount | null = null;
+    if (getActiveAccountId() === id) {
+      localStorage.removeItem(ACTIVE_ACCOUNT_KEY);
+      next = mostRecentWithTokens(remaining);
+    }
+    this.notify();
+
+    try {
+      await listeningHistoryService.deleteAccountHistory(id);
+    } catch (err) {
+      console.error('Failed to delete listening history for removed account', err);
+    }
+    return next;
+  }
+
+  /**
+   * End guest mode and delete what it cached while browsing the demo library
+   */
+  async leaveGuestMode(): Promise<void> {
+    localStorage.removeItem(GUEST_MARKER_KEY);
+    USER_SCOPED_KEYS.forEach(base => secureStorage.removeItem(keyForUser(base, GUEST_NAMESPACE)));
+    try {
+      await listeningHistoryService.deleteAccountHistory(GUEST_NAMESPACE);
+    } catch (err) {
+      console.error('Failed to delete guest listening history', err);
+    }
+  }
+
+  /**
+   * Sign every account out and delete everything the app stored on this device: tokens,
+   * caches, listening history and the storage key. The caller reloads the app afterwards.
+   */
+  async wipeAllLocalData(): Promise<void> {
+    const ids = this.getAccounts().map(a => a.id);
+    await tokenManager.signOut();
+    try {
+      await listeningHistoryService.deleteAllHistory(ids);
+    } catch (err) {
+      console.error('Failed to delete listening history', err);
+    }
+    await secureStorage.wipe();
+    this.notify();
+  }
+
+  /**
+   * Move caches written before accounts were namespaced into this account's namespace
+   */
+  private async claimUnscopedData(userId: string) {
+    USER_SCOPED_KEYS.forEach(base => {
+      const value = secureStorage.getItem(base);
+      if (value === null) return;
+      const scoped = keyForUser(base, userId);
+      if (secureStorage.getItem(scoped) === null) secureStorage.setItem(scoped, value);
+      secureStorage.removeItem(base);
+    });
+    try {
+      await listeningHistoryService.adoptUnscopedHistory();
+    } catch (err) {
+      console.error('Failed to move listening history to account', err);
+    }
+  }
+
+  private save(accounts: StoredAccount[]) {
+    try {
+      secureStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+    } catch (err) {
+      console.error('Failed to save accounts', err);
+    }
+  }
+
+  private notify() {
+    window.dispatchEvent(new CustomEvent(ACCOUNTS_UPDATED_EVENT));
+  }
+}
+
+// Singleton instance
+export const accountService = new AccountService();
@@ -6,6 +6,8 @@
 
 import type { AudioFeatures, TrackWithFeatures } from './recommendationEngine';
 import { recommendationEngine } from './recommendationEngine';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
+import { tokenManager } from './tokenManager';
 
 export interface SpotifyTrack {
   id: string;
@@ -81,7 +83,6 @@ const GENRE_TEMPLATES = {
 };
 
 export class AudioFeaturesService {
-  private token: string | null = null;
   private fetchQueue: Set<string> = new Set();
   private genreCache: Map<string, string[]> = new Map();
 
@@ -89,13 +90,6 @@ export class AudioFeaturesService {
     this.loadCachedData();
   }
 
-  /**
-   * Set the Spotify access token
-   */
-  setToken(token: string): void {
-    this.token = token;
-  }
-
   /**
    * Load cached data from localStorage
    */
@@ -393,7 +387,12 @@ export class AudioFeaturesService {
   async fetchArtistGenres(artistIds: string[]): Promise<Map<string, string[]>> {
     const results = new Map<string, string[]>();
 
-    if (!this.token || artistIds.length === 0) {
+    if (artistIds.length === 0) {
+      return results;
+    }
+
+    const token = await tokenManager.getAccessToken();
+    if (!token) {
       return results;
     }
 
@@ -418,9 +417,9 @@ export class AudioFeaturesService {
         const batch = uncachedIds.slice(i, i + 50);
         const ids = batch.join(',');
         
-        const response = await fetch(`https://api.spotify.com/v1/artists?ids=${ids}`, {
+        const response = await fetch(`${SPOTIFY_API_BASE}/artists?ids=${ids}`, {
           headers: {
-            'Authorization': `Bearer ${this.token}`,
+            'Authorization': `Bearer ${token}`,
           },
         });
 
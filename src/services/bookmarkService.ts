@@ -0,0 +1,87 @@
+/**
+ * Bookmark Service
+ * Named timestamps within tracks (e.g. "solo at 2:31"), kept in localStorage per track id
+ *
+ * Every change fires BOOKMARKS_UPDATED_EVENT so the player bar and the track page
+ * stay in step without sharing state.
+ */
+
+import { userKey } from '../utils/userScope';
+import { secureStorage } from './secureStorage';
+
+export interface TrackBookmark {
+  id: string;
+  trackId: string;
+  trackUri: string;
+  label: string;
+  positionMs: number;
+  createdAt: number;
+}
+
+/** Fired on window whenever bookmarks are added, renamed or removed */
+export const BOOKMARKS_UPDATED_EVENT = 'track-bookmarks-updated';
+
+const STORAGE_KEY = 'spotify_track_bookmarks';
+
+class BookmarkService {
+  private load(): Record<string, TrackBookmark[]> {
+    try {
+      const stored = secureStorage.getItem(userKey(STORAGE_KEY));
+      if (stored) return JSON.parse(stored);
+    } catch (err) {
+      console.warn('Failed to load track bookmarks', err);
+    }
+    return {};
+  }
+
+  private save(all: Record<string, TrackBookmark[]>) {
+    try {
+      secureStorage.setItem(userKey(STORAGE_KEY), JSON.stringify(all));
+    } catch (err) {
+      console.warn('Failed to save track bookmarks', err);
+    }
+    window.dispatchEvent(new CustomEvent(BOOKMARKS_UPDATED_EVENT));
+  }
+
+  /**
+   * Bookmarks of one track, in playback order
+   */
+  getForTrack(trackId: string): TrackBookmark[] {
+    return [...(this.load()[trackId] || [])].sort((a, b) => a.positionMs - b.positionMs);
+  }
+
+  add(track: { id: string; uri: string }, label: string, positionMs: number): TrackBookmark {
+    const bookmark: TrackBookmark = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      trackId: track.id,
+      trackUri: track.uri,
+      label,
+      positionMs: Math.max(0, Math.round(positionMs)),
+      createdAt: Date.now()
+    };
+    const all = this.load();
+    all[track.id] = [...(all[track.id] || []), bookmark];
+    this.save(all);
+    return bookmark;
+  }
+
+  rename(trackId: string, bookmarkId: string, label: string) {
+    const all = this.load();
+    all[trackId] = (all[trackId] || []).map(b => b.id === bookmarkId ? { ...b, label } : b);
+    this.save(all);
+  }
+
+  remove(trackId: string, bookmarkId: string) {
+    const all = this.load();
+    const remaining = (all[trackId] || []).filter(b => b.id !== bookmarkId);
+    if (remaining.length > 0) {
+      all[trackId] = remaining;
+    } else {
+      delete all[trackId];
+    }
+    this.save(all);
+  }
+}
+
+// Singleton instance
+export const bookmarkService = new BookmarkService();
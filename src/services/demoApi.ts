@@ -0,0 +1,658 @@
+/**
+ * Demo Web API
+ * In-browser stand-in for api.spotify.com that serves the bundled demo library
+ * (data/demoLibrary), so guest mode can browse a full library offline through the app's
+ * normal data layer - pages and services keep calling fetch(`${SPOTIFY_API_BASE}/...`).
+ *
+ * RULES:
+ * - installDemoApi() wraps window.fetch; only Web API requests carrying DEMO_ACCESS_TOKEN are
+ *   answered here, everything else goes to the network untouched
+ * - Response shapes follow the Web API (and server/mockApi, which serves the same normalized
+ *   data over HTTP): paging objects with absolute next URLs, expanded artists/albums/owners
+ * - Library and playlist changes apply to an in-memory copy and are gone after a reload
+ * - Nothing plays: GET /me/player answers 204 and player commands are accepted and ignored
+ * - Images are generated SVG gradients (data URIs), so nothing is fetched for artwork
+ */
+
+import { DEMO_LIBRARY, type DemoLibrary, type DemoUser, type DemoArtist, type DemoAlbum, type DemoTrack, type DemoPlaylist, type DemoCategory } from '../data/demoLibrary';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
+
+/** Bearer token that routes Web API requests to the demo library */
+export const DEMO_ACCESS_TOKEN = 'flowbeats-demo-token';
+
+interface DemoRequest {
+  method: string;
+  url: URL;
+  /** Path parameters captured by the route */
+  params: string[];
+  /** Parsed JSON body, if any */
+  body: Record<string, unknown> | null;
+}
+
+type Handler = (req: DemoRequest) => Response;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+}
+
+/** Simulated network latency, so loading states still show */
+const RESPONSE_DELAY_MS = 120;
+
+const API_PATH = new URL(SPOTIFY_API_BASE).pathname.replace(/\/$/, '');
+
+const db: DemoLibrary = structuredClone(DEMO_LIBRARY);
+let installed = false;
+
+// ---- Responses ----
+
+const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+
+const empty = (status = 204) => new Response(null, { status });
+
+const apiError = (status: number, message: string) => json({ error: { status, message } }, status);
+
+const notFound = () => apiError(404, 'Resource not found');
+
+// ---- Lookups ----
+
+const findArtist = (id: string) => db.artists.find(a => a.id === id);
+const findAlbum = (id: string) => db.albums.find(a => a.id === id);
+const findTrack = (id: string) => db.tracks.find(t => t.id === id);
+const findPlaylist = (id: string) => db.playlists.find(p => p.id === id);
+const findUser = (id: string): DemoUser | undefined => (id === db.me.id ? db.me : db.users.find(u => u.id === id));
+const albumTracks = (albumId: string) => db.tracks.filter(t => t.album === albumId);
+
+const isDefined = <T>(value: T | undefined): value is T => value !== undefined;
+
+/** Ids from ?ids= or a JSON body's ids array */
+const idsParam = (req: DemoRequest): string[] => {
+  const fromQuery = req.url.searchParams.get('ids')?.split(',') || [];
+  const fromBody = Array.isArray(req.body?.ids) ? (req.body.ids as string[]) : [];
+  return [...fromQuery, ...fromBody].map(id => id.trim()).filter(Boolean);
+};
+
+const idFromUri = (uri: string) => uri.split(':')[2] || '';
+
+/** Offset/limit page in the Web API's paging object shape */
+const paginate = <T>(req: DemoRequest, items: T[], defaultLimit = 20, maxLimit = 50) => {
+  const limit = Math.min(Math.max(1, Number(req.url.searchParams.get('limit')) || defaultLimit), maxLimit);
+  const offset = Math.max(0, Number(req.url.searchParams.get('offset')) || 0);
+  const pageUrl = (pageOffset: number) => {
+    const url = new URL(req.url);
+    url.searchParams.set('offset', String(pageOffset));
+    url.searchParams.set('limit', String(limit));
+    return url.toString();
+  };
+  return {
+    href: pageUrl(offset),
+    items: items.slice(offset, offset + limit),
+    limit,
+    offset,
+    total: items.length,
+    next: offset + limit < items.length ? pageUrl(offset + limit) : null,
+    previous: offset > 0 ? pageUrl(Math.max(0, offset - limit)) : null
+  };
+};
+
+// ---- Web API objects ----
+
+const imageCache = new Map<string, string>();
+
+/** Cover art: a gradient whose hue comes from the id */
+const images = (id: string) => {
+  let url = imageCache.get(id);
+  if (!url) {
+    const hue = [...id].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % 360, 7);
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="640" viewBox="0 0 640 640">` +
+      `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">` +
+      `<stop offset="0" stop-color="hsl(${hue},70%,45%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,20%)"/>` +
+      `</linearGradient></defs><rect width="640" height="640" fill="url(#g)"/></svg>`;
+    url = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    imageCache.set(id, url);
+  }
+  return [{ url, height: 640, width: 640 }];
+};
+
+const externalUrls = (type: string, id: string) => ({ spotify: `https://open.spotify.com/${type}/${id}` });
+
+const toUser = (user: DemoUser) => ({
+  id: user.id,
+  display_name: user.display_name,
+  type: 'user',
+  uri: `spotify:user:${user.id}`,
+  href: `${SPOTIFY_API_BASE}/users/${user.id}`,
+  external_urls: externalUrls('user', user.id),
+  followers: { href: null, total: user.followers },
+  images: images(user.id)
+});
+
+const toSimpleArtist = (artist: DemoArtist) => ({
+  id: artist.id,
+  name: artist.name,
+  type: 'artist',
+  uri: `spotify:artist:${artist.id}`,
+  href: `${SPOTIFY_API_BASE}/artists/${artist.id}`,
+  external_urls: externalUrls('artist', artist.id)
+});
+
+const toArtist = (artist: DemoArtist) => ({
+  ...toSimpleArtist(artist),
+  genres: artist.genres,
+  popularity: artist.popularity,
+  followers: { href: null, total: artist.followers },
+  images: images(artist.id)
+});
+
+const toSimpleAlbum = (album: DemoAlbum) => ({
+  id: album.id,
+  name: album.name,
+  album_type: album.album_type,
+  type: 'album',
+  uri: `spotify:album:${album.id}`,
+  href: `${SPOTIFY_API_BASE}/albums/${album.id}`,
+  external_urls: externalUrls('album', album.id),
+  images: images(album.id),
+  release_date: album.release_date,
+  release_date_precision: 'day',
+  total_tracks: albumTracks(album.id).length,
+  available_markets: ['US'],
+  artists: album.artists.map(findArtist).filter(isDefined).map(toSimpleArtist)
+});
+
+const toSimpleTrack = (track: DemoTrack) => ({
+  id: track.id,
+  name: track.name,
+  type: 'track',
+  uri: `spotify:track:${track.id}`,
+  href: `${SPOTIFY_API_BASE}/tracks/${track.id}`,
+  external_urls: externalUrls('track', track.id),
+  duration_ms: track.duration_ms,
+  explicit: track.explicit,
+  preview_url: null,
+  is_local: false,
+  is_playable: true,
+  disc_number: 1,
+  track_number: albumTracks(track.album).findIndex(t => t.id === track.id) + 1,
+  available_markets: ['US'],
+  artists: track.artists.map(findArtist).filter(isDefined).map(toSimpleArtist)
+});
+
+const toTrack = (track: DemoTrack) => {
+  const album = findAlbum(track.album);
+  return {
+    ...toSimpleTrack(track),
+    popularity: track.popularity,
+    external_ids: { isrc: `DEMO${track.id.slice(-8).toUpperCase()}` },
+    album: album ? toSimpleAlbum(album) : null
+  };
+};
+
+const toAlbum = (req: DemoRequest, album: DemoAlbum) => ({
+  ...toSimpleAlbum(album),
+  genres: [],
+  label: album.label,
+  popularity: Math.max(...albumTracks(album.id).map(t => t.popularity), 0),
+  copyrights: [{ text: `${album.release_date.slice(0, 4)} ${album.label}`, type: 'C' }],
+  tracks: paginate(req, albumTracks(album.id).map(toSimpleTrack), 50)
+});
+
+const toSimplePlaylist = (playlist: DemoPlaylist) => {
+  const owner = findUser(playlist.owner);
+  return {
+    id: playlist.id,
+    name: playlist.name,
+    description: playlist.description,
+    type: 'playlist',
+    uri: `spotify:playlist:${playlist.id}`,
+    href: `${SPOTIFY_API_BASE}/playlists/${playlist.id}`,
+    external_urls: externalUrls('playlist', playlist.id),
+    images: images(playlist.id),
+    public: playlist.public,
+    collaborative: false,
+    snapshot_id: `demo-snapshot-${playlist.tracks.length}`,
+    owner: owner ? toUser(owner) : null,
+    tracks: { href: `${SPOTIFY_API_BASE}/playlists/${playlist.id}/tracks`, total: playlist.tracks.length }
+  };
+};
+
+const playlistItems = (playlist: DemoPlaylist) => {
+  const owner = findUser(playlist.owner);
+  return playlist.tracks
+    .map(findTrack)
+    .filter(isDefined)
+    .map((track, i) => ({
+      added_at: new Date(Date.UTC(2024, 0, 1 + i)).toISOString(),
+      added_by: owner ? toUser(owner) : null,
+      is_local: false,
+      track: toTrack(track)
+    }));
+};
+
+const toCategory = (category: DemoCategory) => ({
+  id: category.id,
+  name: category.name,
+  href: `${SPOTIFY_API_BASE}/browse/categories/${category.id}`,
+  icons: images(`category-${category.id}`)
+});
+
+/** Saved items newest first, one day apart */
+const savedAt = (i: number) => new Date(Date.now() - (i + 1) * 24 * 60 * 60 * 1000).toISOString();
+
+// ---- Search ----
+
+/**
+ * Loose match like Spotify's: field filters (genre:"x", artist:x, year:2024) must match,
+ * free words rank results but any one of them is enough
+ */
+const searchItems = <T>(query: string, items: T[], text: (item: T) => string, fields: (item: T) => Record<string, string>) => {
+  const filters: Array<[string, string]> = [];
+  const free = query
+    .replace(/(\w+):"([^"]+)"|(\w+):(\S+)/g, (_m, f1, v1, f2, v2) => {
+      filters.push([(f1 || f2).toLowerCase(), (v1 || v2).toLowerCase()]);
+      return ' ';
+    })
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  return items
+    .map(item => {
+      const itemFields = fields(item);
+      if (!filters.every(([field, value]) => (itemFields[field] || '').toLowerCase().includes(value))) return null;
+      const haystack = text(item).toLowerCase();
+      const score = free.filter(word => haystack.includes(word)).length;
+      return free.length === 0 || score > 0 ? { item, score } : null;
+    })
+    .filter((match): match is { item: T; score: number } => !!match)
+    .sort((a, b) => b.score - a.score)
+    .map(match => match.item);
+};
+
+const artistNames = (ids: string[]) => ids.map(id => findArtist(id)?.name || '').join(' ');
+const artistGenres = (ids: string[]) => ids.flatMap(id => findArtist(id)?.genres || []).join(' ');
+
+const search = (req: DemoRequest) => {
+  const q = (req.url.searchParams.get('q') || '').trim();
+  const types = (req.url.searchParams.get('type') || '').split(',').filter(Boolean);
+  if (!q) return apiError(400, 'No search query');
+  if (types.length === 0) return apiError(400, 'Missing parameter type');
+
+  const result: Record<string, unknown> = {};
+  types.forEach(type => {
+    switch (type) {
+      case 'track':
+        result.tracks = paginate(req, searchItems(q, db.tracks,
+          t => `${t.name} ${artistNames(t.artists)} ${findAlbum(t.album)?.name || ''} ${artistGenres(t.artists)}`,
+          t => ({ track: t.name, artist: artistNames(t.artists), album: findAlbum(t.album)?.name || '', genre: artistGenres(t.artists), year: findAlbum(t.album)?.release_date.slice(0, 4) || '' })
+        ).map(toTrack));
+        break;
+      case 'artist':
+        result.artists = paginate(req, searchItems(q, db.artists,
+          a => `${a.name} ${a.genres.join(' ')}`,
+          a => ({ artist: a.name, genre: a.genres.join(' ') })
+        ).map(toArtist));
+        break;
+      case 'album':
+        result.albums = paginate(req, searchItems(q, db.albums,
+          a => `${a.name} ${artistNames(a.artists)} ${artistGenres(a.artists)}`,
+          a => ({ album: a.name, artist: artistNames(a.artists), genre: artistGenres(a.artists), year: a.release_date.slice(0, 4) })
+        ).map(toSimpleAlbum));
+        break;
+      case 'playlist':
+        result.playlists = paginate(req, searchItems(q, db.playlists,
+          p => `${p.name} ${p.description} playlist ${p.tracks.map(id => artistGenres(findTrack(id)?.artists || [])).join(' ')}`,
+          p => ({ genre: p.tracks.map(id => artistGenres(findTrack(id)?.artists || [])).join(' ') })
+        ).map(toSimplePlaylist));
+        break;
+    }
+  });
+  return json(result);
+};
+
+// ---- Routes ----
+
+const routes: Route[] = [];
+
+const route = (method: string, path: string, handler: Handler) => {
+  const pattern = new RegExp(`^${path.replace(/:\w+/g, '([^/]+)')}/?$`);
+  routes.push({ method, pattern, handler });
+};
+
+// Users
+
+route('GET', '/me', () => json({
+  ...toUser(db.me),
+  email: db.me.email,
+  country: db.me.country,
+  product: db.me.product,
+  explicit_content: { filter_enabled: false, filter_locked: false }
+}));
+
+route('GET', '/users/:id', req => {
+  const user = findUser(req.params[0]);
+  return user ? json(toUser(user)) : apiError(404, 'User not found');
+});
+
+route('GET', '/users/:id/playlists', req => {
+  const isMe = req.params[0] === db.me.id;
+  const owned = db.playlists.filter(p => p.owner === req.params[0] && (isMe || p.public));
+  return json(paginate(req, owned.map(toSimplePlaylist)));
+});
+
+route('POST', '/users/:id/playlists', req => {
+  if (req.params[0] !== db.me.id) return apiError(403, 'You cannot create a playlist for another user');
+  if (typeof req.body?.name !== 'string' || !req.body.name) return apiError(400, 'Missing required field: name');
+  const playlist: DemoPlaylist = {
+    id: `demoplaylist${Date.now().toString(36).padStart(10, '0')}`,
+    name: req.body.name,
+    description: typeof req.body.description === 'string' ? req.body.description : '',
+    owner: db.me.id,
+    public: req.body.public !== false,
+    tracks: []
+  };
+  db.playlists.push(playlist);
+  return json(toSimplePlaylist(playlist), 201);
+});
+
+route('GET', '/me/playlists', req => {
+  const mine = db.playlists.filter(p => p.owner === db.me.id || db.library.followed_playlists.includes(p.id));
+  return json(paginate(req, mine.map(toSimplePlaylist)));
+});
+
+route('GET', '/me/top/:type', req => {
+  if (req.params[0] === 'tracks') {
+    return json(paginate(req, db.library.top_tracks.map(findTrack).filter(isDefined).map(toTrack)));
+  }
+  if (req.params[0] === 'artists') {
+    return json(paginate(req, db.library.top_artists.map(findArtist).filter(isDefined).map(toArtist)));
+  }
+  return apiError(400, 'Invalid type, must be artists or tracks');
+});
+
+route('GET', '/me/player/recently-played', req => {
+  const limit = Math.min(Math.max(1, Number(req.url.searchParams.get('limit')) || 20), 50);
+  const items = db.library.recently_played
+    .map(({ track, minutes_ago }) => {
+      const found = findTrack(track);
+      return found ? { track: toTrack(found), played_at: new Date(Date.now() - minutes_ago * 60 * 1000).toISOString(), context: null } : undefined;
+    })
+    .filter(isDefined)
+    .slice(0, limit);
+  return json({
+    href: req.url.toString(),
+    items,
+    limit,
+    next: null,
+    cursors: items.length > 0
+      ? { after: String(Date.parse(items[0].played_at)), before: String(Date.parse(items[items.length - 1].played_at)) }
+      : null
+  });
+});
+
+// Playlists
+
+route('GET', '/playlists/:id', req => {
+  const playlist = findPlaylist(req.params[0]);
+  if (!playlist) return notFound();
+  return json({ ...toSimplePlaylist(playlist), followers: { href: null, total: 0 }, tracks: paginate(req, playlistItems(playlist), 100, 100) });
+});
+
+route('PUT', '/playlists/:id', req => {
+  const playlist = findPlaylist(req.params[0]);
+  if (!playlist) return notFound();
+  if (playlist.owner !== db.me.id) return apiError(403, 'You cannot modify a playlist you don\'t own');
+  if (typeof req.body?.name === 'string') playlist.name = req.body.name;
+  if (typeof req.body?.description === 'string') playlist.description = req.body.description;
+  if (typeof req.body?.public === 'boolean') playlist.public = req.body.public;
+  return empty(200);
+});
+
+route('GET', '/playlists/:id/tracks', req => {
+  const playlist = findPlaylist(req.params[0]);
+  return playlist ? json(paginate(req, playlistItems(playlist), 100, 100)) : notFound();
+});
+
+route('POST', '/playlists/:id/tracks', req => {
+  const playlist = findPlaylist(req.params[0]);
+  if (!playlist) return notFound();
+  const uris = Array.isArray(req.body?.uris)
+    ? (req.body.uris as string[])
+    : req.url.searchParams.get('uris')?.split(',') || [];
+  const ids = uris.map(idFromUri).filter(id => !!findTrack(id));
+  if (ids.length === 0) return apiError(400, 'Invalid track uri');
+  const position = typeof req.body?.position === 'number' ? req.body.position : playlist.tracks.length;
+  playlist.tracks.splice(position, 0, ...ids);
+  return json({ snapshot_id: `demo-snapshot-${playlist.tracks.length}` }, 201);
+});
+
+route('DELETE', '/playlists/:id/tracks', req => {
+  const playlist = findPlaylist(req.params[0]);
+  if (!playlist) return notFound();
+  const tracks = Array.isArray(req.body?.tracks) ? (req.body.tracks as Array<{ uri: string }>) : [];
+  const removed = new Set(tracks.map(t => idFromUri(t.uri)));
+  playlist.tracks = playlist.tracks.filter(id => !removed.has(id));
+  return json({ snapshot_id: `demo-snapshot-${playlist.tracks.length}` });
+});
+
+route('PUT', '/playlists/:id/followers', req => {
+  if (!findPlaylist(req.params[0])) return notFound();
+  if (!db.library.followed_playlists.includes(req.params[0])) db.library.followed_playlists.push(req.params[0]);
+  return empty(200);
+});
+
+route('DELETE', '/playlists/:id/followers', req => {
+  const playlist = findPlaylist(req.params[0]);
+  // Unfollowing your own playlist is how the Web API deletes it
+  if (playlist?.owner === db.me.id) db.playlists = db.playlists.filter(p => p.id !== playlist.id);
+  db.library.followed_playlists = db.library.followed_playlists.filter(id => id !== req.params[0]);
+  return empty(200);
+});
+
+route('GET', '/playlists/:id/followers/contains', req => {
+  const playlist = findPlaylist(req.params[0]);
+  if (!playlist) return notFound();
+  const following = playlist.owner === db.me.id || db.library.followed_playlists.includes(playlist.id);
+  return json(idsParam(req).map(id => id === db.me.id && following));
+});
+
+// Tracks, albums, artists
+
+route('GET', '/tracks/:id', req => {
+  const track = findTrack(req.params[0]);
+  return track ? json(toTrack(track)) : notFound();
+});
+
+route('GET', '/tracks', req => json({
+  tracks: idsParam(req).map(id => { const t = findTrack(id); return t ? toTrack(t) : null; })
+}));
+
+route('GET', '/albums/:id', req => {
+  const album = findAlbum(req.params[0]);
+  return album ? json(toAlbum(req, album)) : notFound();
+});
+
+route('GET', '/albums/:id/tracks', req => {
+  if (!findAlbum(req.params[0])) return notFound();
+  return json(paginate(req, albumTracks(req.params[0]).map(toSimpleTrack)));
+});
+
+route('GET', '/albums', req => json({
+  albums: idsParam(req).map(id => { const a = findAlbum(id); return a ? toAlbum(req, a) : null; })
+}));
+
+route('GET', '/artists/:id', req => {
+  const artist = findArtist(req.params[0]);
+  return artist ? json(toArtist(artist)) : notFound();
+});
+
+route('GET', '/artists/:id/top-tracks', req => {
+  if (!findArtist(req.params[0])) return notFound();
+  const tracks = db.tracks
+    .filter(t => t.artists.includes(req.params[0]))
+    .sort((a, b) => b.popularity - a.popularity)
+    .slice(0, 10);
+  return json({ tracks: tracks.map(toTrack) });
+});
+
+route('GET', '/artists/:id/albums', req => {
+  if (!findArtist(req.params[0])) return notFound();
+  return json(paginate(req, db.albums.filter(a => a.artists.includes(req.params[0])).map(toSimpleAlbum)));
+});
+
+route('GET', '/artists', req => json({
+  artists: idsParam(req).map(id => { const a = findArtist(id); return a ? toArtist(a) : null; })
+}));
+
+// Library
+
+/** GET/PUT/DELETE /me/{path} and /me/{path}/contains for a saved-items list */
+const savedCollection = (path: string, key: 'saved_tracks' | 'saved_albums', toItem: (req: DemoRequest, id: string, i: number) => object | undefined) => {
+  route('GET', `/me/${path}`, req =>
+    json(paginate(req, db.library[key].map((id, i) => toItem(req, id, i)).filter(isDefined)))
+  );
+  route('PUT', `/me/${path}`, req => {
+    const ids = idsParam(req).filter(id => !db.library[key].includes(id));
+    db.library[key] = [...ids, ...db.library[key]];
+    return empty(200);
+  });
+  route('DELETE', `/me/${path}`, req => {
+    const ids = new Set(idsParam(req));
+    db.library[key] = db.library[key].filter(id => !ids.has(id));
+    return empty(200);
+  });
+  route('GET', `/me/${path}/contains`, req => json(idsParam(req).map(id => db.library[key].includes(id))));
+};
+
+savedCollection('tracks', 'saved_tracks', (_req, id, i) => {
+  const track = findTrack(id);
+  return track ? { added_at: savedAt(i), track: toTrack(track) } : undefined;
+});
+savedCollection('albums', 'saved_albums', (req, id, i) => {
+  const album = findAlbum(id);
+  return album ? { added_at: savedAt(i), album: toAlbum(req, album) } : undefined;
+});
+
+route('GET', '/me/following', req => {
+  if (req.url.searchParams.get('type') !== 'artist') return apiError(400, "Only 'artist' type is supported");
+  const limit = Math.min(Math.max(1, Number(req.url.searchParams.get('limit')) || 20), 50);
+  const followed = db.library.followed_artists.map(findArtist).filter(isDefined);
+  const afterParam = req.url.searchParams.get('after');
+  const start = afterParam ? followed.findIndex(a => a.id === afterParam) + 1 : 0;
+  const items = followed.slice(start, start + limit);
+  const after = start + limit < followed.length ? items[items.length - 1].id : null;
+  const next = new URL(req.url);
+  if (after) next.searchParams.set('after', after);
+  return json({
+    artists: {
+      href: req.url.toString(),
+      items: items.map(toArtist),
+      limit,
+      total: followed.length,
+      cursors: { after },
+      next: after ? next.toString() : null
+    }
+  });
+});
+
+route('PUT', '/me/following', req => {
+  const ids = idsParam(req).filter(id => !db.library.followed_artists.includes(id));
+  db.library.followed_artists = [...db.library.followed_artists, ...ids];
+  return empty();
+});
+
+route('DELETE', '/me/following', req => {
+  const ids = new Set(idsParam(req));
+  db.library.followed_artists = db.library.followed_artists.filter(id => !ids.has(id));
+  return empty();
+});
+
+route('GET', '/me/following/contains', req => json(idsParam(req).map(id => db.library.followed_artists.includes(id))));
+
+// Search and browse
+
+route('GET', '/search', search);
+
+route('GET', '/browse/featured-playlists', req => {
+  const featured = db.featured_playlists.map(findPlaylist).filter(isDefined);
+  return json({ message: 'Picked for you', playlists: paginate(req, featured.map(toSimplePlaylist)) });
+});
+
+route('GET', '/browse/new-releases', req => {
+  const albums = [...db.albums].sort((a, b) => b.release_date.localeCompare(a.release_date));
+  return json({ albums: paginate(req, albums.map(toSimpleAlbum)) });
+});
+
+route('GET', '/browse/categories', req => json({ categories: paginate(req, db.categories.map(toCategory)) }));
+
+route('GET', '/browse/categories/:id', req => {
+  const category = db.categories.find(c => c.id === req.params[0]);
+  return category ? json(toCategory(category)) : notFound();
+});
+
+route('GET', '/browse/categories/:id/playlists', req => {
+  const category = db.categories.find(c => c.id === req.params[0]);
+  if (!category) return notFound();
+  const playlists = category.playlists.map(findPlaylist).filter(isDefined);
+  return json({ message: category.name, playlists: paginate(req, playlists.map(toSimplePlaylist)) });
+});
+
+// Player - there is no playback in the demo
+
+route('GET', '/me/player', () => empty());
+route('GET', '/me/player/currently-playing', () => empty());
+route('GET', '/me/player/devices', () => json({ devices: [] }));
+route('GET', '/me/player/queue', () => json({ currently_playing: null, queue: [] }));
+
+// ---- Fetch interception ----
+
+const requestUrl = (input: RequestInfo | URL): string =>
+  typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+const requestHeaders = (input: RequestInfo | URL, init?: RequestInit): Headers =>
+  new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+
+const parseBody = (body: BodyInit | null | undefined): Record<string, unknown> | null => {
+  if (typeof body !== 'string') return null;
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const handle = (method: string, url: URL, body: Record<string, unknown> | null): Response => {
+  const path = url.pathname.slice(API_PATH.length) || '/';
+  for (const { method: routeMethod, pattern, handler } of routes) {
+    if (routeMethod !== method) continue;
+    const match = path.match(pattern);
+    if (match) return handler({ method, url, params: match.slice(1).map(decodeURIComponent), body });
+  }
+  // Any other player command (play, pause, seek, volume...) is accepted and does nothing
+  if (path.startsWith('/me/player')) return empty();
+  return apiError(404, 'Service not found');
+};
+
+/**
+ * Route Web API requests made with DEMO_ACCESS_TOKEN to the demo library. Safe to call more than once.
+ */
+export const installDemoApi = () => {
+  if (installed) return;
+  installed = true;
+  const networkFetch = window.fetch.bind(window);
+
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = requestUrl(input);
+    if (!url.startsWith(SPOTIFY_API_BASE) || requestHeaders(input, init).get('Authorization') !== `Bearer ${DEMO_ACCESS_TOKEN}`) {
+      return networkFetch(input, init);
+    }
+    const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    await new Promise(resolve => setTimeout(resolve, RESPONSE_DELAY_MS));
+    if (init?.signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+    return handle(method, new URL(url), parseBody(init?.body));
+  };
+};
@@ -0,0 +1,122 @@
+/**
+ * Device Preferences Service
+ * Remembered Spotify Connect devices, their last volume and the auto-transfer rules, kept in localStorage
+ *
+ * The web player gets a new device id every session, so it is stored under
+ * WEB_PLAYER_KEY instead of its id. Every change fires DEVICE_PREFERENCES_UPDATED_EVENT.
+ */
+
+export interface RememberedDevice {
+  /** Device id, or WEB_PLAYER_KEY for this app's own player */
+  key: string;
+  name: string;
+  type: string;
+  /** Last volume set from this app (0-1) */
+  volume: number | null;
+  lastSeenAt: number;
+}
+
+export interface DevicePreferences {
+  devices: Record<string, RememberedDevice>;
+  /** Where playback starts when no device is active */
+  preferredDeviceKey: string | null;
+  /** When the web player comes online and nothing is playing, make it the active device */
+  takeOverWhenIdle: boolean;
+  /** Devices that playback is never moved away from automatically */
+  protectedDeviceKeys: string[];
+}
+
+export const WEB_PLAYER_KEY = 'web-player';
+
+/** Fired on window whenever preferences change */
+export const DEVICE_PREFERENCES_UPDATED_EVENT = 'device-preferences-updated';
+
+const STORAGE_KEY = 'spotify_device_preferences';
+
+const DEFAULT_PREFERENCES: DevicePreferences = {
+  devices: {},
+  preferredDeviceKey: null,
+  takeOverWhenIdle: false,
+  protectedDeviceKeys: []
+};
+
+class DevicePreferencesService {
+  get(): DevicePreferences {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) return { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) };
+    } catch (err) {
+      console.warn('Failed to load device preferences', err);
+    }
+    return DEFAULT_PREFERENCES;
+  }
+
+  private update(change: (prefs: DevicePreferences) => DevicePreferences) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(change(this.get())));
+    } catch (err) {
+      console.warn('Failed to save device preferences', err);
+    }
+    window.dispatchEvent(new CustomEvent(DEVICE_PREFERENCES_UPDATED_EVENT));
+  }
+
+  /**
+   * Record the devices Spotify currently reports (names can change, volumes are kept)
+   */
+  remember(devices: Array<{ key: string; name: string; type: string }>) {
+    if (devices.length === 0) return;
+    this.update(prefs => {
+      const next = { ...prefs.devices };
+      devices.forEach(device => {
+        next[device.key] = { ...device, volume: next[device.key]?.volume ?? null, lastSeenAt: Date.now() };
+      });
+      return { ...prefs, devices: next };
+    });
+  }
+
+  setVolume(key: string, volume: number) {
+    if (this.get().devices[key]?.volume === volume) return;
+    this.update(prefs => {
+      const existing = prefs.devices[key];
+      if (!existing) return prefs;
+      return { ...prefs, devices: { ...prefs.devices, [key]: { ...existing, volume } } };
+    });
+  }
+
+  getVolume(key: string): number | null {
+    return this.get().devices[key]?.volume ?? null;
+  }
+
+  forget(key: string) {
+    this.update(prefs => {
+      const devices = { ...prefs.devices };
+      delete devices[key];
+      return {
+        ...prefs,
+        devices,
+        preferredDeviceKey: prefs.preferredDeviceKey === key ? null : prefs.preferredDeviceKey,
+        protectedDeviceKeys: prefs.protectedDeviceKeys.filter(k => k !== key)
+      };
+    });
+  }
+
+  setPreferredDevice(key: string | null) {
+    this.update(prefs => ({ ...prefs, preferredDeviceKey: key }));
+  }
+
+  setTakeOverWhenIdle(enabled: boolean) {
+    this.update(prefs => ({ ...prefs, takeOverWhenIdle: enabled }));
+  }
+
+  setProtected(key: string, isProtected: boolean) {
+    this.update(prefs => ({
+      ...prefs,
+      protectedDeviceKeys: isProtected
+        ? [...new Set([...prefs.protectedDeviceKeys, key])]
+        : prefs.protectedDeviceKeys.filter(k => k !== key)
+    }));
+  }
+}
+
+// Singleton instance
+export const devicePreferencesService = new DevicePreferencesService();
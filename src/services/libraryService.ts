@@ -1,9 +1,18 @@
 /**
  * Library Service
  * Handles Spotify library operations: saving/removing tracks, following/unfollowing playlists
+ *
+ * Calls whose scopes weren't granted are skipped instead of sent: checks quietly report
+ * "not saved", actions offer re-consent (see scopeConsent) and report failure.
+ * Changes rejected because the session has ended are queued and sent again after the next
+ * sign-in (see sessionRecoveryService).
  */
 
-const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
+import type { Track } from '../types/spotify';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
+import { hasFeature, requireFeature } from './scopeConsent';
+import { tokenManager } from './tokenManager';
+import { sessionRecoveryService, type PendingMutation } from './sessionRecoveryService';
 
 export interface LibraryService {
   // Track operations
@@ -21,11 +30,44 @@ export interface LibraryService {
   removeTrackFromPlaylist: (playlistId: string, trackUri: string) => Promise<boolean>;
 }
 
+/**
+ * Send a library change. A 401 gets one refresh and retry; if the session has ended the
+ * change is queued for after the next sign-in and the 401 response is returned.
+ */
+const sendChange = async (
+  token: string,
+  label: string,
+  method: PendingMutation['method'],
+  url: string,
+  body?: unknown
+): Promise<Response> => {
+  const json = body === undefined ? undefined : JSON.stringify(body);
+  const send = (accessToken: string) => fetch(url, {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      ...(json ? { 'Content-Type': 'application/json' } : {})
+    },
+    body: json
+  });
+
+  const response = await send(token);
+  if (response.status !== 401) return response;
+
+  const refreshed = await tokenManager.refresh();
+  if (refreshed.success && refreshed.token) return send(refreshed.token);
+  if (!tokenManager.hasRefreshToken()) {
+    sessionRecoveryService.queueMutation({ label, method, url, body: json });
+  }
+  return response;
+};
+
 /**
  * Check if tracks are saved in user's library
  */
 export const checkSavedTracks = async (token: string, trackIds: string[]): Promise<boolean[]> => {
   if (!token || trackIds.length === 0) return [];
+  if (!hasFeature('library')) return trackIds.map(() => false);
   
   try {
     const response = await fetch(
@@ -52,15 +94,10 @@ export const checkSavedTracks = async (token: string, trackIds: string[]): Promi
  */
 export const saveTrack = async (token: string, trackId: string): Promise<boolean> => {
   if (!token || !trackId) return false;
+  if (!requireFeature('library')) return false;
   
   try {
-    const response = await fetch(
-      `${SPOTIFY_API_BASE}/me/tracks?ids=${trackId}`,
-      {
-        method: 'PUT',
-        headers: { Authorization: `Bearer ${token}` }
-      }
-    );
+    const response = await sendChange(token, 'Save track', 'PUT', `${SPOTIFY_API_BASE}/me/tracks?ids=${trackId}`);
     
     return response.ok;
   } catch (error) {
@@ -74,15 +111,10 @@ export const saveTrack = async (token: string, trackId: string): Promise<boolean
  */
 export const removeTrack = async (token: string, trackId: string): Promise<boolean> => {
   if (!token || !trackId) return false;
+  if (!requireFeature('library')) return false;
   
   try {
-    const response = await fetch(
-      `${SPOTIFY_API_BASE}/me/tracks?ids=${trackId}`,
-      {
-        method: 'DELETE',
-        headers: { Authorization: `Bearer ${token}` }
-      }
-    );
+    const response = await sendChange(token, 'Remove track', 'DELETE', `${SPOTIFY_API_BASE}/me/tracks?ids=${trackId}`);
     
     return response.ok;
   } catch (error) {
@@ -127,18 +159,15 @@ export const checkFollowingPlaylists = async (
  */
 export const followPlaylist = async (token: string, playlistId: string): Promise<boolean> => {
   if (!token || !playlistId) return false;
+  if (!requireFeature('playlists')) return false;
   
   try {
-    const response = await fetch(
+    const response = await sendChange(
+      token,
+      'Follow playlist',
+      'PUT',
       `${SPOTIFY_API_BASE}/playlists/${playlistId}/followers`,
-      {
-        method: 'PUT',
-        headers: { 
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ public: false })
-      }
+      { public: false }
     );
     
     return response.ok;
@@ -153,15 +182,10 @@ export const followPlaylist = async (token: string, playlistId: string): Promise
  */
 export const unfollowPlaylist = async (token: string, playlistId: string): Promise<boolean> => {
   if (!token || !playlistId) return false;
+  if (!requireFeature('playlists')) return false;
   
   try {
-    const response = await fetch(
-      `${SPOTIFY_API_BASE}/playlists/${playlistId}/followers`,
-      {
-        method: 'DELETE',
-        headers: { Authorization: `Bearer ${token}` }
-      }
-    );
+    const response = await sendChange(token, 'Unfollow playlist', 'DELETE', `${SPOTIFY_API_BASE}/playlists/${playlistId}/followers`);
     
     return response.ok;
   } catch (error) {
@@ -175,6 +199,7 @@ export const unfollowPlaylist = async (token: string, playlistId: string): Promi
  */
 export const checkSavedAlbums = async (token: string, albumIds: string[]): Promise<boolean[]> => {
   if (!token || albumIds.length === 0) return [];
+  if (!hasFeature('library')) return albumIds.map(() => false);
   
   try {
     const response = await fetch(
@@ -201,15 +226,10 @@ export const checkSavedAlbums = async (token: string, albumIds: string[]): Promi
  */
 export const saveAlbum = async (token: string, albumId: string): Promise<boolean> => {
   if (!token || !albumId) return false;
+  if (!requireFeature('library')) return false;
   
   try {
-    const response = await fetch(
-      `${SPOTIFY_API_BASE}/me/albums?ids=${albumId}`,
-      {
-        method: 'PUT',
-        headers: { Authorization: `Bearer ${token}` }
-      }
-    );
+    const response = await sendChange(token, 'Save album', 'PUT', `${SPOTIFY_API_BASE}/me/albums?ids=${albumId}`);
     
     return response.ok;
   } catch (error) {
@@ -223,15 +243,10 @@ export const saveAlbum = async (token: string, albumId: string): Promise<boolean
  */
 export const removeAlbum = async (token: string, albumId: string): Promise<boolean> => {
   if (!token || !albumId) return false;
+  if (!requireFeature('library')) return false;
   
   try {
-    const response = await fetch(
-      `${SPOTIFY_API_BASE}/me/albums?ids=${albumId}`,
-      {
-        method: 'DELETE',
-        headers: { Authorization: `Bearer ${token}` }
-      }
-    );
+    const response = await sendChange(token, 'Remove album', 'DELETE', `${SPOTIFY_API_BASE}/me/albums?ids=${albumId}`);
     
     return response.ok;
   } catch (error) {
@@ -245,6 +260,7 @@ export const removeAlbum = async (token: string, albumId: string): Promise<boole
  */
 export const checkFollowingArtists = async (token: string, artistIds: string[]): Promise<boolean[]> => {
   if (!token || artistIds.length === 0) return [];
+  if (!hasFeature('follow')) return artistIds.map(() => false);
   
   try {
     const response = await fetch(
@@ -271,15 +287,10 @@ export const checkFollowingArtists = async (token: string, artistIds: string[]):
  */
 export const followArtist = async (token: string, artistId: string): Promise<boolean> => {
   if (!token || !artistId) return false;
+  if (!requireFeature('follow')) return false;
   
   try {
-    const response = await fetch(
-      `${SPOTIFY_API_BASE}/me/following?type=artist&ids=${artistId}`,
-      {
-        method: 'PUT',
-        headers: { Authorization: `Bearer ${token}` }
-      }
-    );
+    const response = await sendChange(token, 'Follow artist', 'PUT', `${SPOTIFY_API_BASE}/me/following?type=artist&ids=${artistId}`);
     
     return response.ok;
   } catch (error) {
@@ -293,15 +304,10 @@ export const followArtist = async (token: string, artistId: string): Promise<boo
  */
 export const unfollowArtist = async (token: string, artistId: string): Promise<boolean> => {
   if (!token || !artistId) return false;
+  if (!requireFeature('follow')) return false;
   
   try {
-    const response = await fetch(
-      `${SPOTIFY_API_BASE}/me/following?type=artist&ids=${artistId}`,
-      {
-        method: 'DELETE',
-        headers: { Authorization: `Bearer ${token}` }
-      }
-    );
+    const response = await sendChange(token, 'Unfollow artist', 'DELETE', `${SPOTIFY_API_BASE}/me/following?type=artist&ids=${artistId}`);
     
     return response.ok;
   } catch (error) {
@@ -319,18 +325,15 @@ export const addTrackToPlaylist = async (
   trackUri: string
 ): Promise<boolean> => {
   if (!token || !playlistId || !trackUri) return false;
+  if (!requireFeature('playlists')) return false;
   
   try {
-    const response = await fetch(
+    const response = await sendChange(
+      token,
+      'Add track to playlist',
+      'POST',
       `${SPOTIFY_API_BASE}/playlists/${playlistId}/tracks`,
-      {
-        method: 'POST',
-        headers: { 
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ uris: [trackUri] })
-      }
+      { uris: [trackUri] }
     );
     
     return response.ok;
@@ -349,18 +352,15 @@ export const removeTrackFromPlaylist = async (
   trackUri: string
 ): Promise<boolean> => {
   if (!token || !playlistId || !trackUri) return false;
+  if (!requireFeature('playlists')) return false;
   
   try {
-    const response = await fetch(
+    const response = await sendChange(
+      token,
+      'Remove track from playlist',
+      'DELETE',
       `${SPOTIFY_API_BASE}/playlists/${playlistId}/tracks`,
-      {
-        method: 'DELETE',
-        headers: { 
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ tracks: [{ uri: trackUri }] })
-      }
+      { tracks: [{ uri: trackUri }] }
     );
     
     return response.ok;
@@ -409,6 +409,7 @@ export const createPlaylist = async (
   isPublic: boolean = false
 ): Promise<any | null> => {
   if (!token || !userId || !name) return null;
+  if (!requireFeature('playlists')) return null;
   
   try {
     const response = await fetch(
@@ -450,6 +451,7 @@ export const addTracksToPlaylist = async (
   trackUris: string[]
 ): Promise<boolean> => {
   if (!token || !playlistId || trackUris.length === 0) return false;
+  if (!requireFeature('playlists')) return false;
   
   try {
     // Spotify API allows max 100 tracks per request
@@ -459,16 +461,12 @@ export const addTracksToPlaylist = async (
     }
     
     for (const chunk of chunks) {
-      const response = await fetch(
+      const response = await sendChange(
+        token,
+        'Add tracks to playlist',
+        'POST',
         `${SPOTIFY_API_BASE}/playlists/${playlistId}/tracks`,
-        {
-          method: 'POST',
-          headers: { 
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({ uris: chunk })
-        }
+        { uris: chunk }
       );
       
       if (!response.ok) {
@@ -483,3 +481,114 @@ export const addTracksToPlaylist = async (
     return false;
   }
 };
+
+/**
+ * Get the tracks of a playlist (first page only - enough to seed from)
+ */
+export const getPlaylistTracks = async (token: string, playlistId: string, limit = 100): Promise<Track[]> => {
+  if (!token || !playlistId) return [];
+
+  try {
+    const response = await fetch(
+      `${SPOTIFY_API_BASE}/playlists/${playlistId}/tracks?limit=${limit}`,
+      {
+        headers: { Authorization: `Bearer ${token}` }
+      }
+    );
+
+    if (!response.ok) {
+      console.error('Failed to fetch playlist tracks:', response.status);
+      return [];
+    }
+
+    const data = await response.json();
+    return (data.items || [])
+      .map((item: { track: Track | null }) => item.track)
+      .filter((track: Track | null): track is Track => !!track && track.type === 'track' && !!track.uri);
+  } catch (error) {
+    console.error('Error fetching playlist tracks:', error);
+    return [];
+  }
+};
+
+/**
+ * Get an artist's top tracks
+ */
+export const getArtistTopTracks = async (token: string, artistId: string): Promise<Track[]> => {
+  if (!token || !artistId) return [];
+
+  try {
+    const response = await fetch(
+      `${SPOTIFY_API_BASE}/artists/${artistId}/top-tracks?market=US`,
+      {
+        headers: { Authorization: `Bearer ${token}` }
+      }
+    );
+
+    if (!response.ok) {
+      console.error('Failed to fetch artist top tracks:', response.status);
+      return [];
+    }
+
+    const data = await response.json();
+    return data.tracks || [];
+  } catch (error) {
+    console.error('Error fetching artist top tracks:', error);
+    return [];
+  }
+};
+
+/**
+ * Get the tracks of an album, with the album attached to each track
+ */
+export const getAlbumTracks = async (token: string, albumId: string): Promise<Track[]> => {
+  if (!token || !albumId) return [];
+
+  try {
+    const response = await fetch(
+      `${SPOTIFY_API_BASE}/albums/${albumId}`,
+      {
+        headers: { Authorization: `Bearer ${token}` }
+      }
+    );
+
+    if (!response.ok) {
+      console.error('Failed to fetch album tracks:', response.status);
+      return [];
+    }
+
+    const album = await response.json();
+    // Album track objects are simplified and don't include the album itself
+    const { tracks, ...albumInfo } = album;
+    return (tracks?.items || []).map((track: Track) => ({ ...track, album: albumInfo }));
+  } catch (error) {
+    console.error('Error fetching album tracks:', error);
+    return [];
+  }
+};
+
+/**
+ * Get a single track
+ */
+export const getTrack = async (token: string, trackId: string): Promise<Track | null> => {
+  if (!token || !trackId) return null;
+
+  try {
+    const response = await fetch(
+      `${SPOTIFY_API_BASE}/tracks/${trackId}`,
+      {
+        headers: { Authorization: `Bearer ${token}` }
+      }
+    );
+
+    if (!response.ok) {
+      console.error('Failed to fetch track:', response.status);
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching track:', error);
+    return null;
+  }
+};
@@ -0,0 +1,409 @@
+/**
+ * Listening History Service
+ * Unbounded local log of every play, stored in IndexedDB
+ *
+ * Spotify's recently-played endpoint only returns the last 50 items, so the player
+ * records plays itself (see useListeningHistoryRecorder). Entries keep a small
+ * snapshot of the track so the History page can render without refetching.
+ *
+ * Each entry is stored encrypted with secureStorage's key; only the start time stays
+ * readable so IndexedDB can sort by it. Plain entries from older versions are still read
+ * and get encrypted the first time the database is opened.
+ */
+
+import type { Track } from '../types/spotify';
+import { GUEST_NAMESPACE, keyForUser, userKey } from '../utils/userScope';
+import { isEncryptedValue, secureStorage } from './secureStorage';
+
+export interface ListeningHistoryEntry {
+  /** Auto-increment key assigned by IndexedDB */
+  id?: number;
+  trackId: string;
+  trackUri: string;
+  trackName: string;
+  artists: Array<{ id: string; name: string }>;
+  albumId?: string;
+  albumName?: string;
+  /** The album's (first) artist - differs from the track's on compilations and features */
+  albumArtist?: string;
+  albumImage?: string;
+  isrc?: string;
+  /** Full length of the track (ms) */
+  trackDurationMs: number;
+  /** When playback of this track started (ms since epoch) */
+  startedAt: number;
+  /** Time actually spent playing, excluding pauses (ms) */
+  listenedMs: number;
+  /** True when the track was left before it reached the end */
+  skipped: boolean;
+  /** Album/playlist the track was played from */
+  contextUri: string | null;
+}
+
+/**
+ * A place in the newest-first history: entries after it started earlier, or at the same
+ * time with a lower id (imported plays often share a start time to the second)
+ */
+export interface HistoryPosition {
+  startedAt: number;
+  id: number;
+}
+
+export interface HistoryQuery {
+  /** Only return entries after this one - pass the last entry shown to get the next page */
+  before?: HistoryPosition;
+  limit?: number;
+  /** Case-insensitive match on track, artist or album name */
+  search?: string;
+}
+
+/** Window event fired after the history changes so open views can refresh */
+export const HISTORY_UPDATED_EVENT = 'listening-history-updated';
+
+const DB_NAME = 'spotify_listening_history';
+const DB_VERSION = 2;
+const STORE_NAME = 'plays';
+
+/** Records read per round trip while searching (each one has to be decrypted to match) */
+const SEARCH_BATCH_SIZE = 200;
+
+/** A play as stored: the encrypted entry plus the start time the index sorts by */
+interface StoredPlay {
+  id?: number;
+  startedAt: number;
+  data: string;
+}
+
+/** Stored records - plain entries are left from before encryption */
+type StoredRecord = StoredPlay | ListeningHistoryEntry;
+
+/** Two plays of the same track starting this close together are treated as one */
+const DUPLICATE_WINDOW_MS = 60000;
+
+/**
+ * Build a history entry from a track and the recorder's play bookkeeping
+ */
+export const createHistoryEntry = (
+  track: Track,
+  play: { startedAt: number; listenedMs: number; skipped: boolean; contextUri: string | null }
+): ListeningHistoryEntry => ({
+  trackId: track.id,
+  trackUri: track.uri,
+  trackName: track.name,
+  artists: (track.artists || []).map(a => ({ id: a.id, name: a.name })),
+  albumId: track.album?.id,
+  albumName: track.album?.name,
+  albumArtist: track.album?.artists?.[0]?.name,
+  albumImage: track.album?.images?.[track.album.images.length - 1]?.url || track.album?.images?.[0]?.url,
+  isrc: track.external_ids?.isrc,
+  trackDurationMs: track.duration_ms,
+  ...play
+});
+
+const toStored = async (entry: ListeningHistoryEntry): Promise<StoredPlay> => {
+  const fields = { ...entry };
+  // IndexedDB assigns ids, so imported data can't collide with existing keys
+  delete fields.id;
+  return { startedAt: entry.startedAt, data: await secureStorage.encryptValue(JSON.stringify(fields)) };
+};
+
+/** The entry behind a stored record, or null if it can't be decrypted (the key was lost) */
+const fromStored = async (record: StoredRecord): Promise<ListeningHistoryEntry | null> => {
+  if (!('data' in record)) return record;
+  try {
+    return { ...JSON.parse(await secureStorage.decryptValue(record.data)), id: record.id };
+  } catch (err) {
+    console.warn(`Skipping history entry ${record.id} - it can't be decrypted`, err);
+    return null;
+  }
+};
+
+const fromStoredAll = async (records: StoredRecord[]): Promise<ListeningHistoryEntry[]> =>
+  (await Promise.all(records.map(fromStored))).filter((entry): entry is ListeningHistoryEntry => entry !== null);
+
+/**
+ * Open (and create/upgrade) a history database
+ */
+const openHistoryDb = (name: string): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('startedAt', 'startedAt');
+        return;
+      }
+      // Version 1 also indexed trackId, which is encrypted now
+      const store = request.transaction!.objectStore(STORE_NAME);
+      if (store.indexNames.contains('trackId')) store.deleteIndex('trackId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readAllRecords = (db: IDBDatabase): Promise<StoredRecord[]> =>
+  new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('startedAt').getAll();
+    request.onsuccess = () => resolve(request.result as StoredRecord[]);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Up to `count` records, newest first, starting after `position`. Records are only collected
+ * here - decrypting inside the cursor would let the transaction close under it.
+ */
+const readRecords = (db: IDBDatabase, position: HistoryPosition | undefined, count: number): Promise<StoredRecord[]> =>
+  new Promise((resolve, reject) => {
+    const records: StoredRecord[] = [];
+    const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('startedAt');
+    const range = position ? IDBKeyRange.upperBound(position.startedAt) : undefined;
+    // 'prev' walks plays with the same start time from the highest id down
+    const request = index.openCursor(range, 'prev');
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || records.length >= count) {
+        resolve(records);
+        return;
+      }
+      if (!position || cursor.key !== position.startedAt || (cursor.primaryKey as number) < position.id) {
+        records.push(cursor.value as StoredRecord);
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Encrypt entries stored plain - by older versions, or while no key was available
+ */
+const encryptPlainRecords = async (db: IDBDatabase): Promise<void> => {
+  if (!secureStorage.isEncrypted()) return;
+  const plain = (await readAllRecords(db)).filter(record => !('data' in record) || !isEncryptedValue(record.data));
+  if (plain.length === 0) return;
+
+  const entries = await fromStoredAll(plain);
+  const encrypted = await Promise.all(entries.map(async entry => ({ ...(await toStored(entry)), id: entry.id })));
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    encrypted.forEach(record => store.put(record));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const deleteHistoryDb = (name: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // Another tab still has it open - it goes once that tab closes the connection
+    request.onblocked = () => resolve();
+  });
+
+class ListeningHistoryService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private dbName: string | null = null;
+
+  /**
+   * Open the active account's database once and reuse the connection until the account changes
+   */
+  private openDb(): Promise<IDBDatabase> {
+    const name = userKey(DB_NAME);
+    if (this.dbPromise && this.dbName === name) return this.dbPromise;
+
+    this.dbPromise?.then(db => db.close()).catch(() => {});
+    this.dbName = name;
+    const promise = openHistoryDb(name);
+    this.dbPromise = promise;
+    promise
+      .then(encryptPlainRecords)
+      .catch(err => console.error('Failed to encrypt listening history', err));
+
+    // Allow a retry on the next call if opening failed
+    promise.catch(() => {
+      if (this.dbPromise === promise) this.dbPromise = null;
+    });
+    return promise;
+  }
+
+  private notify(): void {
+    window.dispatchEvent(new CustomEvent(HISTORY_UPDATED_EVENT));
+  }
+
+  /**
+   * Append plays to the history
+   */
+  async addEntries(entries: ListeningHistoryEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const db = await this.openDb();
+    // Encrypt first: the transaction would commit while waiting for it
+    const records = await Promise.all(entries.map(toStored));
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      records.forEach(record => store.add(record));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    this.notify();
+  }
+
+  async addEntry(entry: ListeningHistoryEntry): Promise<void> {
+    return this.addEntries([entry]);
+  }
+
+  /**
+   * Merge entries from an import, skipping plays that are already recorded.
+   * Recorded and imported start times rarely match exactly, so any play of the same
+   * track within DUPLICATE_WINDOW_MS counts as the same listen. Returns the entries that
+   * were actually added.
+   */
+  async importEntries(entries: ListeningHistoryEntry[]): Promise<{ added: ListeningHistoryEntry[]; duplicates: number }> {
+    const existing = await this.getAllEntries();
+    const startsByTrack = new Map<string, number[]>();
+    existing.forEach(entry => {
+      const starts = startsByTrack.get(entry.trackUri) || [];
+      starts.push(entry.startedAt);
+      startsByTrack.set(entry.trackUri, starts);
+    });
+
+    const fresh = entries.filter(entry => {
+      const starts = startsByTrack.get(entry.trackUri) || [];
+      if (starts.some(start => Math.abs(start - entry.startedAt) < DUPLICATE_WINDOW_MS)) return false;
+      // Also dedupe within the import itself (overlapping export files)
+      starts.push(entry.startedAt);
+      startsByTrack.set(entry.trackUri, starts);
+      return true;
+    });
+
+    await this.addEntries(fresh);
+    return { added: fresh, duplicates: entries.length - fresh.length };
+  }
+
+  /**
+   * Page through the history, newest first
+   */
+  async getEntries({ before, limit = 100, search }: HistoryQuery = {}): Promise<ListeningHistoryEntry[]> {
+    const db = await this.openDb();
+    const needle = search?.trim().toLowerCase();
+    const matches = (entry: ListeningHistoryEntry) => !needle ||
+      [entry.trackName, entry.albumName || '', ...entry.artists.map(a => a.name)]
+        .some(text => text.toLowerCase().includes(needle));
+
+    const results: ListeningHistoryEntry[] = [];
+    let position = before;
+    while (results.length < limit) {
+      const count = needle ? SEARCH_BATCH_SIZE : limit - results.length;
+      const records = await readRecords(db, position, count);
+      const last = records[records.length - 1];
+      if (!last) break;
+      position = { startedAt: last.startedAt, id: last.id! };
+
+      for (const entry of await fromStoredAll(records)) {
+        if (results.length >= limit) break;
+        if (matches(entry)) results.push(entry);
+      }
+      if (records.length < count) break;
+    }
+    return results;
+  }
+
+  /**
+   * Every entry, oldest first
+   */
+  async getAllEntries(): Promise<ListeningHistoryEntry[]> {
+    return fromStoredAll(await readAllRecords(await this.openDb()));
+  }
+
+  async count(): Promise<number> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).count();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteEntry(id: number): Promise<void> {
+    const db = await this.openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).delete(id);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    this.notify();
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).clear();
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    this.notify();
+  }
+
+  /**
+   * Move plays recorded while nobody was signed in (or before accounts were namespaced)
+   * into the active account's history
+   */
+  async adoptUnscopedHistory(): Promise<void> {
+    if (userKey(DB_NAME) === DB_NAME || typeof indexedDB === 'undefined') return;
+    const legacy = await openHistoryDb(DB_NAME);
+    const records = await readAllRecords(legacy);
+    legacy.close();
+    const entries = await fromStoredAll(records);
+    if (entries.length > 0) await this.addEntries(entries);
+    await deleteHistoryDb(DB_NAME);
+  }
+
+  /**
+   * Delete an account's whole history (used when the account is removed from this device)
+   */
+  async deleteAccountHistory(userId: string): Promise<void> {
+    const name = keyForUser(DB_NAME, userId);
+    if (this.dbName === name) {
+      this.dbPromise?.then(db => db.close()).catch(() => {});
+      this.dbPromise = null;
+      this.dbName = null;
+    }
+    if (typeof indexedDB !== 'undefined') await deleteHistoryDb(name);
+  }
+
+  /**
+   * Delete every history database on this device - all accounts, guest mode and plays
+   * recorded while nobody was signed in
+   */
+  async deleteAllHistory(userIds: string[]): Promise<void> {
+    this.dbPromise?.then(db => db.close()).catch(() => {});
+    this.dbPromise = null;
+    this.dbName = null;
+    if (typeof indexedDB === 'undefined') return;
+
+    let names = [DB_NAME, ...[...userIds, GUEST_NAMESPACE].map(id => keyForUser(DB_NAME, id))];
+    try {
+      // Also catches accounts already removed from the registry (not in every browser)
+      const databases = await indexedDB.databases();
+      names = [...new Set([
+        ...names,
+        ...databases.map(db => db.name).filter((name): name is string => !!name?.startsWith(DB_NAME))
+      ])];
+    } catch {
+      // Fall back to the known names
+    }
+    await Promise.all(names.map(deleteHistoryDb));
+  }
+}
+
+// Singleton instance
+export const listeningHistoryService = new ListeningHistoryService();
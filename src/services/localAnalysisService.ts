@@ -7,6 +7,10 @@
 import type { Track } from '../types/spotify';
 import { recommendationEngine, type AudioFeatures } from './recommendationEngine';
 import { audioFeaturesService, type SpotifyTrack } from './audioFeaturesService';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
+import { tokenManager } from './tokenManager';
+import { userKey } from '../utils/userScope';
+import { secureStorage } from './secureStorage';
 
 export interface AnalyzedTrack {
   track: Track;
@@ -130,7 +134,6 @@ const CLUSTER_DEFINITIONS = [
 ];
 
 export class LocalAnalysisService {
-  private token: string | null = null;
   private analyzedTracks: Map<string, AnalyzedTrack> = new Map();
   private artistGenreCache: Map<string, string[]> = new Map(); // Cache artist genres
   private analysisCache: LocalAnalysisResult | null = null;
@@ -141,14 +144,6 @@ export class LocalAnalysisService {
     this.loadCachedAnalysis();
   }
 
-  /**
-   * Set Spotify access token
-   */
-  setToken(token: string): void {
-    this.token = token;
-    audioFeaturesService.setToken(token);
-  }
-
   /**
    * Load cached analysis from localStorage
    * NOTE: Cached data has limited tracks per cluster to save space
@@ -156,7 +151,7 @@ export class LocalAnalysisService {
    */
   private loadCachedAnalysis(): void {
     try {
-      const cached = localStorage.getItem('local-analysis-cache');
+      const cached = secureStorage.getItem(userKey('local-analysis-cache'));
       if (cached) {
         const data = JSON.parse(cached);
         // Mark as cached (incomplete data)
@@ -195,21 +190,21 @@ export class LocalAnalysisService {
         localDiscoveries: result.localDiscoveries.slice(0, 80)
       };
       
-      localStorage.setItem('local-analysis-cache', JSON.stringify({
+      secureStorage.setItem(userKey('local-analysis-cache'), JSON.stringify({
         result: lightweightResult,
         timestamp: Date.now()
       }));
       
       // Don't cache individual tracks anymore - too large
-      localStorage.removeItem('local-analysis-tracks');
+      secureStorage.removeItem(userKey('local-analysis-tracks'));
     } catch (error) {
       // Handle quota exceeded error gracefully
       console.warn('Failed to save analysis cache (storage quota):', error);
       // Clear old caches to free space
       try {
-        localStorage.removeItem('local-analysis-cache');
-        localStorage.removeItem('local-analysis-tracks');
-        localStorage.removeItem('local_analysis_result');
+        secureStorage.removeItem(userKey('local-analysis-cache'));
+        secureStorage.removeItem(userKey('local-analysis-tracks'));
+        secureStorage.removeItem(userKey('local_analysis_result'));
       } catch (e) {
         // Ignore cleanup errors
       }
@@ -296,7 +291,9 @@ export class LocalAnalysisService {
     const uniqueArtistIds = Array.from(artistIds);
     console.log(`📡 Fetching genres for ${uniqueArtistIds.length} unique artists...`);
 
-    if (uniqueArtistIds.length === 0 || !this.token) return;
+    if (uniqueArtistIds.length === 0) return;
+    const token = await tokenManager.getAccessToken();
+    if (!token) return;
 
     // Batch fetch artists (50 at a time - Spotify's limit)
     const batchSize = 50;
@@ -304,8 +301,8 @@ export class LocalAnalysisService {
       const batch = uniqueArtistIds.slice(i, i + batchSize);
       try {
         const response = await fetch(
-          `https://api.spotify.com/v1/artists?ids=${batch.join(',')}`,
-          { headers: { 'Authorization': `Bearer ${this.token}` } }
+          `${SPOTIFY_API_BASE}/artists?ids=${batch.join(',')}`,
+          { headers: { 'Authorization': `Bearer ${token}` } }
         );
         
         if (response.ok) {
@@ -913,8 +910,8 @@ export class LocalAnalysisService {
     this.analyzedTracks.clear();
     this.analysisCache = null;
     this.cacheTimestamp = 0;
-    localStorage.removeItem('local-analysis-cache');
-    localStorage.removeItem('local-analysis-tracks');
+    secureStorage.removeItem(userKey('local-analysis-cache'));
+    secureStorage.removeItem(userKey('local-analysis-tracks'));
   }
 
   /**
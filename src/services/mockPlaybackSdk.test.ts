@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockSpotifyPlayer, type MockPlayerOptions, type MockTimelineTrack } from './mockPlaybackSdk';
+
+const TIMELINE: MockTimelineTrack[] = [
+  { id: 'one', name: 'One', artists: ['A'], album: 'X', duration_ms: 10000 },
+  { id: 'two', name: 'Two', artists: ['B'], album: 'X', duration_ms: 20000 },
+  { id: 'locked', name: 'Locked', artists: ['C'], album: 'Y', duration_ms: 30000, is_playable: false },
+];
+
+/** A connected player on the fake clock, recording every state it emits */
+const connect = async (options: MockPlayerOptions = {}) => {
+  const player = new MockSpotifyPlayer(
+    { name: 'Test', getOAuthToken: cb => cb('token') },
+    { timeline: TIMELINE, now: () => Date.now(), deviceId: 'mock-device', ...options }
+  );
+  const states: SpotifyPlayerState[] = [];
+  const events: Array<{ event: string; data: unknown }> = [];
+  player.addListener('player_state_changed', state => states.push(state as SpotifyPlayerState));
+  ['ready', 'not_ready', 'playback_error'].forEach(event =>
+    player.addListener(event, data => events.push({ event, data })));
+
+  await player.connect();
+  await vi.advanceTimersByTimeAsync(0);
+  return { player, states, events, last: () => states[states.length - 1] };
+};
+
+describe('MockSpotifyPlayer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports ready after connect, then its first state', async () => {
+    const { events, states } = await connect();
+
+    expect(events).toEqual([{ event: 'ready', data: { device_id: 'mock-device' } }]);
+    expect(states).toHaveLength(1);
+    expect(states[0].paused).toBe(true);
+    expect(states[0].track_window.current_track.uri).toBe('spotify:track:one');
+    expect(states[0].track_window.next_tracks.map(t => t.id)).toEqual(['two', 'locked']);
+  });
+
+  it('advances the position only while playing', async () => {
+    const { player } = await connect();
+
+    await player.resume();
+    vi.advanceTimersByTime(3000);
+    expect((await player.getCurrentState())?.position).toBe(3000);
+
+    await player.pause();
+    vi.advanceTimersByTime(5000);
+    expect((await player.getCurrentState())?.position).toBe(3000);
+
+    await player.resume();
+    vi.advanceTimersByTime(1000);
+    expect((await player.getCurrentState())?.position).toBe(4000);
+  });
+
+  it('emits player_state_changed on every play, pause and seek', async () => {
+    const { player, states, last } = await connect();
+
+    await player.resume();
+    expect(last().paused).toBe(false);
+    await player.seek(7000);
+    expect(last().position).toBe(7000);
+    await player.pause();
+    expect(last().paused).toBe(true);
+    expect(states).toHaveLength(4);
+  });
+
+  it('clamps seeks to the track and keeps playing from there', async () => {
+    const { player, last } = await connect();
+
+    await player.seek(-500);
+    expect(last().position).toBe(0);
+    await player.resume();
+    await player.seek(8000);
+    vi.advanceTimersByTime(1000);
+    expect((await player.getCurrentState())?.position).toBe(9000);
+  });
+
+  it('moves on to the next track when one ends', async () => {
+    const { player, last } = await connect();
+
+    await player.resume();
+    vi.advanceTimersByTime(10000);
+
+    expect(last().track_window.current_track.id).toBe('two');
+    expect(last().paused).toBe(false);
+    expect(last().position).toBe(0);
+    expect(last().track_window.previous_tracks.map(t => t.id)).toEqual(['one']);
+  });
+
+  it('reschedules the end of the track after a seek', async () => {
+    const { player, last } = await connect();
+
+    await player.resume();
+    await player.seek(9000);
+    vi.advanceTimersByTime(1000);
+
+    expect(last().track_window.current_track.id).toBe('two');
+  });
+
+  it('stays on a finished track without autoAdvance', async () => {
+    const { player } = await connect({ autoAdvance: false });
+
+    await player.resume();
+    vi.advanceTimersByTime(15000);
+
+    const state = await player.getCurrentState();
+    expect(state?.track_window.current_track.id).toBe('one');
+    expect(state?.position).toBe(10000);
+  });
+
+  it('emits playback_error instead of playing a track that is not playable', async () => {
+    const { player, events, last } = await connect({ startIndex: 2 });
+
+    await player.resume();
+
+    expect(events).toContainEqual({ event: 'playback_error', data: { message: 'Cannot play "Locked"' } });
+    expect(last().paused).toBe(true);
+    expect(last().track_window.current_track.is_playable).toBe(false);
+  });
+
+  it('stops paused at the start of the last track when the timeline runs out', async () => {
+    const { player, last } = await connect({ timeline: TIMELINE.slice(0, 2), startIndex: 1 });
+
+    await player.resume();
+    vi.advanceTimersByTime(20000);
+
+    expect(last().track_window.current_track.id).toBe('two');
+    expect(last().paused).toBe(true);
+    expect(last().position).toBe(0);
+  });
+
+  it('stops emitting once disconnected', async () => {
+    const { player, states, events } = await connect();
+    const emitted = states.length;
+
+    player.disconnect();
+    await player.resume();
+
+    expect(events).toContainEqual({ event: 'not_ready', data: { device_id: 'mock-device' } });
+    expect(states).toHaveLength(emitted);
+    expect(await player.getCurrentState()).toBeNull();
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Mock Web Playback SDK
+ * In-process stand-in for window.Spotify.Player, for offline development and component tests
+ *
+ * Plays a scripted timeline of tracks against a clock: the position advances while playing,
+ * the next track starts when one ends, and every change emits player_state_changed just
+ * like the real SDK. Tracks marked is_playable: false emit playback_error when resumed.
+ *
+ * Enable with VITE_MOCK_PLAYBACK_SDK=true, or open the app with ?mockSdk=1 (remembered for
+ * the browser session, ?mockSdk=0 turns it off). Only the SDK is faked - Web API calls still
+ * go to Spotify, so pair it with the mock API server (server/mockApi) to work fully offline.
+ */
+
+type Listener = Parameters<SpotifyPlayer['addListener']>[1];
+
+export interface MockTimelineTrack {
+  id: string;
+  name: string;
+  artists: string[];
+  album: string;
+  duration_ms: number;
+  /** false makes resume() fail with playback_error, like a region-locked track */
+  is_playable?: boolean;
+}
+
+export interface MockPlayerOptions {
+  timeline?: MockTimelineTrack[];
+  startIndex?: number;
+  /** Clock used for the position - override in tests */
+  now?: () => number;
+  /** Start the next track when one ends (default true) */
+  autoAdvance?: boolean;
+  deviceId?: string;
+}
+
+export const DEFAULT_MOCK_TIMELINE: MockTimelineTrack[] = [
+  { id: 'mock0000000000000000001', name: 'Offline Overture', artists: ['The Mock Ensemble'], album: 'Fixtures Vol. 1', duration_ms: 184000 },
+  { id: 'mock0000000000000000002', name: 'Latency Blues', artists: ['Null Pointer', 'The Stubs'], album: 'Fixtures Vol. 1', duration_ms: 213000 },
+  { id: 'mock0000000000000000003', name: 'Region Locked', artists: ['Geo Fence'], album: 'Unavailable Sessions', duration_ms: 201000, is_playable: false },
+  { id: 'mock0000000000000000004', name: 'Short Loop', artists: ['The Mock Ensemble'], album: 'Fixtures Vol. 2', duration_ms: 45000 },
+];
+
+const MOCK_SDK_SESSION_KEY = 'spotify_mock_sdk';
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+const toSdkTrack = (track: MockTimelineTrack): SpotifyTrack => ({
+  id: track.id,
+  uri: `spotify:track:${track.id}`,
+  type: 'track',
+  linked_from_uri: null,
+  linked_from: { uri: null, id: null },
+  media_type: 'audio',
+  name: track.name,
+  duration_ms: track.duration_ms,
+  artists: track.artists.map(name => ({ name, uri: `spotify:artist:${slug(name)}` })),
+  album: { uri: `spotify:album:${slug(track.album)}`, name: track.album, images: [] },
+  is_playable: track.is_playable !== false,
+});
+
+export class MockSpotifyPlayer implements SpotifyPlayer {
+  readonly deviceId: string;
+  private listeners = new Map<string, Set<Listener>>();
+  private timeline: MockTimelineTrack[];
+  private index: number;
+  private paused = true;
+  /** Position at the last play/pause/seek and when it was taken */
+  private anchor: { position: number; at: number };
+  private volume: number;
+  private connected = false;
+  private endTimer: ReturnType<typeof setTimeout> | null = null;
+  private name: string;
+  private now: () => number;
+  private autoAdvance: boolean;
+
+  constructor(options: { name: string; getOAuthToken: (cb: (token: string) => void) => void; volume?: number }, mock: MockPlayerOptions = {}) {
+    this.name = options.name;
+    this.volume = options.volume ?? 0.5;
+    this.timeline = mock.timeline || DEFAULT_MOCK_TIMELINE;
+    this.index = Math.min(mock.startIndex ?? 0, this.timeline.length - 1);
+    this.now = mock.now || Date.now;
+    this.autoAdvance = mock.autoAdvance !== false;
+    this.deviceId = mock.deviceId || `mock-device-${Math.random().toString(36).slice(2, 10)}`;
+    this.anchor = { position: 0, at: this.now() };
+  }
+
+  addListener(event: string, callback: Listener) {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(callback);
+  }
+
+  removeListener(event: string, callback?: Listener) {
+    if (callback) {
+      this.listeners.get(event)?.delete(callback);
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  async connect(): Promise<boolean> {
+    if (this.connected) return true;
+    this.connected = true;
+    // The real SDK reports ready asynchronously, after connect() resolves
+    setTimeout(() => {
+      if (!this.connected) return;
+      this.emit('ready', { device_id: this.deviceId });
+      this.emitState();
+    }, 0);
+    return true;
+  }
+
+  disconnect() {
+    if (!this.connected) return;
+    this.clearEndTimer();
+    this.connected = false;
+    this.emit('not_ready', { device_id: this.deviceId });
+  }
+
+  async getCurrentState(): Promise<SpotifyPlayerState | null> {
+    return this.connected ? this.buildState() : null;
+  }
+
+  async getVolume(): Promise<number> {
+    return this.volume;
+  }
+
+  async setVolume(volume: number): Promise<void> {
+    this.volume = Math.min(1, Math.max(0, volume));
+  }
+
+  async pause(): Promise<void> {
+    if (this.paused) return;
+    this.anchor = { position: this.currentPosition(), at: this.now() };
+    this.paused = true;
+    this.clearEndTimer();
+    this.emitState();
+  }
+
+  async resume(): Promise<void> {
+    if (!this.paused) return;
+    if (this.currentTrack().is_playable === false) {
+      this.emit('playback_error', { message: `Cannot play "${this.currentTrack().name}"` });
+      return;
+    }
+    this.anchor = { position: this.anchor.position, at: this.now() };
+    this.paused = false;
+    this.scheduleEnd();
+    this.emitState();
+  }
+
+  async togglePlay(): Promise<void> {
+    if (this.paused) await this.resume(); else await this.pause();
+  }
+
+  async seek(position_ms: number): Promise<void> {
+    this.anchor = { position: Math.min(Math.max(0, position_ms), this.currentTrack().duration_ms), at: this.now() };
+    this.scheduleEnd();
+    this.emitState();
+  }
+
+  async previousTrack(): Promise<void> {
+    if (this.currentPosition() > 3000 || this.index === 0) {
+      await this.seek(0);
+      return;
+    }
+    this.load(this.index - 1, !this.paused);
+  }
+
+  async nextTrack(): Promise<void> {
+    if (this.index >= this.timeline.length - 1) {
+      // End of the timeline: stop on the last track like the SDK does at the end of a context
+      this.anchor = { position: 0, at: this.now() };
+      this.paused = true;
+      this.clearEndTimer();
+      this.emitState();
+      return;
+    }
+    this.load(this.index + 1, !this.paused);
+  }
+
+  async setName(name: string): Promise<void> {
+    this.name = name;
+  }
+
+  /**
+   * Replace the timeline, e.g. from a test
+   */
+  loadTimeline(timeline: MockTimelineTrack[], startIndex = 0, play = false) {
+    this.timeline = timeline;
+    this.load(startIndex, play);
+  }
+
+  /**
+   * Fire any SDK event, e.g. simulateEvent('account_error', { message: 'Premium required' })
+   */
+  simulateEvent(event: string, data: unknown) {
+    this.emit(event, data);
+  }
+
+  private currentTrack(): MockTimelineTrack {
+    return this.timeline[this.index];
+  }
+
+  private currentPosition(): number {
+    const { position, at } = this.anchor;
+    const elapsed = this.paused ? 0 : this.now() - at;
+    return Math.min(position + elapsed, this.currentTrack().duration_ms);
+  }
+
+  private load(index: number, play: boolean) {
+    this.index = Math.min(Math.max(0, index), this.timeline.length - 1);
+    this.anchor = { position: 0, at: this.now() };
+    this.paused = true;
+    this.clearEndTimer();
+    if (play) {
+      this.resume();
+    } else {
+      this.emitState();
+    }
+  }
+
+  private scheduleEnd() {
+    this.clearEndTimer();
+    if (this.paused || !this.autoAdvance) return;
+    const remaining = this.currentTrack().duration_ms - this.currentPosition();
+    this.endTimer = setTimeout(() => this.nextTrack(), Math.max(0, remaining));
+  }
+
+  private clearEndTimer() {
+    if (this.endTimer) clearTimeout(this.endTimer);
+    this.endTimer = null;
+  }
+
+  private buildState(): SpotifyPlayerState {
+    const previous = this.timeline.slice(Math.max(0, this.index - 2), this.index);
+    const next = this.timeline.slice(this.index + 1, this.index + 3);
+    return {
+      context: { uri: 'spotify:playlist:mock-timeline', metadata: { name: this.name } },
+      disallows: {
+        pausing: this.paused,
+        peeking_next: false,
+        peeking_prev: false,
+        resuming: !this.paused,
+        seeking: false,
+        skipping_next: this.index >= this.timeline.length - 1,
+        skipping_prev: false,
+      },
+      paused: this.paused,
+      position: this.currentPosition(),
+      repeat_mode: 0,
+      shuffle: false,
+      track_window: {
+        current_track: toSdkTrack(this.currentTrack()),
+        next_tracks: next.map(toSdkTrack),
+        previous_tracks: previous.map(toSdkTrack),
+      },
+    };
+  }
+
+  private emitState() {
+    if (this.connected) this.emit('player_state_changed', this.buildState());
+  }
+
+  private emit(event: string, data: unknown) {
+    this.listeners.get(event)?.forEach(callback => callback(data));
+  }
+}
+
+/**
+ * Whether the mock SDK should replace the real one for this session
+ */
+export const isMockPlaybackSdkEnabled = (): boolean => {
+  if (import.meta.env.VITE_MOCK_PLAYBACK_SDK === 'true') return true;
+  try {
+    const param = new URLSearchParams(window.location.search).get('mockSdk');
+    if (param === '0') sessionStorage.removeItem(MOCK_SDK_SESSION_KEY);
+    else if (param !== null) sessionStorage.setItem(MOCK_SDK_SESSION_KEY, '1');
+    return sessionStorage.getItem(MOCK_SDK_SESSION_KEY) === '1';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Put the mock on window.Spotify and fire onSpotifyWebPlaybackSDKReady, as loading the real script would
+ */
+export const installMockPlaybackSdk = (mock: MockPlayerOptions = {}) => {
+  window.Spotify = {
+    Player: class extends MockSpotifyPlayer {
+      constructor(options: ConstructorParameters<typeof MockSpotifyPlayer>[0]) {
+        super(options, mock);
+      }
+    }
+  };
+  setTimeout(() => window.onSpotifyWebPlaybackSDKReady?.(), 0);
+};
@@ -14,6 +14,8 @@
  */
 
 import type { Track, Artist, Playlist, User } from '../types/spotify';
+import { SPOTIFY_API_BASE } from '../utils/apiConfig';
+import { tokenManager } from './tokenManager';
 
 export interface PlaylistRecommendation {
   playlist: Playlist;
@@ -51,14 +53,9 @@ export interface UserMusicProfile {
 }
 
 export class MusicIntelligenceService {
-  private token: string;
   private cache: Map<string, { data: any; timestamp: number }> = new Map();
   private readonly CACHE_TTL = 30 * 60 * 1000; // 30 minutes cache
 
-  constructor(token: string) {
-    this.token = token;
-  }
-
   /**
    * Get cached data or fetch new data
    * OPTIMIZATION: Prevents redundant API calls
@@ -95,7 +92,7 @@ export class MusicIntelligenceService {
    * Build Spotify API URL with parameters
    */
   private buildSpotifyUrl(endpoint: string, params: Record<string, any> = {}): string {
-    const baseUrl = 'https://api.spotify.com/v1/';
+    const baseUrl = `${SPOTIFY_API_BASE}/`;
     const url = new URL(endpoint, baseUrl);
     
     Object.entries(params).forEach(([key, value]) => {
@@ -113,10 +110,14 @@ export class MusicIntelligenceService {
   private async makeSpotifyRequest<T = any>(endpoint: string, params: Record<string, any> = {}): Promise<{ data: T | null; error: string | null }> {
     try {
       const url = this.buildSpotifyUrl(endpoint, params);
+      const token = await tokenManager.getAccessToken();
+      if (!token) {
+        return { data: null, error: 'Authentication failed. Please log in again.' };
+      }
       
       const response = await fetch(url, {
         headers: {
-          'Authorization': `Bearer ${this.token}`,
+          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
       });
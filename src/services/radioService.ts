@@ -0,0 +1,123 @@
+/**
+ * Radio Service
+ * Finds follow-up tracks for radio mode using the local analysis and recommendation engine
+ *
+ * Both engines only know tracks that have been analyzed locally, so the pool is the
+ * user's library plus the seeds themselves. Nothing is fetched from Spotify's
+ * recommendation endpoints.
+ */
+
+import type { Track } from '../types/spotify';
+import { localAnalysisService } from './localAnalysisService';
+import { recommendationEngine, type TrackWithFeatures } from './recommendationEngine';
+import {
+  mergeRadioCandidates,
+  pickRadioTracks,
+  RADIO_BATCH_SIZE,
+  type RadioCandidate,
+  type WithArtists
+} from '../utils/radio';
+
+/** Analyze the library first when fewer tracks than this are known */
+const MIN_POOL_SIZE = 20;
+
+/** Candidates fetched per seed before filtering */
+const CANDIDATES_PER_SEED = 30;
+
+export interface RadioRequest {
+  seeds: Track[];
+  /** Track ids that must not be picked (recent history, queued tracks) */
+  excludeIds: Set<string>;
+  /** Recently played tracks, most recent first - used for the per-artist cap */
+  recentTracks: WithArtists[];
+  /** Liked songs etc. to analyze when the pool is empty */
+  libraryTracks: Track[];
+  limit?: number;
+}
+
+// The engine stores a slimmer shape than the Web API track
+const engineTrackToTrack = (track: TrackWithFeatures): Track => ({
+  id: track.id,
+  name: track.name,
+  artists: track.artists.map(a => ({
+    id: a.id,
+    name: a.name,
+    external_urls: { spotify: `https://open.spotify.com/artist/${a.id}` },
+    href: `https://api.spotify.com/v1/artists/${a.id}`,
+    type: 'artist' as const,
+    uri: `spotify:artist:${a.id}`
+  })),
+  album: {
+    id: track.album.id,
+    name: track.album.name,
+    images: track.album.images.map(img => ({ url: img.url, height: null, width: null })),
+    external_urls: { spotify: `https://open.spotify.com/album/${track.album.id}` },
+    href: `https://api.spotify.com/v1/albums/${track.album.id}`,
+    type: 'album' as const,
+    uri: `spotify:album:${track.album.id}`,
+    album_type: 'album' as const,
+    total_tracks: 0,
+    available_markets: [],
+    release_date: '',
+    release_date_precision: 'day' as const,
+    artists: []
+  },
+  duration_ms: track.duration_ms,
+  explicit: false,
+  external_urls: { spotify: `https://open.spotify.com/track/${track.id}` },
+  href: `https://api.spotify.com/v1/tracks/${track.id}`,
+  popularity: track.popularity,
+  preview_url: track.preview_url || null,
+  type: 'track' as const,
+  uri: track.uri
+}) as Track;
+
+class RadioService {
+  /**
+   * Make sure the seeds (and, if nothing has been analyzed yet, the library) are analyzed
+   */
+  private async ensurePool(seeds: Track[], libraryTracks: Track[]): Promise<void> {
+    if (localAnalysisService.getStats().analyzedTracksCount < MIN_POOL_SIZE && libraryTracks.length > 0) {
+      await localAnalysisService.analyzeLibrary(libraryTracks);
+    }
+    for (const seed of seeds) {
+      try {
+        await localAnalysisService.analyzeTrack(seed);
+      } catch (err) {
+        console.warn('Radio seed analysis failed', err);
+      }
+    }
+  }
+
+  private async getCandidatesForSeed(seed: Track): Promise<RadioCandidate[]> {
+    const local = (await localAnalysisService.getRecommendationsForTrack(seed.id, CANDIDATES_PER_SEED))
+      .map(result => ({ track: result.track, score: result.similarity }));
+
+    const features = recommendationEngine.getCachedFeatures(seed.id);
+    const engine = features
+      ? recommendationEngine.findSimilarTracks(features, CANDIDATES_PER_SEED)
+          .filter(track => track.id !== seed.id)
+          .map(track => ({
+            track: engineTrackToTrack(track),
+            score: recommendationEngine.calculateSimilarity(features, track.audio_features)
+          }))
+      : [];
+
+    return [...local, ...engine];
+  }
+
+  /**
+   * Pick the next batch of radio tracks for the given seeds
+   */
+  async getNextTracks({ seeds, excludeIds, recentTracks, libraryTracks, limit = RADIO_BATCH_SIZE }: RadioRequest): Promise<Track[]> {
+    if (seeds.length === 0) return [];
+    await this.ensurePool(seeds, libraryTracks);
+
+    const lists = await Promise.all(seeds.map(seed => this.getCandidatesForSeed(seed)));
+    const seedIds = new Set([...excludeIds, ...seeds.map(seed => seed.id)]);
+    return pickRadioTracks(mergeRadioCandidates(lists), { excludeIds: seedIds, recentTracks, limit });
+  }
+}
+
+// Singleton instance
+export const radioService = new RadioService();
@@ -3,6 +3,9 @@
  * Provides intelligent music recommendations based on audio features and user preferences
  */
 
+import { userKey } from '../utils/userScope';
+import { secureStorage } from './secureStorage';
+
 export interface AudioFeatures {
   id: string;
   duration_ms: number;
@@ -94,25 +97,25 @@ class RecommendationEngine {
    */
   private loadCachedData(): void {
     try {
-      const cachedFeatures = localStorage.getItem('recommendation-engine-features');
+      const cachedFeatures = secureStorage.getItem(userKey('recommendation-engine-features'));
       if (cachedFeatures) {
         const featuresData = JSON.parse(cachedFeatures);
         this.audioFeaturesCache = new Map(featuresData);
       }
 
-      const cachedTracks = localStorage.getItem('recommendation-engine-tracks');
+      const cachedTracks = secureStorage.getItem(userKey('recommendation-engine-tracks'));
       if (cachedTracks) {
         const tracksData = JSON.parse(cachedTracks);
         this.trackLibrary = new Map(tracksData);
       }
 
-      const cachedPreferences = localStorage.getItem('recommendation-engine-preferences');
+      const cachedPreferences = secureStorage.getItem(userKey('recommendation-engine-preferences'));
       if (cachedPreferences) {
         const preferencesData = JSON.parse(cachedPreferences);
         this.userPreferences = new Map(preferencesData);
       }
 
-      const cachedTemporalPreferences = localStorage.getItem('recommendation-engine-temporal-preferences');
+      const cachedTemporalPreferences = secureStorage.getItem(userKey('recommendation-engine-temporal-preferences'));
       if (cachedTemporalPreferences) {
         const temporalData = JSON.parse(cachedTemporalPreferences);
         this.temporalPreferences = new Map(
@@ -126,7 +129,7 @@ class RecommendationEngine {
         );
       }
 
-      const cachedHistory = localStorage.getItem('recommendation-engine-history');
+      const cachedHistory = secureStorage.getItem(userKey('recommendation-engine-history'));
       if (cachedHistory) {
         this.listeningHistory = JSON.parse(cachedHistory);
         // Keep only recent history (last 30 days)
@@ -144,13 +147,13 @@ class RecommendationEngine {
   private saveCachedData(): void {
     try {
       const featuresData = Array.from(this.audioFeaturesCache.entries());
-      localStorage.setItem('recommendation-engine-features', JSON.stringify(featuresData));
+      secureStorage.setItem(userKey('recommendation-engine-features'), JSON.stringify(featuresData));
 
       const tracksData = Array.from(this.trackLibrary.entries());
-      localStorage.setItem('recommendation-engine-tracks', JSON.stringify(tracksData));
+      secureStorage.setItem(userKey('recommendation-engine-tracks'), JSON.stringify(tracksData));
 
       const preferencesData = Array.from(this.userPreferences.entries());
-      localStorage.setItem('recommendation-engine-preferences', JSON.stringify(preferencesData));
+      secureStorage.setItem(userKey('recommendation-engine-preferences'), JSON.stringify(preferencesData));
 
       const temporalData = Array.from(this.temporalPreferences.entries()).map(([key, value]) => [
         key,
@@ -159,9 +162,9 @@ class RecommendationEngine {
           preferences: Array.from(value.preferences.entries())
         }
       ]);
-      localStorage.setItem('recommendation-engine-temporal-preferences', JSON.stringify(temporalData));
+      secureStorage.setItem(userKey('recommendation-engine-temporal-preferences'), JSON.stringify(temporalData));
 
-      localStorage.setItem('recommendation-engine-history', JSON.stringify(this.listeningHistory));
+      secureStorage.setItem(userKey('recommendation-engine-history'), JSON.stringify(this.listeningHistory));
     } catch (error) {
       console.warn('Failed to save recommendation engine cache:', error);
     }
@@ -574,27 +577,26 @@ class RecommendationEngine {
     this.trackLibrary.clear();
     this.userPreferences.clear();
     
-    localStorage.removeItem('recommendation-engine-features');
-    localStorage.removeItem('recommendation-engine-tracks');
-    localStorage.removeItem('recommendation-engine-preferences');
+    secureStorage.removeItem(userKey('recommendation-engine-features'));
+    secureStorage.removeItem(userKey('recommendation-engine-tracks'));
+    secureStorage.removeItem(userKey('recommendation-engine-preferences'));
   }
 
   /**
    * Record listening activity for temporal learning
    */
-  recordListeningActivity(trackId: string, features?: AudioFeatures): void {
-    const now = Date.now();
-    const timeContext = this.getTimeContext(now);
+  recordListeningActivity(trackId: string, features?: AudioFeatures, timestamp: number = Date.now()): void {
+    const timeContext = this.getTimeContext(timestamp);
     
     // Add to listening history
     this.listeningHistory.push({
       trackId,
-      timestamp: now,
+      timestamp,
       context: timeContext
     });
     
     // Keep only recent history (last 30 days)
-    const thirtyDaysAgo = now - (30 * 24 * 60 * 60 * 1000);
+    const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
     this.listeningHistory = this.listeningHistory.filter(entry => entry.timestamp > thirtyDaysAgo);
     
     // Update temporal preferences if features are available
@@ -605,6 +607,33 @@ class RecommendationEngine {
     this.saveCachedData();
   }
 
+  /**
+   * Bulk-load past plays (e.g. an imported streaming history) into temporal learning.
+   * Only tracks with cached audio features can shape preferences; everything inside
+   * the 30-day window is also added to the listening history.
+   */
+  importListeningActivity(plays: Array<{ trackId: string; timestamp: number }>): number {
+    const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
+    const known = new Set(this.listeningHistory.map(entry => `${entry.trackId}:${entry.timestamp}`));
+    let applied = 0;
+
+    [...plays].sort((a, b) => a.timestamp - b.timestamp).forEach(({ trackId, timestamp }) => {
+      const timeContext = this.getTimeContext(timestamp);
+      const features = this.getCachedFeatures(trackId);
+      if (features) {
+        this.updateTemporalPreferences(timeContext, features);
+        applied++;
+      }
+      if (timestamp > thirtyDaysAgo && !known.has(`${trackId}:${timestamp}`)) {
+        this.listeningHistory.push({ trackId, timestamp, context: timeContext });
+      }
+    });
+
+    this.listeningHistory.sort((a, b) => a.timestamp - b.timestamp);
+    this.saveCachedData();
+    return applied;
+  }
+
   /**
    * Get time context for temporal analysis
    */
@@ -0,0 +1,53 @@
+/**
+ * Scope Consent
+ * Checks features against the scopes the current token was granted and asks the user for
+ * missing ones, so calls are skipped instead of failing with a 403
+ *
+ * RULES:
+ * - hasFeature() is the quiet check - use it before background reads
+ * - requireFeature() also prompts - use it before actions the user asked for
+ * - The prompt is a window event (SCOPE_CONSENT_EVENT) answered by ScopeConsentDialog, which
+ *   starts the re-consent login through the auth context
+ * - A 403 from a feature's endpoint prompts only when that feature may be missing scopes -
+ *   other 403s (e.g. Premium required) are left to the caller
+ */
+
+import { tokenManager } from './tokenManager';
+import { featureForEndpoint, missingScopes, type ScopeFeatureId } from '../utils/spotifyScopes';
+
+/** Window event asking the UI to offer re-consent; detail is ScopeConsentRequest */
+export const SCOPE_CONSENT_EVENT = 'spotify_scope_consent_required';
+
+export interface ScopeConsentRequest {
+  feature: ScopeFeatureId;
+}
+
+export const hasFeature = (feature: ScopeFeatureId): boolean =>
+  missingScopes(feature, tokenManager.getGrantedScopes()).length === 0;
+
+export const promptForConsent = (feature: ScopeFeatureId) => {
+  window.dispatchEvent(new CustomEvent<ScopeConsentRequest>(SCOPE_CONSENT_EVENT, { detail: { feature } }));
+};
+
+/**
+ * True when the feature's scopes are granted; otherwise offers re-consent and returns false
+ */
+export const requireFeature = (feature: ScopeFeatureId): boolean => {
+  if (hasFeature(feature)) return true;
+  promptForConsent(feature);
+  return false;
+};
+
+/**
+ * Offer re-consent after a 403 from `url` if it may be down to a missing scope.
+ * Returns whether a prompt was shown.
+ */
+export const handleForbidden = (url: string): boolean => {
+  const feature = featureForEndpoint(url);
+  if (!feature) return false;
+  const granted = tokenManager.getGrantedScopes();
+  // Known grant with every scope present: the 403 is about something else
+  if (granted !== null && missingScopes(feature, granted).length === 0) return false;
+  promptForConsent(feature);
+  return true;
+};
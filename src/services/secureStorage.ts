@@ -0,0 +1,311 @@
+/**
+ * Secure Storage
+ * localStorage with tokens and personal caches encrypted at rest (AES-GCM, WebCrypto)
+ *
+ * RULES:
+ * - Use secureStorage.getItem/setItem/removeItem instead of localStorage for protected keys
+ *   (isProtectedKey: tokens, the account registry and every USER_SCOPED_KEYS base, in any
+ *   account's namespace); other keys pass straight through to localStorage
+ * - The key is a non-extractable CryptoKey kept in IndexedDB - script can use it but never
+ *   read it out, and it never touches localStorage
+ * - init() must finish before anything reads a protected key: it decrypts every protected
+ *   value into memory, so reads stay synchronous, and encrypts plain values left by older
+ *   versions (migration)
+ * - Writes update memory at once and reach localStorage when encryption finishes (setItem's
+ *   promise); a write still pending as the page is hidden is stored plain and encrypted at
+ *   the next start
+ * - Other tabs' writes reach memory asynchronously; readFresh() reads what is stored right now
+ * - Data kept outside localStorage (the listening history in IndexedDB) is protected with
+ *   the same key through encryptValue()/decryptValue()
+ * - Values that can't be decrypted (the key was lost) are dropped
+ * - Without WebCrypto or IndexedDB (e.g. an insecure origin) values are stored plain
+ * - Changes from other tabs are decrypted and announced again as a `storage` event (no
+ *   newValue), so existing listeners re-read them through secureStorage
+ */
+
+import { USER_SCOPED_KEYS } from '../utils/userScope';
+
+/** Prefix of encrypted values: `${ENCRYPTED_PREFIX}${base64(iv + ciphertext)}` */
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+const KEY_DB_NAME = 'spotify_secure_storage';
+const KEY_STORE_NAME = 'keys';
+const KEY_ID = 'local';
+
+const IV_BYTES = 12;
+
+/** Protected besides the per-user caches */
+const PROTECTED_KEYS = [
+  'spotify_token',
+  'spotify_refresh_token',
+  // PKCE verifier while a login is in flight
+  'spotify_code_verifier',
+  // Tokens of accounts that aren't active, and their profiles
+  'spotify_accounts'
+];
+
+/** Whether values under `key` are encrypted - per-user keys are `${base}:${userId}` */
+export const isProtectedKey = (key: string): boolean => {
+  const base = key.split(':')[0];
+  return PROTECTED_KEYS.includes(base) || USER_SCOPED_KEYS.includes(base);
+};
+
+/** Whether a stored value is encrypted (rather than plain, from before encryption or without a key) */
+export const isEncryptedValue = (stored: string): boolean => stored.startsWith(ENCRYPTED_PREFIX);
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openKeyDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(KEY_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const deleteDb = (name: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // Another tab still has it open - it goes once that tab closes the connection
+    request.onblocked = () => resolve();
+  });
+
+/**
+ * The device's storage key, created on first use. Generated before the transaction opens
+ * (it would commit while waiting), then only stored if no other tab stored one first.
+ */
+const loadOrCreateKey = async (db: IDBDatabase): Promise<CryptoKey> => {
+  const candidate = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  const store = db.transaction(KEY_STORE_NAME, 'readwrite').objectStore(KEY_STORE_NAME);
+  const existing = await requestResult(store.get(KEY_ID) as IDBRequest<CryptoKey | undefined>);
+  if (existing) return existing;
+  await requestResult(store.put(candidate, KEY_ID));
+  return candidate;
+};
+
+class SecureStorage {
+  private key: CryptoKey | null = null;
+  private initPromise: Promise<void> | null = null;
+  /** Decrypted protected values */
+  private values = new Map<string, string>();
+  /** Protected values written but not yet stored encrypted */
+  private pending = new Map<string, string>();
+  private pageHidden = false;
+
+  /**
+   * Load the key and decrypt the protected values. Safe to call more than once.
+   */
+  init(): Promise<void> {
+    if (!this.initPromise) this.initPromise = this.load();
+    return this.initPromise;
+  }
+
+  /** Whether values are actually encrypted (false when WebCrypto or IndexedDB is missing) */
+  isEncrypted(): boolean {
+    return this.key !== null;
+  }
+
+  getItem(key: string): string | null {
+    if (!isProtectedKey(key)) return localStorage.getItem(key);
+    return this.values.get(key) ?? null;
+  }
+
+  /**
+   * Store a value. Reads see it at once; the promise resolves once it is in localStorage
+   * (or a later write replaced it), where other tabs can see it.
+   */
+  setItem(key: string, value: string): Promise<void> {
+    if (!isProtectedKey(key)) {
+      localStorage.setItem(key, value);
+      return Promise.resolve();
+    }
+    this.values.set(key, value);
+    if (!this.key || this.pageHidden) {
+      // No time left to encrypt - init() encrypts it next time
+      localStorage.setItem(key, value);
+      if (!this.key) return Promise.resolve();
+    }
+    this.pending.set(key, value);
+    return this.encrypt(value)
+      .then(encrypted => {
+        // Skip if a later write or a remove replaced it meanwhile
+        if (this.pending.get(key) !== value) return;
+        this.pending.delete(key);
+        localStorage.setItem(key, encrypted);
+      })
+      .catch(err => console.error(`Failed to store ${key}`, err));
+  }
+
+  /**
+   * The value as stored right now, including a write another tab made that hasn't reached
+   * memory yet. This tab's own pending write is newer than what is stored and wins.
+   */
+  async readFresh(key: string): Promise<string | null> {
+    if (!isProtectedKey(key)) return localStorage.getItem(key);
+    if (!this.pending.has(key)) await this.loadValue(key);
+    return this.values.get(key) ?? null;
+  }
+
+  /**
+   * Encrypt a value stored outside localStorage. Without a key it is returned as is.
+   */
+  async encryptValue(value: string): Promise<string> {
+    return this.key ? this.encrypt(value) : value;
+  }
+
+  /**
+   * Reverse of encryptValue; plain values pass through. Rejects if the value can't be decrypted.
+   */
+  async decryptValue(stored: string): Promise<string> {
+    return isEncryptedValue(stored) ? this.decrypt(stored) : stored;
+  }
+
+  removeItem(key: string) {
+    this.values.delete(key);
+    this.pending.delete(key);
+    localStorage.removeItem(key);
+  }
+
+  /** Remove every localStorage value, protected or not; the key stays */
+  clear() {
+    this.values.clear();
+    this.pending.clear();
+    localStorage.clear();
+  }
+
+  /**
+   * Delete every stored value and the key itself (the "wipe all local data" action)
+   */
+  async wipe(): Promise<void> {
+    this.clear();
+    sessionStorage.clear();
+    this.key = null;
+    if (typeof indexedDB !== 'undefined') await deleteDb(KEY_DB_NAME);
+  }
+
+  private async load(): Promise<void> {
+    window.addEventListener('storage', (e) => this.onStorage(e));
+    window.addEventListener('pagehide', () => this.onPageHide());
+    window.addEventListener('pageshow', (e) => {
+      this.pageHidden = false;
+      // Back from the back/forward cache: encrypt what was stored plain on the way out
+      if (e.persisted) this.migratePlainValues();
+    });
+
+    try {
+      if (typeof indexedDB === 'undefined' || !crypto?.subtle) throw new Error('WebCrypto or IndexedDB is not available');
+      const db = await openKeyDb();
+      try {
+        this.key = await loadOrCreateKey(db);
+      } finally {
+        db.close();
+      }
+    } catch (err) {
+      console.warn('Secure storage unavailable - storing values unencrypted', err);
+      this.key = null;
+    }
+
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && isProtectedKey(key)) keys.push(key);
+    }
+    await Promise.all(keys.map(key => this.loadValue(key)));
+    this.migratePlainValues();
+  }
+
+  /** Read one stored protected value into memory */
+  private async loadValue(key: string): Promise<void> {
+    const stored = localStorage.getItem(key);
+    if (stored === null) {
+      this.values.delete(key);
+      return;
+    }
+    if (!isEncryptedValue(stored)) {
+      this.values.set(key, stored);
+      return;
+    }
+    try {
+      if (!this.key) throw new Error('No key to decrypt with');
+      this.values.set(key, await this.decrypt(stored));
+    } catch (err) {
+      console.warn(`Dropping ${key} - it can't be decrypted`, err);
+      this.values.delete(key);
+      localStorage.removeItem(key);
+    }
+  }
+
+  /** Encrypt protected values that are stored plain (older versions, or written while hidden) */
+  private migratePlainValues() {
+    if (!this.key) return;
+    this.values.forEach((value, key) => {
+      const stored = localStorage.getItem(key);
+      if (stored !== null && !isEncryptedValue(stored) && !this.pending.has(key)) {
+        this.setItem(key, value);
+      }
+    });
+  }
+
+  /** The page may be about to unload - store what is still waiting for encryption */
+  private onPageHide() {
+    this.pageHidden = true;
+    this.pending.forEach((value, key) => localStorage.setItem(key, value));
+    this.pending.clear();
+  }
+
+  private onStorage(e: StorageEvent) {
+    // Ignore the events this service re-dispatches
+    if (!e.isTrusted || e.storageArea !== localStorage) return;
+    if (e.key === null) {
+      // Another tab cleared everything
+      this.values.clear();
+      this.pending.clear();
+      return;
+    }
+    if (!isProtectedKey(e.key)) return;
+    const key = e.key;
+    this.pending.delete(key);
+    this.loadValue(key).then(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key, storageArea: localStorage, url: e.url }));
+    });
+  }
+
+  private async encrypt(value: string): Promise<string> {
+    if (!this.key) throw new Error('No storage key');
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.key, new TextEncoder().encode(value));
+    const bytes = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+    bytes.set(iv);
+    bytes.set(new Uint8Array(ciphertext), IV_BYTES);
+    return ENCRYPTED_PREFIX + toBase64(bytes);
+  }
+
+  private async decrypt(stored: string): Promise<string> {
+    if (!this.key) throw new Error('No storage key');
+    const bytes = fromBase64(stored.slice(ENCRYPTED_PREFIX.length));
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES) },
+      this.key,
+      bytes.slice(IV_BYTES)
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+}
+
+// Singleton instance
+export const secureStorage = new SecureStorage();
@@ -0,0 +1,240 @@
+/**
+ * Session Recovery Service
+ * Keeps the user's place when the session expires: where they were before signing in again,
+ * and the library changes that failed because the session had ended
+ *
+ * RULES:
+ * - The return point (route, scroll and registered UI state) is saved the moment the session
+ *   expires, before the UI falls back to its signed-out state, and kept in sessionStorage -
+ *   the login redirect comes back to the same tab
+ * - UI state is opt-in: providers and pages registerReturnState() with a capture/restore pair;
+ *   a page that mounts just after the restore (it's on the restored route) still gets its state
+ * - The return point is handed back once (takeReturnPoint) and ignored after RETURN_POINT_MAX_AGE_MS
+ * - Changes are queued per account (spotify_pending_mutations) and only replayed for the same
+ *   account, after its next sign-in; entries older than MUTATION_MAX_AGE_MS are dropped
+ */
+
+import { tokenManager } from './tokenManager';
+import { getActiveAccountId, keyForUser } from '../utils/userScope';
+import { secureStorage } from './secureStorage';
+
+export interface ReturnPoint {
+  /** pathname + search + hash */
+  path: string;
+  /** Window scroll and the scroll of the page's own <main> scroller, if it has one */
+  scroll: { window: number; main: number };
+  /** Captured UI state by registration key */
+  state: Record<string, unknown>;
+  savedAt: number;
+}
+
+export interface PendingMutation {
+  /** Short description for the "retried" notice, e.g. "Save track" */
+  label: string;
+  method: 'PUT' | 'POST' | 'DELETE';
+  url: string;
+  /** JSON request body */
+  body?: string;
+  queuedAt: number;
+}
+
+export interface ReplayResult {
+  succeeded: PendingMutation[];
+  failed: PendingMutation[];
+}
+
+/** Window event fired after the active account's queued changes change */
+export const PENDING_MUTATIONS_UPDATED_EVENT = 'spotify_pending_mutations_updated';
+
+interface ReturnStateHandlers<T> {
+  capture: () => T;
+  restore: (value: T) => void;
+}
+
+const RETURN_POINT_KEY = 'spotify_return_point';
+const PENDING_MUTATIONS_KEY = 'spotify_pending_mutations';
+
+const RETURN_POINT_MAX_AGE_MS = 60 * 60 * 1000;
+const MUTATION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MAX_PENDING_MUTATIONS = 50;
+
+/** Content loads after navigation - keep trying to reach the saved scroll position this long */
+const SCROLL_RESTORE_TIMEOUT_MS = 3000;
+const SCROLL_RESTORE_INTERVAL_MS = 100;
+
+class SessionRecoveryService {
+  private handlers = new Map<string, ReturnStateHandlers<unknown>>();
+  /** Restored state whose registration hasn't mounted yet */
+  private unclaimedState = new Map<string, unknown>();
+  private unclaimedTimer: number | null = null;
+
+  /**
+   * Take part in the return point. Returns the unregister function.
+   */
+  registerReturnState<T>(key: string, handlers: ReturnStateHandlers<T>): () => void {
+    this.handlers.set(key, handlers as ReturnStateHandlers<unknown>);
+    if (this.unclaimedState.has(key)) {
+      const value = this.unclaimedState.get(key) as T;
+      this.unclaimedState.delete(key);
+      this.restoreState(key, handlers as ReturnStateHandlers<unknown>, value);
+    }
+    return () => {
+      if (this.handlers.get(key) === handlers) this.handlers.delete(key);
+    };
+  }
+
+  /** Remember where the user is right now */
+  saveReturnPoint() {
+    const state: Record<string, unknown> = {};
+    this.handlers.forEach((handlers, key) => {
+      try {
+        state[key] = handlers.capture();
+      } catch (err) {
+        console.warn(`Failed to capture ${key} state`, err);
+      }
+    });
+    const point: ReturnPoint = {
+      path: window.location.pathname + window.location.search + window.location.hash,
+      scroll: { window: window.scrollY, main: document.querySelector('main')?.scrollTop || 0 },
+      state,
+      savedAt: Date.now()
+    };
+    try {
+      sessionStorage.setItem(RETURN_POINT_KEY, JSON.stringify(point));
+    } catch (err) {
+      console.error('Failed to save return point', err);
+    }
+  }
+
+  hasReturnPoint(): boolean {
+    try {
+      return sessionStorage.getItem(RETURN_POINT_KEY) !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * The saved return point, removed so it's only used once; null if none or too old
+   */
+  takeReturnPoint(): ReturnPoint | null {
+    try {
+      const stored = sessionStorage.getItem(RETURN_POINT_KEY);
+      sessionStorage.removeItem(RETURN_POINT_KEY);
+      if (!stored) return null;
+      const point: ReturnPoint = JSON.parse(stored);
+      return Date.now() - point.savedAt < RETURN_POINT_MAX_AGE_MS ? point : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Hand captured state back to its registrations and restore the scroll position.
+   * Call after navigating to point.path.
+   */
+  restoreReturnPoint(point: ReturnPoint) {
+    Object.entries(point.state).forEach(([key, value]) => {
+      const handlers = this.handlers.get(key);
+      if (handlers) this.restoreState(key, handlers, value);
+      else this.unclaimedState.set(key, value);
+    });
+    if (this.unclaimedTimer !== null) window.clearTimeout(this.unclaimedTimer);
+    this.unclaimedTimer = window.setTimeout(() => {
+      this.unclaimedState.clear();
+      this.unclaimedTimer = null;
+    }, SCROLL_RESTORE_TIMEOUT_MS);
+
+    const startedAt = Date.now();
+    const step = () => {
+      const main = document.querySelector('main');
+      if (point.scroll.main && main) main.scrollTop = point.scroll.main;
+      if (point.scroll.window) window.scrollTo(0, point.scroll.window);
+
+      const reached = Math.abs(window.scrollY - point.scroll.window) < 2 &&
+        (!point.scroll.main || (!!main && Math.abs(main.scrollTop - point.scroll.main) < 2));
+      if (!reached && Date.now() - startedAt < SCROLL_RESTORE_TIMEOUT_MS) {
+        window.setTimeout(step, SCROLL_RESTORE_INTERVAL_MS);
+      }
+    };
+    window.setTimeout(step, 0);
+  }
+
+  /**
+   * Keep a change that failed because the session ended, to send it again after sign-in
+   */
+  queueMutation(mutation: Omit<PendingMutation, 'queuedAt'>) {
+    const userId = getActiveAccountId();
+    if (!userId) return;
+    const pending = [...this.readMutations(userId), { ...mutation, queuedAt: Date.now() }];
+    this.writeMutations(userId, pending.slice(-MAX_PENDING_MUTATIONS));
+  }
+
+  getPendingMutationCount(userId: string | null = getActiveAccountId()): number {
+    return userId ? this.readMutations(userId).length : 0;
+  }
+
+  /**
+   * Send an account's queued changes, in the order they were made. Each is tried once.
+   */
+  async replayMutations(userId: string): Promise<ReplayResult> {
+    const pending = this.readMutations(userId);
+    this.writeMutations(userId, []);
+    const result: ReplayResult = { succeeded: [], failed: [] };
+
+    for (const mutation of pending) {
+      try {
+        const token = await tokenManager.getAccessToken();
+        if (!token) {
+          result.failed.push(mutation);
+          continue;
+        }
+        const response = await fetch(mutation.url, {
+          method: mutation.method,
+          headers: {
+            Authorization: `Bearer ${token}`,
+            ...(mutation.body ? { 'Content-Type': 'application/json' } : {})
+          },
+          body: mutation.body
+        });
+        (response.ok ? result.succeeded : result.failed).push(mutation);
+      } catch (err) {
+        console.error(`Failed to retry "${mutation.label}"`, err);
+        result.failed.push(mutation);
+      }
+    }
+    return result;
+  }
+
+  private restoreState(key: string, handlers: ReturnStateHandlers<unknown>, value: unknown) {
+    try {
+      handlers.restore(value);
+    } catch (err) {
+      console.warn(`Failed to restore ${key} state`, err);
+    }
+  }
+
+  private readMutations(userId: string): PendingMutation[] {
+    try {
+      const stored = secureStorage.getItem(keyForUser(PENDING_MUTATIONS_KEY, userId));
+      const pending: PendingMutation[] = stored ? JSON.parse(stored) : [];
+      return pending.filter(m => Date.now() - m.queuedAt < MUTATION_MAX_AGE_MS);
+    } catch {
+      return [];
+    }
+  }
+
+  private writeMutations(userId: string, pending: PendingMutation[]) {
+    const key = keyForUser(PENDING_MUTATIONS_KEY, userId);
+    try {
+      if (pending.length === 0) secureStorage.removeItem(key);
+      else secureStorage.setItem(key, JSON.stringify(pending));
+    } catch (err) {
+      console.error('Failed to save pending changes', err);
+    }
+    window.dispatchEvent(new CustomEvent(PENDING_MUTATIONS_UPDATED_EVENT));
+  }
+}
+
+// Singleton instance
+export const sessionRecoveryService = new SessionRecoveryService();
@@ -0,0 +1,266 @@
+/**
+ * Tab Coordinator
+ * Leader election and messaging between open tabs of the app over BroadcastChannel
+ *
+ * Only one tab (the leader) owns the Web Playback SDK device and polls /me/player.
+ * It broadcasts its player state to the others; follower tabs mirror that state and
+ * send playback commands to the leader instead of calling Spotify themselves; a command that
+ * fails there rejects in the follower with a TabCommandError. Features with
+ * state of their own (e.g. the sleep timer) share it on a named topic with publish/subscribe.
+ *
+ * ELECTION:
+ * - Web Locks available: whoever holds LEADER_LOCK is leader. The browser releases the
+ *   lock when the tab closes, so the next waiting tab takes over automatically.
+ * - No Web Locks: the leader sends heartbeats; followers claim leadership when heartbeats
+ *   stop. If two leaders ever see each other, the older tab wins.
+ * - No BroadcastChannel at all: every tab is its own leader (the old behaviour).
+ */
+
+type TabMessage =
+  | { type: 'heartbeat'; tabId: string }
+  | { type: 'hello'; tabId: string }
+  | { type: 'state'; tabId: string; state: unknown }
+  | { type: 'topic'; tabId: string; topic: string; value: unknown }
+  | { type: 'command'; tabId: string; id: string; method: string; args: unknown[] }
+  | { type: 'command-result'; tabId: string; id: string; ok: boolean; result?: unknown; error?: string; data?: unknown };
+
+type CommandHandler = (method: string, args: unknown[]) => unknown;
+
+/**
+ * A command that failed in the leader tab. The leader throws one to pass `data` (anything
+ * cloneable, e.g. what to tell the user) back to the follower, which rejects with it.
+ */
+export class TabCommandError extends Error {
+  readonly data: unknown;
+
+  constructor(message: string, data?: unknown) {
+    super(message);
+    this.name = 'TabCommandError';
+    this.data = data;
+  }
+}
+
+const CHANNEL_NAME = 'spotify_player_tabs';
+const LEADER_LOCK = 'spotify_player_leader';
+
+const HEARTBEAT_INTERVAL_MS = 1500;
+const HEARTBEAT_TIMEOUT_MS = 4500;
+
+/** How long a follower waits for the leader to answer a command */
+const COMMAND_TIMEOUT_MS = 10000;
+
+const hasLocks = () => typeof navigator !== 'undefined' && !!navigator.locks;
+
+class TabCoordinator {
+  // Prefixed with the creation time so string comparison also orders tabs by age
+  readonly tabId = `${Date.now().toString(36).padStart(9, '0')}-${Math.random().toString(36).slice(2, 8)}`;
+
+  private channel: BroadcastChannel | null = null;
+  private started = false;
+  private leader = false;
+  private lastHeartbeat = 0;
+
+  private leaderListeners = new Set<(isLeader: boolean) => void>();
+  private stateListeners = new Set<(state: unknown) => void>();
+  private stateRequestListeners = new Set<() => void>();
+  private topicListeners = new Map<string, Set<(value: unknown) => void>>();
+  private commandHandler: CommandHandler | null = null;
+  private pendingCommands = new Map<string, {
+    resolve: (value: unknown) => void;
+    reject: (reason: Error) => void;
+    timeout: ReturnType<typeof setTimeout>;
+  }>();
+
+  /**
+   * Join the tab group and start the election. Safe to call more than once.
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    if (typeof BroadcastChannel === 'undefined') {
+      this.setLeader(true);
+      return;
+    }
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.handleMessage(event.data);
+
+    if (hasLocks()) {
+      navigator.locks.request(LEADER_LOCK, () => {
+        this.setLeader(true);
+        // Hold the lock for the lifetime of the tab
+        return new Promise<void>(() => {});
+      }).catch(err => {
+        console.error('Leader lock error', err);
+        this.setLeader(true);
+      });
+    } else {
+      this.lastHeartbeat = Date.now();
+    }
+
+    setInterval(() => this.tick(), HEARTBEAT_INTERVAL_MS);
+
+    // Ask whoever is leading for the current state straight away
+    this.post({ type: 'hello', tabId: this.tabId });
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  onLeaderChange(listener: (isLeader: boolean) => void): () => void {
+    this.leaderListeners.add(listener);
+    return () => this.leaderListeners.delete(listener);
+  }
+
+  /** Leader only: send the latest player state to every follower */
+  broadcastState(state: unknown): void {
+    if (!this.leader) return;
+    this.post({ type: 'state', tabId: this.tabId, state });
+  }
+
+  /** Followers: receive state snapshots from the leader */
+  onState(listener: (state: unknown) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  /** Leader: a new tab joined and wants a snapshot */
+  onStateRequest(listener: () => void): () => void {
+    this.stateRequestListeners.add(listener);
+    return () => this.stateRequestListeners.delete(listener);
+  }
+
+  /** Any tab: send a value on a topic to every other tab */
+  publish(topic: string, value: unknown): void {
+    this.post({ type: 'topic', tabId: this.tabId, topic, value });
+  }
+
+  /** Any tab: receive the values other tabs publish on a topic */
+  subscribe(topic: string, listener: (value: unknown) => void): () => void {
+    const listeners = this.topicListeners.get(topic) ?? new Set();
+    listeners.add(listener);
+    this.topicListeners.set(topic, listeners);
+    return () => listeners.delete(listener);
+  }
+
+  /** Leader: run commands sent by followers */
+  setCommandHandler(handler: CommandHandler | null): void {
+    this.commandHandler = handler;
+  }
+
+  /**
+   * Follower: ask the leader to run a player method and wait for its result
+   */
+  sendCommand(method: string, args: unknown[] = []): Promise<unknown> {
+    if (this.leader || !this.channel) {
+      return Promise.reject(new Error('sendCommand called on the leader tab'));
+    }
+    const id = `${this.tabId}:${Math.random().toString(36).slice(2, 10)}`;
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingCommands.delete(id);
+        reject(new Error(`Leader tab did not answer "${method}"`));
+      }, COMMAND_TIMEOUT_MS);
+      this.pendingCommands.set(id, { resolve, reject, timeout });
+      this.post({ type: 'command', tabId: this.tabId, id, method, args });
+    });
+  }
+
+  private post(message: TabMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (err) {
+      // Non-cloneable payloads shouldn't take the player down
+      console.error('Tab broadcast error', err);
+    }
+  }
+
+  private setLeader(isLeader: boolean): void {
+    if (this.leader === isLeader) return;
+    this.leader = isLeader;
+    if (isLeader) this.post({ type: 'heartbeat', tabId: this.tabId });
+    this.leaderListeners.forEach(listener => listener(isLeader));
+  }
+
+  private tick(): void {
+    if (this.leader) {
+      this.post({ type: 'heartbeat', tabId: this.tabId });
+      return;
+    }
+    // Heartbeat election only - with Web Locks the lock decides
+    if (!hasLocks() && Date.now() - this.lastHeartbeat > HEARTBEAT_TIMEOUT_MS) {
+      this.setLeader(true);
+    }
+  }
+
+  private async handleMessage(message: TabMessage): Promise<void> {
+    if (!message || message.tabId === this.tabId) return;
+
+    switch (message.type) {
+      case 'heartbeat':
+        this.lastHeartbeat = Date.now();
+        // Two heartbeat leaders - the younger tab steps down
+        if (this.leader && !hasLocks() && message.tabId < this.tabId) {
+          this.setLeader(false);
+        }
+        break;
+
+      case 'hello':
+        if (this.leader) this.stateRequestListeners.forEach(listener => listener());
+        break;
+
+      case 'state':
+        if (!this.leader) this.stateListeners.forEach(listener => listener(message.state));
+        break;
+
+      case 'topic':
+        this.topicListeners.get(message.topic)?.forEach(listener => listener(message.value));
+        break;
+
+      case 'command': {
+        if (!this.leader || !this.commandHandler) return;
+        try {
+          const result = await this.commandHandler(message.method, message.args);
+          this.post({ type: 'command-result', tabId: this.tabId, id: message.id, ok: true, result });
+        } catch (err) {
+          this.post({
+            type: 'command-result',
+            tabId: this.tabId,
+            id: message.id,
+            ok: false,
+            error: err instanceof Error ? err.message : String(err),
+            data: err instanceof TabCommandError ? err.data : undefined
+          });
+        }
+        break;
+      }
+
+      case 'command-result': {
+        const pending = this.pendingCommands.get(message.id);
+        if (!pending) return;
+        clearTimeout(pending.timeout);
+        this.pendingCommands.delete(message.id);
+        if (message.ok) {
+          pending.resolve(message.result);
+        } else {
+          pending.reject(new TabCommandError(message.error || 'Command failed in leader tab', message.data));
+        }
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Run fn while holding a lock shared by every tab (e.g. so only one tab spends the
+ * refresh token). Falls back to running immediately without Web Locks.
+ */
+export const runExclusive = async <T>(name: string, fn: () => Promise<T>): Promise<T> => {
+  if (!hasLocks()) return fn();
+  return navigator.locks.request(name, fn) as Promise<T>;
+};
+
+// Singleton instance
+export const tabCoordinator = new TabCoordinator();
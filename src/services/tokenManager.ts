@@ -0,0 +1,430 @@
+/**
+ * Token Manager
+ * The one owner of the Spotify access token: storage, refresh and change notifications
+ *
+ * RULES:
+ * - Tokens live in localStorage (spotify_token, spotify_refresh_token, spotify_token_expiry),
+ *   next to the scopes they grant (spotify_token_scope), read and written through
+ *   secureStorage so the tokens themselves are encrypted at rest
+ * - getAccessToken() hands out a token that is valid for at least REFRESH_MARGIN_MS,
+ *   refreshing first when it isn't - callers should ask for it right before each request
+ * - One refresh at a time: concurrent callers share the in-flight refresh, and a Web Lock
+ *   makes other tabs wait and reuse the token the first tab stored - the lock is held until
+ *   the new tokens are in localStorage, and the next holder re-reads them from there
+ * - While a refresh token exists, a refresh is scheduled REFRESH_MARGIN_MS before expiry
+ * - subscribe() listeners hear every change, including ones made by other tabs
+ * - A rejected refresh token fires SESSION_EXPIRED_EVENT just before the tokens are cleared,
+ *   so the UI can save the user's place first
+ * - Session mode (AUTH_SESSIONS_ENABLED): the auth server holds the refresh token behind an
+ *   httpOnly cookie - there is no spotify_refresh_token, only a spotify_session marker, and
+ *   refreshes POST /refresh with the cookie instead of a token
+ * - Guest mode runs on a demo token (setDemoToken) that is only held in memory: it never
+ *   expires or refreshes, and while it is set nothing stored is read or written
+ */
+
+import { runExclusive } from './tabCoordinator';
+import { AUTH_SERVER_URL, AUTH_SESSIONS_ENABLED } from '../utils/apiConfig';
+import { parseScopes } from '../utils/spotifyScopes';
+import { secureStorage } from './secureStorage';
+
+export interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  /** Seconds */
+  expires_in?: number;
+  /** Space-separated granted scopes */
+  scope?: string;
+}
+
+export interface TokenRefreshResult {
+  success: boolean;
+  token?: string;
+  error?: string;
+}
+
+/** A complete stored token set, as kept for accounts that aren't active */
+export interface StoredTokens {
+  accessToken: string | null;
+  refreshToken: string | null;
+  /** Epoch ms */
+  expiry: number | null;
+  scope: string | null;
+}
+
+type TokenListener = (token: string | null) => void;
+
+/** Window event fired when the refresh token stops working and only a new login helps */
+export const SESSION_EXPIRED_EVENT = 'spotify_session_expired';
+
+const TOKEN_KEY = 'spotify_token';
+const REFRESH_TOKEN_KEY = 'spotify_refresh_token';
+const EXPIRY_KEY = 'spotify_token_expiry';
+const SCOPE_KEY = 'spotify_token_scope';
+/** Session mode: set while the auth server holds a session for this browser */
+const SESSION_KEY = 'spotify_session';
+
+/** Web Lock held while a tab exchanges the refresh token */
+const TOKEN_REFRESH_LOCK = 'spotify_token_refresh';
+
+/** Refresh this long before the token expires */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/** Used when the token response doesn't say how long it lasts */
+const DEFAULT_EXPIRES_IN_S = 3600;
+
+/** Try again this long after a scheduled refresh fails */
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+
+const MAX_RETRIES = 2;
+const REQUEST_TIMEOUT_MS = 10000;
+
+/** The refresh token was rejected - only logging in again helps */
+class InvalidRefreshTokenError extends Error {
+  constructor() {
+    super('The refresh token is invalid or expired. Please log in again.');
+    this.name = 'InvalidRefreshTokenError';
+  }
+}
+
+const readStorage = (key: string): string | null => {
+  try {
+    return secureStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class TokenManager {
+  private listeners = new Set<TokenListener>();
+  private refreshPromise: Promise<TokenRefreshResult> | null = null;
+  private refreshTimer: number | null = null;
+  private started = false;
+  private demoToken: string | null = null;
+
+  /**
+   * Schedule the proactive refresh for the stored token and follow changes from other tabs.
+   * Safe to call more than once.
+   */
+  start() {
+    if (this.started) return;
+    this.started = true;
+    this.scheduleRefresh();
+    window.addEventListener('storage', (e) => {
+      if (e.key !== TOKEN_KEY && e.key !== EXPIRY_KEY && e.key !== null) return;
+      this.scheduleRefresh();
+      this.notify();
+    });
+  }
+
+  /** The stored access token, without checking whether it is still valid */
+  peekAccessToken(): string | null {
+    if (this.demoToken) return this.demoToken;
+    return readStorage(TOKEN_KEY);
+  }
+
+  /** When the stored access token expires, or null if unknown */
+  getExpiry(): number | null {
+    if (this.demoToken) return null;
+    const stored = readStorage(EXPIRY_KEY);
+    return stored ? parseInt(stored, 10) : null;
+  }
+
+  /** The scopes the current grant covers, or null if the token response didn't say */
+  getGrantedScopes(): string[] | null {
+    if (this.demoToken) return null;
+    const scope = readStorage(SCOPE_KEY);
+    return scope === null ? null : parseScopes(scope);
+  }
+
+  /** Whether a refresh is possible - a stored refresh token, or a server session in session mode */
+  hasRefreshToken(): boolean {
+    if (this.demoToken) return false;
+    if (AUTH_SESSIONS_ENABLED) return readStorage(SESSION_KEY) === '1';
+    return !!readStorage(REFRESH_TOKEN_KEY);
+  }
+
+  /**
+   * Session mode: ask the auth server for the session's access token. Resolves to null
+   * when there is no session (not logged in, or it expired).
+   */
+  async loadSession(): Promise<string | null> {
+    if (!AUTH_SESSIONS_ENABLED) return null;
+    try {
+      const res = await fetch(`${AUTH_SERVER_URL}/session`, { credentials: 'include' });
+      if (res.status === 401) {
+        this.clear();
+        return null;
+      }
+      if (!res.ok) throw new Error(`Session request failed: ${res.status}`);
+      const data: TokenResponse = await res.json();
+      secureStorage.setItem(SESSION_KEY, '1');
+      this.setTokens(data);
+      return data.access_token;
+    } catch (err) {
+      console.error('Error loading session:', err);
+      // Keep using a stored token while the auth server is unreachable
+      return this.getAccessToken();
+    }
+  }
+
+  /**
+   * Log out: in session mode also end the server session, then forget all tokens
+   */
+  async signOut(): Promise<void> {
+    if (AUTH_SESSIONS_ENABLED) {
+      try {
+        await fetch(`${AUTH_SERVER_URL}/logout`, { method: 'POST', credentials: 'include' });
+      } catch (err) {
+        console.error('Error ending session:', err);
+      }
+    }
+    this.clear();
+  }
+
+  /**
+   * An access token valid for at least REFRESH_MARGIN_MS, refreshing it first if needed.
+   * Returns the current token if refreshing fails but it hasn't expired yet.
+   */
+  async getAccessToken(): Promise<string | null> {
+    const token = this.peekAccessToken();
+    const expiry = this.getExpiry();
+    if (token && (expiry === null || expiry - Date.now() > REFRESH_MARGIN_MS)) return token;
+    if (!this.hasRefreshToken()) return token && expiry && expiry > Date.now() ? token : null;
+
+    const result = await this.refresh();
+    if (result.success) return result.token ?? null;
+    return token && expiry && expiry > Date.now() ? token : null;
+  }
+
+  /**
+   * Store tokens from a token response (login, refresh or another source). They are in use
+   * at once; the promise resolves once other tabs can read them too.
+   */
+  setTokens(data: TokenResponse): Promise<void> {
+    const writes: Promise<void>[] = [];
+    try {
+      writes.push(secureStorage.setItem(TOKEN_KEY, data.access_token));
+      // Spotify doesn't always rotate the refresh token - keep the old one then
+      if (data.refresh_token) writes.push(secureStorage.setItem(REFRESH_TOKEN_KEY, data.refresh_token));
+      // Refresh responses may leave the scope out - the grant is unchanged then
+      if (data.scope !== undefined) writes.push(secureStorage.setItem(SCOPE_KEY, data.scope));
+      const expiresIn = data.expires_in || DEFAULT_EXPIRES_IN_S;
+      writes.push(secureStorage.setItem(EXPIRY_KEY, String(Date.now() + expiresIn * 1000)));
+    } catch (err) {
+      console.error('Failed to store tokens', err);
+    }
+    this.scheduleRefresh();
+    this.notify();
+    return Promise.all(writes).then(() => undefined);
+  }
+
+  /** The stored tokens as they are, for setting aside while another account is active */
+  exportTokens(): StoredTokens | null {
+    if (this.demoToken) return null;
+    const accessToken = this.peekAccessToken();
+    const refreshToken = readStorage(REFRESH_TOKEN_KEY);
+    if (!accessToken && !refreshToken) return null;
+    return { accessToken, refreshToken, expiry: this.getExpiry(), scope: readStorage(SCOPE_KEY) };
+  }
+
+  /** Replace the stored tokens with a set from exportTokens() */
+  importTokens(tokens: StoredTokens) {
+    try {
+      const entries: Array<[string, string | null]> = [
+        [TOKEN_KEY, tokens.accessToken],
+        [REFRESH_TOKEN_KEY, tokens.refreshToken],
+        [EXPIRY_KEY, tokens.expiry === null ? null : String(tokens.expiry)],
+        // Accounts set aside before scopes were tracked have no scope field
+        [SCOPE_KEY, tokens.scope ?? null]
+      ];
+      entries.forEach(([key, value]) => {
+        if (value === null) secureStorage.removeItem(key);
+        else secureStorage.setItem(key, value);
+      });
+    } catch (err) {
+      console.error('Failed to store tokens', err);
+    }
+    this.scheduleRefresh();
+    this.notify();
+  }
+
+  /**
+   * Use a token that isn't stored and never expires (guest mode's demo library); null
+   * goes back to the stored tokens
+   */
+  setDemoToken(token: string | null) {
+    this.demoToken = token;
+    if (token) this.cancelScheduledRefresh();
+    else this.scheduleRefresh();
+    this.notify();
+  }
+
+  /** Forget all tokens (logout, or a refresh token that no longer works) */
+  clear() {
+    this.demoToken = null;
+    try {
+      secureStorage.removeItem(TOKEN_KEY);
+      secureStorage.removeItem(REFRESH_TOKEN_KEY);
+      secureStorage.removeItem(EXPIRY_KEY);
+      secureStorage.removeItem(SCOPE_KEY);
+      secureStorage.removeItem(SESSION_KEY);
+    } catch {
+      // ignore
+    }
+    this.cancelScheduledRefresh();
+    this.notify();
+  }
+
+  /** Drop an access token the API rejected, keeping the refresh token for the next refresh */
+  discardAccessToken() {
+    try {
+      secureStorage.removeItem(TOKEN_KEY);
+      secureStorage.removeItem(EXPIRY_KEY);
+    } catch {
+      // ignore
+    }
+    this.notify();
+  }
+
+  /**
+   * Exchange the refresh token for a new access token. Concurrent calls share one refresh.
+   */
+  refresh(): Promise<TokenRefreshResult> {
+    if (this.demoToken) return Promise.resolve({ success: true, token: this.demoToken });
+    if (this.refreshPromise) return this.refreshPromise;
+
+    const tokenBefore = this.peekAccessToken();
+    this.refreshPromise = runExclusive(TOKEN_REFRESH_LOCK, async (): Promise<TokenRefreshResult> => {
+      // Another tab may have refreshed while this one waited for the lock. Its tokens are
+      // stored by now but may not have reached this tab's memory yet - read them from storage.
+      const [token] = await Promise.all([TOKEN_KEY, REFRESH_TOKEN_KEY, SCOPE_KEY].map(key => secureStorage.readFresh(key)));
+      const expiry = this.getExpiry() || 0;
+      if (token && token !== tokenBefore && expiry - Date.now() > REFRESH_MARGIN_MS) {
+        this.scheduleRefresh();
+        this.notify();
+        return { success: true, token };
+      }
+      return this.performRefresh();
+    }).finally(() => {
+      this.refreshPromise = null;
+    });
+    return this.refreshPromise;
+  }
+
+  /**
+   * Listen for token changes. Returns the unsubscribe function.
+   */
+  subscribe(listener: TokenListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async performRefresh(): Promise<TokenRefreshResult> {
+    // Session mode sends the session cookie instead of a refresh token
+    const refreshToken = AUTH_SESSIONS_ENABLED ? null : readStorage(REFRESH_TOKEN_KEY);
+    if (!this.hasRefreshToken()) {
+      return { success: false, error: 'No refresh token available. Please log in again.' };
+    }
+
+    try {
+      const data = await this.requestRefresh(refreshToken);
+      // Hold the lock until other tabs can see the new tokens
+      await this.setTokens(data);
+      return { success: true, token: data.access_token };
+    } catch (err) {
+      console.error('Error refreshing access token:', err);
+      if (err instanceof InvalidRefreshTokenError) {
+        window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT));
+        this.clear();
+        return { success: false, error: err.message };
+      }
+      // Keep the tokens while the access token still works and try again later
+      const expiry = this.getExpiry() || 0;
+      if (expiry > Date.now()) {
+        this.scheduleRefresh(RETRY_DELAY_MS);
+      } else {
+        this.discardAccessToken();
+      }
+      return { success: false, error: err instanceof Error ? err.message : 'Token refresh failed' };
+    }
+  }
+
+  /**
+   * POST the refresh token (or, in session mode, the session cookie) to the auth server,
+   * retrying server and network errors
+   */
+  private async requestRefresh(refreshToken: string | null, retryCount = 0): Promise<TokenResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    let res: Response;
+    try {
+      res = await fetch(`${AUTH_SERVER_URL}/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: refreshToken ? JSON.stringify({ refresh_token: refreshToken }) : undefined,
+        credentials: AUTH_SESSIONS_ENABLED ? 'include' : 'same-origin',
+        signal: controller.signal
+      });
+    } catch (err) {
+      if (retryCount < MAX_RETRIES) {
+        await wait((retryCount + 1) * 3000);
+        return this.requestRefresh(readStorage(REFRESH_TOKEN_KEY) || refreshToken, retryCount + 1);
+      }
+      throw err;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => ({ error: 'unknown_error' }));
+      console.error('Token refresh failed:', res.status, errorData);
+      if ((res.status === 400 && errorData.error === 'invalid_refresh_token') || res.status === 401) {
+        throw new InvalidRefreshTokenError();
+      }
+      if (res.status >= 500 && retryCount < MAX_RETRIES) {
+        await wait((retryCount + 1) * 2000);
+        return this.requestRefresh(readStorage(REFRESH_TOKEN_KEY) || refreshToken, retryCount + 1);
+      }
+      throw new Error(`Token refresh failed: ${errorData.error || res.statusText}`);
+    }
+
+    const data = await res.json();
+    if (!data.access_token) throw new Error('Invalid response from server - no access token');
+    return data;
+  }
+
+  /**
+   * Refresh REFRESH_MARGIN_MS before the stored token expires (or after delayMs)
+   */
+  private scheduleRefresh(delayMs?: number) {
+    this.cancelScheduledRefresh();
+    if (!this.hasRefreshToken()) return;
+    const expiry = this.getExpiry();
+    const delay = delayMs ?? (expiry ? expiry - Date.now() - REFRESH_MARGIN_MS : DEFAULT_EXPIRES_IN_S * 1000 - REFRESH_MARGIN_MS);
+    // Browsers fire timers over ~24.8 days straight away, so cap long delays
+    this.refreshTimer = window.setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh();
+    }, Math.min(Math.max(0, delay), 24 * 60 * 60 * 1000));
+  }
+
+  private cancelScheduledRefresh() {
+    if (this.refreshTimer !== null) {
+      window.clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private notify() {
+    const token = this.peekAccessToken();
+    this.listeners.forEach(listener => listener(token));
+  }
+}
+
+// Singleton instance
+export const tokenManager = new TokenManager();
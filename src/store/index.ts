@@ -4,6 +4,7 @@
  * 
  * CONFIGURED SLICES:
  * - player: Manages Spotify player state (playback, volume, device, etc.)
+ * - queue: Client-managed playback queue (order, current index, persistence)
  * 
  * USAGE:
  * - Wrap app with <Provider store={store}>
@@ -13,6 +14,7 @@
 
 import { configureStore } from '@reduxjs/toolkit'
 import playerReducer from './playerSlice'
+import queueReducer from './queueSlice'
 
 /**
  * Redux store configuration
@@ -21,6 +23,7 @@ import playerReducer from './playerSlice'
 export const store = configureStore({
   reducer: {
     player: playerReducer,
+    queue: queueReducer,
   },
 })
 
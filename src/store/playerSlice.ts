@@ -25,9 +25,11 @@
 
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit'
 import type { Track } from '../types/spotify'
+import { userKey } from '../utils/userScope'
+import { secureStorage } from '../services/secureStorage'
 
 /** Player state interface for type safety */
-interface PlayerState {
+export interface PlayerState {
   playing: boolean
   currentTrack: Track | null
   position: number
@@ -45,7 +47,7 @@ interface PlayerState {
 /** Initial player state - all reset to default/empty */
 const loadPersistedState = (): Partial<PlayerState> => {
   try {
-    const saved = localStorage.getItem('spotify_player_state');
+    const saved = secureStorage.getItem(userKey('spotify_player_state'));
     if (saved) {
       const parsed = JSON.parse(saved);
       // Only restore settings, not track state - track state should sync from Spotify server
@@ -130,6 +132,10 @@ const playerSlice = createSlice({
     setContextUri(state, action: PayloadAction<string | null>) {
       state.contextUri = action.payload
     },
+    /** Replace the whole state with a snapshot broadcast by the leader tab */
+    syncPlayerState(_state, action: PayloadAction<PlayerState>) {
+      return action.payload
+    },
     /** Reset all player state to initial values */
     reset(state) {
       Object.assign(state, initialState)
@@ -150,6 +156,7 @@ export const {
   setShuffled,
   setRepeat,
   setContextUri,
+  syncPlayerState,
   reset,
 } = playerSlice.actions
 
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import queueReducer, {
+  enqueue,
+  insertNext,
+  removeFromQueue,
+  setOriginalOrder,
+  setQueue,
+  type QueueState
+} from './queueSlice';
+import type { Track } from '../types/spotify';
+
+const track = (id: string): Track => ({
+  id,
+  uri: `spotify:track:${id}`,
+  name: id,
+  artists: [],
+  duration_ms: 180000,
+  explicit: false,
+  external_urls: { spotify: '' },
+  href: '',
+  preview_url: null,
+  type: 'track'
+});
+
+const ids = (tracks: Track[] | null) => tracks?.map(t => t.id) ?? null;
+
+const empty: QueueState = { items: [], currentIndex: -1, active: false, originalItems: null };
+
+/** The state right after a successful smart shuffle of a, b, c, d (playing a) */
+const shuffled = (): QueueState => {
+  const original = ['a', 'b', 'c', 'd'].map(track);
+  let state = queueReducer(empty, setQueue({ items: [original[0], original[3], original[1], original[2]], currentIndex: 0 }));
+  state = queueReducer(state, setOriginalOrder(original));
+  return state;
+};
+
+describe('queueSlice original order', () => {
+  it('keeps the pre-shuffle order while moving within the shuffled list', () => {
+    const before = shuffled();
+
+    // next, then an error skip, then a queue-sync "play" step - all through playQueueIndex
+    let state = queueReducer(before, setQueue({ items: before.items, currentIndex: 1, keepOriginalOrder: true }));
+    state = queueReducer(state, setQueue({ items: state.items, currentIndex: 2, keepOriginalOrder: true }));
+    state = queueReducer(state, setQueue({ items: state.items, currentIndex: 3, keepOriginalOrder: true }));
+
+    expect(state.currentIndex).toBe(3);
+    expect(ids(state.originalItems)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('drops the pre-shuffle order when a new list starts playing', () => {
+    const state = queueReducer(shuffled(), setQueue({ items: [track('x'), track('y')], currentIndex: 0 }));
+
+    expect(ids(state.items)).toEqual(['x', 'y']);
+    expect(state.originalItems).toBeNull();
+  });
+
+  it('adds queued tracks to the pre-shuffle order too', () => {
+    let state = queueReducer(shuffled(), enqueue([track('late')]));
+    state = queueReducer(state, insertNext([track('next')]));
+
+    expect(ids(state.items)).toEqual(['a', 'next', 'd', 'b', 'c', 'late']);
+    expect(ids(state.originalItems)).toEqual(['a', 'next', 'b', 'c', 'd', 'late']);
+  });
+
+  it('removes a track from both orders', () => {
+    const state = queueReducer(shuffled(), removeFromQueue(1));
+
+    expect(ids(state.items)).toEqual(['a', 'b', 'c']);
+    expect(ids(state.originalItems)).toEqual(['a', 'b', 'c']);
+  });
+});
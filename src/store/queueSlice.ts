@@ -0,0 +1,181 @@
+/**
+ * Redux Queue Slice
+ * Client-managed playback queue layered on top of Spotify's play({ uris }) endpoint
+ *
+ * Spotify's own queue can only be read and appended to, so when the user wants to
+ * reorder or remove items we take over: the ordered track list lives here and the
+ * player context re-issues play({ uris, offset }) whenever playback has to follow it.
+ *
+ * STATE MANAGED:
+ * - items: Ordered list of tracks in the queue
+ * - currentIndex: Index of the track currently playing from the queue (-1 when none)
+ * - active: Whether the local queue is driving playback right now
+ * - originalItems: Order before a smart shuffle, so un-shuffle can restore it (null when not shuffled)
+ */
+
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit'
+import type { Track } from '../types/spotify'
+import { userKey } from '../utils/userScope'
+import { secureStorage } from '../services/secureStorage'
+
+/** Queue state interface for type safety */
+export interface QueueState {
+  items: Track[]
+  currentIndex: number
+  active: boolean
+  originalItems: Track[] | null
+}
+
+/** localStorage key, persisted next to spotify_player_state */
+export const QUEUE_STORAGE_KEY = 'spotify_player_queue'
+
+/** Upper bound on persisted queue length to stay well inside storage quota */
+export const MAX_QUEUE_LENGTH = 500
+
+const loadPersistedQueue = (): Partial<QueueState> => {
+  try {
+    const saved = secureStorage.getItem(userKey(QUEUE_STORAGE_KEY));
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed.items)) {
+        return {
+          items: parsed.items,
+          currentIndex: typeof parsed.currentIndex === 'number' ? parsed.currentIndex : -1,
+          active: !!parsed.active,
+          originalItems: Array.isArray(parsed.originalItems) ? parsed.originalItems : null
+        };
+      }
+    }
+  } catch (e) {
+    console.warn('Failed to load queue state', e);
+  }
+  return {};
+};
+
+const persisted = loadPersistedQueue();
+
+const initialState: QueueState = {
+  items: persisted.items || [],
+  currentIndex: persisted.currentIndex ?? -1,
+  active: persisted.active || false,
+  originalItems: persisted.originalItems || null,
+}
+
+/**
+ * Redux slice for the local queue
+ * Index bookkeeping keeps currentIndex pointing at the same track across edits
+ */
+const queueSlice = createSlice({
+  name: 'queue',
+  initialState,
+  reducers: {
+    /**
+     * Replace the whole queue and start driving playback from it. A new list drops the
+     * pre-shuffle order; keepOriginalOrder is for moving within the current list (next,
+     * previous, error skips, undo) so a smart shuffle can still be undone afterwards.
+     */
+    setQueue(state, action: PayloadAction<{ items: Track[]; currentIndex: number; keepOriginalOrder?: boolean }>) {
+      state.items = action.payload.items.slice(0, MAX_QUEUE_LENGTH)
+      state.currentIndex = action.payload.currentIndex
+      state.active = true
+      if (!action.payload.keepOriginalOrder) state.originalItems = null
+    },
+    /** Remember the pre-shuffle order of the current queue */
+    setOriginalOrder(state, action: PayloadAction<Track[] | null>) {
+      state.originalItems = action.payload ? action.payload.slice(0, MAX_QUEUE_LENGTH) : null
+    },
+    /** Append tracks to the end of the queue */
+    enqueue(state, action: PayloadAction<Track[]>) {
+      state.items = [...state.items, ...action.payload].slice(0, MAX_QUEUE_LENGTH)
+      if (state.originalItems) {
+        state.originalItems = [...state.originalItems, ...action.payload].slice(0, MAX_QUEUE_LENGTH)
+      }
+    },
+    /** Insert tracks directly after the current track ("play next") */
+    insertNext(state, action: PayloadAction<Track[]>) {
+      const current = state.items[state.currentIndex]
+      const at = state.currentIndex + 1
+      state.items.splice(at, 0, ...action.payload)
+      state.items = state.items.slice(0, MAX_QUEUE_LENGTH)
+      if (state.originalItems) {
+        // Keep "play next" next to the current track after un-shuffling too
+        const originalAt = current ? state.originalItems.findIndex(t => t.uri === current.uri) + 1 : 0
+        state.originalItems.splice(originalAt, 0, ...action.payload)
+        state.originalItems = state.originalItems.slice(0, MAX_QUEUE_LENGTH)
+      }
+    },
+    /** Remove a single entry by index */
+    removeFromQueue(state, action: PayloadAction<number>) {
+      const index = action.payload
+      if (index < 0 || index >= state.items.length) return
+      const [removed] = state.items.splice(index, 1)
+      if (state.originalItems) {
+        const originalIndex = state.originalItems.findIndex(t => t.uri === removed.uri)
+        if (originalIndex !== -1) state.originalItems.splice(originalIndex, 1)
+      }
+      if (index < state.currentIndex) {
+        state.currentIndex -= 1
+      } else if (index === state.currentIndex) {
+        // The playing track left the queue - point at the entry before it so "next" still works
+        state.currentIndex -= 1
+      }
+    },
+    /** Move an entry from one index to another (drag-to-reorder) */
+    moveQueueItem(state, action: PayloadAction<{ from: number; to: number }>) {
+      const { from, to } = action.payload
+      if (from === to || from < 0 || to < 0 || from >= state.items.length || to >= state.items.length) return
+      const [moved] = state.items.splice(from, 1)
+      state.items.splice(to, 0, moved)
+
+      const current = state.currentIndex
+      if (from === current) {
+        state.currentIndex = to
+      } else if (from < current && to >= current) {
+        state.currentIndex = current - 1
+      } else if (from > current && to <= current) {
+        state.currentIndex = current + 1
+      }
+    },
+    /** Point the queue at a new current index */
+    setQueueIndex(state, action: PayloadAction<number>) {
+      state.currentIndex = action.payload
+    },
+    /** Toggle whether the local queue is driving playback */
+    setQueueActive(state, action: PayloadAction<boolean>) {
+      state.active = action.payload
+    },
+    /** Replace the whole state with a snapshot broadcast by the leader tab */
+    syncQueueState(_state, action: PayloadAction<QueueState>) {
+      return action.payload
+    },
+    /** Drop everything after the current track; keep the current one so the panel stays meaningful */
+    clearQueue(state) {
+      if (state.currentIndex >= 0 && state.items[state.currentIndex]) {
+        state.items = [state.items[state.currentIndex]]
+        state.currentIndex = 0
+      } else {
+        state.items = []
+        state.currentIndex = -1
+        state.active = false
+      }
+      state.originalItems = null
+    },
+  },
+})
+
+/** Exported actions for use in components */
+export const {
+  setQueue,
+  setOriginalOrder,
+  enqueue,
+  insertNext,
+  removeFromQueue,
+  moveQueueItem,
+  setQueueIndex,
+  setQueueActive,
+  clearQueue,
+  syncQueueState,
+} = queueSlice.actions
+
+/** Export reducer as default for store configuration */
+export default queueSlice.reducer
@@ -0,0 +1,26 @@
+/**
+ * Spotify endpoints
+ * Base URLs for the Web API, the accounts service and our auth server. The Spotify ones
+ * default to Spotify's and can be pointed at the mock server (server/mockApi.ts) through
+ * the environment:
+ *
+ * - VITE_SPOTIFY_API_BASE: Web API base, e.g. http://localhost:3002/v1
+ * - VITE_SPOTIFY_ACCOUNTS_URL: serves /authorize and /api/token, e.g. http://localhost:3002
+ * - VITE_AUTH_SERVER_URL: the auth server (server/index.ts) that refreshes tokens
+ * - VITE_AUTH_SESSIONS: "true" when the auth server runs with AUTH_MODE=session
+ */
+
+/** Web API base without a trailing slash - build URLs as `${SPOTIFY_API_BASE}/me` */
+export const SPOTIFY_API_BASE = (import.meta.env.VITE_SPOTIFY_API_BASE || 'https://api.spotify.com/v1').replace(/\/$/, '');
+
+/** Accounts service base without a trailing slash */
+export const SPOTIFY_ACCOUNTS_URL = (import.meta.env.VITE_SPOTIFY_ACCOUNTS_URL || 'https://accounts.spotify.com').replace(/\/$/, '');
+
+/** Auth server base without a trailing slash */
+export const AUTH_SERVER_URL = (import.meta.env.VITE_AUTH_SERVER_URL || 'http://localhost:3001').replace(/\/$/, '');
+
+/**
+ * Session mode: the auth server logs in and keeps the tokens, the browser only holds an
+ * httpOnly session cookie and asks /session for short-lived access tokens
+ */
+export const AUTH_SESSIONS_ENABLED = import.meta.env.VITE_AUTH_SESSIONS === 'true';
@@ -0,0 +1,58 @@
+/**
+ * Device auto-transfer rules
+ * Decide where playback should go without the user picking a device
+ *
+ * RULES:
+ * - A protected device that is currently active keeps playback: starting something new
+ *   plays there instead of pulling it to the web player
+ * - With no active device, playback starts on the preferred device if it is online
+ * - Otherwise the web player is used (the previous default)
+ * - The web player only takes over on startup when nothing is playing and the active
+ *   device (if any) isn't protected
+ */
+
+import { WEB_PLAYER_KEY, type DevicePreferences } from '../services/devicePreferencesService';
+
+/** Preference key for a device id - the web player's id changes every session */
+export const getDeviceKey = (deviceId: string, webPlayerId: string | null) =>
+  deviceId === webPlayerId ? WEB_PLAYER_KEY : deviceId;
+
+/** Device id for a preference key, or null if it isn't online right now */
+export const resolveDeviceKey = (
+  key: string,
+  webPlayerId: string | null,
+  onlineDeviceIds: string[]
+): string | null => {
+  if (key === WEB_PLAYER_KEY) return webPlayerId;
+  return onlineDeviceIds.includes(key) ? key : null;
+};
+
+/**
+ * Device to send a new play request to
+ */
+export const pickPlaybackDevice = (prefs: DevicePreferences, { webPlayerId, activeDeviceId, onlineDeviceIds }: {
+  webPlayerId: string | null;
+  activeDeviceId: string | null;
+  onlineDeviceIds: string[];
+}): string | null => {
+  if (activeDeviceId && prefs.protectedDeviceKeys.includes(getDeviceKey(activeDeviceId, webPlayerId))) {
+    return activeDeviceId;
+  }
+  if (!activeDeviceId && prefs.preferredDeviceKey) {
+    const preferred = resolveDeviceKey(prefs.preferredDeviceKey, webPlayerId, onlineDeviceIds);
+    if (preferred) return preferred;
+  }
+  return webPlayerId || activeDeviceId;
+};
+
+/**
+ * Whether the web player should make itself the active device once it is ready
+ */
+export const shouldTakeOver = (prefs: DevicePreferences, { webPlayerId, activeDeviceId, isPlaying }: {
+  webPlayerId: string;
+  activeDeviceId: string | null;
+  isPlaying: boolean;
+}): boolean => {
+  if (!prefs.takeOverWhenIdle || isPlaying || activeDeviceId === webPlayerId) return false;
+  return !activeDeviceId || !prefs.protectedDeviceKeys.includes(activeDeviceId);
+};
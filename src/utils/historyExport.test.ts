@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import {
+  filterByDateRange,
+  isScrobble,
+  parseSpotifyStreamingHistory,
+  toLastfmCsv,
+  toListenBrainzJson,
+  toPlainCsv
+} from './historyExport';
+import type { ListeningHistoryEntry } from '../services/listeningHistoryService';
+
+const STARTED_AT = Date.UTC(2024, 2, 1, 12, 0, 0);
+
+const entry = (overrides: Partial<ListeningHistoryEntry> = {}): ListeningHistoryEntry => ({
+  id: 1,
+  trackId: 'track1',
+  trackUri: 'spotify:track:track1',
+  trackName: 'Song',
+  artists: [{ id: 'artist1', name: 'Singer' }, { id: 'artist2', name: 'Guest' }],
+  albumName: 'Album',
+  albumArtist: 'Various Artists',
+  isrc: 'USABC1234567',
+  trackDurationMs: 200000,
+  startedAt: STARTED_AT,
+  listenedMs: 200000,
+  skipped: false,
+  contextUri: null,
+  ...overrides
+});
+
+const streamingRecord = (overrides: Record<string, unknown> = {}) => ({
+  ts: '2024-03-01T12:03:20Z',
+  ms_played: 200000,
+  master_metadata_track_name: 'Song',
+  master_metadata_album_artist_name: 'Singer',
+  master_metadata_album_album_name: 'Album',
+  spotify_track_uri: 'spotify:track:track1',
+  reason_end: 'trackdone',
+  skipped: false,
+  ...overrides
+});
+
+describe('filterByDateRange', () => {
+  const entries = [1000, 2000, 3000].map(startedAt => entry({ startedAt }));
+
+  it('keeps both ends of the range', () => {
+    expect(filterByDateRange(entries, { from: 1000, to: 2000 }).map(e => e.startedAt)).toEqual([1000, 2000]);
+  });
+
+  it('leaves an open end unbounded', () => {
+    expect(filterByDateRange(entries, { from: 2000 }).map(e => e.startedAt)).toEqual([2000, 3000]);
+    expect(filterByDateRange(entries, { to: 1500 }).map(e => e.startedAt)).toEqual([1000]);
+    expect(filterByDateRange(entries, {})).toHaveLength(3);
+  });
+});
+
+describe('isScrobble', () => {
+  it('needs half the track or four minutes, whichever comes first', () => {
+    expect(isScrobble(entry({ listenedMs: 99999 }))).toBe(false);
+    expect(isScrobble(entry({ listenedMs: 100000 }))).toBe(true);
+    expect(isScrobble(entry({ trackDurationMs: 600000, listenedMs: 240000 }))).toBe(true);
+  });
+
+  it('never counts tracks of 30 seconds or less', () => {
+    expect(isScrobble(entry({ trackDurationMs: 30000, listenedMs: 30000 }))).toBe(false);
+  });
+
+  it('falls back to 30 seconds when the length is unknown (imported plays)', () => {
+    expect(isScrobble(entry({ trackDurationMs: 0, listenedMs: 29999 }))).toBe(false);
+    expect(isScrobble(entry({ trackDurationMs: 0, listenedMs: 30000 }))).toBe(true);
+  });
+});
+
+describe('toLastfmCsv', () => {
+  it('writes the primary artist, the album artist and the length in seconds', () => {
+    const [header, row] = toLastfmCsv([entry()]).split('\n');
+
+    expect(header).toBe('Artist,Track,Album,Timestamp,Album Artist,Duration');
+    expect(row).toBe('Singer,Song,Album,2024-03-01T12:00:00.000Z,Various Artists,200');
+  });
+
+  it('leaves the album artist empty when it is unknown', () => {
+    const [, row] = toLastfmCsv([entry({ albumArtist: undefined, trackDurationMs: 0, listenedMs: 60000 })]).split('\n');
+    expect(row).toBe('Singer,Song,Album,2024-03-01T12:00:00.000Z,,');
+  });
+
+  it('only includes plays that count as scrobbles', () => {
+    expect(toLastfmCsv([entry({ listenedMs: 5000 })]).split('\n')).toHaveLength(1);
+  });
+});
+
+describe('toPlainCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    const csv = toPlainCsv([entry({ trackName: 'Say "Hi", Bye', albumName: 'Two\nLines' })]);
+    const [header, ...rest] = csv.split('\n');
+
+    expect(header).toBe('track,artist,album,isrc,timestamp,ms_played,skipped,spotify_uri');
+    expect(rest.join('\n')).toBe(
+      '"Say ""Hi"", Bye","Singer, Guest","Two\nLines",USABC1234567,2024-03-01T12:00:00.000Z,200000,false,spotify:track:track1'
+    );
+  });
+
+  it('includes skips and short plays, with empty cells for missing fields', () => {
+    const [, row] = toPlainCsv([entry({ listenedMs: 1500, skipped: true, isrc: undefined, albumName: undefined })]).split('\n');
+    expect(row).toBe('Song,"Singer, Guest",,,2024-03-01T12:00:00.000Z,1500,true,spotify:track:track1');
+  });
+});
+
+describe('toListenBrainzJson', () => {
+  it('builds an import payload of scrobbles with second timestamps', () => {
+    const body = JSON.parse(toListenBrainzJson([entry(), entry({ listenedMs: 1000 })]));
+
+    expect(body.listen_type).toBe('import');
+    expect(body.payload).toHaveLength(1);
+    expect(body.payload[0]).toMatchObject({
+      listened_at: STARTED_AT / 1000,
+      track_metadata: {
+        artist_name: 'Singer, Guest',
+        track_name: 'Song',
+        release_name: 'Album',
+        additional_info: {
+          spotify_id: 'https://open.spotify.com/track/track1',
+          spotify_artist_ids: ['https://open.spotify.com/artist/artist1', 'https://open.spotify.com/artist/artist2'],
+          isrc: 'USABC1234567',
+          duration_ms: 200000
+        }
+      }
+    });
+  });
+});
+
+describe('parseSpotifyStreamingHistory', () => {
+  it('maps ms_played to the listened time and dates the start back from ts', () => {
+    const [parsed] = parseSpotifyStreamingHistory([streamingRecord()]);
+
+    expect(parsed).toMatchObject({
+      trackId: 'track1',
+      trackUri: 'spotify:track:track1',
+      trackName: 'Song',
+      artists: [{ id: '', name: 'Singer' }],
+      albumName: 'Album',
+      albumArtist: 'Singer',
+      trackDurationMs: 0,
+      startedAt: STARTED_AT,
+      listenedMs: 200000,
+      skipped: false
+    });
+  });
+
+  it('marks plays that did not end naturally as skipped', () => {
+    const parsed = parseSpotifyStreamingHistory([
+      streamingRecord({ reason_end: 'fwdbtn', skipped: null }),
+      streamingRecord({ reason_end: null, skipped: true }),
+      streamingRecord({ reason_end: 'trackdone', skipped: null })
+    ]);
+    expect(parsed.map(e => e.skipped)).toEqual([true, true, false]);
+  });
+
+  it('drops episodes, records without a uri, sub-second plays and bad timestamps', () => {
+    const parsed = parseSpotifyStreamingHistory([
+      streamingRecord({ spotify_track_uri: null }),
+      streamingRecord({ spotify_track_uri: 'spotify:episode:abc' }),
+      streamingRecord({ ms_played: 999 }),
+      streamingRecord({ ts: 'not a date' }),
+      streamingRecord()
+    ]);
+    expect(parsed).toHaveLength(1);
+  });
+
+  it('rejects files that are not extended streaming history', () => {
+    expect(() => parseSpotifyStreamingHistory({})).toThrow('Expected an array');
+    expect(() => parseSpotifyStreamingHistory([{ endTime: '2024-03-01 12:00', msPlayed: 1000 }])).toThrow('Not an extended');
+  });
+});
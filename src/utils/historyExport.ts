@@ -0,0 +1,174 @@
+/**
+ * Listening history export / import helpers
+ *
+ * EXPORT FORMATS:
+ * - listenbrainz: JSON body for ListenBrainz's submit-listens API ({ listen_type: 'import', payload })
+ * - lastfm: Scrobble CSV as read by Last.fm bulk scrobblers (Artist, Track, Album, Timestamp, Album Artist, Duration)
+ * - csv: Plain CSV with track, artist, album, ISRC, timestamp and ms_played
+ *
+ * IMPORT:
+ * - Spotify "Extended streaming history" JSON (Streaming_History_Audio_*.json from the privacy data download)
+ */
+
+import type { ListeningHistoryEntry } from '../services/listeningHistoryService';
+
+export type HistoryExportFormat = 'listenbrainz' | 'lastfm' | 'csv';
+
+export interface DateRange {
+  /** Inclusive start (ms since epoch) */
+  from?: number;
+  /** Inclusive end (ms since epoch) */
+  to?: number;
+}
+
+/** Spotify extended streaming history record - only the fields we use */
+interface SpotifyStreamingRecord {
+  ts: string;
+  ms_played: number;
+  master_metadata_track_name: string | null;
+  master_metadata_album_artist_name: string | null;
+  master_metadata_album_album_name: string | null;
+  spotify_track_uri: string | null;
+  reason_end?: string | null;
+  skipped?: boolean | null;
+}
+
+/** Spotify extended history records plays under this length but they aren't real listens */
+const MIN_IMPORT_MS = 1000;
+
+export const filterByDateRange = (entries: ListeningHistoryEntry[], { from, to }: DateRange): ListeningHistoryEntry[] =>
+  entries.filter(entry =>
+    (from === undefined || entry.startedAt >= from) &&
+    (to === undefined || entry.startedAt <= to)
+  );
+
+/**
+ * Last.fm / ListenBrainz scrobble rule: the track is longer than 30 seconds and was
+ * played for at least half its length or 4 minutes, whichever comes first
+ */
+export const isScrobble = (entry: ListeningHistoryEntry): boolean => {
+  if (entry.trackDurationMs > 0 && entry.trackDurationMs <= 30000) return false;
+  const threshold = entry.trackDurationMs > 0 ? Math.min(entry.trackDurationMs / 2, 240000) : 30000;
+  return entry.listenedMs >= threshold;
+};
+
+const csvCell = (value: string | number | undefined | null): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (cells: Array<string | number | undefined | null>) => cells.map(csvCell).join(',');
+
+const primaryArtist = (entry: ListeningHistoryEntry) => entry.artists[0]?.name || '';
+const allArtists = (entry: ListeningHistoryEntry) => entry.artists.map(a => a.name).join(', ');
+
+export const toListenBrainzJson = (entries: ListeningHistoryEntry[]): string => {
+  const payload = entries.filter(isScrobble).map(entry => ({
+    listened_at: Math.floor(entry.startedAt / 1000),
+    track_metadata: {
+      artist_name: allArtists(entry),
+      track_name: entry.trackName,
+      ...(entry.albumName ? { release_name: entry.albumName } : {}),
+      additional_info: {
+        media_player: 'Spotify',
+        music_service: 'spotify.com',
+        submission_client: 'flowbeats',
+        origin_url: entry.trackId ? `https://open.spotify.com/track/${entry.trackId}` : undefined,
+        spotify_id: entry.trackId ? `https://open.spotify.com/track/${entry.trackId}` : undefined,
+        spotify_artist_ids: entry.artists.filter(a => a.id).map(a => `https://open.spotify.com/artist/${a.id}`),
+        isrc: entry.isrc,
+        duration_ms: entry.trackDurationMs || undefined
+      }
+    }
+  }));
+  return JSON.stringify({ listen_type: 'import', payload }, null, 2);
+};
+
+export const toLastfmCsv = (entries: ListeningHistoryEntry[]): string => {
+  const rows = entries.filter(isScrobble).map(entry => csvRow([
+    primaryArtist(entry),
+    entry.trackName,
+    entry.albumName,
+    new Date(entry.startedAt).toISOString(),
+    entry.albumArtist,
+    entry.trackDurationMs ? Math.round(entry.trackDurationMs / 1000) : ''
+  ]));
+  return [csvRow(['Artist', 'Track', 'Album', 'Timestamp', 'Album Artist', 'Duration']), ...rows].join('\n');
+};
+
+export const toPlainCsv = (entries: ListeningHistoryEntry[]): string => {
+  const rows = entries.map(entry => csvRow([
+    entry.trackName,
+    allArtists(entry),
+    entry.albumName,
+    entry.isrc,
+    new Date(entry.startedAt).toISOString(),
+    entry.listenedMs,
+    entry.skipped ? 'true' : 'false',
+    entry.trackUri
+  ]));
+  return [csvRow(['track', 'artist', 'album', 'isrc', 'timestamp', 'ms_played', 'skipped', 'spotify_uri']), ...rows].join('\n');
+};
+
+export const EXPORT_FORMATS: Record<HistoryExportFormat, { label: string; extension: string; mimeType: string; build: (entries: ListeningHistoryEntry[]) => string }> = {
+  listenbrainz: { label: 'ListenBrainz JSON', extension: 'json', mimeType: 'application/json', build: toListenBrainzJson },
+  lastfm: { label: 'Last.fm scrobble CSV', extension: 'csv', mimeType: 'text/csv', build: toLastfmCsv },
+  csv: { label: 'Plain CSV', extension: 'csv', mimeType: 'text/csv', build: toPlainCsv },
+};
+
+/**
+ * Trigger a browser download for generated export content
+ */
+export const downloadFile = (content: string, filename: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Convert Spotify's extended streaming history into history entries.
+ * `ts` is when the stream ended, so the start time is ts - ms_played.
+ * Podcast episodes and records without a track URI are dropped.
+ */
+export const parseSpotifyStreamingHistory = (json: unknown): ListeningHistoryEntry[] => {
+  if (!Array.isArray(json)) {
+    throw new Error('Expected an array of streaming history records');
+  }
+
+  const records = json as SpotifyStreamingRecord[];
+  if (records.length > 0 && !('ts' in records[0] && 'ms_played' in records[0])) {
+    // The basic "StreamingHistory.json" from the account data download has no track URIs
+    throw new Error('Not an extended streaming history file (missing ts / ms_played)');
+  }
+
+  return records
+    .filter(record => record.spotify_track_uri?.startsWith('spotify:track:') && record.ms_played >= MIN_IMPORT_MS)
+    .map(record => {
+      const endedAt = Date.parse(record.ts);
+      const uri = record.spotify_track_uri as string;
+      const skipped = record.skipped === true || (!!record.reason_end && record.reason_end !== 'trackdone');
+      return {
+        trackId: uri.split(':')[2],
+        trackUri: uri,
+        trackName: record.master_metadata_track_name || 'Unknown track',
+        artists: record.master_metadata_album_artist_name
+          ? [{ id: '', name: record.master_metadata_album_artist_name }]
+          : [],
+        albumName: record.master_metadata_album_album_name || undefined,
+        albumArtist: record.master_metadata_album_artist_name || undefined,
+        // Not part of the export - unknown until the track is played here again
+        trackDurationMs: 0,
+        startedAt: endedAt - record.ms_played,
+        listenedMs: record.ms_played,
+        skipped,
+        contextUri: null
+      };
+    })
+    .filter(entry => !Number.isNaN(entry.startedAt));
+};
@@ -0,0 +1,154 @@
+/**
+ * Keyboard shortcut definitions and key-combination helpers
+ *
+ * BINDING FORMAT:
+ * - A single chord is modifiers + key, lowercased and joined with "+": "space", "shift+arrowright", "ctrl+z"
+ * - Sequences are chords separated by a space: "g l" means press g, then l
+ * - Shift is only recorded for non-printable keys, so "?" stays "?" rather than "shift+?"
+ */
+
+export type ShortcutAction =
+  | 'togglePlay'
+  | 'seekForward'
+  | 'seekBackward'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'nextTrack'
+  | 'previousTrack'
+  | 'toggleShuffle'
+  | 'cycleRepeat'
+  | 'undo'
+  | 'focusSearch'
+  | 'goLibrary'
+  | 'goHome'
+  | 'showHelp';
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+  group: 'Playback' | 'Navigation' | 'General';
+  defaultBinding: string;
+  /** Whether holding the key down should keep firing the action */
+  repeatable?: boolean;
+}
+
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  { action: 'togglePlay', label: 'Play / pause', group: 'Playback', defaultBinding: 'space' },
+  { action: 'seekForward', label: 'Seek forward 5s', group: 'Playback', defaultBinding: 'arrowright', repeatable: true },
+  { action: 'seekBackward', label: 'Seek back 5s', group: 'Playback', defaultBinding: 'arrowleft', repeatable: true },
+  { action: 'volumeUp', label: 'Volume up', group: 'Playback', defaultBinding: 'arrowup', repeatable: true },
+  { action: 'volumeDown', label: 'Volume down', group: 'Playback', defaultBinding: 'arrowdown', repeatable: true },
+  { action: 'nextTrack', label: 'Next track', group: 'Playback', defaultBinding: 'shift+arrowright' },
+  { action: 'previousTrack', label: 'Previous track', group: 'Playback', defaultBinding: 'shift+arrowleft' },
+  { action: 'toggleShuffle', label: 'Toggle shuffle', group: 'Playback', defaultBinding: 's' },
+  { action: 'cycleRepeat', label: 'Cycle repeat mode', group: 'Playback', defaultBinding: 'r' },
+  { action: 'undo', label: 'Undo last skip / seek', group: 'Playback', defaultBinding: 'ctrl+z' },
+  { action: 'focusSearch', label: 'Focus search', group: 'Navigation', defaultBinding: '/' },
+  { action: 'goLibrary', label: 'Go to Library', group: 'Navigation', defaultBinding: 'g l' },
+  { action: 'goHome', label: 'Go to Home', group: 'Navigation', defaultBinding: 'g h' },
+  { action: 'showHelp', label: 'Show keyboard shortcuts', group: 'General', defaultBinding: '?' },
+];
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const SHORTCUTS_STORAGE_KEY = 'spotify_shortcuts';
+
+/** Window event the search box listens for when the focus-search shortcut fires */
+export const FOCUS_SEARCH_EVENT = 'shortcut-focus-search';
+
+/** How long to wait for the second half of a sequence like "g l" */
+export const SEQUENCE_TIMEOUT_MS = 1000;
+
+export const getDefaultBindings = (): ShortcutBindings =>
+  SHORTCUT_DEFINITIONS.reduce((acc, def) => {
+    acc[def.action] = def.defaultBinding;
+    return acc;
+  }, {} as ShortcutBindings);
+
+/**
+ * Load user bindings from localStorage, falling back to defaults for anything missing
+ */
+export const loadBindings = (): ShortcutBindings => {
+  const defaults = getDefaultBindings();
+  try {
+    const saved = localStorage.getItem(SHORTCUTS_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<ShortcutBindings>;
+      return { ...defaults, ...parsed };
+    }
+  } catch (e) {
+    console.warn('Failed to load keyboard shortcuts', e);
+  }
+  return defaults;
+};
+
+export const saveBindings = (bindings: ShortcutBindings): void => {
+  try {
+    localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(bindings));
+  } catch (e) {
+    console.warn('Failed to save keyboard shortcuts', e);
+  }
+};
+
+const MODIFIER_KEYS = new Set(['control', 'shift', 'alt', 'meta']);
+
+/**
+ * Convert a keyboard event into a chord string, or null for bare modifier presses
+ */
+export const eventToChord = (e: KeyboardEvent): string | null => {
+  const key = e.key === ' ' ? 'space' : e.key.toLowerCase();
+  if (MODIFIER_KEYS.has(key)) return null;
+
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('ctrl');
+  if (e.altKey) parts.push('alt');
+  if (e.metaKey) parts.push('meta');
+  // Shift already changes printable characters ("/" vs "?"), so only record it for named keys
+  if (e.shiftKey && key.length > 1) parts.push('shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+/**
+ * True when keyboard input is going to a text field and shortcuts should stay out of the way
+ */
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  const tag = target.tagName;
+  if (tag === 'TEXTAREA' || tag === 'SELECT') return true;
+  if (tag === 'INPUT') {
+    const type = (target as HTMLInputElement).type;
+    // Sliders, checkboxes and buttons don't take text
+    return !['range', 'checkbox', 'radio', 'button', 'submit'].includes(type);
+  }
+  return false;
+};
+
+const KEY_LABELS: Record<string, string> = {
+  space: 'Space',
+  arrowright: '→',
+  arrowleft: '←',
+  arrowup: '↑',
+  arrowdown: '↓',
+  ctrl: 'Ctrl',
+  alt: 'Alt',
+  meta: '⌘',
+  shift: 'Shift',
+  escape: 'Esc',
+  enter: 'Enter',
+};
+
+/**
+ * Human-readable label for a binding, e.g. "shift+arrowright" -> "Shift + →", "g l" -> "G then L"
+ */
+export const formatBinding = (binding: string): string => {
+  if (!binding) return 'Unassigned';
+  return binding
+    .split(' ')
+    .map(chord => chord
+      .split('+')
+      .map(part => KEY_LABELS[part] || (part.length === 1 ? part.toUpperCase() : part))
+      .join(' + '))
+    .join(' then ');
+};
@@ -0,0 +1,136 @@
+/**
+ * Playback error taxonomy
+ * Turns failed Web API player responses and Web Playback SDK error events into typed
+ * errors with a user-facing message and a recovery strategy
+ *
+ * RECOVERY:
+ * - activate-device: make this tab's SDK device active, then retry once
+ * - skip-track: move on to the next track (the current one can't be played)
+ * - retry-later: wait for Retry-After before sending more commands
+ * - reauthenticate: refresh the token, or ask the user to log in again
+ * - open-spotify: nothing to retry - the account can't be controlled from here
+ * - transfer-here: the device refuses remote commands, offer to play in the browser
+ */
+
+import { parseRetryAfter } from './playbackSync';
+
+export type PlaybackErrorCode =
+  | 'PREMIUM_REQUIRED'
+  | 'NO_ACTIVE_DEVICE'
+  | 'DEVICE_RESTRICTED'
+  | 'UNAVAILABLE_IN_MARKET'
+  | 'RATE_LIMITED'
+  | 'AUTH_EXPIRED'
+  | 'UNKNOWN';
+
+export type PlaybackRecovery =
+  | 'activate-device'
+  | 'skip-track'
+  | 'retry-later'
+  | 'reauthenticate'
+  | 'open-spotify'
+  | 'transfer-here'
+  | 'none';
+
+export const PLAYBACK_RECOVERY: Record<PlaybackErrorCode, PlaybackRecovery> = {
+  PREMIUM_REQUIRED: 'open-spotify',
+  NO_ACTIVE_DEVICE: 'activate-device',
+  DEVICE_RESTRICTED: 'transfer-here',
+  UNAVAILABLE_IN_MARKET: 'skip-track',
+  RATE_LIMITED: 'retry-later',
+  AUTH_EXPIRED: 'reauthenticate',
+  UNKNOWN: 'none',
+};
+
+export const PLAYBACK_ERROR_MESSAGES: Record<PlaybackErrorCode, string> = {
+  PREMIUM_REQUIRED: 'Spotify Premium is required to control playback from this app',
+  NO_ACTIVE_DEVICE: 'No active device - open Spotify on a device or play in this browser',
+  DEVICE_RESTRICTED: "This device doesn't accept commands from other apps",
+  UNAVAILABLE_IN_MARKET: "This track isn't available in your country",
+  RATE_LIMITED: 'Too many requests to Spotify - try again in a moment',
+  AUTH_EXPIRED: 'Your Spotify session expired - please log in again',
+  UNKNOWN: 'Playback failed',
+};
+
+export class PlaybackError extends Error {
+  readonly code: PlaybackErrorCode;
+  readonly recovery: PlaybackRecovery;
+  /** HTTP status, when the error came from the Web API */
+  readonly status: number | null;
+  /** How long to back off, for RATE_LIMITED */
+  readonly retryAfterMs: number;
+
+  constructor(code: PlaybackErrorCode, { detail, status = null, retryAfterMs = 0 }: {
+    detail?: string;
+    status?: number | null;
+    retryAfterMs?: number;
+  } = {}) {
+    super(detail || PLAYBACK_ERROR_MESSAGES[code]);
+    this.name = 'PlaybackError';
+    this.code = code;
+    this.recovery = PLAYBACK_RECOVERY[code];
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  /** Message to show the user */
+  get userMessage(): string {
+    if (this.code === 'UNKNOWN' && this.message !== PLAYBACK_ERROR_MESSAGES.UNKNOWN) {
+      return `${PLAYBACK_ERROR_MESSAGES.UNKNOWN}: ${this.message}`;
+    }
+    return PLAYBACK_ERROR_MESSAGES[this.code];
+  }
+}
+
+// Player endpoints answer with { error: { status, message, reason } }
+const classify = (status: number, reason: string, message: string): PlaybackErrorCode => {
+  const text = `${reason} ${message}`.toLowerCase();
+  if (status === 401) return 'AUTH_EXPIRED';
+  if (status === 429) return 'RATE_LIMITED';
+  if (reason === 'PREMIUM_REQUIRED' || text.includes('premium')) return 'PREMIUM_REQUIRED';
+  if (reason === 'NO_ACTIVE_DEVICE' || status === 404) return 'NO_ACTIVE_DEVICE';
+  if (text.includes('market') || text.includes('not available') || text.includes('unavailable')) return 'UNAVAILABLE_IN_MARKET';
+  if (status === 403 && (text.includes('disallow') || text.includes('restrict'))) return 'DEVICE_RESTRICTED';
+  return 'UNKNOWN';
+};
+
+/**
+ * Typed error for a failed player request, or null when it succeeded
+ */
+export const parsePlaybackError = async (response: Response): Promise<PlaybackError | null> => {
+  if (response.ok) return null;
+  let reason = '';
+  let message = '';
+  try {
+    const body = await response.clone().json();
+    reason = body?.error?.reason || '';
+    message = body?.error?.message || '';
+  } catch {
+    // Some failures have no JSON body
+  }
+  return new PlaybackError(classify(response.status, reason, message), {
+    detail: message || undefined,
+    status: response.status,
+    retryAfterMs: response.status === 429 ? parseRetryAfter(response.headers.get('Retry-After')) || 5000 : 0
+  });
+};
+
+/**
+ * Typed error for a Web Playback SDK error event
+ */
+export const playbackErrorFromSdk = (
+  event: 'initialization_error' | 'authentication_error' | 'account_error' | 'playback_error',
+  message: string
+): PlaybackError => {
+  switch (event) {
+    case 'account_error':
+      return new PlaybackError('PREMIUM_REQUIRED', { detail: message });
+    case 'authentication_error':
+      return new PlaybackError('AUTH_EXPIRED', { detail: message });
+    case 'playback_error':
+      // The SDK reports this when the loaded track can't be played
+      return new PlaybackError('UNAVAILABLE_IN_MARKET', { detail: message });
+    default:
+      return new PlaybackError('UNKNOWN', { detail: message });
+  }
+};
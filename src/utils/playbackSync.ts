@@ -0,0 +1,78 @@
+/**
+ * Adaptive playback-state sync helpers
+ *
+ * PlayerProvider polls GET /me/player on a timer whose length depends on what is going on:
+ * - local: this tab's SDK device is playing - player_state_changed events keep us current,
+ *   polling is only a safety net
+ * - remote: another device is playing - nothing pushes updates, so poll often
+ * - paused: something is loaded but not playing
+ * - inactive: Spotify reports no playback at all
+ *
+ * Hidden tabs and long idle periods back off, and a 429 Retry-After always wins.
+ * Between syncs the position is interpolated from the last known anchor.
+ */
+
+export type SyncActivity = 'local' | 'remote' | 'paused' | 'inactive';
+
+/** Poll delay per activity (ms) while the tab is visible / hidden */
+export const SYNC_INTERVALS: Record<SyncActivity, { visible: number; hidden: number }> = {
+  local: { visible: 30000, hidden: 60000 },
+  remote: { visible: 3000, hidden: 15000 },
+  paused: { visible: 10000, hidden: 60000 },
+  inactive: { visible: 20000, hidden: 120000 },
+};
+
+/** Paused / inactive for this long counts as idle and polls at the hidden rate */
+export const IDLE_BACKOFF_AFTER_MS = 2 * 60 * 1000;
+
+/** Position reported at a point in time, used to interpolate between syncs */
+export interface PositionAnchor {
+  position: number;
+  at: number;
+}
+
+/**
+ * Classify a playback state for scheduling
+ */
+export const getSyncActivity = ({ hasPlayback, isPlaying, isLocalDevice }: {
+  hasPlayback: boolean;
+  isPlaying: boolean;
+  isLocalDevice: boolean;
+}): SyncActivity => {
+  if (!hasPlayback) return 'inactive';
+  if (!isPlaying) return 'paused';
+  return isLocalDevice ? 'local' : 'remote';
+};
+
+/**
+ * How long to wait before the next GET /me/player
+ */
+export const getSyncDelay = (activity: SyncActivity, { hidden, idleMs = 0, retryAfterMs = 0 }: {
+  hidden: boolean;
+  idleMs?: number;
+  retryAfterMs?: number;
+}): number => {
+  const intervals = SYNC_INTERVALS[activity];
+  const idle = (activity === 'paused' || activity === 'inactive') && idleMs >= IDLE_BACKOFF_AFTER_MS;
+  const delay = hidden || idle ? intervals.hidden : intervals.visible;
+  return Math.max(delay, retryAfterMs);
+};
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into ms, or 0 when absent
+ */
+export const parseRetryAfter = (value: string | null): number => {
+  if (!value) return 0;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? 0 : Math.max(0, date - Date.now());
+};
+
+/**
+ * Current position extrapolated from the last sync, clamped to the track length
+ */
+export const interpolatePosition = (anchor: PositionAnchor, duration: number, now = Date.now()): number => {
+  const position = anchor.position + Math.max(0, now - anchor.at);
+  return duration > 0 ? Math.min(position, duration) : position;
+};
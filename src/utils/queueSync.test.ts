@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import queueReducer, { enqueue, insertNext, setQueue, setQueueIndex, setQueueActive, type QueueState } from '../store/queueSlice';
+import { continueAfterStop, syncQueueToTrack, type QueueSyncStep } from './queueSync';
+import { RADIO_BATCH_SIZE, RADIO_REFILL_THRESHOLD } from './radio';
+import type { Track } from '../types/spotify';
+
+const DURATION = 180000;
+
+interface PlaybackState {
+  current: Track | null;
+  playing: boolean;
+  position: number;
+}
+
+const track = (id: string): Track => ({
+  id,
+  uri: `spotify:track:${id}`,
+  name: id,
+  artists: [],
+  duration_ms: DURATION,
+  explicit: false,
+  external_urls: { spotify: '' },
+  href: '',
+  preview_url: null,
+  type: 'track'
+});
+
+const tracks = (prefix: string, count: number) => Array.from({ length: count }, (_, i) => track(`${prefix}${i}`));
+
+/**
+ * Spotify playing a uri list the way play({ uris }) does: it advances through the list it was
+ * handed and stops on the last track (paused, back at 0). The sync steps run after every
+ * state change, as PlayerProvider's effects do.
+ */
+const createSession = () => {
+  let queue: QueueState = { items: [], currentIndex: -1, active: false, originalItems: null };
+  let handedOver: Track[] = [];
+  let spotifyIndex = 0;
+  let state: PlaybackState = { current: null, playing: false, position: 0 };
+  let lastProgress = { position: 0, duration: 0 };
+  const played: string[] = [];
+
+  const apply = (step: QueueSyncStep) => {
+    if (step.type === 'follow') queue = queueReducer(queue, setQueueIndex(step.index));
+    else if (step.type === 'play') playQueueIndex(queue.items, step.index);
+    else if (step.type === 'release') queue = queueReducer(queue, setQueueActive(false));
+  };
+
+  const update = (next: PlaybackState) => {
+    const trackChanged = next.current?.uri !== state.current?.uri;
+    state = next;
+    if (trackChanged && next.current) played.push(next.current.id);
+    if (next.current && queue.active) {
+      if (trackChanged) apply(syncQueueToTrack(queue.items, queue.currentIndex, next.current, lastProgress));
+      apply(continueAfterStop(queue.items, queue.currentIndex, next.current, next, lastProgress, handedOver[handedOver.length - 1] ?? null));
+    }
+    lastProgress = { position: state.position, duration: DURATION };
+  };
+
+  const playQueueIndex = (items: Track[], index: number) => {
+    queue = queueReducer(queue, setQueue({ items, currentIndex: index }));
+    handedOver = items.slice(index);
+    spotifyIndex = 0;
+    update({ current: handedOver[0], playing: true, position: 0 });
+  };
+
+  /** Play the current track to its end, letting Spotify advance or stop */
+  const finishTrack = () => {
+    update({ ...state, position: DURATION - 1000 });
+    if (handedOver[spotifyIndex + 1]) {
+      spotifyIndex++;
+      update({ current: handedOver[spotifyIndex], playing: true, position: 0 });
+    } else {
+      update({ ...state, playing: false, position: 0 });
+    }
+  };
+
+  return {
+    playQueueIndex,
+    finishTrack,
+    update,
+    dispatch: (action: Parameters<typeof queueReducer>[1]) => { queue = queueReducer(queue, action); },
+    get queue() { return queue; },
+    get state() { return state; },
+    played
+  };
+};
+
+describe('local queue sync', () => {
+  it('plays tracks appended after the last handed-over uri once the track ends', () => {
+    const session = createSession();
+    session.playQueueIndex(tracks('a', 2), 0);
+    session.dispatch(enqueue([track('late')]));
+
+    session.finishTrack();
+    session.finishTrack();
+
+    expect(session.state.current?.id).toBe('late');
+    expect(session.state.playing).toBe(true);
+    expect(session.queue.currentIndex).toBe(2);
+    expect(session.played).toEqual(['a0', 'a1', 'late']);
+  });
+
+  it('plays "play next" tracks inserted while the last handed-over track plays', () => {
+    const session = createSession();
+    session.playQueueIndex(tracks('a', 2), 0);
+    session.finishTrack();
+    session.dispatch(insertNext([track('next')]));
+
+    session.finishTrack();
+
+    expect(session.state.current?.id).toBe('next');
+    expect(session.played).toEqual(['a0', 'a1', 'next']);
+  });
+
+  it('stops at the end of the queue when nothing was added', () => {
+    const session = createSession();
+    session.playQueueIndex(tracks('a', 2), 0);
+
+    session.finishTrack();
+    session.finishTrack();
+
+    expect(session.state.current?.id).toBe('a1');
+    expect(session.state.playing).toBe(false);
+    expect(session.played).toEqual(['a0', 'a1']);
+  });
+
+  it('does not skip ahead when the user pauses and seeks back to the start', () => {
+    const session = createSession();
+    session.playQueueIndex(tracks('a', 1), 0);
+    session.dispatch(enqueue([track('late')]));
+
+    session.update({ ...session.state, playing: false, position: 20000 });
+    session.update({ ...session.state, position: 0 });
+
+    expect(session.state.current?.id).toBe('a0');
+    expect(session.queue.currentIndex).toBe(0);
+    expect(session.played).toEqual(['a0']);
+  });
+
+  it('ignores the stop between two tracks in the middle of the handed-over list', () => {
+    const items = tracks('a', 3);
+    const step = continueAfterStop(items, 0, items[0], { playing: false, position: 0 }, { position: DURATION - 500, duration: DURATION }, items[2]);
+    expect(step).toEqual({ type: 'none' });
+  });
+
+  it('keeps radio playing past the first batch', () => {
+    const session = createSession();
+    let batch = 0;
+    const nextBatch = () => tracks(`radio${batch++}-`, RADIO_BATCH_SIZE);
+    // Like RadioProvider: one refill per low-queue moment, each pick appended to the queue
+    let lastFillKey: string | null = null;
+    const fillIfLow = () => {
+      const { items, currentIndex } = session.queue;
+      const remaining = items.length - currentIndex - 1;
+      const fillKey = `${items[currentIndex]?.id}:${remaining}`;
+      if (remaining > RADIO_REFILL_THRESHOLD || fillKey === lastFillKey) return;
+      lastFillKey = fillKey;
+      nextBatch().forEach(pick => session.dispatch(enqueue([pick])));
+    };
+
+    session.playQueueIndex([track('seed'), ...nextBatch()], 0);
+    const total = 1 + RADIO_BATCH_SIZE * 3;
+    while (session.played.length < total && session.state.playing) {
+      fillIfLow();
+      session.finishTrack();
+    }
+
+    expect(session.played).toHaveLength(total);
+    expect(session.played).toContain('radio1-0');
+    expect(session.played).toContain('radio2-0');
+    expect(session.state.playing).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Local queue sync helpers
+ * Decide how the client-managed queue follows what Spotify is actually playing
+ *
+ * RULES:
+ * - Spotify only knows the uris play({ uris }) handed it; tracks queued locally afterwards
+ *   are played by steering it again (a 'play' step) once it runs past the handed-over list
+ * - Running past the list shows up in one of two ways: Spotify (autoplay) moves on to a
+ *   track outside it, or it stops on the last track - paused, back at position 0
+ * - Both only count when the previous track had (nearly) finished, so a user pausing or
+ *   picking something else is never mistaken for the end of the list
+ */
+
+import type { Track } from '../types/spotify';
+
+/** Within this much of the end a track counts as having played to completion */
+export const TRACK_END_MARGIN_MS = 5000;
+
+/** Last progress seen before the current player update */
+export interface QueueProgress {
+  position: number;
+  duration: number;
+}
+
+/** What the leader does to keep the local queue and Spotify in step */
+export type QueueSyncStep =
+  | { type: 'none' }
+  /** Spotify is already playing items[index] - only move the queue position */
+  | { type: 'follow'; index: number }
+  /** Play the queue from items[index] again */
+  | { type: 'play'; index: number }
+  /** Something outside the queue is playing now - stop driving playback */
+  | { type: 'release' };
+
+// Two entries refer to the same track if either the uri or the id matches (relinking changes uris)
+export const isSameTrack = (a: Track | null | undefined, b: Track | null | undefined) =>
+  !!a && !!b && (a.uri === b.uri || (!!a.id && a.id === b.id));
+
+/** Whether two lists hold the same tracks in the same order */
+export const isSameTrackList = (a: Track[], b: Track[]) =>
+  a.length === b.length && a.every((track, i) => isSameTrack(track, b[i]));
+
+const endedNaturally = ({ position, duration }: QueueProgress) =>
+  duration > 0 && duration - position < TRACK_END_MARGIN_MS;
+
+/**
+ * The step to take after the playing track changed to `current`
+ */
+export const syncQueueToTrack = (
+  items: Track[],
+  currentIndex: number,
+  current: Track,
+  lastProgress: QueueProgress
+): QueueSyncStep => {
+  if (isSameTrack(items[currentIndex], current)) return { type: 'none' };
+  if (isSameTrack(items[currentIndex + 1], current)) return { type: 'follow', index: currentIndex + 1 };
+
+  // Spotify followed the uri list it was given before the queue was edited - steer it back
+  if (endedNaturally(lastProgress) && items[currentIndex + 1]) return { type: 'play', index: currentIndex + 1 };
+
+  const index = items.findIndex(t => isSameTrack(t, current));
+  if (index !== -1) return { type: 'follow', index };
+  return { type: 'release' };
+};
+
+/**
+ * The step to take when playback stopped on the same track: if Spotify ran out of handed-over
+ * uris while the local queue still has more, play on from the next item.
+ * `lastHandedOver` is the end of the list Spotify was given (null if unknown, e.g. after a reload).
+ */
+export const continueAfterStop = (
+  items: Track[],
+  currentIndex: number,
+  current: Track,
+  { playing, position }: { playing: boolean; position: number },
+  lastProgress: QueueProgress,
+  lastHandedOver: Track | null
+): QueueSyncStep => {
+  if (playing || position > 0) return { type: 'none' };
+  if (!isSameTrack(items[currentIndex], current) || !items[currentIndex + 1]) return { type: 'none' };
+  // Mid-list, Spotify moves on by itself - a stop there is just the gap between two tracks
+  if (lastHandedOver && !isSameTrack(current, lastHandedOver)) return { type: 'none' };
+  if (!endedNaturally(lastProgress)) return { type: 'none' };
+  return { type: 'play', index: currentIndex + 1 };
+};
@@ -0,0 +1,90 @@
+/**
+ * Radio mode helpers
+ * Ranking and filtering of follow-up tracks once the queue runs low
+ *
+ * RULES:
+ * - Candidates suggested by several seeds rank higher (scores are summed)
+ * - Anything in the recent history or already queued is skipped
+ * - An artist can appear at most RADIO_MAX_PER_ARTIST times across the recent plays and the picks
+ */
+
+import type { Track } from '../types/spotify';
+
+/** Anything with artists - tracks or listening history entries */
+export type WithArtists = { artists: Array<{ id: string; name: string }> };
+
+export interface RadioCandidate {
+  track: Track;
+  /** Similarity to the seed (0-1) */
+  score: number;
+}
+
+export const RADIO_STORAGE_KEY = 'spotify_radio';
+
+/** Number of last-played tracks used as seeds */
+export const RADIO_SEED_COUNT = 3;
+
+/** Tracks added per refill */
+export const RADIO_BATCH_SIZE = 10;
+
+/** Refill once this many tracks or fewer are left */
+export const RADIO_REFILL_THRESHOLD = 2;
+
+export const RADIO_MAX_PER_ARTIST = 2;
+
+/** How many recent plays count toward the per-artist cap */
+export const RADIO_ARTIST_WINDOW = 15;
+
+/**
+ * Spread seeds across a longer list (e.g. a playlist) instead of taking only its start
+ */
+export const sampleSeeds = (tracks: Track[], count = RADIO_SEED_COUNT): Track[] => {
+  if (tracks.length <= count) return tracks;
+  const step = tracks.length / count;
+  return Array.from({ length: count }, (_, i) => tracks[Math.floor(i * step)]);
+};
+
+/**
+ * Combine the candidate lists of several seeds into one ranking
+ */
+export const mergeRadioCandidates = (lists: RadioCandidate[][]): RadioCandidate[] => {
+  const merged = new Map<string, RadioCandidate>();
+  lists.flat().forEach(({ track, score }) => {
+    const existing = merged.get(track.id);
+    merged.set(track.id, { track, score: (existing?.score || 0) + score });
+  });
+  return Array.from(merged.values()).sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Pick the next radio tracks from ranked candidates
+ */
+export const pickRadioTracks = (
+  candidates: RadioCandidate[],
+  { excludeIds, recentTracks, limit = RADIO_BATCH_SIZE, maxPerArtist = RADIO_MAX_PER_ARTIST }: {
+    excludeIds: Set<string>;
+    /** Most recent first */
+    recentTracks: WithArtists[];
+    limit?: number;
+    maxPerArtist?: number;
+  }
+): Track[] => {
+  const excluded = new Set(excludeIds);
+  const artistCounts = new Map<string, number>();
+  const countArtists = (track: WithArtists) => track.artists.forEach(artist => {
+    artistCounts.set(artist.id || artist.name, (artistCounts.get(artist.id || artist.name) || 0) + 1);
+  });
+  recentTracks.slice(0, RADIO_ARTIST_WINDOW).forEach(countArtists);
+
+  const picks: Track[] = [];
+  for (const { track } of candidates) {
+    if (picks.length >= limit) break;
+    if (!track.uri || excluded.has(track.id)) continue;
+    const overCap = track.artists.some(artist => (artistCounts.get(artist.id || artist.name) || 0) >= maxPerArtist);
+    if (overCap) continue;
+    picks.push(track);
+    excluded.add(track.id);
+    countArtists(track);
+  }
+  return picks;
+};
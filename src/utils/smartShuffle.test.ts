@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { smartShuffle } from './smartShuffle';
+import type { AudioFeatures } from '../services/recommendationEngine';
+import type { Track } from '../types/spotify';
+
+const track = (id: string, artist = id): Track => ({
+  id,
+  uri: `spotify:track:${id}`,
+  name: id,
+  artists: [{ id: artist, name: artist }] as Track['artists'],
+  duration_ms: 180000,
+  explicit: false,
+  external_urls: { spotify: '' },
+  href: '',
+  preview_url: null,
+  type: 'track'
+});
+
+/** Deterministic Math.random stand-in */
+const seeded = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+describe('smartShuffle', () => {
+  it('returns every track exactly once and leaves the input alone', () => {
+    const tracks = Array.from({ length: 20 }, (_, i) => track(`t${i}`, `artist${i % 4}`));
+    const input = [...tracks];
+
+    const result = smartShuffle(tracks, { random: seeded(7) });
+
+    expect(tracks).toEqual(input);
+    expect(result.map(t => t.id).sort()).toEqual(tracks.map(t => t.id).sort());
+  });
+
+  it('never plays one artist back to back when the artists are balanced', () => {
+    const tracks = ['x', 'y', 'z'].flatMap(artist => [1, 2, 3].map(i => track(`${artist}${i}`, artist)));
+
+    for (let seed = 1; seed <= 20; seed++) {
+      const result = smartShuffle(tracks, { random: seeded(seed) });
+      const clustered = result.some((t, i) => i > 0 && t.artists[0].id === result[i - 1].artists[0].id);
+      expect(clustered).toBe(false);
+    }
+  });
+
+  it('moves recently played tracks to the end, least recent first', () => {
+    const tracks = ['a', 'b', 'c', 'd'].map(id => track(id));
+    const recentPlays = new Map([['b', 2000], ['a', 1000]]);
+
+    const result = smartShuffle(tracks, { recentPlays, random: seeded(3) });
+
+    expect(result.slice(2).map(t => t.id)).toEqual(['a', 'b']);
+  });
+
+  it('swaps in a closer neighbour when smoothing transitions', () => {
+    const features: Record<string, Partial<AudioFeatures>> = {
+      calm: { energy: 0.1, tempo: 90 },
+      loud: { energy: 0.95, tempo: 170 },
+      mellow: { energy: 0.15, tempo: 95 }
+    };
+    const getFeatures = (id: string) => (features[id] as AudioFeatures) ?? null;
+    // With random() = 0 the balanced shuffle keeps single-track artists in input order
+    const tracks = ['calm', 'loud', 'mellow'].map(id => track(id));
+
+    expect(smartShuffle(tracks, { random: () => 0 }).map(t => t.id)).toEqual(['calm', 'loud', 'mellow']);
+    expect(smartShuffle(tracks, { random: () => 0, smoothTransitions: true, getFeatures }).map(t => t.id))
+      .toEqual(['calm', 'mellow', 'loud']);
+  });
+});
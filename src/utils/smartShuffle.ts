@@ -0,0 +1,111 @@
+/**
+ * Smart shuffle
+ * Client-side shuffle that spreads artists out and avoids recent repeats
+ *
+ * STEPS:
+ * 1. Recently played tracks are split off and go to the end, least recent first
+ * 2. Each group is "balanced" shuffled: every artist's tracks are spread evenly across
+ *    the list with a random offset, so one artist never clusters
+ * 3. Optionally, big energy / tempo jumps between neighbours are smoothed by swapping in
+ *    a closer track from just ahead (never creating back-to-back artists)
+ */
+
+import type { Track } from '../types/spotify';
+import type { AudioFeatures } from '../services/recommendationEngine';
+
+export interface SmartShuffleOptions {
+  /** Track id -> when it was last played (ms since epoch) */
+  recentPlays?: Map<string, number>;
+  /** Cached audio features lookup, needed for smoothing */
+  getFeatures?: (trackId: string) => AudioFeatures | null;
+  smoothTransitions?: boolean;
+  random?: () => number;
+}
+
+/** How far ahead smoothing looks for a better neighbour */
+const SMOOTHING_WINDOW = 4;
+
+/** Transitions closer than this are left alone */
+const SMOOTHING_THRESHOLD = 0.25;
+
+const artistKey = (track: Track) => track.artists[0]?.id || track.artists[0]?.name || track.id;
+
+const fisherYates = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Spread each artist's tracks evenly: track i of n gets position (i + offset) / n,
+ * with one random offset per artist plus a little jitter
+ */
+const balancedShuffle = (tracks: Track[], random: () => number): Track[] => {
+  const byArtist = new Map<string, Track[]>();
+  tracks.forEach(track => {
+    const key = artistKey(track);
+    byArtist.set(key, [...(byArtist.get(key) || []), track]);
+  });
+
+  const positioned: Array<{ track: Track; position: number }> = [];
+  byArtist.forEach(artistTracks => {
+    const n = artistTracks.length;
+    const offset = random() / n;
+    fisherYates(artistTracks, random).forEach((track, i) => {
+      const jitter = (random() - 0.5) * (0.2 / n);
+      positioned.push({ track, position: offset + i / n + jitter });
+    });
+  });
+
+  return positioned.sort((a, b) => a.position - b.position).map(item => item.track);
+};
+
+/** 0 = identical, ~1 = very different */
+const transitionDistance = (a: AudioFeatures, b: AudioFeatures) =>
+  Math.abs(a.energy - b.energy) * 0.6 + Math.min(1, Math.abs(a.tempo - b.tempo) / 60) * 0.4;
+
+const smoothTransitions = (tracks: Track[], getFeatures: (trackId: string) => AudioFeatures | null): Track[] => {
+  const result = [...tracks];
+  for (let i = 1; i < result.length; i++) {
+    const previous = getFeatures(result[i - 1].id);
+    const current = getFeatures(result[i].id);
+    if (!previous || !current || transitionDistance(previous, current) < SMOOTHING_THRESHOLD) continue;
+
+    let best = i;
+    let bestDistance = transitionDistance(previous, current);
+    for (let j = i + 1; j < Math.min(result.length, i + 1 + SMOOTHING_WINDOW); j++) {
+      const candidate = getFeatures(result[j].id);
+      if (!candidate || artistKey(result[j]) === artistKey(result[i - 1])) continue;
+      const distance = transitionDistance(previous, candidate);
+      if (distance < bestDistance) {
+        best = j;
+        bestDistance = distance;
+      }
+    }
+    if (best !== i) {
+      [result[i], result[best]] = [result[best], result[i]];
+    }
+  }
+  return result;
+};
+
+/**
+ * Shuffle tracks for playback. The input is not modified.
+ */
+export const smartShuffle = (tracks: Track[], options: SmartShuffleOptions = {}): Track[] => {
+  const { recentPlays = new Map(), getFeatures, random = Math.random } = options;
+
+  const fresh = tracks.filter(track => !recentPlays.has(track.id));
+  const recent = tracks
+    .filter(track => recentPlays.has(track.id))
+    .sort((a, b) => (recentPlays.get(a.id) || 0) - (recentPlays.get(b.id) || 0));
+
+  let shuffled = balancedShuffle(fresh, random);
+  if (options.smoothTransitions && getFeatures) {
+    shuffled = smoothTransitions(shuffled, getFeatures);
+  }
+  return [...shuffled, ...recent];
+};
@@ -0,0 +1,115 @@
+/**
+ * Spotify scope registry
+ * The OAuth scopes each feature needs - the one list both the client login and the auth
+ * server's /login request from. Shared with server/index.ts, so keep it free of browser APIs.
+ *
+ * RULES:
+ * - A feature lists every scope its requests need; scopes can appear in several features
+ * - requestedAtLogin features are asked for on first sign-in, the rest only when first used:
+ *   background reads skip them (hasFeature) and user actions prompt first (requireFeature)
+ * - Re-consent asks for the granted scopes plus the new ones - Spotify replaces the grant
+ *   with exactly what the authorize request lists
+ * - Unknown granted scopes (null) mean "assume granted": tokens from before scopes were
+ *   tracked shouldn't nag until a refresh reports the real grant
+ */
+
+export type ScopeFeatureId = 'profile' | 'playback' | 'history' | 'topItems' | 'library' | 'follow' | 'playlists';
+
+export interface ScopeFeature {
+  id: ScopeFeatureId;
+  label: string;
+  /** What stops working without it, shown in the consent prompt and Settings */
+  description: string;
+  scopes: string[];
+  requestedAtLogin: boolean;
+}
+
+export const SCOPE_FEATURES: Record<ScopeFeatureId, ScopeFeature> = {
+  profile: {
+    id: 'profile',
+    label: 'Profile',
+    description: 'Your name, avatar, country and plan',
+    scopes: ['user-read-private', 'user-read-email'],
+    requestedAtLogin: true
+  },
+  playback: {
+    id: 'playback',
+    label: 'Playback',
+    description: 'Play music in the browser and control your other devices',
+    scopes: ['user-read-playback-state', 'user-modify-playback-state', 'user-read-currently-playing', 'streaming'],
+    requestedAtLogin: true
+  },
+  history: {
+    id: 'history',
+    label: 'Recently played',
+    description: 'Your recent plays on the dashboard and in recommendations',
+    scopes: ['user-read-recently-played'],
+    requestedAtLogin: true
+  },
+  topItems: {
+    id: 'topItems',
+    label: 'Top tracks & artists',
+    description: 'Personalised recommendations based on what you play most',
+    scopes: ['user-top-read'],
+    requestedAtLogin: true
+  },
+  library: {
+    id: 'library',
+    label: 'Liked songs & saved albums',
+    description: 'See, like and save tracks and albums',
+    scopes: ['user-library-read', 'user-library-modify'],
+    requestedAtLogin: false
+  },
+  follow: {
+    id: 'follow',
+    label: 'Followed artists',
+    description: 'See and follow artists',
+    scopes: ['user-follow-read', 'user-follow-modify'],
+    requestedAtLogin: false
+  },
+  playlists: {
+    id: 'playlists',
+    label: 'Playlists',
+    description: 'See your private playlists, create playlists and add tracks to them',
+    scopes: ['playlist-read-private', 'playlist-read-collaborative', 'playlist-modify-public', 'playlist-modify-private'],
+    requestedAtLogin: false
+  }
+};
+
+export const isScopeFeatureId = (value: string): value is ScopeFeatureId =>
+  Object.prototype.hasOwnProperty.call(SCOPE_FEATURES, value);
+
+/**
+ * The de-duplicated scopes for a set of features, plus any already granted
+ */
+export const scopesFor = (features: ScopeFeatureId[], granted: string[] = []): string[] =>
+  Array.from(new Set([...granted, ...features.flatMap(id => SCOPE_FEATURES[id].scopes)]));
+
+/** Scopes asked for on first sign-in */
+export const LOGIN_SCOPES = scopesFor(
+  (Object.keys(SCOPE_FEATURES) as ScopeFeatureId[]).filter(id => SCOPE_FEATURES[id].requestedAtLogin)
+);
+
+/** Split the space-separated `scope` of a token response */
+export const parseScopes = (scope: string | null | undefined): string[] =>
+  (scope || '').split(/\s+/).filter(Boolean);
+
+/**
+ * Scopes a feature needs that aren't granted (none when the grant is unknown)
+ */
+export const missingScopes = (feature: ScopeFeatureId, granted: string[] | null): string[] =>
+  granted === null ? [] : SCOPE_FEATURES[feature].scopes.filter(scope => !granted.includes(scope));
+
+/**
+ * The feature a Web API endpoint belongs to, for explaining a 403. Takes a full URL or a path.
+ */
+export const featureForEndpoint = (url: string): ScopeFeatureId | null => {
+  const path = url.replace(/^https?:\/\/[^/]+/, '').replace(/^\/v1/, '').split('?')[0];
+  if (/^\/me\/player\/recently-played/.test(path)) return 'history';
+  if (/^\/me\/player/.test(path)) return 'playback';
+  if (/^\/me\/top\//.test(path)) return 'topItems';
+  if (/^\/me\/(tracks|albums|shows|episodes)/.test(path)) return 'library';
+  if (/^\/me\/following/.test(path)) return 'follow';
+  if (/^\/(me|users\/[^/]+)\/playlists/.test(path) || /^\/playlists\//.test(path)) return 'playlists';
+  return null;
+};
@@ -0,0 +1,79 @@
+/**
+ * User-scoped storage
+ * Keys for caches that belong to one Spotify account, so switching accounts never shows
+ * one user's data to another
+ *
+ * RULES:
+ * - userKey(base) is `${base}:${userId}` for the active account, `${base}:guest` in guest mode
+ *   (demo library caches stay out of every real account), and the bare base while nobody is
+ *   signed in (mid-login before the profile is known)
+ * - Build the key at call time, never at module load - the active account can change
+ * - Every per-user localStorage key is listed in USER_SCOPED_KEYS so an account's data can
+ *   be migrated and wiped; add new per-user keys there
+ */
+
+/** localStorage key holding the active account's Spotify user id */
+export const ACTIVE_ACCOUNT_KEY = 'spotify_active_account';
+
+/** localStorage marker set while the app runs in guest mode */
+export const GUEST_MARKER_KEY = 'spotify_is_guest';
+
+/** Namespace of guest mode's caches, in place of a user id */
+export const GUEST_NAMESPACE = 'guest';
+
+/** Base names of all per-user localStorage keys */
+export const USER_SCOPED_KEYS = [
+  // Library cache (context/library)
+  'spotify_library_playlists',
+  'spotify_library_tracks',
+  'spotify_library_albums',
+  'spotify_library_artists',
+  'spotify_library_timestamps',
+  // Recommendation engine
+  'recommendation-engine-features',
+  'recommendation-engine-tracks',
+  'recommendation-engine-preferences',
+  'recommendation-engine-temporal-preferences',
+  'recommendation-engine-history',
+  // Analysis
+  'local_analysis_result',
+  'local-analysis-cache',
+  'local-analysis-tracks',
+  'music_intelligence_profile',
+  // Search, player and listening state
+  'recentSearches',
+  'spotify_player_state',
+  'spotify_player_queue',
+  'spotify_radio',
+  'spotify_track_bookmarks',
+  'spotify_history_pending',
+  // Library changes waiting for the next sign-in (sessionRecoveryService)
+  'spotify_pending_mutations'
+];
+
+export const getActiveAccountId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_ACCOUNT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const isGuestSession = (): boolean => {
+  try {
+    return localStorage.getItem(GUEST_MARKER_KEY) === '1';
+  } catch {
+    return false;
+  }
+};
+
+/** The storage key for `base` in a given account's namespace */
+export const keyForUser = (base: string, userId: string): string => `${base}:${userId}`;
+
+/**
+ * The storage key for `base` in the active account's namespace
+ */
+export const userKey = (base: string): string => {
+  const userId = getActiveAccountId() ?? (isGuestSession() ? GUEST_NAMESPACE : null);
+  return userId ? keyForUser(base, userId) : base;
+};